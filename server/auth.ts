@@ -0,0 +1,469 @@
+import { randomBytes } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { HttpError, RequestContext, getClientAddress, getCookie, setCookie } from './http';
+import { getObjectUrl } from './config/aws';
+import { getUserSelfiePrefix } from './storage/media';
+import { attendeeClaims, attendeeImages, eventMembers, eventPasswords, events, users } from './repositories';
+import { AttemptLimiter } from './services/rateLimit';
+import { createLinkToken, verifyLinkToken } from './services/linkTokens';
+import { isLiveSelfie } from './services/liveness';
+import { SESSION_COOKIE_MAX_AGE_SECONDS, createSession, readSession } from './services/sessions';
+import type { Session } from './services/sessions';
+import { signInProviders } from './identity';
+import { getEventStatus } from '../shared/eventStatus';
+import { normalizeEventCode } from '../shared/eventCodes';
+import { getEventAccess, isOnAllowList } from '../shared/eventAccess';
+import { getEventRole, hasEventPermission, isEventOwner } from '../shared/eventRoles';
+import { normalizeSignInAddress } from '../shared/signIn';
+import type { EventPermission } from '../shared/eventRoles';
+import type { EventLookup } from '../shared/repositories';
+import type { EventData, EventRole, EventStatus, SessionUser, SignInMethod, SignInProof } from '../shared/types';
+
+// Users sign in with Google, a link emailed to them or a code texted to them
+// (see identity/). Once the API server has verified that, it keeps them signed
+// in with a session cookie (see services/sessions). Nothing the browser says
+// about who it is is trusted otherwise.
+const SESSION_COOKIE = 'session';
+
+// Sessions already read, so each request verifies and renews its cookie once
+const requestSessions = new WeakMap<IncomingMessage, Session | null>();
+
+const getRequestSession = (ctx: RequestContext): Session | null => {
+  if (requestSessions.has(ctx.req)) return requestSessions.get(ctx.req) || null;
+  const token = getCookie(ctx.req, SESSION_COOKIE);
+  const session = token ? readSession(token) : null;
+  if (session?.renewed) {
+    setCookie(ctx, SESSION_COOKIE, session.token, SESSION_COOKIE_MAX_AGE_SECONDS);
+  }
+  requestSessions.set(ctx.req, session);
+  return session;
+};
+
+export const getRequestUser = (ctx: RequestContext): SessionUser | null => getRequestSession(ctx)?.user || null;
+
+export const getRequestUserEmail = (ctx: RequestContext): string | null => getRequestUser(ctx)?.email || null;
+
+export const requireUserEmail = (ctx: RequestContext): string => {
+  const email = getRequestUserEmail(ctx);
+  if (email) return email;
+  // The browser keeps the cookie past the session, so the app can tell the
+  // user they were signed out rather than never signed in
+  if (getCookie(ctx.req, SESSION_COOKIE)) {
+    setCookie(ctx, SESSION_COOKIE, '', 0);
+    throw new HttpError(401, 'Your session has expired. Please sign in again.', 'SESSION_EXPIRED');
+  }
+  throw new HttpError(401, 'Sign in required', 'UNAUTHENTICATED');
+};
+
+/**
+ * Checks the request comes from the user whose data it reads or changes
+ * @param ctx The request context
+ * @param userId The user id (their email) the request names
+ * @returns The signed-in user's email
+ */
+export const requireSelf = (ctx: RequestContext, userId: string | null | undefined): string => {
+  const email = requireUserEmail(ctx);
+  if (!userId || userId.trim().toLowerCase() !== email) {
+    throw new HttpError(403, 'You can only access your own account', 'NOT_YOUR_ACCOUNT');
+  }
+  return email;
+};
+
+const SIGN_IN_FAILURES = {
+  google: 'Your Google sign-in could not be verified. Please try again.',
+  email: 'This sign-in link has expired or was already used. Please ask for a new one.',
+  phone: 'That code is not right or has expired'
+} satisfies Record<SignInMethod, string>;
+
+// Guests can find their photos without signing in. Their browser then gets a
+// random guest id in a cookie, and their attendee records are kept under it
+// until they sign in, when the records move to their account.
+const GUEST_COOKIE = 'guest';
+const GUEST_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Guest ids already read, or given out, during each request
+const requestGuests = new WeakMap<IncomingMessage, string | null>();
+
+export const getRequestGuestId = (ctx: RequestContext): string | null => {
+  if (requestGuests.has(ctx.req)) return requestGuests.get(ctx.req) || null;
+  const token = getCookie(ctx.req, GUEST_COOKIE);
+  const guestId = (token && verifyLinkToken<{ guest?: string }>(token)?.guest) || null;
+  requestGuests.set(ctx.req, guestId);
+  return guestId;
+};
+
+// The browser's guest id, giving it one if it has none yet
+export const startGuestSession = (ctx: RequestContext): string => {
+  const existing = getRequestGuestId(ctx);
+  if (existing) return existing;
+  const guestId = `guest-${randomBytes(16).toString('base64url')}`;
+  setCookie(ctx, GUEST_COOKIE, createLinkToken({ guest: guestId }, GUEST_TTL_SECONDS).token, GUEST_TTL_SECONDS);
+  requestGuests.set(ctx.req, guestId);
+  return guestId;
+};
+
+// Whose attendee records the request is for: the signed-in user, or else the browser's guest id
+export const getRequestAttendeeId = (ctx: RequestContext): string | null =>
+  getRequestUserEmail(ctx) || getRequestGuestId(ctx);
+
+/**
+ * Checks the request comes from the attendee whose records it reads or
+ * changes: the signed-in user, or a guest on the browser holding the guest id
+ * @param ctx The request context
+ * @param userId The user id or guest id the request names
+ * @returns The id
+ */
+export const requireAttendee = (ctx: RequestContext, userId: string | null | undefined): string => {
+  const guestId = getRequestGuestId(ctx);
+  if (guestId && userId === guestId) return guestId;
+  return requireSelf(ctx, userId);
+};
+
+// Moves what the browser found as a guest to the account it signed in to.
+// The guest id is dropped afterwards, so the next guest on a shared device
+// starts afresh; if the move fails it is kept and retried at the next sign-in.
+const claimGuestRecords = async (ctx: RequestContext, userId: string) => {
+  const guestId = getRequestGuestId(ctx);
+  if (!guestId) return;
+  try {
+    const claimed = await attendeeClaims.claim(guestId, userId);
+    if (claimed > 0) console.log(`Moved ${claimed} guest records from ${guestId} to ${userId}`);
+    setCookie(ctx, GUEST_COOKIE, '', 0);
+    requestGuests.set(ctx.req, null);
+  } catch (error) {
+    console.error(`Failed to move guest records from ${guestId} to ${userId}:`, error);
+  }
+};
+
+/**
+ * Sends a one-time sign-in link (email) or code (phone) to an address
+ * @param ctx The request context
+ * @param method 'email' or 'phone'
+ * @param address The email address or phone number as typed
+ * @returns The address it was sent to, normalized
+ */
+export const sendSignInChallenge = async (
+  ctx: RequestContext,
+  method: Exclude<SignInMethod, 'google'>,
+  address: string
+): Promise<string> => {
+  const normalized = normalizeSignInAddress(method, address);
+  if (!normalized) {
+    throw new HttpError(400, method === 'email'
+      ? 'Enter a valid email address'
+      : 'Enter your phone number with its country code, e.g. +1 555 010 0199', 'INVALID_ADDRESS');
+  }
+  const client = getClientAddress(ctx.req);
+  rejectIfLimited(ctx, challengesSent, normalized, 'sign-in requests');
+  rejectIfLimited(ctx, challengeRequests, client, 'sign-in requests');
+  // Every send counts, so nobody can flood an inbox or run up the SMS bill
+  challengesSent.recordFailure(normalized);
+  challengeRequests.recordFailure(client);
+  await signInProviders[method].sendChallenge!(normalized);
+  return normalized;
+};
+
+// Normalizes the address in email and phone proofs, or null when it is not one
+const normalizeProof = (proof: SignInProof): SignInProof | null => {
+  if (proof.method === 'google') return proof;
+  const address = normalizeSignInAddress(proof.method, proof.method === 'email' ? proof.email : proof.phone);
+  if (!address) return null;
+  return proof.method === 'email' ? { ...proof, email: address } : { ...proof, phone: address };
+};
+
+const verifyProof = (proof: SignInProof): Promise<SessionUser | null> => {
+  switch (proof.method) {
+    case 'google': return signInProviders.google.verify(proof);
+    case 'email': return signInProviders.email.verify(proof);
+    case 'phone': return signInProviders.phone.verify(proof);
+  }
+};
+
+/**
+ * Signs a user in with a Google credential, an emailed link's token or a texted code
+ * @param ctx The request context; the session cookie is set on its response
+ * @param proof What the user signs in with
+ * @returns The verified user
+ */
+export const signIn = async (ctx: RequestContext, proof: SignInProof): Promise<SessionUser> => {
+  const client = getClientAddress(ctx.req);
+  rejectIfLimited(ctx, signInAttempts, client, 'failed sign-ins');
+
+  const normalized = normalizeProof(proof);
+  const verified = normalized ? await verifyProof(normalized) : null;
+  if (!verified) {
+    signInAttempts.recordFailure(client);
+    throw new HttpError(401, SIGN_IN_FAILURES[proof.method], 'INVALID_CREDENTIAL');
+  }
+  // Link and code sign-ins do not come with a name; use the one on their profile
+  const user = verified.name ? verified : { ...verified, name: (await users.get(verified.email))?.name || '' };
+
+  const session = createSession(user);
+  setCookie(ctx, SESSION_COOKIE, session.token, SESSION_COOKIE_MAX_AGE_SECONDS);
+  requestSessions.set(ctx.req, session);
+  await claimGuestRecords(ctx, user.email);
+  return user;
+};
+
+export const signOut = (ctx: RequestContext) => {
+  setCookie(ctx, SESSION_COOKIE, '', 0);
+  requestSessions.set(ctx.req, null);
+};
+
+// The requesting user's role for an event (see shared/eventRoles), or null
+export const getRequestEventRole = async (ctx: RequestContext, event: EventData): Promise<EventRole | null> => {
+  const email = getRequestUserEmail(ctx);
+  if (!email) return null;
+  if (isEventOwner(event, email)) return 'owner';
+  return getEventRole(event, email, await eventMembers.get(event.id, email));
+};
+
+/**
+ * Loads an event and checks the requesting user's role for it allows something
+ * @param ctx The request context
+ * @param eventId The event to check
+ * @param permission What they want to do
+ * @param lookup Whether a deleted event will do, e.g. to restore it
+ * @returns The event and their role
+ */
+export const requireEventPermission = async (
+  ctx: RequestContext,
+  eventId: string,
+  permission: EventPermission,
+  lookup?: EventLookup
+): Promise<{ event: EventData; role: EventRole }> => {
+  requireUserEmail(ctx);
+  const event = await events.get(eventId, lookup);
+  if (!event) {
+    throw new HttpError(404, `Event ${eventId} not found`, 'EVENT_NOT_FOUND');
+  }
+  const role = await getRequestEventRole(ctx, event);
+  if (!role || !hasEventPermission(role, permission)) {
+    throw new HttpError(403, 'Your role for this event does not allow this', 'NOT_EVENT_ORGANIZER');
+  }
+  return { event, role };
+};
+
+/**
+ * Loads an event and checks the requesting user organizes it, as its owner or
+ * a co-organizer
+ * @param ctx The request context
+ * @param eventId The event to check
+ * @param lookup Whether a deleted event will do
+ * @returns The event
+ */
+export const requireEventOrganizer = async (
+  ctx: RequestContext,
+  eventId: string,
+  lookup?: EventLookup
+): Promise<EventData> => (await requireEventPermission(ctx, eventId, 'manage', lookup)).event;
+
+// Wrong event codes a client may enter within the window before it has to wait
+const codeLookups = new AttemptLimiter(20, 15 * 60 * 1000);
+
+// Wrong passwords a client may enter for one event within the window
+const passwordAttempts = new AttemptLimiter(10, 15 * 60 * 1000);
+
+// Failed sign-ins (wrong codes, used links, bad credentials) a client may make
+// within the window. Each code also stops working after a few wrong guesses.
+const signInAttempts = new AttemptLimiter(30, 15 * 60 * 1000);
+
+// Sign-in links and codes sent to one address within the window
+const challengesSent = new AttemptLimiter(5, 15 * 60 * 1000);
+
+// Sign-in links and codes one client may ask for within the window. Guests at
+// a venue often share its network, so this is looser than the per-address limit.
+const challengeRequests = new AttemptLimiter(30, 15 * 60 * 1000);
+
+// Turns the client away with a 429 while the limiter makes it wait
+export const rejectIfLimited = (ctx: RequestContext, limiter: AttemptLimiter, key: string, what: string) => {
+  const retryAfter = limiter.retryAfter(key);
+  if (retryAfter > 0) {
+    ctx.res.setHeader('Retry-After', String(retryAfter));
+    throw new HttpError(
+      429,
+      `Too many ${what}. Please try again in ${Math.ceil(retryAfter / 60)} minutes.`,
+      'TOO_MANY_ATTEMPTS'
+    );
+  }
+};
+
+/**
+ * Finds the event a guest asked for, by its id or by its code as typed (see
+ * shared/eventCodes). Clients that keep asking for events that do not exist
+ * are turned away for a while, so codes cannot be walked.
+ * @param ctx The request context
+ * @param code Event id or code
+ * @returns The event
+ */
+export const requireEventByCode = async (ctx: RequestContext, code: string): Promise<EventData> => {
+  const client = getClientAddress(ctx.req);
+  rejectIfLimited(ctx, codeLookups, client, 'wrong event codes');
+
+  const normalized = normalizeEventCode(code);
+  const event = await events.get(code) || (normalized && normalized !== code ? await events.get(normalized) : null);
+  if (!event) {
+    codeLookups.recordFailure(client);
+    throw new HttpError(404, `Event ${code} not found`, 'EVENT_NOT_FOUND');
+  }
+  return event;
+};
+
+// How long a browser stays let into a password protected event
+const EVENT_ACCESS_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const eventAccessCookie = (eventId: string) => `event_access_${encodeURIComponent(eventId)}`;
+
+const hasEventAccessCookie = (ctx: RequestContext, eventId: string) => {
+  const token = getCookie(ctx.req, eventAccessCookie(eventId));
+  return Boolean(token && verifyLinkToken<{ eventAccess?: string }>(token)?.eventAccess === eventId);
+};
+
+/**
+ * Checks a guest's password for a password protected event and, when it is
+ * right, lets this browser in with an HttpOnly cookie
+ * @param ctx The request context
+ * @param code Event id or code
+ * @param password The password as entered
+ * @returns The event
+ */
+export const unlockEvent = async (ctx: RequestContext, code: string, password: string): Promise<EventData> => {
+  const event = await requireEventByCode(ctx, code);
+  if (getEventAccess(event).mode !== 'password') return event;
+
+  const attemptKey = `${getClientAddress(ctx.req)} ${event.id}`;
+  rejectIfLimited(ctx, passwordAttempts, attemptKey, 'wrong passwords');
+  if (!await eventPasswords.verify(event.id, password)) {
+    passwordAttempts.recordFailure(attemptKey);
+    throw new HttpError(401, 'That password is not right', 'WRONG_EVENT_PASSWORD');
+  }
+
+  const { token } = createLinkToken({ eventAccess: event.id }, EVENT_ACCESS_TTL_SECONDS);
+  setCookie(ctx, eventAccessCookie(event.id), token, EVENT_ACCESS_TTL_SECONDS);
+  return event;
+};
+
+// 'event' to find your own photos; 'gallery' to browse all of them
+export type EventAccessScope = 'event' | 'gallery';
+
+/**
+ * Finds the event a guest asked for by its code and checks its access policy
+ * (see shared/eventAccess) lets them in. Members always get in, and every
+ * role sees the whole gallery.
+ * @param ctx The request context
+ * @param code Event id or code
+ * @param scope What the guest wants to see
+ * @returns The event
+ */
+export const requireEventAccess = async (
+  ctx: RequestContext,
+  code: string,
+  scope: EventAccessScope = 'event'
+): Promise<EventData> => {
+  const event = await requireEventByCode(ctx, code);
+  if (await getRequestEventRole(ctx, event)) return event;
+  const email = getRequestUserEmail(ctx);
+
+  const { mode } = getEventAccess(event);
+  if (mode === 'password' && !hasEventAccessCookie(ctx, event.id)) {
+    throw new HttpError(401, 'This event is password protected', 'EVENT_PASSWORD_REQUIRED');
+  }
+  if (mode === 'invite') {
+    if (!email) {
+      throw new HttpError(401, 'Sign in to join this invite-only event', 'UNAUTHENTICATED');
+    }
+    // Only the address they signed in with counts: it is the one identity
+    // verified, while the profile's email and mobile are whatever they typed
+    if (!isOnAllowList(event, [email])) {
+      throw new HttpError(403, 'You are not on the guest list for this event', 'NOT_INVITED');
+    }
+  }
+  if (scope === 'gallery' && mode !== 'public') {
+    throw new HttpError(403, 'Only the organizer can browse all photos of this event', 'GALLERY_PRIVATE');
+  }
+  return event;
+};
+
+// Why an event that is not live turns guests away
+const NOT_LIVE_ERRORS: Record<Exclude<EventStatus, 'live'>, { message: string; code: string }> = {
+  draft: { message: 'This event is not open yet', code: 'EVENT_NOT_OPEN' },
+  closed: { message: 'This event no longer accepts selfies', code: 'EVENT_CLOSED' },
+  archived: { message: 'This event has been archived', code: 'EVENT_ARCHIVED' }
+};
+
+/**
+ * Loads an event the guest may get into and checks it is live, i.e. takes new selfies
+ * @param ctx The request context
+ * @param eventId The event to check
+ * @returns The event
+ */
+export const requireLiveEvent = async (ctx: RequestContext, eventId: string): Promise<EventData> => {
+  const event = await requireEventAccess(ctx, eventId);
+
+  const status = getEventStatus(event);
+  if (status !== 'live') {
+    const { message, code } = NOT_LIVE_ERRORS[status];
+    throw new HttpError(409, message, code);
+  }
+  return event;
+};
+
+/**
+ * Checks the caller may match a selfie: guests only with one taken through the
+ * live camera check, so nobody can search an event for someone else by
+ * uploading their photo. Signed-in users may also match photos from their gallery.
+ * @param livenessToken From the liveness check, vouching for the selfie
+ */
+export const requireLiveSelfie = (ctx: RequestContext, selfieKey: string, livenessToken: string | undefined) => {
+  if (getRequestUserEmail(ctx) || isLiveSelfie(livenessToken, selfieKey)) return;
+  throw new HttpError(403, 'Take a live selfie with your camera to find your photos', 'LIVENESS_REQUIRED');
+};
+
+/**
+ * Whether a selfie is the attendee's own: uploaded to their selfie folder, or
+ * the selfie of one of their attendee records, such as those moved to their
+ * account from their guest id when they signed in
+ * @param attendeeId The user's email or guest id
+ * @param key Key of the selfie in the bucket
+ */
+export const isOwnSelfie = async (attendeeId: string, key: string): Promise<boolean> => {
+  if (key.startsWith(getUserSelfiePrefix(attendeeId))) return true;
+  const url = getObjectUrl(key);
+  return (await attendeeImages.listByUser(attendeeId)).some(record => record.selfieURL === url);
+};
+
+// users/<userId>/... and events/shared/<eventId>/<folder>...
+const USER_MEDIA_KEY = /^users\/([^/]+)\//;
+const EVENT_MEDIA_KEY = /^events\/shared\/([^/]+)\/([^/]+)/;
+
+/**
+ * Checks the caller may see a stored object: users and guests their own
+ * media and selfies (see isOwnSelfie), event covers anyone who may get into the event, and other event
+ * media those who may browse its gallery. Guests of private galleries may
+ * still see their own selfie and the photos they matched.
+ * @param ctx The request context
+ * @param key Key of the object in the bucket
+ */
+export const requireMediaAccess = async (ctx: RequestContext, key: string): Promise<void> => {
+  const userMedia = USER_MEDIA_KEY.exec(key);
+  if (userMedia) {
+    const attendeeId = getRequestAttendeeId(ctx);
+    if (attendeeId && await isOwnSelfie(attendeeId, key)) return;
+    requireAttendee(ctx, userMedia[1]);
+    return;
+  }
+
+  const eventMedia = EVENT_MEDIA_KEY.exec(key);
+  if (!eventMedia) {
+    throw new HttpError(403, 'This file cannot be shared', 'MEDIA_FORBIDDEN');
+  }
+  const [, eventId, folder] = eventMedia;
+  const event = await requireEventAccess(ctx, eventId);
+  if (folder.startsWith('cover')) return;
+
+  const attendeeId = getRequestAttendeeId(ctx);
+  const record = attendeeId ? await attendeeImages.get(attendeeId, event.id) : null;
+  const url = getObjectUrl(key);
+  if (record && (record.selfieURL === url || record.matchedImages.includes(url))) return;
+  await requireEventAccess(ctx, event.id, 'gallery');
+};
@@ -0,0 +1,91 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { RekognitionClient } from '@aws-sdk/client-rekognition';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+// AWS credentials live only on the server. When AWS_ACCESS_KEY_ID is not set
+// the SDK falls back to its default provider chain (instance role, profile, ...).
+export const region = process.env.AWS_REGION || 'ap-south-1';
+
+// AWS_MODE=local replaces S3, DynamoDB and Rekognition with local stand-ins
+// (files on disk, in-memory tables and a fake face matcher) so the app runs
+// without an AWS account. The SDK clients below are then never called.
+export const isLocalMode = process.env.AWS_MODE === 'local';
+
+// Local mode only: where objects are stored, and the API URL serving them
+export const LOCAL_DATA_DIR = process.env.LOCAL_DATA_DIR || '.local-data';
+export const LOCAL_OBJECTS_PATH = '/api/local-objects/';
+export const LOCAL_OBJECTS_URL =
+  `${process.env.LOCAL_API_URL || `http://localhost:${process.env.PORT || 8787}`}${LOCAL_OBJECTS_PATH}`;
+
+const validateEnvVariables = () => {
+  const bucketName = process.env.S3_BUCKET_NAME || (isLocalMode ? 'chitralai-local' : undefined);
+  if (!bucketName) {
+    throw new Error('Missing required environment variables: S3_BUCKET_NAME');
+  }
+  return { bucketName };
+};
+
+const { bucketName } = validateEnvVariables();
+
+const credentials = process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY
+  ? {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY
+    }
+  : undefined;
+
+export const s3Client = new S3Client({
+  region,
+  credentials,
+  maxAttempts: 3,
+  retryMode: 'adaptive',
+  customUserAgent: 'ChitralAI/1.0'
+});
+
+export const rekognitionClient = new RekognitionClient({
+  region,
+  credentials,
+  maxAttempts: 3,
+  retryMode: 'adaptive'
+});
+
+// Create a document client for easier interaction with DynamoDB
+export const docClient = DynamoDBDocumentClient.from(
+  new DynamoDBClient({ region, credentials })
+);
+
+export const S3_BUCKET_NAME = bucketName;
+
+// Public URL of an object in the media bucket
+export const getObjectUrl = (key: string) =>
+  `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${key}`;
+
+// Inverse of getObjectUrl; also accepts regional and presigned URLs of the
+// bucket, and in local mode the signed URLs of the local object store.
+// Returns null for URLs outside the bucket.
+export const getKeyFromUrl = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const bucketHosts = [
+    `${S3_BUCKET_NAME}.s3.amazonaws.com`,
+    `${S3_BUCKET_NAME}.s3.${region}.amazonaws.com`
+  ];
+  const isLocalObject = isLocalMode && parsed.pathname.startsWith(LOCAL_OBJECTS_PATH);
+  if (!isLocalObject && (!bucketHosts.includes(parsed.hostname) || parsed.pathname.length <= 1)) {
+    return null;
+  }
+
+  const path = parsed.pathname.substring(isLocalObject ? LOCAL_OBJECTS_PATH.length : 1);
+  if (!path) return null;
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
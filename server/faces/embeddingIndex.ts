@@ -0,0 +1,182 @@
+import { appendFile, mkdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { BoundingBox } from '../../shared/types';
+
+// Vector index for the local face matcher. Face embeddings are biometric
+// data, so they are kept in files on the API server's own disk, never in AWS.
+// Each collection is one file of JSON lines, one face per line, read into
+// memory on first use. Only one API server may use the directory, as each
+// keeps its own copy in memory.
+
+export interface FaceEmbedding {
+  faceId: string;
+  imageKey: string;
+  externalImageId: string;
+  boundingBox?: BoundingBox;
+  confidence?: number;
+  // Unit length, so the dot product of two embeddings is their cosine similarity
+  embedding: Float32Array;
+}
+
+export interface NearestFace {
+  faceId: string;
+  // Cosine similarity, -1 to 1
+  cosine: number;
+}
+
+export interface FaceEmbeddings {
+  // Resolves with false when the collection already existed
+  createCollection(collectionId: string): Promise<boolean>;
+  hasCollection(collectionId: string): Promise<boolean>;
+  // Removes the collection and its faces; resolves with false when it did not exist
+  deleteCollection(collectionId: string): Promise<boolean>;
+  get(collectionId: string, faceId: string): Promise<FaceEmbedding | null>;
+  add(collectionId: string, faces: FaceEmbedding[]): Promise<void>;
+  remove(collectionId: string, faceIds: string[]): Promise<void>;
+  // Faces in the collection closest to the embedding, most similar first. A
+  // brute-force scan, which is fast enough for the faces of one event.
+  nearest(collectionId: string, embedding: Float32Array, minCosine: number, limit: number): Promise<NearestFace[]>;
+}
+
+interface FaceEmbeddingLine extends Omit<FaceEmbedding, 'embedding'> {
+  // Float32 values, base64 encoded
+  embedding: string;
+}
+
+const encodeEmbedding = (embedding: Float32Array) =>
+  Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength).toString('base64');
+
+const decodeEmbedding = (encoded: string) => {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copied, as Float32Array needs an aligned offset
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+const toLine = (face: FaceEmbedding) =>
+  `${JSON.stringify({ ...face, embedding: encodeEmbedding(face.embedding) } satisfies FaceEmbeddingLine)}\n`;
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const errorCode = (error: unknown) => (error as NodeJS.ErrnoException | null)?.code;
+
+export class FileEmbeddingIndex implements FaceEmbeddings {
+  private dir: string;
+  // Collections read so far, by id
+  private collections = new Map<string, Map<string, FaceEmbedding>>();
+  // Writes to each collection's file run one after another
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  async createCollection(collectionId: string) {
+    await mkdir(this.dir, { recursive: true });
+    return this.write(collectionId, async () => {
+      try {
+        await writeFile(this.fileOf(collectionId), '', { flag: 'wx' });
+        this.collections.set(collectionId, new Map());
+        return true;
+      } catch (error) {
+        if (errorCode(error) === 'EEXIST') return false;
+        throw error;
+      }
+    });
+  }
+
+  async hasCollection(collectionId: string) {
+    if (this.collections.has(collectionId)) return true;
+    try {
+      await stat(this.fileOf(collectionId));
+      return true;
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  deleteCollection(collectionId: string) {
+    return this.write(collectionId, async () => {
+      const existed = await this.hasCollection(collectionId);
+      await rm(this.fileOf(collectionId), { force: true });
+      this.collections.delete(collectionId);
+      return existed;
+    });
+  }
+
+  async get(collectionId: string, faceId: string) {
+    return (await this.load(collectionId)).get(faceId) || null;
+  }
+
+  async add(collectionId: string, faces: FaceEmbedding[]) {
+    if (faces.length === 0) return;
+    await this.write(collectionId, async () => {
+      const collection = await this.load(collectionId);
+      await appendFile(this.fileOf(collectionId), faces.map(toLine).join(''));
+      faces.forEach(face => collection.set(face.faceId, face));
+    });
+  }
+
+  // Rewrites the file without the faces; photos are seldom deleted
+  async remove(collectionId: string, faceIds: string[]) {
+    if (faceIds.length === 0) return;
+    await this.write(collectionId, async () => {
+      const collection = await this.load(collectionId);
+      faceIds.forEach(faceId => collection.delete(faceId));
+      const file = this.fileOf(collectionId);
+      await writeFile(`${file}.tmp`, Array.from(collection.values(), toLine).join(''));
+      await rename(`${file}.tmp`, file);
+    });
+  }
+
+  async nearest(collectionId: string, embedding: Float32Array, minCosine: number, limit: number) {
+    return Array.from((await this.load(collectionId)).values())
+      .map(face => ({ faceId: face.faceId, cosine: dot(embedding, face.embedding) }))
+      .filter(face => face.cosine >= minCosine)
+      .sort((a, b) => b.cosine - a.cosine)
+      .slice(0, limit);
+  }
+
+  // Collection ids only use [a-zA-Z0-9_.-], so they are safe file names
+  private fileOf(collectionId: string) {
+    if (!/^[\w.-]+$/.test(collectionId) || /^\.+$/.test(collectionId)) {
+      throw new Error(`Invalid collection id ${collectionId}`);
+    }
+    return join(this.dir, `${collectionId}.jsonl`);
+  }
+
+  private async load(collectionId: string) {
+    const loaded = this.collections.get(collectionId);
+    if (loaded) return loaded;
+
+    let contents: string;
+    try {
+      contents = await readFile(this.fileOf(collectionId), 'utf8');
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') return new Map<string, FaceEmbedding>();
+      throw error;
+    }
+    const collection = new Map<string, FaceEmbedding>();
+    for (const line of contents.split('\n')) {
+      if (!line) continue;
+      const face = JSON.parse(line) as FaceEmbeddingLine;
+      collection.set(face.faceId, { ...face, embedding: decodeEmbedding(face.embedding) });
+    }
+    // Another call may have read it meanwhile; keep the first copy
+    const existing = this.collections.get(collectionId);
+    if (existing) return existing;
+    this.collections.set(collectionId, collection);
+    return collection;
+  }
+
+  private write<T>(collectionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(collectionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writes.set(collectionId, next);
+    return next;
+  }
+}
@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import type { ObjectStore } from '../storage/objectStore';
+import type { BoundingBox } from '../../shared/types';
+import { faceMatcherError } from './matcher';
+import type { DetectedFace, FaceMatcher, FaceSimilarity, IndexedFace } from './matcher';
+
+// Deterministic stand-in for Rekognition. It does not look at pixels; instead
+// the faces in an image are read from its file name:
+//   - every "face-<name>" tag is one person, so "stage_face-asha_face-ravi.jpg"
+//     shows two people and matches a selfie named "selfie-face-asha.jpg"
+//   - names containing "noface" show nobody
+//   - any other image shows one person, identified by the file's contents, so
+//     uploading an event photo as a selfie finds that photo
+//   - "blurry", "dark", "profile", "eyesclosed" and "toofar" in a name make its
+//     faces fail the matching selfie quality check
+//   - "lookalike" in a photo's name makes its faces match with a similarity of
+//     72, a possible match under the default match thresholds
+//   - "profile" in a photo's name makes its faces match a selfie with a
+//     similarity of only 40, but other faces in the collection as usual, so
+//     they are found through photos the guest confirmed
+// Collections live in memory and are lost when the server restarts, along
+// with the in-memory Face-index table.
+
+const TAG_SIMILARITY = 99;
+const SAME_IMAGE_SIMILARITY = 100;
+const LOOKALIKE_SIMILARITY = 72;
+const PROFILE_SIMILARITY = 40;
+
+interface StoredFace {
+  person: string;
+  imageKey: string;
+}
+
+const fileNameOf = (imageKey: string) => (imageKey.split('/').pop() || imageKey).toLowerCase();
+
+// Side by side across the middle of the image
+const layoutFace = (i: number, count: number): BoundingBox =>
+  ({ Left: (i + 0.1) / count, Top: 0.2, Width: 0.8 / count, Height: 0.6 });
+
+const hash = (value: string | Buffer) => createHash('sha256').update(value).digest('hex');
+
+// Shaped like a Rekognition FaceId
+const toFaceId = (...parts: string[]) => {
+  const hex = hash(parts.join('|'));
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join('-');
+};
+
+export class FakeFaceMatcher implements FaceMatcher {
+  readonly detectsEyes = true;
+  private collections = new Map<string, Map<string, StoredFace>>();
+
+  constructor(private store: ObjectStore) {}
+
+  async ensureCollection(collectionId: string) {
+    if (!this.collections.has(collectionId)) {
+      this.collections.set(collectionId, new Map());
+    }
+  }
+
+  async deleteCollection(collectionId: string) {
+    return this.collections.delete(collectionId);
+  }
+
+  async detectFaces(imageKey: string) {
+    const people = await this.peopleIn(imageKey);
+    const fileName = fileNameOf(imageKey);
+    const far = fileName.includes('toofar');
+
+    return people.map((_, i): DetectedFace => ({
+      boundingBox: far ? { Left: 0.45, Top: 0.45, Width: 0.05, Height: 0.08 } : layoutFace(i, people.length),
+      confidence: 99.9,
+      brightness: fileName.includes('dark') ? 12 : 80,
+      sharpness: fileName.includes('blurry') ? 8 : 90,
+      pose: { yaw: fileName.includes('profile') ? 70 : 0, pitch: 0, roll: 0 },
+      eyesOpen: !fileName.includes('eyesclosed')
+    }));
+  }
+
+  async indexFaces(collectionId: string, imageKey: string) {
+    const faces = this.collection(collectionId);
+    const people = await this.peopleIn(imageKey);
+
+    return people.map((person, i): IndexedFace => {
+      const faceId = toFaceId(collectionId, imageKey, person, String(i));
+      faces.set(faceId, { person, imageKey });
+      return {
+        faceId,
+        boundingBox: layoutFace(i, people.length),
+        confidence: 99.9
+      };
+    });
+  }
+
+  async deleteFaces(collectionId: string, faceIds: string[]) {
+    const faces = this.collection(collectionId);
+    faceIds.forEach(faceId => faces.delete(faceId));
+  }
+
+  async searchByImage(collectionId: string, imageKey: string, threshold: number, maxFaces: number) {
+    const faces = this.collection(collectionId);
+    const [person] = await this.peopleIn(imageKey);
+    return person ? this.search(faces, person, threshold, maxFaces, { fromSelfie: true }) : [];
+  }
+
+  async searchByFace(collectionId: string, faceId: string, threshold: number, maxFaces: number) {
+    const faces = this.collection(collectionId);
+    const face = faces.get(faceId);
+    if (!face) {
+      throw faceMatcherError('InvalidParameterException', `Face ${faceId} is not in collection ${collectionId}`);
+    }
+    return this.search(faces, face.person, threshold, maxFaces, { excludeFaceId: faceId });
+  }
+
+  async compare(sourceKey: string, targetKey: string, threshold: number) {
+    const [[person], targetPeople] = await Promise.all([this.peopleIn(sourceKey), this.peopleIn(targetKey)]);
+    if (!person) {
+      throw faceMatcherError('InvalidParameterException', `No face found in ${sourceKey}`);
+    }
+    const similarity = this.similarity(person, targetKey, true);
+    return targetPeople.includes(person) && similarity >= threshold ? similarity : null;
+  }
+
+  private search(
+    faces: Map<string, StoredFace>,
+    person: string,
+    threshold: number,
+    maxFaces: number,
+    { fromSelfie = false, excludeFaceId }: { fromSelfie?: boolean; excludeFaceId?: string }
+  ): FaceSimilarity[] {
+    return Array.from(faces)
+      .filter(([faceId, face]) => face.person === person && faceId !== excludeFaceId)
+      .map(([faceId, face]) => ({ faceId, similarity: this.similarity(person, face.imageKey, fromSelfie) }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, maxFaces);
+  }
+
+  private similarity(person: string, imageKey: string, fromSelfie: boolean) {
+    const fileName = fileNameOf(imageKey);
+    if (fileName.includes('lookalike')) return LOOKALIKE_SIMILARITY;
+    if (fromSelfie && fileName.includes('profile')) return PROFILE_SIMILARITY;
+    return person.startsWith('image:') ? SAME_IMAGE_SIMILARITY : TAG_SIMILARITY;
+  }
+
+  private async peopleIn(imageKey: string): Promise<string[]> {
+    let contents: Buffer;
+    try {
+      contents = await this.store.getBuffer(imageKey);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw faceMatcherError('InvalidS3ObjectException', `Unable to get object ${imageKey}`);
+      }
+      throw error;
+    }
+
+    const fileName = fileNameOf(imageKey);
+    if (fileName.includes('noface')) return [];
+
+    const tags = Array.from(fileName.matchAll(/face-([a-z0-9]+)/g), match => `tag:${match[1]}`);
+    return tags.length > 0 ? Array.from(new Set(tags)) : [`image:${hash(contents)}`];
+  }
+
+  private collection(collectionId: string) {
+    const faces = this.collections.get(collectionId);
+    if (!faces) {
+      throw faceMatcherError('ResourceNotFoundException', `Collection ${collectionId} does not exist`);
+    }
+    return faces;
+  }
+}
@@ -0,0 +1,34 @@
+import { S3_BUCKET_NAME, isLocalMode, rekognitionClient } from '../config/aws';
+import { objectStore } from '../storage/media';
+import { FileEmbeddingIndex } from './embeddingIndex';
+import { FakeFaceMatcher } from './fakeMatcher';
+import { OnnxFaceMatcher } from './onnxMatcher';
+import { RekognitionFaceMatcher } from './rekognitionMatcher';
+import type { FaceMatcher } from './matcher';
+
+export type { DetectedFace, FaceMatcher, FaceSimilarity, IndexedFace } from './matcher';
+
+// FACE_MATCHER picks the implementation: 'rekognition', 'onnx' to keep faces
+// on our own servers, or 'fake'. Defaults to Rekognition, or the fake matcher
+// in local mode.
+const FACE_MATCHER = process.env.FACE_MATCHER || (isLocalMode ? 'fake' : 'rekognition');
+
+// Where OnnxFaceMatcher reads its model files from, and keeps the embeddings
+// of indexed faces
+const FACE_MODEL_DIR = process.env.FACE_MODEL_DIR || 'models/faces';
+const FACE_INDEX_DIR = process.env.FACE_INDEX_DIR || '.face-index';
+
+const createFaceMatcher = (): FaceMatcher => {
+  switch (FACE_MATCHER) {
+    case 'rekognition':
+      return new RekognitionFaceMatcher(rekognitionClient, S3_BUCKET_NAME);
+    case 'onnx':
+      return new OnnxFaceMatcher(objectStore, new FileEmbeddingIndex(FACE_INDEX_DIR), FACE_MODEL_DIR);
+    case 'fake':
+      return new FakeFaceMatcher(objectStore);
+    default:
+      throw new Error(`Unknown FACE_MATCHER "${FACE_MATCHER}"; use rekognition, onnx or fake`);
+  }
+};
+
+export const faceMatcher = createFaceMatcher();
@@ -0,0 +1,63 @@
+import type { BoundingBox } from '../../shared/types';
+
+// Face operations the face index and matching services are written against.
+// RekognitionFaceMatcher uses AWS Rekognition collections; OnnxFaceMatcher
+// runs open face models on the server's CPU and keeps the embeddings in files
+// on its own disk; FakeFaceMatcher is a deterministic stand-in for
+// local runs (AWS_MODE=local).
+//
+// Images are referred to by their key in the object store. A collection holds
+// the faces of one event.
+
+export interface IndexedFace {
+  faceId: string;
+  boundingBox?: BoundingBox;
+  confidence?: number;
+}
+
+// A face found by detectFaces, with what is known about how usable it is
+export interface DetectedFace {
+  boundingBox: BoundingBox;
+  confidence?: number;
+  // 0-100, higher is better
+  brightness?: number;
+  sharpness?: number;
+  // Degrees the head is turned, 0 when facing the camera
+  pose?: { yaw: number; pitch: number; roll: number };
+  eyesOpen?: boolean;
+}
+
+export interface FaceSimilarity {
+  faceId: string;
+  // 0-100
+  similarity: number;
+}
+
+export interface FaceMatcher {
+  // Whether detectFaces tells open eyes from closed ones
+  readonly detectsEyes: boolean;
+  // Creates the collection unless it already exists
+  ensureCollection(collectionId: string): Promise<void>;
+  // Removes the collection and its faces; resolves with false when it did not exist
+  deleteCollection(collectionId: string): Promise<boolean>;
+  // Every face in the image, largest first, without adding them to a collection
+  detectFaces(imageKey: string): Promise<DetectedFace[]>;
+  // Adds every face found in the image to the collection
+  indexFaces(collectionId: string, imageKey: string, externalImageId: string): Promise<IndexedFace[]>;
+  deleteFaces(collectionId: string, faceIds: string[]): Promise<void>;
+  // Faces in the collection like the largest face in the image, best first.
+  // Empty when the image has no face.
+  searchByImage(collectionId: string, imageKey: string, threshold: number, maxFaces: number): Promise<FaceSimilarity[]>;
+  // Faces in the collection like one of its own faces, best first
+  searchByFace(collectionId: string, faceId: string, threshold: number, maxFaces: number): Promise<FaceSimilarity[]>;
+  // Best similarity between the face in the source image and the faces in the target, or null
+  compare(sourceKey: string, targetKey: string, threshold: number): Promise<number | null>;
+}
+
+// Errors carry the names the Rekognition client uses, so callers handle every
+// matcher alike (e.g. InvalidS3ObjectException for a missing image)
+export const faceMatcherError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
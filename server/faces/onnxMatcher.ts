@@ -0,0 +1,446 @@
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import type * as Ort from 'onnxruntime-node';
+import type { ObjectStore } from '../storage/objectStore';
+import type { FaceEmbeddings } from './embeddingIndex';
+import type { BoundingBox } from '../../shared/types';
+import { faceMatcherError } from './matcher';
+import type { DetectedFace, FaceMatcher, FaceSimilarity, IndexedFace } from './matcher';
+
+// Face matching on the server's CPU with open models, for customers who keep
+// biometrics out of AWS and for fully offline runs. Faces are found with
+// YuNet, aligned on their five landmarks, and turned into embeddings by an
+// ArcFace-style model; the embeddings are kept on the server's disk (see
+// embeddingIndex).
+//
+// Models are read from the model directory on first use:
+//   - face_detection_yunet_2023mar.onnx: YuNet from the OpenCV model zoo
+//   - face_embedding.onnx: 112x112 RGB faces in, one embedding out
+// onnxruntime-node and sharp are loaded with them, so servers using another
+// matcher do not need them.
+
+export const DETECTOR_MODEL_FILE = 'face_detection_yunet_2023mar.onnx';
+export const EMBEDDING_MODEL_FILE = 'face_embedding.onnx';
+
+// Images are scaled down to this many pixels on their longer side first
+const MAX_IMAGE_SIDE = 1280;
+// The detector's square input, in pixels
+const DETECTOR_SIZE = 640;
+const DETECTOR_STRIDES = [8, 16, 32];
+const MIN_DETECTION_SCORE = 0.7;
+const NMS_IOU = 0.3;
+// Smaller faces are too few pixels to recognize anyone by
+const MIN_FACE_PIXELS = 20;
+
+// The embedding model's input, and where it expects the eyes, nose and mouth
+// corners of an aligned face
+const FACE_SIZE = 112;
+const FACE_TEMPLATE: [number, number][] = [
+  [38.2946, 51.6963],
+  [73.5318, 51.5014],
+  [56.0252, 71.7366],
+  [41.5493, 92.3655],
+  [70.7299, 92.2041]
+];
+
+// Similarities are cosines rescaled so that ArcFace's usual same-person
+// cosine lands on 80, the similarity the matching services use with
+// Rekognition, and identical faces on 100
+const CALIBRATION_COSINE = 0.4;
+const CALIBRATION_SIMILARITY = 80;
+
+// Laplacian variance of a sharp aligned face; reported as sharpness 100
+const SHARP_LAPLACIAN_VARIANCE = 500;
+// Nose below the eyes, as a fraction of the eyes-to-mouth distance, of a face
+// looking straight ahead (from FACE_TEMPLATE)
+const STRAIGHT_NOSE_DROP = 0.494;
+// Landmark offsets to rough degrees of yaw and pitch
+const YAW_SCALE = 2;
+const PITCH_SCALE = 3;
+
+type Point = [number, number];
+
+interface Image {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface FoundFace {
+  // In image pixels
+  box: { x: number; y: number; width: number; height: number };
+  score: number;
+  // Eyes, nose tip and mouth corners, left to right as seen in the image
+  landmarks: Point[];
+}
+
+interface AnalyzedFace {
+  detected: DetectedFace;
+  embedding: Float32Array;
+}
+
+interface Models {
+  ort: typeof Ort;
+  detector: Ort.InferenceSession;
+  embedder: Ort.InferenceSession;
+}
+
+const toSimilarity = (cosine: number) =>
+  cosine >= CALIBRATION_COSINE
+    ? CALIBRATION_SIMILARITY + (cosine - CALIBRATION_COSINE) / (1 - CALIBRATION_COSINE) * (100 - CALIBRATION_SIMILARITY)
+    : Math.max(0, cosine / CALIBRATION_COSINE * CALIBRATION_SIMILARITY);
+
+const toCosine = (similarity: number) =>
+  similarity >= CALIBRATION_SIMILARITY
+    ? CALIBRATION_COSINE + (similarity - CALIBRATION_SIMILARITY) / (100 - CALIBRATION_SIMILARITY) * (1 - CALIBRATION_COSINE)
+    : similarity / CALIBRATION_SIMILARITY * CALIBRATION_COSINE;
+
+// Cosine similarity of two unit-length embeddings
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const degrees = (radians: number) => radians * 180 / Math.PI;
+
+// Bilinear sample of one RGB channel; pixels outside the image are black
+const sample = (image: Image, x: number, y: number, channel: number) => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  const at = (px: number, py: number) =>
+    px < 0 || py < 0 || px >= image.width || py >= image.height ? 0 : image.data[(py * image.width + px) * 3 + channel];
+  return (at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx) * (1 - fy) +
+    (at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx) * fy;
+};
+
+const iou = (a: FoundFace['box'], b: FoundFace['box']) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const overlap = width * height;
+  return overlap / (a.width * a.height + b.width * b.height - overlap);
+};
+
+const suppressOverlaps = (faces: FoundFace[]) => {
+  const kept: FoundFace[] = [];
+  for (const face of [...faces].sort((a, b) => b.score - a.score)) {
+    if (kept.every(other => iou(face.box, other.box) <= NMS_IOU)) kept.push(face);
+  }
+  return kept;
+};
+
+// Least-squares similarity transform (scale, rotation, shift) taking the
+// landmarks onto the template, as a complex factor z: template = z * (p - from) + to
+const alignmentTo = (landmarks: Point[], template: Point[]) => {
+  const mean = (points: Point[]): Point => [
+    points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    points.reduce((sum, [, y]) => sum + y, 0) / points.length
+  ];
+  const from = mean(landmarks);
+  const to = mean(template);
+  let re = 0;
+  let im = 0;
+  let norm = 0;
+  landmarks.forEach(([x, y], i) => {
+    const [ax, ay] = [x - from[0], y - from[1]];
+    const [bx, by] = [template[i][0] - to[0], template[i][1] - to[1]];
+    re += ax * bx + ay * by;
+    im += ax * by - ay * bx;
+    norm += ax * ax + ay * ay;
+  });
+  return { from, to, re: re / norm, im: im / norm };
+};
+
+// The face cropped, rotated and scaled so its landmarks sit on FACE_TEMPLATE
+const alignFace = (image: Image, landmarks: Point[]): Image => {
+  const { from, to, re, im } = alignmentTo(landmarks, FACE_TEMPLATE);
+  const scale = re * re + im * im;
+  const data = Buffer.alloc(FACE_SIZE * FACE_SIZE * 3);
+  for (let v = 0; v < FACE_SIZE; v++) {
+    for (let u = 0; u < FACE_SIZE; u++) {
+      // Inverse transform: p = (t - to) / z + from
+      const [dx, dy] = [u - to[0], v - to[1]];
+      const x = (dx * re + dy * im) / scale + from[0];
+      const y = (dy * re - dx * im) / scale + from[1];
+      for (let channel = 0; channel < 3; channel++) {
+        data[(v * FACE_SIZE + u) * 3 + channel] = sample(image, x, y, channel);
+      }
+    }
+  }
+  return { data, width: FACE_SIZE, height: FACE_SIZE };
+};
+
+const luminance = (face: Image) => {
+  const values = new Float32Array(face.width * face.height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = 0.299 * face.data[i * 3] + 0.587 * face.data[i * 3 + 1] + 0.114 * face.data[i * 3 + 2];
+  }
+  return values;
+};
+
+// Brightness and sharpness (0-100) of an aligned face
+const measureQuality = (face: Image) => {
+  const gray = luminance(face);
+  const brightness = gray.reduce((sum, value) => sum + value, 0) / gray.length / 255 * 100;
+
+  const laplacians: number[] = [];
+  for (let y = 1; y < face.height - 1; y++) {
+    for (let x = 1; x < face.width - 1; x++) {
+      const i = y * face.width + x;
+      laplacians.push(gray[i - 1] + gray[i + 1] + gray[i - face.width] + gray[i + face.width] - 4 * gray[i]);
+    }
+  }
+  const mean = laplacians.reduce((sum, value) => sum + value, 0) / laplacians.length;
+  const variance = laplacians.reduce((sum, value) => sum + (value - mean) ** 2, 0) / laplacians.length;
+  return { brightness, sharpness: Math.min(100, variance / SHARP_LAPLACIAN_VARIANCE * 100) };
+};
+
+// Rough head pose from the landmarks: roll from the eye line, yaw from how far
+// the nose is off the middle of the eyes, pitch from how far it is below them.
+// Good enough to tell a turned head from one facing the camera.
+const estimatePose = (landmarks: Point[]) => {
+  const [leftEye, rightEye, nose, leftMouth, rightMouth] = landmarks;
+  const eyeLine: Point = [rightEye[0] - leftEye[0], rightEye[1] - leftEye[1]];
+  const eyeDistance = Math.hypot(...eyeLine) || 1;
+  const across: Point = [eyeLine[0] / eyeDistance, eyeLine[1] / eyeDistance];
+  const down: Point = [-across[1], across[0]];
+  const eyes: Point = [(leftEye[0] + rightEye[0]) / 2, (leftEye[1] + rightEye[1]) / 2];
+  const mouth: Point = [(leftMouth[0] + rightMouth[0]) / 2, (leftMouth[1] + rightMouth[1]) / 2];
+  const project = (point: Point, axis: Point) => (point[0] - eyes[0]) * axis[0] + (point[1] - eyes[1]) * axis[1];
+
+  const noseDrop = project(nose, down) / (project(mouth, down) || 1);
+  return {
+    yaw: degrees(Math.atan(project(nose, across) / eyeDistance * YAW_SCALE)),
+    pitch: degrees(Math.atan((STRAIGHT_NOSE_DROP - noseDrop) * PITCH_SCALE)),
+    roll: degrees(Math.atan2(across[1], across[0]))
+  };
+};
+
+const toBoundingBox = ({ box }: FoundFace, image: Image): BoundingBox => ({
+  Left: clamp(box.x / image.width, 0, 1),
+  Top: clamp(box.y / image.height, 0, 1),
+  Width: clamp(box.width / image.width, 0, 1),
+  Height: clamp(box.height / image.height, 0, 1)
+});
+
+export class OnnxFaceMatcher implements FaceMatcher {
+  // Five landmarks do not show whether the eyes are open
+  readonly detectsEyes = false;
+  private models: Promise<Models> | null = null;
+
+  constructor(private store: ObjectStore, private embeddings: FaceEmbeddings, private modelDir: string) {}
+
+  async ensureCollection(collectionId: string) {
+    if (await this.embeddings.createCollection(collectionId)) {
+      console.log(`Created face collection ${collectionId}`);
+    }
+  }
+
+  async deleteCollection(collectionId: string) {
+    return this.embeddings.deleteCollection(collectionId);
+  }
+
+  async detectFaces(imageKey: string) {
+    return (await this.analyze(imageKey)).map(face => face.detected);
+  }
+
+  async indexFaces(collectionId: string, imageKey: string, externalImageId: string) {
+    await this.requireCollection(collectionId);
+    const faces = (await this.analyze(imageKey)).map(face => ({
+      faceId: randomUUID(),
+      imageKey,
+      externalImageId,
+      boundingBox: face.detected.boundingBox,
+      confidence: face.detected.confidence,
+      embedding: face.embedding
+    }));
+    await this.embeddings.add(collectionId, faces);
+    return faces.map(({ faceId, boundingBox, confidence }): IndexedFace => ({ faceId, boundingBox, confidence }));
+  }
+
+  async deleteFaces(collectionId: string, faceIds: string[]) {
+    await this.embeddings.remove(collectionId, faceIds);
+  }
+
+  async searchByImage(collectionId: string, imageKey: string, threshold: number, maxFaces: number) {
+    await this.requireCollection(collectionId);
+    const [face] = await this.analyze(imageKey);
+    return face ? this.search(collectionId, face.embedding, threshold, maxFaces) : [];
+  }
+
+  async searchByFace(collectionId: string, faceId: string, threshold: number, maxFaces: number) {
+    await this.requireCollection(collectionId);
+    const face = await this.embeddings.get(collectionId, faceId);
+    if (!face) {
+      throw faceMatcherError('InvalidParameterException', `Face ${faceId} is not in collection ${collectionId}`);
+    }
+    return (await this.search(collectionId, face.embedding, threshold, maxFaces + 1))
+      .filter(match => match.faceId !== faceId)
+      .slice(0, maxFaces);
+  }
+
+  async compare(sourceKey: string, targetKey: string, threshold: number) {
+    const [[source], targets] = await Promise.all([this.analyze(sourceKey), this.analyze(targetKey)]);
+    if (!source) {
+      throw faceMatcherError('InvalidParameterException', `No face found in ${sourceKey}`);
+    }
+    if (targets.length === 0) return null;
+    const similarity = toSimilarity(Math.max(...targets.map(target => dot(source.embedding, target.embedding))));
+    return similarity >= threshold ? similarity : null;
+  }
+
+  private async search(collectionId: string, embedding: Float32Array, threshold: number, maxFaces: number) {
+    const nearest = await this.embeddings.nearest(collectionId, embedding, toCosine(threshold), maxFaces);
+    return nearest.map(({ faceId, cosine }): FaceSimilarity => ({ faceId, similarity: toSimilarity(cosine) }));
+  }
+
+  private async requireCollection(collectionId: string) {
+    if (!await this.embeddings.hasCollection(collectionId)) {
+      throw faceMatcherError('ResourceNotFoundException', `Collection ${collectionId} does not exist`);
+    }
+  }
+
+  // Every face in the image with its embedding, largest first
+  private async analyze(imageKey: string): Promise<AnalyzedFace[]> {
+    const models = await this.loadModels();
+    const image = await this.readImage(imageKey);
+    const found = await this.findFaces(models, image);
+
+    const faces: AnalyzedFace[] = [];
+    for (const face of found) {
+      const aligned = alignFace(image, face.landmarks);
+      faces.push({
+        detected: {
+          boundingBox: toBoundingBox(face, image),
+          confidence: face.score * 100,
+          ...measureQuality(aligned),
+          pose: estimatePose(face.landmarks)
+        },
+        embedding: await this.embed(models, aligned)
+      });
+    }
+    return faces.sort((a, b) =>
+      b.detected.boundingBox.Width * b.detected.boundingBox.Height -
+      a.detected.boundingBox.Width * a.detected.boundingBox.Height
+    );
+  }
+
+  // Decoded to RGB, upright, and scaled down to MAX_IMAGE_SIDE
+  private async readImage(imageKey: string): Promise<Image> {
+    let contents: Buffer;
+    try {
+      contents = await this.store.getBuffer(imageKey);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw faceMatcherError('InvalidS3ObjectException', `Unable to get object ${imageKey}`);
+      }
+      throw error;
+    }
+
+    const { default: sharp } = await import('sharp');
+    try {
+      const { data, info } = await sharp(contents)
+        .rotate()
+        .resize({ width: MAX_IMAGE_SIDE, height: MAX_IMAGE_SIDE, fit: 'inside', withoutEnlargement: true })
+        .removeAlpha()
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      return { data, width: info.width, height: info.height };
+    } catch (error) {
+      // Rekognition's error for images it cannot decode
+      throw faceMatcherError('InvalidImageFormatException',
+        `Unable to read image ${imageKey}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async findFaces({ ort, detector }: Models, image: Image): Promise<FoundFace[]> {
+    // Scaled into the top left corner of the detector's square input, as BGR
+    const scale = Math.min(DETECTOR_SIZE / image.width, DETECTOR_SIZE / image.height);
+    const plane = DETECTOR_SIZE * DETECTOR_SIZE;
+    const input = new Float32Array(3 * plane);
+    for (let y = 0; y < DETECTOR_SIZE; y++) {
+      for (let x = 0; x < DETECTOR_SIZE; x++) {
+        for (let channel = 0; channel < 3; channel++) {
+          input[(2 - channel) * plane + y * DETECTOR_SIZE + x] = sample(image, x / scale, y / scale, channel);
+        }
+      }
+    }
+
+    const outputs = await detector.run({
+      [detector.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, DETECTOR_SIZE, DETECTOR_SIZE])
+    });
+    const output = (name: string) => outputs[name].data as Float32Array;
+
+    const found: FoundFace[] = [];
+    for (const stride of DETECTOR_STRIDES) {
+      const [cls, obj, bbox, kps] = ['cls', 'obj', 'bbox', 'kps'].map(kind => output(`${kind}_${stride}`));
+      const columns = DETECTOR_SIZE / stride;
+      for (let i = 0; i < cls.length; i++) {
+        const score = Math.sqrt(clamp(cls[i], 0, 1) * clamp(obj[i], 0, 1));
+        if (score < MIN_DETECTION_SCORE) continue;
+
+        const column = i % columns;
+        const row = Math.floor(i / columns);
+        const width = Math.exp(bbox[i * 4 + 2]) * stride / scale;
+        const height = Math.exp(bbox[i * 4 + 3]) * stride / scale;
+        if (Math.min(width, height) < MIN_FACE_PIXELS) continue;
+
+        found.push({
+          box: {
+            x: (column + bbox[i * 4]) * stride / scale - width / 2,
+            y: (row + bbox[i * 4 + 1]) * stride / scale - height / 2,
+            width,
+            height
+          },
+          score,
+          landmarks: Array.from({ length: 5 }, (_, n): Point => [
+            (column + kps[i * 10 + n * 2]) * stride / scale,
+            (row + kps[i * 10 + n * 2 + 1]) * stride / scale
+          ])
+        });
+      }
+    }
+    return suppressOverlaps(found);
+  }
+
+  // Unit-length embedding of an aligned face
+  private async embed({ ort, embedder }: Models, face: Image): Promise<Float32Array> {
+    const plane = FACE_SIZE * FACE_SIZE;
+    const input = new Float32Array(3 * plane);
+    for (let i = 0; i < plane; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        input[channel * plane + i] = (face.data[i * 3 + channel] - 127.5) / 127.5;
+      }
+    }
+
+    const outputs = await embedder.run({
+      [embedder.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, FACE_SIZE, FACE_SIZE])
+    });
+    const embedding = Float32Array.from(outputs[embedder.outputNames[0]].data as Float32Array);
+    const length = Math.hypot(...embedding) || 1;
+    return embedding.map(value => value / length);
+  }
+
+  private loadModels(): Promise<Models> {
+    if (!this.models) {
+      this.models = (async () => {
+        const ort = await import('onnxruntime-node');
+        const [detector, embedder] = await Promise.all([
+          ort.InferenceSession.create(path.join(this.modelDir, DETECTOR_MODEL_FILE)),
+          ort.InferenceSession.create(path.join(this.modelDir, EMBEDDING_MODEL_FILE))
+        ]);
+        console.log(`Loaded face models from ${this.modelDir}`);
+        return { ort, detector, embedder };
+      })();
+      // Let a later call try again, e.g. once the model files are in place
+      this.models.catch(() => { this.models = null; });
+    }
+    return this.models;
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  CompareFacesCommand,
+  CreateCollectionCommand,
+  DeleteCollectionCommand,
+  DeleteFacesCommand,
+  DescribeCollectionCommand,
+  DetectFacesCommand,
+  IndexFacesCommand,
+  ResourceAlreadyExistsException,
+  ResourceNotFoundException,
+  SearchFacesByImageCommand,
+  SearchFacesCommand
+} from '@aws-sdk/client-rekognition';
+import type { FaceDetail, FaceMatch, RekognitionClient } from '@aws-sdk/client-rekognition';
+import type { BoundingBox } from '../../shared/types';
+import type { DetectedFace, FaceMatcher, FaceSimilarity } from './matcher';
+
+const COMPARE_TIMEOUT_MS = 30000;
+
+const toSimilarities = (matches: FaceMatch[] = []): FaceSimilarity[] =>
+  matches
+    .filter(match => match.Face?.FaceId)
+    .map(match => ({ faceId: match.Face!.FaceId!, similarity: match.Similarity || 0 }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+const toDetectedFace = (detail: FaceDetail): DetectedFace => ({
+  boundingBox: detail.BoundingBox as BoundingBox,
+  confidence: detail.Confidence,
+  brightness: detail.Quality?.Brightness,
+  sharpness: detail.Quality?.Sharpness,
+  pose: detail.Pose && {
+    yaw: detail.Pose.Yaw || 0,
+    pitch: detail.Pose.Pitch || 0,
+    roll: detail.Pose.Roll || 0
+  },
+  eyesOpen: detail.EyesOpen?.Value
+});
+
+const faceArea = (face: DetectedFace) => face.boundingBox.Width * face.boundingBox.Height;
+
+export class RekognitionFaceMatcher implements FaceMatcher {
+  readonly detectsEyes = true;
+
+  constructor(private client: RekognitionClient, private bucket: string) {}
+
+  async ensureCollection(collectionId: string) {
+    try {
+      await this.client.send(new DescribeCollectionCommand({ CollectionId: collectionId }));
+    } catch (error) {
+      if (!(error instanceof ResourceNotFoundException)) throw error;
+      try {
+        await this.client.send(new CreateCollectionCommand({ CollectionId: collectionId }));
+        console.log(`Created face collection ${collectionId}`);
+      } catch (createError) {
+        // Another request created it first
+        if (!(createError instanceof ResourceAlreadyExistsException)) throw createError;
+      }
+    }
+  }
+
+  async deleteCollection(collectionId: string) {
+    try {
+      await this.client.send(new DeleteCollectionCommand({ CollectionId: collectionId }));
+      return true;
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) return false;
+      throw error;
+    }
+  }
+
+  async detectFaces(imageKey: string) {
+    const response = await this.client.send(new DetectFacesCommand({
+      Image: {
+        S3Object: { Bucket: this.bucket, Name: imageKey }
+      },
+      Attributes: ['DEFAULT', 'EYES_OPEN']
+    }));
+
+    return (response.FaceDetails || [])
+      .filter(detail => detail.BoundingBox)
+      .map(toDetectedFace)
+      .sort((a, b) => faceArea(b) - faceArea(a));
+  }
+
+  async indexFaces(collectionId: string, imageKey: string, externalImageId: string) {
+    const response = await this.client.send(new IndexFacesCommand({
+      CollectionId: collectionId,
+      Image: {
+        S3Object: { Bucket: this.bucket, Name: imageKey }
+      },
+      ExternalImageId: externalImageId,
+      DetectionAttributes: [],
+      QualityFilter: 'AUTO'
+    }));
+
+    return (response.FaceRecords || [])
+      .filter(record => record.Face?.FaceId)
+      .map(record => ({
+        faceId: record.Face!.FaceId!,
+        boundingBox: record.Face!.BoundingBox as BoundingBox | undefined,
+        confidence: record.Face!.Confidence
+      }));
+  }
+
+  async deleteFaces(collectionId: string, faceIds: string[]) {
+    if (faceIds.length === 0) return;
+    await this.client.send(new DeleteFacesCommand({ CollectionId: collectionId, FaceIds: faceIds }));
+  }
+
+  async searchByImage(collectionId: string, imageKey: string, threshold: number, maxFaces: number) {
+    try {
+      const response = await this.client.send(new SearchFacesByImageCommand({
+        CollectionId: collectionId,
+        Image: {
+          S3Object: { Bucket: this.bucket, Name: imageKey }
+        },
+        FaceMatchThreshold: threshold,
+        MaxFaces: maxFaces,
+        QualityFilter: 'AUTO'
+      }));
+      return toSimilarities(response.FaceMatches);
+    } catch (error) {
+      // Rekognition rejects search images in which it cannot find a face
+      if (error instanceof Error && error.name === 'InvalidParameterException') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async searchByFace(collectionId: string, faceId: string, threshold: number, maxFaces: number) {
+    const response = await this.client.send(new SearchFacesCommand({
+      CollectionId: collectionId,
+      FaceId: faceId,
+      MaxFaces: maxFaces,
+      FaceMatchThreshold: threshold
+    }));
+    return toSimilarities(response.FaceMatches);
+  }
+
+  async compare(sourceKey: string, targetKey: string, threshold: number) {
+    const compareCommand = new CompareFacesCommand({
+      SourceImage: {
+        S3Object: { Bucket: this.bucket, Name: sourceKey },
+      },
+      TargetImage: {
+        S3Object: { Bucket: this.bucket, Name: targetKey },
+      },
+      SimilarityThreshold: threshold,
+      QualityFilter: 'HIGH'
+    });
+
+    const compareResponse = await Promise.race([
+      this.client.send(compareCommand),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Face comparison timed out')), COMPARE_TIMEOUT_MS)
+      )
+    ]);
+
+    if (!compareResponse.FaceMatches || compareResponse.FaceMatches.length === 0) {
+      return null;
+    }
+
+    return Math.max(...compareResponse.FaceMatches.map(match => match.Similarity || 0));
+  }
+}
@@ -0,0 +1,211 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ConflictError, NotFoundError, ValidationError } from './repositories/errors';
+import type { ApiErrorBody } from '../shared/types';
+
+// Error with an HTTP status that route handlers can throw. Repository
+// validation and not-found errors become 400 and 404; anything else thrown
+// from a handler is reported as a 500.
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+// Behind a proxy or load balancer (TRUST_PROXY=true) the client is the first
+// X-Forwarded-For address; otherwise the header could be forged
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+export const getClientAddress = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (TRUST_PROXY && first) || req.socket.remoteAddress || 'unknown';
+};
+
+export const getCookie = (req: IncomingMessage, name: string): string | null => {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return null;
+};
+
+/**
+ * Sets an HttpOnly cookie scoped to the API, so page scripts cannot read it.
+ * It is marked Secure when the request came over HTTPS.
+ * @param maxAgeSeconds How long the browser keeps it; 0 removes it
+ */
+export const setCookie = ({ req, res }: RequestContext, name: string, value: string, maxAgeSeconds: number) => {
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const secure = 'encrypted' in req.socket || (TRUST_PROXY && forwardedProto === 'https');
+  const cookie = [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/api',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Lax',
+    ...(secure ? ['Secure'] : [])
+  ].join('; ');
+
+  const existing = res.getHeader('Set-Cookie');
+  res.setHeader('Set-Cookie', [...(Array.isArray(existing) ? existing : existing ? [String(existing)] : []), cookie]);
+};
+
+// A handler either returns a value to be sent as JSON, or writes to ctx.res
+// itself and returns undefined.
+export type RouteHandler = (ctx: RequestContext) => Promise<unknown>;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface Route {
+  method: Method;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+// Minimal path router: '/api/events/:eventId' style patterns, first match wins.
+export class Router {
+  private routes: Route[] = [];
+
+  add(method: Method, path: string, handler: RouteHandler) {
+    const paramNames: string[] = [];
+    const pattern = new RegExp(
+      '^' +
+        path.replace(/:([A-Za-z]+)/g, (_, name: string) => {
+          paramNames.push(name);
+          return '([^/]+)';
+        }) +
+        '/?$'
+    );
+    this.routes.push({ method, pattern, paramNames, handler });
+  }
+
+  get(path: string, handler: RouteHandler) { this.add('GET', path, handler); }
+  post(path: string, handler: RouteHandler) { this.add('POST', path, handler); }
+  put(path: string, handler: RouteHandler) { this.add('PUT', path, handler); }
+  patch(path: string, handler: RouteHandler) { this.add('PATCH', path, handler); }
+  delete(path: string, handler: RouteHandler) { this.add('DELETE', path, handler); }
+
+  match(method: string, pathname: string) {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const result = route.pattern.exec(pathname);
+      if (!result) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(result[index + 1]);
+      });
+      return { handler: route.handler, params };
+    }
+    if (pathMatched) {
+      throw new HttpError(405, `Method ${method} not allowed`);
+    }
+    return null;
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    const body: ApiErrorBody = { error: error.message, code: error.code };
+    sendJson(res, error.status, body);
+    return;
+  }
+  if (error instanceof ValidationError) {
+    const body: ApiErrorBody = { error: error.message, code: 'VALIDATION_FAILED' };
+    sendJson(res, 400, body);
+    return;
+  }
+  if (error instanceof NotFoundError) {
+    const body: ApiErrorBody = { error: error.message, code: error.code };
+    sendJson(res, 404, body);
+    return;
+  }
+  if (error instanceof ConflictError) {
+    const body: ApiErrorBody = { error: error.message, code: error.code };
+    sendJson(res, 409, body);
+    return;
+  }
+  console.error('Unhandled API error:', error);
+  const body: ApiErrorBody = { error: 'Internal server error' };
+  sendJson(res, 500, body);
+};
+
+// Read the full request body into a Buffer, refusing anything over maxBytes
+export const readBody = (req: IncomingMessage, maxBytes = 10 * 1024 * 1024): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    req.on('data', (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+export const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const body = await readBody(req, 1024 * 1024);
+  if (body.length === 0) {
+    throw new HttpError(400, 'Request body is required');
+  }
+  try {
+    return JSON.parse(body.toString('utf8')) as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+// Parse a single 'bytes=start-end' range. Returns null to send the whole
+// body (no header, or several ranges) and throws 416 when unsatisfiable.
+export const parseRange = (header: string | undefined, size: number) => {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) {
+    throw new HttpError(416, 'Requested range not satisfiable');
+  }
+  return { start, end };
+};
+
+// Fetch a required path/query value or fail with a 400
+export const requireParam = (value: string | null | undefined, name: string): string => {
+  if (!value) {
+    throw new HttpError(400, `Missing required parameter: ${name}`);
+  }
+  return value;
+};
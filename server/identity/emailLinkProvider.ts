@@ -0,0 +1,33 @@
+import { randomBytes } from 'node:crypto';
+import type { Mailer } from '../mail';
+import type { SignInCodes } from '../repositories/signInCodes';
+import type { SessionUser } from '../../shared/types';
+import type { SignInProvider } from './provider';
+
+// How long a sign-in link works
+const LINK_TTL_MS = 15 * 60 * 1000;
+
+// Emails users a link that signs them in once. The app reads the token from
+// the link and exchanges it for a session.
+export class EmailLinkProvider implements SignInProvider<'email'> {
+  constructor(private codes: SignInCodes, private mailer: Mailer, private appUrl: string) {}
+
+  async sendChallenge(email: string) {
+    const token = randomBytes(32).toString('base64url');
+    await this.codes.issue(email, token, LINK_TTL_MS);
+    const link = `${this.appUrl}/?signInEmail=${encodeURIComponent(email)}&signInToken=${token}`;
+    await this.mailer.send({
+      to: email,
+      subject: 'Your Chitralai sign-in link',
+      text: [
+        `Open this link to sign in: ${link}`,
+        `It works once, for the next ${LINK_TTL_MS / 60000} minutes. If you did not ask to sign in, ignore this email.`
+      ].join('\n\n')
+    });
+  }
+
+  async verify({ email, token }: { email: string; token: string }): Promise<SessionUser | null> {
+    if (!await this.codes.redeem(email, token)) return null;
+    return { email, name: '', method: 'email' };
+  }
+}
@@ -0,0 +1,26 @@
+import { OAuth2Client } from 'google-auth-library';
+import type { SessionUser } from '../../shared/types';
+import type { SignInProvider } from './provider';
+
+export class GoogleSignInProvider implements SignInProvider<'google'> {
+  private client = new OAuth2Client();
+
+  // clientId: the OAuth client the browser signs in with; ID tokens must be issued for it
+  constructor(private clientId: string) {}
+
+  // Checks the ID token's signature, issuer, audience and expiry, and that the email is verified
+  async verify({ credential }: { credential: string }): Promise<SessionUser | null> {
+    if (!this.clientId) {
+      throw new Error('GOOGLE_CLIENT_ID is not set, so Google sign-ins cannot be verified');
+    }
+    try {
+      const ticket = await this.client.verifyIdToken({ idToken: credential, audience: this.clientId });
+      const payload = ticket.getPayload();
+      if (!payload?.email || !payload.email_verified) return null;
+      return { email: payload.email.toLowerCase(), name: payload.name || '', picture: payload.picture, method: 'google' };
+    } catch (error) {
+      console.warn('Rejected Google sign-in:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
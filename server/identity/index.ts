@@ -0,0 +1,19 @@
+import { APP_URL, mailer } from '../mail';
+import { smsSender } from '../sms';
+import { signInCodes } from '../repositories';
+import { EmailLinkProvider } from './emailLinkProvider';
+import { GoogleSignInProvider } from './googleProvider';
+import { PhoneCodeProvider } from './phoneCodeProvider';
+import type { SignInProvider } from './provider';
+import type { SignInMethod } from '../../shared/types';
+
+export type { SignInProvider } from './provider';
+
+// The OAuth client the browser signs in with; falls back to the frontend's setting
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || process.env.VITE_GOOGLE_CLIENT_ID || '';
+
+export const signInProviders: { [M in SignInMethod]: SignInProvider<M> } = {
+  google: new GoogleSignInProvider(GOOGLE_CLIENT_ID),
+  email: new EmailLinkProvider(signInCodes, mailer, APP_URL),
+  phone: new PhoneCodeProvider(signInCodes, smsSender)
+};
@@ -0,0 +1,29 @@
+import { randomInt } from 'node:crypto';
+import type { SmsSender } from '../sms';
+import type { SignInCodes } from '../repositories/signInCodes';
+import type { SessionUser } from '../../shared/types';
+import { SIGN_IN_CODE_LENGTH } from '../../shared/signIn';
+import type { SignInProvider } from './provider';
+
+// How long a texted code works
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+// Texts users a short code to type into the app. Phone users have no email;
+// their phone number is their user id.
+export class PhoneCodeProvider implements SignInProvider<'phone'> {
+  constructor(private codes: SignInCodes, private sms: SmsSender) {}
+
+  async sendChallenge(phone: string) {
+    const code = String(randomInt(10 ** SIGN_IN_CODE_LENGTH)).padStart(SIGN_IN_CODE_LENGTH, '0');
+    await this.codes.issue(phone, code, CODE_TTL_MS);
+    await this.sms.send({
+      to: phone,
+      text: `${code} is your Chitralai sign-in code. It expires in ${CODE_TTL_MS / 60000} minutes.`
+    });
+  }
+
+  async verify({ phone, code }: { phone: string; code: string }): Promise<SessionUser | null> {
+    if (!await this.codes.redeem(phone, code.trim())) return null;
+    return { email: phone, name: '', method: 'phone' };
+  }
+}
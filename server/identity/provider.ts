@@ -0,0 +1,13 @@
+import type { SessionUser, SignInMethod, SignInProof } from '../../shared/types';
+
+// One way for users to prove who they are. Google users bring an ID token
+// Google signed. Email and phone users are first sent a one-time link or code
+// (the challenge), which they bring back to sign in.
+
+export interface SignInProvider<M extends SignInMethod = SignInMethod> {
+  // Sends a one-time link or code to an address already normalized for the
+  // method (see shared/signIn). Providers without a challenge leave it out.
+  sendChallenge?(address: string): Promise<void>;
+  // The user the proof identifies, or null when it does not check out
+  verify(proof: Extract<SignInProof, { method: M }>): Promise<SessionUser | null>;
+}
@@ -0,0 +1,81 @@
+import { createServer } from 'node:http';
+import { Router, HttpError, sendError, sendJson } from './http';
+import { LOCAL_DATA_DIR, isLocalMode } from './config/aws';
+import { registerSessionRoutes } from './routes/session';
+import { registerUserRoutes } from './routes/users';
+import { registerEventRoutes } from './routes/events';
+import { registerAttendeeRoutes } from './routes/attendees';
+import { registerMediaRoutes } from './routes/media';
+import { registerFaceRoutes } from './routes/faces';
+import { registerJobRoutes } from './routes/jobs';
+import { registerArchiveRoutes } from './routes/archives';
+import { registerMemberRoutes } from './routes/members';
+import { registerLocalObjectRoutes } from './routes/localObjects';
+import { localObjectStore } from './storage/media';
+import { startEventPurges } from './jobs';
+
+const PORT = Number(process.env.PORT || 8787);
+// Comma separated list of origins allowed to call the API from a browser
+const ALLOWED_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const router = new Router();
+registerSessionRoutes(router);
+registerUserRoutes(router);
+registerEventRoutes(router);
+registerAttendeeRoutes(router);
+registerMediaRoutes(router);
+registerFaceRoutes(router);
+registerJobRoutes(router);
+registerArchiveRoutes(router);
+registerMemberRoutes(router);
+if (localObjectStore) {
+  registerLocalObjectRoutes(router, localObjectStore);
+}
+
+const server = createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  try {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const route = router.match(req.method || 'GET', url.pathname);
+    if (!route) {
+      throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+    }
+
+    const result = await route.handler({ req, res, params: route.params, query: url.searchParams });
+    if (!res.writableEnded && !res.headersSent) {
+      sendJson(res, 200, result ?? {});
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('API error after response started:', error);
+      res.destroy();
+      return;
+    }
+    sendError(res, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`ChitralAI API listening on http://localhost:${PORT}`);
+  startEventPurges();
+  if (isLocalMode) {
+    console.log(`Local mode: media in ${LOCAL_DATA_DIR}, tables and face collections in memory`);
+  }
+});
@@ -0,0 +1,84 @@
+import { JobQueue } from './queue';
+import { MemoryJobStore } from './store';
+import { getObjectUrl } from '../config/aws';
+import { indexEventImages } from '../services/faceIndex';
+import { getReferenceKeys, matchSelfieAgainstEvent, toAttendeeMatches } from '../services/faceRecognition';
+import { rematchEventAttendees, scheduleEventRematch } from '../services/rematch';
+import { syncEventStorage } from '../services/eventStorage';
+import { purgeEvent, scheduleEventPurges } from '../services/eventDeletion';
+import { attendeeImages, attendeeMatches, events } from '../repositories';
+import { getMatchThresholds } from '../../shared/matchThresholds';
+
+export const jobQueue = new JobQueue(new MemoryJobStore(), {
+  concurrency: Number(process.env.JOB_CONCURRENCY || 2),
+  retryDelayMs: 5000,
+  defaultMaxAttempts: 3
+});
+
+jobQueue.register('index-event-images', async (job, ctx) => {
+  const faces = await indexEventImages(job.payload.eventId, ctx.reportProgress);
+  return {
+    imageCount: new Set(faces.map(face => face.imageKey)).size,
+    faceCount: faces.length
+  };
+});
+
+// Matches are saved server side so a guest who closes the tab keeps them
+jobQueue.register('match-selfie', async (job, ctx) => {
+  const { eventId, selfieKey, userId } = job.payload;
+  const [event, record] = await Promise.all([
+    events.get(eventId),
+    userId ? attendeeImages.get(userId, eventId) : null
+  ]);
+  const result = await matchSelfieAgainstEvent(
+    eventId,
+    selfieKey,
+    getMatchThresholds(event || {}),
+    getReferenceKeys(record),
+    ctx.reportProgress
+  );
+  if (!userId) return result;
+
+  // Photos the guest rejected are not suggested again, and ones they
+  // confirmed stay theirs
+  const rejected = new Set(record?.rejectedImages);
+  const matched = new Set(record?.matchedImages);
+  const matches = result.matches
+    .filter(match => !rejected.has(match.url))
+    .map(match => matched.has(match.url) ? { ...match, tier: 'confident' as const } : match);
+
+  if (matches.length > 0) {
+    const now = new Date().toISOString();
+    await attendeeMatches.save({
+      userId,
+      eventId,
+      selfieURL: getObjectUrl(selfieKey),
+      ...toAttendeeMatches(matches),
+      uploadedAt: now,
+      lastUpdated: now
+    });
+  }
+
+  return { ...result, matches };
+});
+
+jobQueue.register('rematch-event', (job, ctx) =>
+  rematchEventAttendees(job.payload.eventId, job.payload.imageKeys, ctx.reportProgress)
+);
+
+// Archiving and restoring an event can touch thousands of objects
+jobQueue.register('sync-event-storage', (job, ctx) =>
+  syncEventStorage(job.payload.eventId, ctx.reportProgress)
+);
+
+jobQueue.register('purge-event', job => purgeEvent(job.payload.eventId));
+
+// Check attendees who already matched against a newly uploaded image
+export const queueEventRematch = (eventId: string, imageKey: string) =>
+  scheduleEventRematch(eventId, imageKey, (id, imageKeys) =>
+    jobQueue.enqueue('rematch-event', { eventId: id, imageKeys })
+  );
+
+// Purge deleted events once their grace period is over
+export const startEventPurges = () =>
+  scheduleEventPurges(eventId => jobQueue.enqueue('purge-event', { eventId }));
@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+import type { JobStore } from './store';
+import type { Job, JobPayloads, JobProgress, JobResults, JobType } from '../../shared/types';
+
+export interface JobContext {
+  reportProgress(processed: number, total: number): void;
+}
+
+export type JobHandler<T extends JobType> = (job: Job<T>, ctx: JobContext) => Promise<JobResults[T]>;
+
+export interface JobQueueOptions {
+  // Maximum number of jobs running at once
+  concurrency: number;
+  // Delay before the first retry; doubles with every further attempt
+  retryDelayMs: number;
+  defaultMaxAttempts: number;
+}
+
+// Progress is written at most this often so large jobs don't flood the store
+const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * Runs background jobs with a concurrency limit and retries with
+ * exponential backoff. Jobs are processed by whichever handler was
+ * registered for their type.
+ */
+export class JobQueue {
+  private handlers: { [T in JobType]?: JobHandler<T> } = {};
+  private running = 0;
+
+  constructor(private store: JobStore, private options: JobQueueOptions) {}
+
+  register<T extends JobType>(type: T, handler: JobHandler<T>) {
+    (this.handlers as Record<T, JobHandler<T>>)[type] = handler;
+  }
+
+  /**
+   * Queues a job to run as soon as a slot is free
+   * @param requestedBy The user's email or guest id asking for it, when a request queues it
+   */
+  async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    requestedBy?: string,
+    maxAttempts = this.options.defaultMaxAttempts
+  ) {
+    const now = new Date().toISOString();
+    const job: Job<T> = {
+      id: randomUUID(),
+      type,
+      payload,
+      requestedBy,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.store.create(job as Job);
+    this.drain();
+    return job;
+  }
+
+  get(id: string) {
+    return this.store.get(id);
+  }
+
+  // Try to claim a job for every free slot; slots that find nothing are released
+  private drain() {
+    while (this.running < this.options.concurrency) {
+      this.running += 1;
+      this.store.claimNext(new Date())
+        .then(async job => {
+          if (job) await this.run(job);
+          return job;
+        })
+        .catch(error => {
+          console.error('Job queue error:', error);
+          return null;
+        })
+        .then(job => {
+          this.running -= 1;
+          // A finished job frees its slot for the next one
+          if (job) this.drain();
+        });
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers[job.type] as JobHandler<JobType> | undefined;
+    if (!handler) {
+      await this.store.update(job.id, { status: 'failed', error: `No handler for job type ${job.type}` });
+      return;
+    }
+
+    let lastProgressWrite = 0;
+    const ctx: JobContext = {
+      reportProgress: (processed, total) => {
+        const now = Date.now();
+        if (processed < total && now - lastProgressWrite < PROGRESS_INTERVAL_MS) return;
+        lastProgressWrite = now;
+        const progress: JobProgress = { processed, total };
+        this.store.update(job.id, { progress }).catch(error => {
+          console.error(`Error saving progress of job ${job.id}:`, error);
+        });
+      }
+    };
+
+    try {
+      const result = await handler(job, ctx);
+      await this.store.update(job.id, { status: 'succeeded', result, error: undefined });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.store.update(job.id, { status: 'failed', error: message });
+        return;
+      }
+
+      const delay = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+      await this.store.update(job.id, {
+        status: 'queued',
+        error: message,
+        runAfter: new Date(Date.now() + delay).toISOString()
+      });
+      setTimeout(() => this.drain(), delay);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import type { Job } from '../../shared/types';
+
+// Persistence for the job queue. Only an in-process backend exists today, so
+// jobs survive a closed browser tab but not an API server restart.
+export interface JobStore {
+  create(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  update(id: string, changes: Partial<Job>): Promise<Job>;
+  // Atomically marks the oldest runnable queued job as running and returns it
+  claimNext(now: Date): Promise<Job | null>;
+}
+
+// Finished jobs are kept this long so clients can still read their result
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  async create(job: Job) {
+    this.prune();
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string) {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, changes: Partial<Job>) {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job ${id} not found`);
+    }
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() } as Job;
+    this.jobs.set(id, updated);
+    return { ...updated };
+  }
+
+  async claimNext(now: Date) {
+    // Map iteration follows insertion order, so the oldest job wins
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'queued') continue;
+      if (job.runAfter && new Date(job.runAfter) > now) continue;
+      return this.update(job.id, { status: 'running', attempts: job.attempts + 1 });
+    }
+    return null;
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if ((job.status === 'succeeded' || job.status === 'failed') && new Date(job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
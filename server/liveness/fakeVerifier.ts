@@ -0,0 +1,23 @@
+import { LIVENESS_STEPS } from './verifier';
+import type { LivenessFrame, LivenessResult, LivenessVerifier } from './verifier';
+
+// Deterministic stand-in for a liveness check. It does not look at pixels;
+// a frame follows its step when the step is in its file name (the app names
+// frames "liveness-<step>.jpg"), and any frame or selfie with "spoof" in its
+// name fails.
+
+const fileNameOf = (imageKey: string) => (imageKey.split('/').pop() || imageKey).toLowerCase();
+
+export class FakeLivenessVerifier implements LivenessVerifier {
+  readonly steps = LIVENESS_STEPS;
+
+  async verify(frames: LivenessFrame[], selfieKey: string): Promise<LivenessResult> {
+    if ([...frames.map(frame => frame.imageKey), selfieKey].some(key => fileNameOf(key).includes('spoof'))) {
+      return { passed: false, reason: 'This does not look like a live camera. Please try again.' };
+    }
+    const missed = frames.find(frame => !fileNameOf(frame.imageKey).includes(frame.step));
+    return missed
+      ? { passed: false, reason: `We did not see you ${missed.step.replace('-', ' ')}. Please try again.` }
+      : { passed: true };
+  }
+}
@@ -0,0 +1,12 @@
+import { faceMatcher } from '../faces';
+import { FakeFaceMatcher } from '../faces/fakeMatcher';
+import { FakeLivenessVerifier } from './fakeVerifier';
+import { PoseLivenessVerifier } from './poseVerifier';
+import type { LivenessVerifier } from './verifier';
+
+export type { LivenessFrame, LivenessResult, LivenessVerifier } from './verifier';
+
+// The fake matcher sees no pixels, so frames are checked by name along with it
+export const livenessVerifier: LivenessVerifier = faceMatcher instanceof FakeFaceMatcher
+  ? new FakeLivenessVerifier()
+  : new PoseLivenessVerifier(faceMatcher);
@@ -0,0 +1,86 @@
+import type { DetectedFace, FaceMatcher } from '../faces';
+import type { LivenessStep } from '../../shared/types';
+import { LIVENESS_STEPS } from './verifier';
+import type { LivenessFrame, LivenessResult, LivenessVerifier } from './verifier';
+
+// Checks each frame with the face matcher: turned heads for turns, tilted ones
+// for looking up and down, closed eyes for blinks, and the same person in
+// every frame as in the selfie. A printed
+// or on-screen photo cannot turn or blink on request, and the steps are in a
+// random order the guest only learns when the challenge starts.
+
+// Degrees of yaw that count as a turned head, and as looking straight ahead
+const MIN_TURN_YAW = 20;
+const MAX_STRAIGHT_YAW = 15;
+// Degrees of pitch that count as looking up or down
+const MIN_TILT_PITCH = 12;
+// Turned heads match a frontal selfie less well than the usual threshold
+const SAME_PERSON_SIMILARITY = 75;
+
+const STEP_FAILURES: Record<LivenessStep, string> = {
+  'turn-left': 'We did not see you turn your head to the left. Please try again.',
+  'turn-right': 'We did not see you turn your head to the right. Please try again.',
+  'look-up': 'We did not see you tilt your head up. Please try again.',
+  'look-down': 'We did not see you tilt your head down. Please try again.',
+  blink: 'We did not see you close your eyes. Please try again.'
+};
+
+const failed = (reason: string): LivenessResult => ({ passed: false, reason });
+
+const followsStep = (step: LivenessStep, face: DetectedFace | undefined) => {
+  if (!face) return false;
+  if (step === 'blink') return face.eyesOpen === false;
+  if (step === 'look-up' || step === 'look-down') return Math.abs(face.pose?.pitch || 0) >= MIN_TILT_PITCH;
+  return Math.abs(face.pose?.yaw || 0) >= MIN_TURN_YAW;
+};
+
+// Opposite steps, and which angle of the head they change
+const OPPOSITE_STEPS: [LivenessStep, LivenessStep, 'yaw' | 'pitch'][] = [
+  ['turn-left', 'turn-right', 'yaw'],
+  ['look-up', 'look-down', 'pitch']
+];
+
+export class PoseLivenessVerifier implements LivenessVerifier {
+  readonly steps: LivenessStep[];
+
+  constructor(private matcher: FaceMatcher) {
+    // Blinks can only be seen by matchers that report open and closed eyes
+    this.steps = matcher.detectsEyes ? LIVENESS_STEPS : LIVENESS_STEPS.filter(step => step !== 'blink');
+  }
+
+  async verify(frames: LivenessFrame[], selfieKey: string): Promise<LivenessResult> {
+    const [selfie] = await this.matcher.detectFaces(selfieKey);
+    if (!selfie || Math.abs(selfie.pose?.yaw || 0) > MAX_STRAIGHT_YAW || selfie.eyesOpen === false) {
+      return failed('Finish by looking straight at the camera with your eyes open.');
+    }
+
+    const faces = await Promise.all(frames.map(async frame => (await this.matcher.detectFaces(frame.imageKey))[0]));
+    const missed = frames.findIndex((frame, i) => !followsStep(frame.step, faces[i]));
+    if (missed !== -1) {
+      return failed(STEP_FAILURES[frames[missed].step]);
+    }
+
+    // Which sign of yaw is left depends on whether the camera mirrors, and
+    // matchers differ on the sign of pitch, so only check that every frame of
+    // a step went the same way, and opposite steps opposite ways
+    const signsOf = (step: LivenessStep, angle: 'yaw' | 'pitch') => new Set(frames
+      .map((frame, i) => frame.step === step ? faces[i]?.pose?.[angle] : undefined)
+      .filter((value): value is number => value !== undefined)
+      .map(Math.sign));
+    for (const [one, other, angle] of OPPOSITE_STEPS) {
+      const signs = signsOf(one, angle);
+      const otherSigns = signsOf(other, angle);
+      if (signs.size > 1 || otherSigns.size > 1 || [...signs].some(sign => otherSigns.has(sign))) {
+        return failed('Move your head each way as asked. Please try again.');
+      }
+    }
+
+    const similarities = await Promise.all(frames.map(frame =>
+      this.matcher.compare(selfieKey, frame.imageKey, SAME_PERSON_SIMILARITY)
+    ));
+    if (similarities.some(similarity => similarity === null)) {
+      return failed('Keep your own face in view the whole time. Please try again.');
+    }
+    return { passed: true };
+  }
+}
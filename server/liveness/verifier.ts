@@ -0,0 +1,30 @@
+import type { LivenessStep } from '../../shared/types';
+
+// Checks that camera frames came from a person in front of the camera
+// following a liveness challenge, not from a photo of someone else held up to
+// it. PoseLivenessVerifier reads head pose and eyes with the face matcher;
+// FakeLivenessVerifier is a deterministic stand-in used with the fake face
+// matcher.
+//
+// Frames are referred to by their key in the object store.
+
+export const LIVENESS_STEPS: LivenessStep[] = ['turn-left', 'turn-right', 'look-up', 'look-down', 'blink'];
+
+export interface LivenessFrame {
+  step: LivenessStep;
+  imageKey: string;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  // Why it did not pass, shown to the guest
+  reason?: string;
+}
+
+export interface LivenessVerifier {
+  // The steps it can check; challenges only ask for these
+  readonly steps: LivenessStep[];
+  // frames holds one frame per challenge step, in order; the selfie is the
+  // last frame, looking straight at the camera
+  verify(frames: LivenessFrame[], selfieKey: string): Promise<LivenessResult>;
+}
@@ -0,0 +1,7 @@
+import type { MailMessage, Mailer } from './mailer';
+
+export class ConsoleMailer implements Mailer {
+  async send({ to, subject, text }: MailMessage) {
+    console.log(`Email to ${to}: ${subject}\n${text}`);
+  }
+}
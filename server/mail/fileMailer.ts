@@ -0,0 +1,14 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { MailMessage, Mailer } from './mailer';
+
+// Appends each message to mail.log in a directory, for local runs where the
+// server log is not handy (see OUTBOX_DIR)
+export class FileMailer implements Mailer {
+  constructor(private dir: string) {}
+
+  async send({ to, subject, text }: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(join(this.dir, 'mail.log'), `${new Date().toISOString()} To: ${to}\nSubject: ${subject}\n\n${text}\n\n`);
+  }
+}
@@ -0,0 +1,12 @@
+import { ConsoleMailer } from './consoleMailer';
+import { FileMailer } from './fileMailer';
+import type { Mailer } from './mailer';
+
+export type { MailMessage, Mailer } from './mailer';
+
+// Where links in emails point: the browser app
+export const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+export const mailer: Mailer = process.env.OUTBOX_DIR
+  ? new FileMailer(process.env.OUTBOX_DIR)
+  : new ConsoleMailer();
@@ -0,0 +1,13 @@
+// Email the server sends, such as event invitations. ConsoleMailer writes
+// messages to the server log until a mail provider is wired up, or FileMailer
+// to files in OUTBOX_DIR when it is set.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
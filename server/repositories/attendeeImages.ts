@@ -0,0 +1,275 @@
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { optionalString, parse, requiredString, stringArray, withDefault } from './schema';
+import type { Check, Schema } from './schema';
+import type { Item, TableBackend, TableDefinition } from './backend';
+import type { EventCounters } from './events';
+import type { AttendeeImageRepository } from '../../shared/repositories';
+import type { AttendeeImageData, ScoredImage } from '../../shared/types';
+
+// Key: userId + eventId. GSI 'EventIndex' on eventId lists an event's attendees.
+export const ATTENDEE_IMGS_TABLE: TableDefinition = {
+  name: 'Attendee-imgs',
+  keys: ['userId', 'eventId'],
+  indexes: { EventIndex: ['eventId'] }
+};
+
+// Event id of the record holding a user's selfie before they join any event
+const DEFAULT_SELFIE_EVENT = 'default';
+
+type MatchFields = Pick<
+  AttendeeImageData,
+  'matchedImages' | 'matchScores' | 'possibleMatches' | 'confirmedImages' | 'rejectedImages'
+>;
+
+// Each image once, with its best similarity
+const mergeScores = (...lists: (ScoredImage[] | undefined)[]) => {
+  const best = new Map<string, ScoredImage>();
+  for (const image of lists.flatMap(list => list || [])) {
+    if ((best.get(image.url)?.similarity ?? -1) < image.similarity) best.set(image.url, image);
+  }
+  return Array.from(best.values());
+};
+
+const union = (...lists: (string[] | undefined)[]) => Array.from(new Set(lists.flatMap(list => list || [])));
+
+// Adds matches to a record's, each image once. Rejected images stay out, even
+// when confirmed or matched before; confirmed images are matched; possible
+// matches that were matched since are no longer possible.
+const mergeMatches = (previous: MatchFields, added: MatchFields): Required<MatchFields> => {
+  const rejectedImages = union(previous.rejectedImages, added.rejectedImages);
+  const rejected = new Set(rejectedImages);
+  const confirmedImages = union(previous.confirmedImages, added.confirmedImages).filter(url => !rejected.has(url));
+  const matchedImages = union(previous.matchedImages, added.matchedImages, confirmedImages)
+    .filter(url => !rejected.has(url));
+  const matched = new Set(matchedImages);
+  return {
+    matchedImages,
+    matchScores: mergeScores(previous.matchScores, added.matchScores).filter(image => matched.has(image.url)),
+    possibleMatches: mergeScores(previous.possibleMatches, added.possibleMatches)
+      .filter(image => !matched.has(image.url) && !rejected.has(image.url)),
+    confirmedImages,
+    rejectedImages
+  };
+};
+
+// Stored records carry a version, bumped by every change of their matches so
+// that concurrent changes (e.g. a rematch finishing while the guest's own
+// match runs, or the guest reviewing a match meanwhile) cannot undo each
+// other. Records saved before versions were kept have none.
+type VersionedRecord = AttendeeImageData & { version?: number };
+
+// Attempts at a change before giving up when the record keeps changing
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Writes changes over the record as read, bumping its version; resolves with
+// false when another change was written meanwhile
+const updateVersioned = (backend: TableBackend, record: VersionedRecord, changes: Item) =>
+  backend.updateIf(
+    ATTENDEE_IMGS_TABLE,
+    { userId: record.userId, eventId: record.eventId },
+    { ...changes, version: (record.version || 0) + 1 },
+    { attribute: 'version', expected: record.version }
+  );
+
+// Runs a read-modify-write until it goes through; change resolves with null
+// when the record changed after it was read, to read it again
+const retryChange = async <T>(userId: string, eventId: string, change: () => Promise<T | null>): Promise<T> => {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const result = await change();
+    if (result !== null) return result;
+  }
+  throw new ConflictError(
+    `Attendee record ${userId}/${eventId} kept changing; please try again`,
+    'ATTENDEE_RECORD_BUSY'
+  );
+};
+
+const isScoredImage = (value: unknown): value is ScoredImage => {
+  const image = value as ScoredImage | null;
+  return Boolean(image) && typeof image?.url === 'string' &&
+    typeof image.similarity === 'number' && image.similarity >= 0 && image.similarity <= 100;
+};
+
+const scoredImages: Check<ScoredImage[] | undefined> = (value, field, issues) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || !value.every(isScoredImage)) {
+    issues.push(`${field} must be an array of { url, similarity } with similarities from 0 to 100`);
+    return undefined;
+  }
+  return value.map(({ url, similarity }) => ({ url, similarity }));
+};
+
+// What a match saves. Which images the guest confirmed or rejected only
+// changes through reviewMatch, so saves cannot set them.
+export type MatchedAttendee = Omit<AttendeeImageData, 'confirmedImages' | 'rejectedImages'>;
+
+const attendeeSchema: Schema<MatchedAttendee> = {
+  userId: requiredString(320),
+  eventId: requiredString(128),
+  selfieURL: withDefault(optionalString(), () => ''),
+  matchedImages: stringArray,
+  matchScores: scoredImages,
+  possibleMatches: scoredImages,
+  uploadedAt: withDefault(optionalString(64), () => new Date().toISOString()),
+  lastUpdated: withDefault(optionalString(64), () => new Date().toISOString())
+};
+
+export const createAttendeeImageRepository = (
+  backend: TableBackend,
+  counters: EventCounters
+): AttendeeImageRepository => {
+  const get = (userId: string, eventId: string) =>
+    backend.get<AttendeeImageData>(ATTENDEE_IMGS_TABLE, { userId, eventId });
+
+  const listByUser = (userId: string) =>
+    backend.query<AttendeeImageData>(ATTENDEE_IMGS_TABLE, 'userId', userId);
+
+  return {
+    get,
+    listByUser,
+
+    listByEvent(eventId) {
+      return backend.query<AttendeeImageData>(ATTENDEE_IMGS_TABLE, 'eventId', eventId, 'EventIndex');
+    },
+
+    async reviewMatch(userId, eventId, imageUrl, review) {
+      if (review !== 'confirmed' && review !== 'rejected') {
+        throw new ValidationError('match review', ['review must be one of confirmed, rejected']);
+      }
+      const { existing, reviewed, lastUpdated } = await retryChange(userId, eventId, async () => {
+        const existing = await backend.get<VersionedRecord>(ATTENDEE_IMGS_TABLE, { userId, eventId });
+        const possible = existing?.possibleMatches?.find(image => image.url === imageUrl);
+        if (!existing || (!possible && !existing.matchedImages.includes(imageUrl))) {
+          throw new NotFoundError('Match', imageUrl);
+        }
+
+        const reviewed = mergeMatches(existing, review === 'confirmed'
+          ? { matchedImages: [], matchScores: possible && [possible], confirmedImages: [imageUrl] }
+          : { matchedImages: [], rejectedImages: [imageUrl] });
+        const lastUpdated = new Date().toISOString();
+        return await updateVersioned(backend, existing, { ...reviewed, lastUpdated })
+          ? { existing, reviewed, lastUpdated }
+          : null;
+      });
+      await counters.adjust(eventId, { matchCount: reviewed.matchedImages.length - existing.matchedImages.length });
+      return { ...existing, ...reviewed, lastUpdated };
+    },
+
+    async getStatistics(userId) {
+      const records = (await listByUser(userId)).filter(record => record.eventId !== DEFAULT_SELFIE_EVENT);
+      const dates = records.map(record => record.uploadedAt).sort();
+
+      return {
+        totalEvents: new Set(records.map(record => record.eventId)).size,
+        totalImages: records.reduce((sum, record) => sum + record.matchedImages.length, 0),
+        firstEventDate: dates[0] || null,
+        latestEventDate: dates[dates.length - 1] || null
+      };
+    },
+
+    async updateSelfie(userId, selfieURL) {
+      const records = await listByUser(userId);
+      const lastUpdated = new Date().toISOString();
+      await Promise.all(records.map(record =>
+        backend.update(ATTENDEE_IMGS_TABLE, { userId, eventId: record.eventId }, { selfieURL, lastUpdated })
+      ));
+      return records.length;
+    },
+
+    async getDefaultSelfie(userId) {
+      const record = await get(userId, DEFAULT_SELFIE_EVENT);
+      return record?.selfieURL || null;
+    },
+
+    async setDefaultSelfie(userId, selfieURL) {
+      const now = new Date().toISOString();
+      await backend.put(ATTENDEE_IMGS_TABLE, {
+        userId,
+        eventId: DEFAULT_SELFIE_EVENT,
+        selfieURL,
+        matchedImages: [],
+        uploadedAt: now,
+        lastUpdated: now
+      });
+    }
+  };
+};
+
+// Server-only: saves what a match found. Only the match-selfie job and
+// rematches write matches, and only for selfies the API server vouched for;
+// clients never send them.
+export interface AttendeeMatches {
+  // Creates the record or merges the matches into the existing one. Images
+  // the guest rejected stay rejected, and matched images are no longer possible.
+  save(data: MatchedAttendee): Promise<void>;
+}
+
+export const createAttendeeMatches = (backend: TableBackend, counters: EventCounters): AttendeeMatches => ({
+  // A user's first record for an event makes them a guest; every image
+  // added to their matches counts towards the event's matchCount
+  async save(input) {
+    const data = parse('attendee record', attendeeSchema, input);
+    const { userId, eventId } = data;
+    const deltas = await retryChange(userId, eventId, async () => {
+      const existing = await backend.get<VersionedRecord>(ATTENDEE_IMGS_TABLE, { userId, eventId });
+      if (!existing) {
+        // Conditional, so two saves racing for the same new record count one guest
+        const matches = mergeMatches({ matchedImages: [] }, data);
+        return await backend.putIfAbsent(ATTENDEE_IMGS_TABLE, { ...data, ...matches, version: 1 })
+          ? { guestCount: 1, matchCount: matches.matchedImages.length }
+          : null;
+      }
+
+      const merged = mergeMatches(existing, data);
+      const changes = { selfieURL: data.selfieURL, ...merged, lastUpdated: new Date().toISOString() };
+      return await updateVersioned(backend, existing, changes)
+        ? { matchCount: merged.matchedImages.length - existing.matchedImages.length }
+        : null;
+    });
+    if (eventId !== DEFAULT_SELFIE_EVENT) {
+      await counters.adjust(eventId, deltas);
+    }
+  }
+});
+
+// Server-only: hands the records a guest made before signing in (under their
+// anonymous guest id) over to their account
+export interface AttendeeClaims {
+  // Resolves with how many records the guest had
+  claim(guestId: string, userId: string): Promise<number>;
+}
+
+export const createAttendeeClaims = (backend: TableBackend, counters: EventCounters): AttendeeClaims => ({
+  async claim(guestId, userId) {
+    const records = await backend.query<AttendeeImageData>(ATTENDEE_IMGS_TABLE, 'userId', guestId);
+    for (const record of records) {
+      const { eventId } = record;
+      const merged = await retryChange(userId, eventId, async () => {
+        const existing = await backend.get<VersionedRecord>(ATTENDEE_IMGS_TABLE, { userId, eventId });
+        // Events the account has no record for simply change hands; the
+        // guest and their matches are already counted
+        if (!existing) {
+          return await backend.putIfAbsent(ATTENDEE_IMGS_TABLE, { ...record, userId, version: 1 }) ? false : null;
+        }
+        // The account keeps its own default selfie
+        if (eventId === DEFAULT_SELFIE_EVENT) return false;
+
+        const matches = mergeMatches(existing, record);
+        const newer = record.lastUpdated > existing.lastUpdated ? record : existing;
+        const changes = { selfieURL: newer.selfieURL, ...matches, lastUpdated: new Date().toISOString() };
+        return await updateVersioned(backend, existing, changes)
+          ? { added: matches.matchedImages.length - existing.matchedImages.length }
+          : null;
+      });
+      if (merged) {
+        // Both were counted as guests, with their matches
+        await counters.adjust(eventId, {
+          guestCount: -1,
+          matchCount: merged.added - (record.matchedImages || []).length
+        });
+      }
+      await backend.delete(ATTENDEE_IMGS_TABLE, { userId: guestId, eventId: record.eventId });
+    }
+    return records.length;
+  }
+});
@@ -0,0 +1,86 @@
+import { ValidationError } from './errors';
+
+// Storage the repositories are written against. DynamoTableBackend talks to
+// DynamoDB; MemoryTableBackend keeps everything in process for local runs
+// (AWS_MODE=local) and tests.
+
+export interface TableDefinition {
+  name: string;
+  // Partition key, then the sort key if the table has one
+  keys: string[];
+  // Global secondary indexes by name, each with its partition and optional sort key
+  indexes?: Record<string, string[]>;
+}
+
+export type Item = Record<string, unknown>;
+export type ItemKey = Record<string, string>;
+
+export interface UpdateCondition {
+  attribute: string;
+  expected: string | number | undefined;
+}
+
+export interface PageOptions {
+  // Most items to return; a page can hold fewer even when more follow
+  limit?: number;
+  // From the previous page; leave out for the first page
+  cursor?: string | null;
+}
+
+export interface QueryOptions extends PageOptions {
+  index?: string;
+  // Highest sort key first
+  descending?: boolean;
+}
+
+export interface ItemPage<T> {
+  items: T[];
+  // null on the last page
+  cursor: string | null;
+}
+
+// Reads are typed by the caller; items are not checked against the type
+export interface TableBackend {
+  get<T = Item>(table: TableDefinition, key: ItemKey): Promise<T | null>;
+  put(table: TableDefinition, item: Item): Promise<void>;
+  // Writes the item only if none has its key; resolves with whether it did
+  putIfAbsent(table: TableDefinition, item: Item): Promise<boolean>;
+  // Sets the given attributes, creating the item if it does not exist
+  update(table: TableDefinition, key: ItemKey, changes: Item): Promise<void>;
+  // Sets the given attributes only while the item exists and the condition
+  // attribute still holds the expected value (undefined: the item has none);
+  // resolves with whether it did
+  updateIf(table: TableDefinition, key: ItemKey, changes: Item, condition: UpdateCondition): Promise<boolean>;
+  // Atomically adds to numeric attributes (missing ones count as 0). Items are
+  // never created; resolves with false when there is no item with the key.
+  increment(table: TableDefinition, key: ItemKey, deltas: Record<string, number>): Promise<boolean>;
+  delete(table: TableDefinition, key: ItemKey): Promise<void>;
+  // Items whose attribute equals value. The attribute must be the table's
+  // partition key, or the partition key of the named index.
+  query<T = Item>(table: TableDefinition, attribute: string, value: string, index?: string): Promise<T[]>;
+  // One page of a query, in sort key order
+  queryPage<T = Item>(table: TableDefinition, attribute: string, value: string, options: QueryOptions): Promise<ItemPage<T>>;
+  // Reads the whole table, keeping items whose attribute equals value
+  scan<T = Item>(table: TableDefinition, attribute: string, value: string): Promise<T[]>;
+  // One page of every item in the table, e.g. for migrations
+  scanPage<T = Item>(table: TableDefinition, options: PageOptions): Promise<ItemPage<T>>;
+  // Items for many keys at once; keys without an item are left out
+  batchGet<T = Item>(table: TableDefinition, keys: ItemKey[]): Promise<T[]>;
+  batchPut(table: TableDefinition, items: Item[]): Promise<void>;
+  batchDelete(table: TableDefinition, keys: ItemKey[]): Promise<void>;
+}
+
+// Cursors are the key of the last item read, opaque to callers
+export const encodeCursor = (key: Item) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+export const decodeCursor = (cursor: string): Item => {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (key && typeof key === 'object' && !Array.isArray(key)) {
+      return key as Item;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError('page cursor', ['cursor is not valid']);
+};
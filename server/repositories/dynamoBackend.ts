@@ -0,0 +1,261 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import type { BatchGetCommandOutput, BatchWriteCommandInput, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { StorageError, ValidationError } from './errors';
+import { decodeCursor, encodeCursor } from './backend';
+import type { Item, ItemKey, PageOptions, QueryOptions, TableBackend, TableDefinition, UpdateCondition } from './backend';
+
+type WriteRequest = NonNullable<BatchWriteCommandInput['RequestItems']>[string][number];
+
+// DynamoDB batch limits
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class DynamoTableBackend implements TableBackend {
+  constructor(private client: DynamoDBDocumentClient) {}
+
+  get<T = Item>(table: TableDefinition, key: ItemKey) {
+    return this.run('get', table, async () => {
+      const response = await this.client.send(new GetCommand({ TableName: table.name, Key: key }));
+      return (response.Item as T | undefined) || null;
+    });
+  }
+
+  put(table: TableDefinition, item: Item) {
+    return this.run('put', table, async () => {
+      await this.client.send(new PutCommand({ TableName: table.name, Item: item }));
+    });
+  }
+
+  putIfAbsent(table: TableDefinition, item: Item) {
+    return this.run('put', table, async () => {
+      try {
+        await this.client.send(new PutCommand({
+          TableName: table.name,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(#key)',
+          ExpressionAttributeNames: { '#key': table.keys[0] }
+        }));
+        return true;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+        throw error;
+      }
+    });
+  }
+
+  increment(table: TableDefinition, key: ItemKey, deltas: Record<string, number>) {
+    return this.run('increment', table, async () => {
+      const fields = Object.keys(deltas);
+      try {
+        await this.client.send(new UpdateCommand({
+          TableName: table.name,
+          Key: key,
+          UpdateExpression: `ADD ${fields.map((_, i) => `#f${i} :v${i}`).join(', ')}`,
+          ConditionExpression: 'attribute_exists(#key)',
+          ExpressionAttributeNames: {
+            '#key': table.keys[0],
+            ...Object.fromEntries(fields.map((field, i) => [`#f${i}`, field]))
+          },
+          ExpressionAttributeValues: Object.fromEntries(fields.map((field, i) => [`:v${i}`, deltas[field]]))
+        }));
+        return true;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+        throw error;
+      }
+    });
+  }
+
+  update(table: TableDefinition, key: ItemKey, changes: Item) {
+    return this.run('update', table, async () => {
+      // Attribute names go through placeholders since several (name, date, role) are reserved words
+      const fields = Object.keys(changes);
+      await this.client.send(new UpdateCommand({
+        TableName: table.name,
+        Key: key,
+        UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+        ExpressionAttributeNames: Object.fromEntries(fields.map((field, i) => [`#f${i}`, field])),
+        ExpressionAttributeValues: Object.fromEntries(fields.map((field, i) => [`:v${i}`, changes[field]]))
+      }));
+    });
+  }
+
+  updateIf(table: TableDefinition, key: ItemKey, changes: Item, { attribute, expected }: UpdateCondition) {
+    return this.run('update', table, async () => {
+      const fields = Object.keys(changes);
+      try {
+        await this.client.send(new UpdateCommand({
+          TableName: table.name,
+          Key: key,
+          UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+          ConditionExpression: expected === undefined
+            ? 'attribute_exists(#key) AND attribute_not_exists(#condition)'
+            : '#condition = :expected',
+          ExpressionAttributeNames: {
+            ...(expected === undefined ? { '#key': table.keys[0] } : {}),
+            '#condition': attribute,
+            ...Object.fromEntries(fields.map((field, i) => [`#f${i}`, field]))
+          },
+          ExpressionAttributeValues: {
+            ...(expected === undefined ? {} : { ':expected': expected }),
+            ...Object.fromEntries(fields.map((field, i) => [`:v${i}`, changes[field]]))
+          }
+        }));
+        return true;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+        throw error;
+      }
+    });
+  }
+
+  delete(table: TableDefinition, key: ItemKey) {
+    return this.run('delete', table, async () => {
+      await this.client.send(new DeleteCommand({ TableName: table.name, Key: key }));
+    });
+  }
+
+  query<T = Item>(table: TableDefinition, attribute: string, value: string, index?: string) {
+    return this.run('query', table, async () => {
+      const items: T[] = [];
+      let lastEvaluatedKey: Record<string, unknown> | undefined;
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: table.name,
+          IndexName: index,
+          KeyConditionExpression: '#attribute = :value',
+          ExpressionAttributeNames: { '#attribute': attribute },
+          ExpressionAttributeValues: { ':value': value },
+          ExclusiveStartKey: lastEvaluatedKey
+        }));
+        items.push(...(response.Items as T[] || []));
+        lastEvaluatedKey = response.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+      return items;
+    });
+  }
+
+  queryPage<T = Item>(table: TableDefinition, attribute: string, value: string, options: QueryOptions) {
+    return this.run('query', table, async () => {
+      const response = await this.client.send(new QueryCommand({
+        TableName: table.name,
+        IndexName: options.index,
+        KeyConditionExpression: '#attribute = :value',
+        ExpressionAttributeNames: { '#attribute': attribute },
+        ExpressionAttributeValues: { ':value': value },
+        ScanIndexForward: !options.descending,
+        Limit: options.limit,
+        ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor) : undefined
+      }));
+      return {
+        items: response.Items as T[] || [],
+        cursor: response.LastEvaluatedKey ? encodeCursor(response.LastEvaluatedKey) : null
+      };
+    }, options.cursor);
+  }
+
+  scan<T = Item>(table: TableDefinition, attribute: string, value: string) {
+    return this.run('scan', table, async () => {
+      const items: T[] = [];
+      let lastEvaluatedKey: Record<string, unknown> | undefined;
+      do {
+        const response = await this.client.send(new ScanCommand({
+          TableName: table.name,
+          FilterExpression: '#attribute = :value',
+          ExpressionAttributeNames: { '#attribute': attribute },
+          ExpressionAttributeValues: { ':value': value },
+          ExclusiveStartKey: lastEvaluatedKey
+        }));
+        items.push(...(response.Items as T[] || []));
+        lastEvaluatedKey = response.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+      return items;
+    });
+  }
+
+  scanPage<T = Item>(table: TableDefinition, options: PageOptions) {
+    return this.run('scan', table, async () => {
+      const response = await this.client.send(new ScanCommand({
+        TableName: table.name,
+        Limit: options.limit,
+        ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor) : undefined
+      }));
+      return {
+        items: response.Items as T[] || [],
+        cursor: response.LastEvaluatedKey ? encodeCursor(response.LastEvaluatedKey) : null
+      };
+    }, options.cursor);
+  }
+
+  batchGet<T = Item>(table: TableDefinition, keys: ItemKey[]) {
+    return this.run('batch get', table, async () => {
+      const items: T[] = [];
+      for (const batch of chunk(keys, BATCH_GET_SIZE)) {
+        // Retry whatever DynamoDB left unprocessed
+        let pending: Record<string, unknown>[] | undefined = batch;
+        while (pending && pending.length > 0) {
+          const response: BatchGetCommandOutput = await this.client.send(new BatchGetCommand({
+            RequestItems: { [table.name]: { Keys: pending } }
+          }));
+          items.push(...(response.Responses?.[table.name] as T[] || []));
+          pending = response.UnprocessedKeys?.[table.name]?.Keys;
+        }
+      }
+      return items;
+    });
+  }
+
+  batchPut(table: TableDefinition, items: Item[]) {
+    return this.run('batch put', table, () =>
+      this.batchWrite(table, items.map(item => ({ PutRequest: { Item: item } })))
+    );
+  }
+
+  batchDelete(table: TableDefinition, keys: ItemKey[]) {
+    return this.run('batch delete', table, () =>
+      this.batchWrite(table, keys.map(key => ({ DeleteRequest: { Key: key } })))
+    );
+  }
+
+  private async batchWrite(table: TableDefinition, requests: WriteRequest[]) {
+    for (const batch of chunk(requests, BATCH_WRITE_SIZE)) {
+      let pending: WriteRequest[] | undefined = batch;
+      while (pending && pending.length > 0) {
+        const response = await this.client.send(new BatchWriteCommand({
+          RequestItems: { [table.name]: pending }
+        }));
+        pending = response.UnprocessedItems?.[table.name] as WriteRequest[] | undefined;
+      }
+    }
+  }
+
+  private async run<T>(operation: string, table: TableDefinition, action: () => Promise<T>, cursor?: string | null): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      // A cursor from another query, or a tampered one, fails DynamoDB's key validation
+      if (cursor && error instanceof Error && error.name === 'ValidationException') {
+        throw new ValidationError('page cursor', ['cursor is not valid for this query']);
+      }
+      throw new StorageError(`DynamoDB ${operation} on ${table.name} failed`, { cause: error });
+    }
+  }
+}
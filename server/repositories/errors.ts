@@ -0,0 +1,36 @@
+// Errors thrown by the repositories. Route handlers let them propagate;
+// sendError turns validation, not-found and conflict errors into 400, 404
+// and 409 responses.
+export class RepositoryError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// The input did not match the entity's schema
+export class ValidationError extends RepositoryError {
+  constructor(public entity: string, public issues: string[]) {
+    super(`Invalid ${entity}: ${issues.join('; ')}`);
+  }
+}
+
+export class NotFoundError extends RepositoryError {
+  // e.g. EVENT_NOT_FOUND, matching the codes the API already returned
+  public code: string;
+
+  constructor(entity: string, id: string) {
+    super(`${entity} ${id} not found`);
+    this.code = `${entity.toUpperCase()}_NOT_FOUND`;
+  }
+}
+
+// The record is not in a state that allows the change
+export class ConflictError extends RepositoryError {
+  constructor(message: string, public code: string) {
+    super(message);
+  }
+}
+
+// The storage backend failed; the original error is kept as the cause
+export class StorageError extends RepositoryError {}
@@ -0,0 +1,88 @@
+import { NotFoundError } from './errors';
+import { email, oneOf, parse } from './schema';
+import type { Schema } from './schema';
+import type { TableBackend, TableDefinition } from './backend';
+import type { EventInvitation, EventMemberRepository } from '../../shared/repositories';
+import { INVITABLE_EVENT_ROLES } from '../../shared/eventRoles';
+import type { EventMember } from '../../shared/types';
+
+// Key: eventId + email. GSI 'MemberIndex' on email lists a user's events.
+export const EVENT_MEMBERS_TABLE: TableDefinition = {
+  name: 'Event-members',
+  keys: ['eventId', 'email'],
+  indexes: { MemberIndex: ['email'] }
+};
+
+const invitationSchema: Schema<EventInvitation> = {
+  email,
+  role: oneOf(INVITABLE_EVENT_ROLES)
+};
+
+const roleSchema: Schema<Pick<EventInvitation, 'role'>> = {
+  role: oneOf(INVITABLE_EVENT_ROLES)
+};
+
+export const createEventMemberRepository = (backend: TableBackend): EventMemberRepository => {
+  const get = (eventId: string, address: string) =>
+    backend.get<EventMember>(EVENT_MEMBERS_TABLE, { eventId, email: address.toLowerCase() });
+
+  return {
+    get,
+
+    listByEvent(eventId) {
+      return backend.query<EventMember>(EVENT_MEMBERS_TABLE, 'eventId', eventId);
+    },
+
+    listByUser(address) {
+      return backend.query<EventMember>(EVENT_MEMBERS_TABLE, 'email', address.toLowerCase(), 'MemberIndex');
+    },
+
+    // Inviting someone again only changes their role; a member stays one
+    async invite(eventId, input, invitedBy) {
+      const invitation = parse('invitation', invitationSchema, input);
+      const address = invitation.email.trim().toLowerCase();
+      const existing = await get(eventId, address);
+      if (existing) {
+        await backend.update(EVENT_MEMBERS_TABLE, { eventId, email: address }, { role: invitation.role });
+        return { ...existing, role: invitation.role };
+      }
+
+      const member: EventMember = {
+        eventId,
+        email: address,
+        role: invitation.role,
+        status: 'invited',
+        invitedBy: invitedBy.toLowerCase(),
+        invitedAt: new Date().toISOString()
+      };
+      await backend.put(EVENT_MEMBERS_TABLE, { ...member });
+      return member;
+    },
+
+    async setRole(eventId, address, input) {
+      const { role } = parse('member role', roleSchema, { role: input });
+      const existing = await get(eventId, address);
+      if (!existing) {
+        throw new NotFoundError('Member', `${address} of event ${eventId}`);
+      }
+      await backend.update(EVENT_MEMBERS_TABLE, { eventId, email: existing.email }, { role });
+      return { ...existing, role };
+    },
+
+    async accept(eventId, address) {
+      const existing = await get(eventId, address);
+      if (!existing) {
+        throw new NotFoundError('Invitation', `to ${address} for event ${eventId}`);
+      }
+      if (existing.status === 'active') return existing;
+
+      const changes = { status: 'active' as const, acceptedAt: new Date().toISOString() };
+      await backend.update(EVENT_MEMBERS_TABLE, { eventId, email: existing.email }, changes);
+      return { ...existing, ...changes };
+    },
+
+    async remove(eventId, address) {
+      await backend.delete(EVENT_MEMBERS_TABLE, { eventId, email: address.toLowerCase() });
+    }
+  };
+};
@@ -0,0 +1,376 @@
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { email, oneOf, optionalOneOf, optionalString, optionalStringArray, parse, parseUpdates, percentage } from './schema';
+import { hashSecret, verifySecret } from './secrets';
+import type { Schema } from './schema';
+import type { Item, TableBackend, TableDefinition } from './backend';
+import { readAllPages } from '../../shared/repositories';
+import type {
+  EventAccessUpdate,
+  EventCounter,
+  EventListRequest,
+  EventLookup,
+  EventRepository,
+  EventUpdates,
+  NewEvent,
+  Page
+} from '../../shared/repositories';
+import { canChangeEventStatus, getEventStatus, isEventStatus } from '../../shared/eventStatus';
+import { generateEventCode } from '../../shared/eventCodes';
+import { EVENT_ACCESS_MODES, MIN_EVENT_PASSWORD_LENGTH, normalizeAccessIdentity } from '../../shared/eventAccess';
+import { MIN_POSSIBLE_SIMILARITY } from '../../shared/matchThresholds';
+import type { EventAccessPolicy, EventData, EventStatus, MatchThresholds } from '../../shared/types';
+
+// Key: eventId, which always equals the event's `id`. GSI 'OrganizerIndex'
+// on organizerId + createdAt lists an organizer's events by creation time;
+// `npm run backfill:events` adds those attributes to older records. The
+// password hash of a password protected event is kept in accessPasswordHash,
+// which is never returned; EventPasswords checks guesses against it.
+export const EVENTS_TABLE: TableDefinition = {
+  name: 'Events',
+  keys: ['eventId'],
+  indexes: { OrganizerIndex: ['organizerId', 'createdAt'] }
+};
+
+// A fresh code colliding even once is unlikely (1 in 10^12 per existing
+// event); several in a row means something else is wrong
+const MAX_CODE_ATTEMPTS = 5;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface EventRepositoryOptions {
+  // How long a deleted event can be restored before it is purged
+  deletionGraceMs: number;
+}
+
+const DEFAULT_OPTIONS: EventRepositoryOptions = {
+  deletionGraceMs: 72 * 60 * 60 * 1000
+};
+
+// Counters are left out: only EventCounters changes them
+const updatesSchema: Schema<EventUpdates> = {
+  name: optionalString(256),
+  date: optionalString(64),
+  description: optionalString(4096),
+  coverImage: optionalString(),
+  eventUrl: optionalString()
+};
+
+// Descriptive fields may be left out of a new event
+type EventInput = Pick<NewEvent, 'userEmail' | 'organizerId' | 'userId' | 'status'> & EventUpdates;
+
+// Events start out live unless the organizer wants to set them up first
+const INITIAL_STATUSES: EventStatus[] = ['draft', 'live'];
+
+const newEventSchema: Schema<EventInput> = {
+  ...updatesSchema,
+  userEmail: email,
+  organizerId: optionalString(320),
+  userId: optionalString(320),
+  status: optionalOneOf(INITIAL_STATUSES)
+};
+
+const MAX_ALLOW_LIST_SIZE = 1000;
+
+const accessSchema: Schema<EventAccessUpdate> = {
+  mode: oneOf(EVENT_ACCESS_MODES),
+  allowList: optionalStringArray,
+  password: optionalString(256)
+};
+
+const matchThresholdsSchema: Schema<MatchThresholds> = {
+  confident: percentage,
+  possible: percentage
+};
+
+// Older records may lack id, organizerId or userId; derive them from the rest
+const toEventData = ({ accessPasswordHash, ...item }: Item): EventData => ({
+  ...item,
+  id: (item.id || item.eventId) as string,
+  eventId: (item.eventId || item.id) as string,
+  organizerId: (item.organizerId || item.userEmail) as string,
+  userId: (item.userId || item.userEmail) as string,
+  ...(item.access ? { access: { ...item.access as EventAccessPolicy, hasPassword: Boolean(accessPasswordHash) } } : {})
+} as EventData);
+
+export const createEventRepository = (
+  backend: TableBackend,
+  { deletionGraceMs }: EventRepositoryOptions = DEFAULT_OPTIONS
+): EventRepository => {
+  const get = async (eventId: string, { includeDeleted = false }: EventLookup = {}) => {
+    const item = await backend.get(EVENTS_TABLE, { eventId });
+    if (!item || (item.deletedAt && !includeDeleted)) return null;
+    return toEventData(item);
+  };
+
+  const requireEvent = async (eventId: string) => {
+    const event = await get(eventId, { includeDeleted: true });
+    if (!event) {
+      throw new NotFoundError('Event', eventId);
+    }
+    return event;
+  };
+
+  // Deleted events and, with a status, events in other statuses are dropped
+  // after reading, since neither can be filtered on in the index (older
+  // records have no status). So this reads on until the page is full or the
+  // organizer's events run out. Each read asks for no more than is missing,
+  // so the cursor of the last read is where the next page starts.
+  const listByOrganizer = async (
+    organizerId: string,
+    { limit, cursor, status, deleted = false }: EventListRequest = {}
+  ): Promise<Page<EventData>> => {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new ValidationError('page request', ['limit must be a positive integer']);
+    }
+    if (status !== undefined && !isEventStatus(status)) {
+      throw new ValidationError('page request', [`unknown status ${status}`]);
+    }
+    const pageSize = Math.min(limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const items: EventData[] = [];
+    let nextCursor = cursor || null;
+
+    do {
+      const page = await backend.queryPage(EVENTS_TABLE, 'organizerId', organizerId, {
+        index: 'OrganizerIndex',
+        descending: true,
+        limit: pageSize - items.length,
+        cursor: nextCursor
+      });
+      items.push(...page.items.map(toEventData).filter(event =>
+        Boolean(event.deletedAt) === deleted && (!status || getEventStatus(event) === status)
+      ));
+      nextCursor = page.cursor;
+    } while (nextCursor && items.length < pageSize);
+
+    return { items, nextCursor };
+  };
+
+  return {
+    get,
+    listByOrganizer,
+
+    // The code is claimed with a conditional put, so two events can never
+    // share one. Ids of deleted and purged events stay taken.
+    async create(input) {
+      const event = parse('event', newEventSchema, input);
+      const timestamp = new Date().toISOString();
+
+      for (let attempt = 1; attempt <= MAX_CODE_ATTEMPTS; attempt++) {
+        const id = generateEventCode();
+        const item: EventData = {
+          eventId: id,
+          id,
+          name: event.name || 'Untitled Event',
+          date: event.date || timestamp,
+          description: event.description || '',
+          photoCount: 0,
+          videoCount: 0,
+          guestCount: 0,
+          matchCount: 0,
+          userEmail: event.userEmail,
+          organizerId: event.organizerId || event.userEmail,
+          userId: event.userEmail,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          coverImage: event.coverImage || '',
+          eventUrl: event.eventUrl || '',
+          status: event.status || 'live',
+          statusChangedAt: timestamp
+        };
+        if (await backend.putIfAbsent(EVENTS_TABLE, { ...item })) {
+          return item;
+        }
+      }
+      throw new ConflictError(`No free event code after ${MAX_CODE_ATTEMPTS} attempts`, 'EVENT_CODE_UNAVAILABLE');
+    },
+
+    async update(eventId, userEmail, input) {
+      const updates = parseUpdates('event update', updatesSchema, input);
+      const existing = await get(eventId);
+      if (!existing) {
+        throw new NotFoundError('Event', eventId);
+      }
+
+      // Backfill the owner attributes older records are missing
+      await backend.update(EVENTS_TABLE, { eventId }, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+        ...(existing.userEmail !== userEmail ? { userEmail } : {}),
+        organizerId: existing.organizerId || userEmail,
+        userId: existing.userId || userEmail
+      });
+    },
+
+    async setStatus(eventId, status) {
+      if (!isEventStatus(status)) {
+        throw new ValidationError('event status', [`unknown status ${status}`]);
+      }
+      const existing = await get(eventId);
+      if (!existing) {
+        throw new NotFoundError('Event', eventId);
+      }
+
+      const current = getEventStatus(existing);
+      if (current === status) return existing;
+      if (!canChangeEventStatus(current, status)) {
+        throw new ConflictError(`Event ${eventId} cannot go from ${current} to ${status}`, 'INVALID_STATUS_CHANGE');
+      }
+
+      const timestamp = new Date().toISOString();
+      const changes = { status, statusChangedAt: timestamp, updatedAt: timestamp };
+      await backend.update(EVENTS_TABLE, { eventId }, changes);
+      return { ...existing, ...changes };
+    },
+
+    async setAccess(eventId, input) {
+      const { mode, allowList: entries, password } = parse('event access', accessSchema, input);
+      const existing = await get(eventId);
+      if (!existing) {
+        throw new NotFoundError('Event', eventId);
+      }
+
+      const issues: string[] = [];
+      const allowList = entries
+        ? Array.from(new Set(entries.map(entry => {
+          const identity = normalizeAccessIdentity(entry);
+          if (!identity) issues.push(`${entry} is not an email address or phone number`);
+          return identity;
+        }).filter((identity): identity is string => identity !== null)))
+        : existing.access?.allowList || [];
+      if (allowList.length > MAX_ALLOW_LIST_SIZE) {
+        issues.push(`allowList can have at most ${MAX_ALLOW_LIST_SIZE} entries`);
+      }
+      if (mode === 'invite' && allowList.length === 0) {
+        issues.push('allowList needs at least one email address or phone number');
+      }
+      if (mode === 'password') {
+        if (password !== undefined && password.length < MIN_EVENT_PASSWORD_LENGTH) {
+          issues.push(`password must be at least ${MIN_EVENT_PASSWORD_LENGTH} characters`);
+        } else if (password === undefined && !existing.access?.hasPassword) {
+          issues.push('password is required');
+        }
+      }
+      if (issues.length > 0) {
+        throw new ValidationError('event access', issues);
+      }
+
+      // A new password replaces the old one; leaving password mode drops it
+      const passwordChange = mode !== 'password'
+        ? { accessPasswordHash: null }
+        : password !== undefined ? { accessPasswordHash: await hashSecret(password) } : {};
+      const access: EventAccessPolicy = { mode, allowList };
+      const updatedAt = new Date().toISOString();
+      await backend.update(EVENTS_TABLE, { eventId }, { access, ...passwordChange, updatedAt });
+      return {
+        ...existing,
+        access: { ...access, hasPassword: mode === 'password' },
+        updatedAt
+      };
+    },
+
+    async setMatchThresholds(eventId, input) {
+      const thresholds = parse('match thresholds', matchThresholdsSchema, input);
+      const issues: string[] = [];
+      if (thresholds.possible > thresholds.confident) {
+        issues.push('possible must not be above confident');
+      }
+      if (thresholds.possible < MIN_POSSIBLE_SIMILARITY) {
+        issues.push(`possible must be at least ${MIN_POSSIBLE_SIMILARITY}`);
+      }
+      if (issues.length > 0) {
+        throw new ValidationError('match thresholds', issues);
+      }
+
+      const existing = await get(eventId);
+      if (!existing) {
+        throw new NotFoundError('Event', eventId);
+      }
+      const updatedAt = new Date().toISOString();
+      await backend.update(EVENTS_TABLE, { eventId }, { matchThresholds: thresholds, updatedAt });
+      return { ...existing, matchThresholds: thresholds, updatedAt };
+    },
+
+    async delete(eventId) {
+      const existing = await requireEvent(eventId);
+      if (existing.deletedAt) return existing;
+
+      const now = new Date();
+      const changes = {
+        deletedAt: now.toISOString(),
+        purgeAfter: new Date(now.getTime() + deletionGraceMs).toISOString(),
+        updatedAt: now.toISOString()
+      };
+      await backend.update(EVENTS_TABLE, { eventId }, changes);
+      return { ...existing, ...changes };
+    },
+
+    async restore(eventId) {
+      const existing = await requireEvent(eventId);
+      if (!existing.deletedAt) return existing;
+      // The purge may be half done, so the event cannot come back whole
+      if (existing.purgedAt || existing.purgeStartedAt) {
+        throw new ConflictError(`Event ${eventId} has already been purged`, 'EVENT_PURGED');
+      }
+
+      const changes = { deletedAt: null, purgeAfter: null, updatedAt: new Date().toISOString() };
+      await backend.update(EVENTS_TABLE, { eventId }, changes);
+      return { ...existing, ...changes };
+    },
+
+    async getStatistics(userEmail) {
+      const events = await readAllPages(cursor => listByOrganizer(userEmail, { limit: MAX_PAGE_SIZE, cursor }));
+
+      return {
+        eventCount: events.length,
+        photoCount: events.reduce((sum, event) => sum + (event.photoCount || 0), 0),
+        videoCount: events.reduce((sum, event) => sum + (event.videoCount || 0), 0),
+        guestCount: events.reduce((sum, event) => sum + (event.guestCount || 0), 0),
+        matchCount: events.reduce((sum, event) => sum + (event.matchCount || 0), 0)
+      };
+    }
+  };
+};
+
+export type CounterDeltas = Partial<Record<EventCounter, number>>;
+
+// Server-side upkeep of the counters on each event. Changes are atomic
+// increments, so concurrent uploads never overwrite each other's counts.
+export interface EventCounters {
+  // Adds the deltas; ignored when the event no longer exists
+  adjust(eventId: string, deltas: CounterDeltas): Promise<void>;
+  // Overwrites every counter, e.g. with recounted values
+  set(eventId: string, values: Record<EventCounter, number>): Promise<void>;
+}
+
+export const createEventCounters = (backend: TableBackend): EventCounters => ({
+  // A failed update is logged rather than failing the upload or match that
+  // caused it; `npm run reconcile:counters` repairs the drift
+  async adjust(eventId, deltas) {
+    const changes = Object.fromEntries(Object.entries(deltas).filter(([, delta]) => delta));
+    if (Object.keys(changes).length === 0) return;
+    try {
+      await backend.increment(EVENTS_TABLE, { eventId }, changes);
+    } catch (error) {
+      console.error(`Error updating counters of event ${eventId}:`, changes, error);
+    }
+  },
+
+  async set(eventId, values) {
+    await backend.update(EVENTS_TABLE, { eventId }, { ...values, updatedAt: new Date().toISOString() });
+  }
+});
+
+// Server-only: checks a guest's password for a password protected event
+export interface EventPasswords {
+  // False when the event has no password
+  verify(eventId: string, password: string): Promise<boolean>;
+}
+
+export const createEventPasswords = (backend: TableBackend): EventPasswords => ({
+  async verify(eventId, password) {
+    const item = await backend.get(EVENTS_TABLE, { eventId });
+    const hash = item?.accessPasswordHash;
+    return typeof hash === 'string' && verifySecret(password, hash);
+  }
+});
@@ -0,0 +1,40 @@
+import { docClient, isLocalMode } from '../config/aws';
+import { DynamoTableBackend } from './dynamoBackend';
+import { MemoryTableBackend } from './memoryBackend';
+import { createUserRepository } from './users';
+import { createEventCounters, createEventPasswords, createEventRepository } from './events';
+import { createAttendeeClaims, createAttendeeImageRepository, createAttendeeMatches } from './attendeeImages';
+import { createEventMemberRepository } from './eventMembers';
+import { createSignInCodes } from './signInCodes';
+import type { TableBackend } from './backend';
+import type { EventRepositoryOptions } from './events';
+import type { Repositories } from '../../shared/repositories';
+
+export { ValidationError, NotFoundError, ConflictError, StorageError, RepositoryError } from './errors';
+
+export const createRepositories = (backend: TableBackend, eventOptions?: EventRepositoryOptions): Repositories => ({
+  users: createUserRepository(backend),
+  events: createEventRepository(backend, eventOptions),
+  attendeeImages: createAttendeeImageRepository(backend, createEventCounters(backend)),
+  eventMembers: createEventMemberRepository(backend)
+});
+
+// Shared by the repositories and the face index; in memory in local mode
+export const tableBackend: TableBackend = isLocalMode
+  ? new MemoryTableBackend()
+  : new DynamoTableBackend(docClient);
+
+export const { users, events, attendeeImages, eventMembers } = createRepositories(tableBackend, {
+  deletionGraceMs: Number(process.env.EVENT_DELETION_GRACE_HOURS || 72) * 60 * 60 * 1000
+});
+
+// Server-only: clients read the counters but never write them
+export const eventCounters = createEventCounters(tableBackend);
+
+export const eventPasswords = createEventPasswords(tableBackend);
+
+export const attendeeMatches = createAttendeeMatches(tableBackend, eventCounters);
+
+export const attendeeClaims = createAttendeeClaims(tableBackend, eventCounters);
+
+export const signInCodes = createSignInCodes(tableBackend);
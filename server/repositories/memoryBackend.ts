@@ -0,0 +1,161 @@
+import { StorageError, ValidationError } from './errors';
+import { decodeCursor, encodeCursor } from './backend';
+import type { Item, ItemKey, ItemPage, PageOptions, QueryOptions, TableBackend, TableDefinition, UpdateCondition } from './backend';
+
+// Keeps every table in process memory. Queries follow DynamoDB's rules: they
+// must be on the partition key or a declared index's key, and come back in
+// sort key order, so code that works here does not fail against DynamoDB.
+export class MemoryTableBackend implements TableBackend {
+  private tables = new Map<string, Map<string, Item>>();
+
+  async get<T = Item>(table: TableDefinition, key: ItemKey) {
+    const item = this.table(table).get(this.keyOf(table, key));
+    return item ? structuredClone(item) as T : null;
+  }
+
+  async put(table: TableDefinition, item: Item) {
+    this.table(table).set(this.keyOf(table, item), structuredClone(item));
+  }
+
+  async putIfAbsent(table: TableDefinition, item: Item) {
+    const id = this.keyOf(table, item);
+    if (this.table(table).has(id)) return false;
+    this.table(table).set(id, structuredClone(item));
+    return true;
+  }
+
+  async increment(table: TableDefinition, key: ItemKey, deltas: Record<string, number>) {
+    const existing = this.table(table).get(this.keyOf(table, key));
+    if (!existing) return false;
+    for (const [field, delta] of Object.entries(deltas)) {
+      existing[field] = (typeof existing[field] === 'number' ? existing[field] as number : 0) + delta;
+    }
+    return true;
+  }
+
+  async update(table: TableDefinition, key: ItemKey, changes: Item) {
+    const id = this.keyOf(table, key);
+    const existing = this.table(table).get(id) || { ...key };
+    this.table(table).set(id, { ...existing, ...structuredClone(changes) });
+  }
+
+  async updateIf(table: TableDefinition, key: ItemKey, changes: Item, { attribute, expected }: UpdateCondition) {
+    const id = this.keyOf(table, key);
+    const existing = this.table(table).get(id);
+    if (!existing || existing[attribute] !== expected) return false;
+    this.table(table).set(id, { ...existing, ...structuredClone(changes) });
+    return true;
+  }
+
+  async delete(table: TableDefinition, key: ItemKey) {
+    this.table(table).delete(this.keyOf(table, key));
+  }
+
+  async query<T = Item>(table: TableDefinition, attribute: string, value: string, index?: string) {
+    return this.matching(table, attribute, value, index).items as T[];
+  }
+
+  async queryPage<T = Item>(table: TableDefinition, attribute: string, value: string, options: QueryOptions) {
+    const { items, sortKey } = this.matching(table, attribute, value, options.index, options.descending);
+    return this.page<T>(table, items, options, sortKey, options.descending);
+  }
+
+  async scan<T = Item>(table: TableDefinition, attribute: string, value: string) {
+    return Array.from(this.table(table).values())
+      .filter(item => item[attribute] === value)
+      .map(item => structuredClone(item) as T);
+  }
+
+  async scanPage<T = Item>(table: TableDefinition, options: PageOptions) {
+    const items = Array.from(this.table(table).values()).map(item => structuredClone(item));
+    return this.page<T>(table, this.sorted(table, items), options);
+  }
+
+  async batchGet<T = Item>(table: TableDefinition, keys: ItemKey[]) {
+    const items = await Promise.all(keys.map(key => this.get<T>(table, key)));
+    return items.filter(item => item !== null) as T[];
+  }
+
+  async batchPut(table: TableDefinition, items: Item[]) {
+    await Promise.all(items.map(item => this.put(table, item)));
+  }
+
+  async batchDelete(table: TableDefinition, keys: ItemKey[]) {
+    await Promise.all(keys.map(key => this.delete(table, key)));
+  }
+
+  // Items of a query in key order. Like a DynamoDB index, an index only
+  // holds items that have all of its key attributes.
+  private matching(table: TableDefinition, attribute: string, value: string, index?: string, descending = false) {
+    const keys = index ? table.indexes?.[index] : table.keys;
+    if (!keys) {
+      throw new StorageError(`Table ${table.name} has no index ${index}`);
+    }
+    if (attribute !== keys[0]) {
+      throw new StorageError(`Query on ${index || table.name} must be on ${keys[0]}, not ${attribute}`);
+    }
+
+    const sortKey = keys[1] as string | undefined;
+    const items = Array.from(this.table(table).values())
+      .filter(item => item[attribute] === value && (!sortKey || typeof item[sortKey] === 'string'))
+      .map(item => structuredClone(item));
+    const ordered = this.sorted(table, items, sortKey);
+    return { items: descending ? ordered.reverse() : ordered, sortKey };
+  }
+
+  // By sort key, then by primary key so the order is stable
+  private sorted(table: TableDefinition, items: Item[], sortKey?: string) {
+    return items.sort((a, b) => this.compare(table, a, b, sortKey));
+  }
+
+  private compare(table: TableDefinition, a: Item, b: Item, sortKey?: string) {
+    const bySortKey = sortKey ? String(a[sortKey]).localeCompare(String(b[sortKey])) : 0;
+    return bySortKey || this.keyOf(table, a).localeCompare(this.keyOf(table, b));
+  }
+
+  // Continues after the position the cursor names, even if that item is gone
+  private page<T>(
+    table: TableDefinition,
+    items: Item[],
+    { limit, cursor }: PageOptions,
+    sortKey?: string,
+    descending = false
+  ): ItemPage<T> {
+    let start = 0;
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      if (table.keys.some(name => typeof after[name] !== 'string') || (sortKey && typeof after[sortKey] !== 'string')) {
+        throw new ValidationError('page cursor', ['cursor is not valid for this query']);
+      }
+      start = items.findIndex(item => this.compare(table, item, after, sortKey) * (descending ? -1 : 1) > 0);
+      if (start === -1) start = items.length;
+    }
+
+    const end = limit ? start + limit : items.length;
+    const pageItems = items.slice(start, end);
+    const last = pageItems[pageItems.length - 1];
+    const cursorKeys = sortKey ? [...table.keys, sortKey] : table.keys;
+    return {
+      items: pageItems as T[],
+      cursor: end < items.length && last ? encodeCursor(Object.fromEntries(cursorKeys.map(name => [name, last[name]]))) : null
+    };
+  }
+
+  private table(table: TableDefinition) {
+    let items = this.tables.get(table.name);
+    if (!items) {
+      items = new Map();
+      this.tables.set(table.name, items);
+    }
+    return items;
+  }
+
+  // Every key attribute must be a string, as DynamoDB would reject the item otherwise
+  private keyOf(table: TableDefinition, item: Item) {
+    const values = table.keys.map(name => item[name]);
+    if (values.some(value => typeof value !== 'string' || value === '')) {
+      throw new StorageError(`Item for ${table.name} is missing its key (${table.keys.join(', ')})`);
+    }
+    return JSON.stringify(values);
+  }
+}
@@ -0,0 +1,154 @@
+import { ValidationError } from './errors';
+
+// Minimal runtime validation for the flat records kept in DynamoDB. A check
+// returns the cleaned value (undefined to leave the field out) and records
+// any problem in `issues`, so one error lists everything wrong with the input.
+export type Check<T> = (value: unknown, field: string, issues: string[]) => T;
+
+export type Schema<T> = { [K in keyof T]-?: Check<T[K]> };
+
+const MAX_STRING_LENGTH = 2048;
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+export const requiredString = (maxLength = MAX_STRING_LENGTH): Check<string> => (value, field, issues) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push(`${field} must be a non-empty string`);
+    return '';
+  }
+  if (value.length > maxLength) {
+    issues.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return value;
+};
+
+// Empty strings are allowed; null and undefined leave the field out
+export const optionalString = (maxLength = MAX_STRING_LENGTH): Check<string | undefined> => (value, field, issues) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value !== 'string') {
+    issues.push(`${field} must be a string`);
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    issues.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return value;
+};
+
+// Uses the fallback when the field is left out
+export const withDefault = <T>(check: Check<T | undefined>, fallback: () => T): Check<T> =>
+  (value, field, issues) => check(value, field, issues) ?? fallback();
+
+export const email: Check<string> = (value, field, issues) => {
+  const result = requiredString(320)(value, field, issues);
+  if (result && !/^[^\s@]+@[^\s@]+$/.test(result)) {
+    issues.push(`${field} must be an email address`);
+  }
+  return result;
+};
+
+// An email address, or empty for records without one
+export const optionalEmail: Check<string | undefined> = (value, field, issues) =>
+  isMissing(value) || value === '' ? undefined : email(value, field, issues);
+
+// Non-negative integer such as a photo count
+export const optionalCount: Check<number | undefined> = (value, field, issues) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    issues.push(`${field} must be a non-negative integer`);
+    return undefined;
+  }
+  return value;
+};
+
+// 0 to 100, such as a face similarity
+export const percentage: Check<number> = (value, field, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    issues.push(`${field} must be a number from 0 to 100`);
+    return 0;
+  }
+  return value;
+};
+
+// One of a fixed set of strings, such as an event status
+export const optionalOneOf = <T extends string>(values: readonly T[]): Check<T | undefined> => (value, field, issues) => {
+  if (isMissing(value)) return undefined;
+  if (!values.includes(value as T)) {
+    issues.push(`${field} must be one of ${values.join(', ')}`);
+    return undefined;
+  }
+  return value as T;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Check<T> => (value, field, issues) => {
+  if (isMissing(value)) {
+    issues.push(`${field} is required`);
+    return values[0];
+  }
+  return optionalOneOf(values)(value, field, issues) || values[0];
+};
+
+export const optionalStringArray: Check<string[] | undefined> = (value, field, issues) => {
+  if (isMissing(value)) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    issues.push(`${field} must be an array of strings`);
+    return undefined;
+  }
+  return value;
+};
+
+export const stringArray: Check<string[]> = (value, field, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${field} must be an array of strings`);
+    return [];
+  }
+  return optionalStringArray(value, field, issues) || [];
+};
+
+const asObject = (entity: string, input: unknown) => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError(entity, ['must be an object']);
+  }
+  return input as Record<string, unknown>;
+};
+
+/**
+ * Validates input against a schema. Fields not in the schema are dropped.
+ * @param entity Name used in error messages, e.g. 'event'
+ * @throws ValidationError listing every problem found
+ */
+export const parse = <T>(entity: string, schema: Schema<T>, input: unknown): T => {
+  const source = asObject(entity, input);
+  const issues: string[] = [];
+  const result: Partial<T> = {};
+  for (const field of Object.keys(schema) as (keyof T & string)[]) {
+    const value = schema[field](source[field], field, issues);
+    if (value !== undefined) result[field] = value;
+  }
+  if (issues.length > 0) {
+    throw new ValidationError(entity, issues);
+  }
+  return result as T;
+};
+
+/**
+ * Validates the fields of a partial update. Unlike parse, fields outside the
+ * schema are rejected so callers learn they cannot be changed.
+ */
+export const parseUpdates = <T>(entity: string, schema: Schema<T>, input: unknown): Partial<T> => {
+  const source = asObject(entity, input);
+  const issues: string[] = [];
+  const result: Partial<T> = {};
+  for (const field of Object.keys(source)) {
+    if (!(field in schema)) {
+      issues.push(`${field} cannot be updated`);
+      continue;
+    }
+    const value = schema[field as keyof T](source[field], field, issues);
+    if (value !== undefined) result[field as keyof T] = value;
+  }
+  if (issues.length > 0) {
+    throw new ValidationError(entity, issues);
+  }
+  return result;
+};
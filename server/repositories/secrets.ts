@@ -0,0 +1,23 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+// Secrets such as event passwords are stored as salted scrypt hashes,
+// "scrypt$<salt>$<hash>", and never read back out of the repositories.
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+export const hashSecret = async (secret: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(secret, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+};
+
+export const verifySecret = async (secret: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(secret, Buffer.from(salt, 'base64url'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,50 @@
+import { hashSecret, verifySecret } from './secrets';
+import type { TableBackend, TableDefinition } from './backend';
+
+// Key: address, the email or phone number a sign-in link or code was sent to.
+// Only the latest secret sent to an address is kept.
+export const SIGN_IN_CODES_TABLE: TableDefinition = { name: 'Sign-in-codes', keys: ['address'] };
+
+// Wrong guesses before a code stops working and a new one has to be sent
+const MAX_ATTEMPTS = 5;
+
+interface SignInCodeRecord {
+  address: string;
+  secretHash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Server-only: the one-time secrets in sign-in links and text message codes
+export interface SignInCodes {
+  // Replaces any secret sent to the address before
+  issue(address: string, secret: string, ttlMs: number): Promise<void>;
+  // True when the secret is the one sent to the address; it can then not be used again
+  redeem(address: string, secret: string): Promise<boolean>;
+}
+
+export const createSignInCodes = (backend: TableBackend): SignInCodes => ({
+  async issue(address, secret, ttlMs) {
+    await backend.put(SIGN_IN_CODES_TABLE, {
+      address,
+      secretHash: await hashSecret(secret),
+      expiresAt: Date.now() + ttlMs,
+      attempts: 0
+    });
+  },
+
+  async redeem(address, secret) {
+    const record = await backend.get<SignInCodeRecord>(SIGN_IN_CODES_TABLE, { address });
+    if (!record) return false;
+    if (record.expiresAt <= Date.now() || record.attempts >= MAX_ATTEMPTS) {
+      await backend.delete(SIGN_IN_CODES_TABLE, { address });
+      return false;
+    }
+    if (!await verifySecret(secret, record.secretHash)) {
+      await backend.increment(SIGN_IN_CODES_TABLE, { address }, { attempts: 1 });
+      return false;
+    }
+    await backend.delete(SIGN_IN_CODES_TABLE, { address });
+    return true;
+  }
+});
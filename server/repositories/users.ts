@@ -0,0 +1,60 @@
+import { optionalEmail, optionalString, optionalStringArray, parse, requiredString, withDefault } from './schema';
+import type { Schema } from './schema';
+import type { TableBackend, TableDefinition } from './backend';
+import type { UserInput, UserRepository } from '../../shared/repositories';
+import type { UserCredentials } from '../../shared/types';
+
+// Key: userId, which is the user's email, or their phone number (E.164) for
+// users who signed in by text message and have no email
+export const USERS_TABLE: TableDefinition = { name: 'Users', keys: ['userId'] };
+
+const userSchema: Schema<UserInput> = {
+  userId: requiredString(320),
+  email: withDefault(optionalEmail, () => ''),
+  name: withDefault(optionalString(256), () => ''),
+  mobile: withDefault(optionalString(32), () => ''),
+  role: optionalString(64),
+  createdEvents: optionalStringArray
+};
+
+export const createUserRepository = (backend: TableBackend): UserRepository => {
+  const get = (userId: string) => backend.get<UserCredentials>(USERS_TABLE, { userId });
+
+  return {
+    get,
+
+    async findByEmail(address) {
+      const [user] = await backend.scan<UserCredentials>(USERS_TABLE, 'email', address);
+      return user || null;
+    },
+
+    async save(input) {
+      const user = parse('user', userSchema, input);
+      const existing = await get(user.userId);
+      const now = new Date().toISOString();
+
+      // New event ids are merged into the list rather than replacing it
+      if (user.createdEvents && user.createdEvents.length > 0 && existing) {
+        await backend.update(USERS_TABLE, { userId: user.userId }, {
+          name: user.name,
+          mobile: user.mobile,
+          role: user.role || existing.role || null,
+          createdEvents: Array.from(new Set([...(existing.createdEvents || []), ...user.createdEvents])),
+          updatedAt: now
+        });
+        return;
+      }
+
+      await backend.put(USERS_TABLE, {
+        userId: user.userId,
+        email: user.email,
+        name: user.name,
+        mobile: user.mobile,
+        role: user.role || null,
+        createdEvents: user.createdEvents?.length ? user.createdEvents : existing?.createdEvents || null,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      });
+    }
+  };
+};
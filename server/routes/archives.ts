@@ -0,0 +1,55 @@
+import { Router, HttpError, parseRange, readJson } from '../http';
+import { requireAttendee, requireEventPermission } from '../auth';
+import { buildArchive, createArchiveLink, getArchiveScope } from '../services/archives';
+
+export const registerArchiveRoutes = (router: Router) => {
+  // Export of every photo and video of an event, for organizers and members
+  router.post('/api/events/:eventId/archive-links', async (ctx) => {
+    await requireEventPermission(ctx, ctx.params.eventId, 'gallery');
+    return createArchiveLink({ type: 'event', eventId: ctx.params.eventId });
+  });
+
+  // An attendee's matched photos, for one event or all of them
+  router.post('/api/attendee-images/:userId/archive-links', async (ctx) => {
+    requireAttendee(ctx, ctx.params.userId);
+    const { eventId } = await readJson<{ eventId?: string }>(ctx.req);
+    return createArchiveLink({ type: 'attendee', userId: ctx.params.userId, eventId });
+  });
+
+  // Stream the archive. Supports Range and If-Range so interrupted downloads resume.
+  router.get('/api/archives/:token', async ({ req, res, params }) => {
+    const scope = getArchiveScope(params.token);
+    if (!scope) {
+      throw new HttpError(410, 'This download link is invalid or has expired', 'LINK_EXPIRED');
+    }
+
+    const { archive, fileName } = await buildArchive(scope);
+    if (archive.fileCount === 0) {
+      throw new HttpError(404, 'There are no files to download');
+    }
+
+    // A resumed request only gets a partial response if the archive is unchanged
+    const ifRange = req.headers['if-range'];
+    const range = !ifRange || ifRange === archive.etag
+      ? parseRange(req.headers.range, archive.size)
+      : null;
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', archive.etag);
+    res.setHeader('Cache-Control', 'private, no-transform');
+
+    if (range) {
+      res.statusCode = 206;
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${archive.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.statusCode = 200;
+      res.setHeader('Content-Length', archive.size);
+    }
+
+    await archive.write(res, range?.start, range?.end);
+    res.end();
+  });
+};
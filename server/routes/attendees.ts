@@ -0,0 +1,86 @@
+import { Router, HttpError, readJson, requireParam } from '../http';
+import { attendeeImages } from '../repositories';
+import { getKeyFromUrl, getObjectUrl } from '../config/aws';
+import { requireAttendee, requireEventOrganizer, requireLiveSelfie } from '../auth';
+import { signAttendeeRecord, signObjectUrl, toCanonicalUrl } from '../services/signedUrls';
+import { getUserSelfiePrefix } from '../storage/media';
+import type { AttendeeImageData, MatchReview } from '../../shared/types';
+
+export const registerAttendeeRoutes = (router: Router) => {
+  // List attendee records for the signed-in user or this browser's guest id,
+  // or for an event (its organizers only, since they hold every guest's matches)
+  router.get('/api/attendee-images', async (ctx) => {
+    const userId = ctx.query.get('userId');
+    const eventId = ctx.query.get('eventId');
+
+    let records: AttendeeImageData[];
+    if (userId) {
+      requireAttendee(ctx, userId);
+      records = await attendeeImages.listByUser(userId);
+    } else if (eventId) {
+      records = await attendeeImages.listByEvent((await requireEventOrganizer(ctx, eventId)).id);
+    } else {
+      throw new HttpError(400, 'One of userId or eventId is required');
+    }
+
+    return { records: await Promise.all(records.map(signAttendeeRecord)) };
+  });
+
+  router.get('/api/attendee-images/statistics', async (ctx) => {
+    const userId = requireParam(ctx.query.get('userId'), 'userId');
+    requireAttendee(ctx, userId);
+    return attendeeImages.getStatistics(userId);
+  });
+
+  router.get('/api/attendee-images/:userId/default-selfie', async (ctx) => {
+    requireAttendee(ctx, ctx.params.userId);
+    const selfieURL = await attendeeImages.getDefaultSelfie(ctx.params.userId);
+    return { selfieURL: selfieURL ? await signObjectUrl(selfieURL) : null };
+  });
+
+  // Selfies on attendee records count as the user's own (see isOwnSelfie), so
+  // only one they uploaded themselves can become their default
+  router.put('/api/attendee-images/:userId/default-selfie', async (ctx) => {
+    const userId = requireAttendee(ctx, ctx.params.userId);
+    const { selfieURL } = await readJson<{ selfieURL: string }>(ctx.req);
+    const selfieKey = getKeyFromUrl(requireParam(selfieURL, 'selfieURL'));
+    if (!selfieKey?.startsWith(getUserSelfiePrefix(userId))) {
+      throw new HttpError(400, 'Only your own selfies can be your selfie');
+    }
+    await attendeeImages.setDefaultSelfie(userId, getObjectUrl(selfieKey));
+    return { success: true };
+  });
+
+  // Replace the selfie on every event record of a user. Rematches search with
+  // it, so it must be one of their own selfies and, for guests, taken live.
+  router.put('/api/attendee-images/:userId/selfie', async (ctx) => {
+    const userId = requireAttendee(ctx, ctx.params.userId);
+    const { selfieURL, livenessToken } = await readJson<{ selfieURL?: string; livenessToken?: string }>(ctx.req);
+    const selfieKey = getKeyFromUrl(requireParam(selfieURL, 'selfieURL'));
+    if (!selfieKey?.startsWith(getUserSelfiePrefix(userId))) {
+      throw new HttpError(400, 'Only your own selfies can be your selfie');
+    }
+    requireLiveSelfie(ctx, selfieKey, livenessToken);
+    const updated = await attendeeImages.updateSelfie(userId, getObjectUrl(selfieKey));
+    return { success: updated > 0, updated };
+  });
+
+  // The guest says whether they are in a matched or possible image
+  router.post('/api/attendee-images/:userId/:eventId/reviews', async (ctx) => {
+    requireAttendee(ctx, ctx.params.userId);
+    const { imageUrl, review } = await readJson<{ imageUrl?: string; review?: MatchReview }>(ctx.req);
+    const record = await attendeeImages.reviewMatch(
+      ctx.params.userId,
+      ctx.params.eventId,
+      toCanonicalUrl(requireParam(imageUrl, 'imageUrl')),
+      requireParam(review, 'review') as MatchReview
+    );
+    return { record: await signAttendeeRecord(record) };
+  });
+
+  router.get('/api/attendee-images/:userId/:eventId', async (ctx) => {
+    requireAttendee(ctx, ctx.params.userId);
+    const record = await attendeeImages.get(ctx.params.userId, ctx.params.eventId);
+    return { record: record ? await signAttendeeRecord(record) : null };
+  });
+};
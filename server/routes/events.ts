@@ -0,0 +1,130 @@
+import { Router, HttpError, readJson, requireParam } from '../http';
+import { events } from '../repositories';
+import {
+  getRequestEventRole,
+  requireEventAccess,
+  requireEventOrganizer,
+  requireEventPermission,
+  requireSelf,
+  requireUserEmail,
+  unlockEvent
+} from '../auth';
+import { jobQueue } from '../jobs';
+import { signEvent, toCanonicalUrl } from '../services/signedUrls';
+import { withoutAllowList } from '../../shared/eventAccess';
+import { hasEventPermission } from '../../shared/eventRoles';
+import type { EventAccessUpdate, EventUpdates, NewEvent } from '../../shared/repositories';
+import type { EventStatus, MatchThresholds } from '../../shared/types';
+
+export const registerEventRoutes = (router: Router) => {
+  // One page of the signed-in organizer's events, newest first, optionally in
+  // one status or only the deleted ones.
+  // userEmail and userId are accepted for older clients; all three name the organizer.
+  router.get('/api/events', async (ctx) => {
+    const { query } = ctx;
+    const organizerId = query.get('organizerId') || query.get('userEmail') || query.get('userId');
+    if (!organizerId) {
+      throw new HttpError(400, 'organizerId is required');
+    }
+    requireSelf(ctx, organizerId);
+    const limit = query.get('limit');
+    const page = await events.listByOrganizer(organizerId, {
+      limit: limit ? Number(limit) : undefined,
+      cursor: query.get('cursor'),
+      status: (query.get('status') || undefined) as EventStatus | undefined,
+      deleted: query.get('deleted') === 'true'
+    });
+    return { events: await Promise.all(page.items.map(signEvent)), nextCursor: page.nextCursor };
+  });
+
+  router.get('/api/events/statistics', async (ctx) => {
+    const userEmail = requireParam(ctx.query.get('userEmail'), 'userEmail');
+    requireSelf(ctx, userEmail);
+    return events.getStatistics(userEmail);
+  });
+
+  // The signed-in user owns the events they create, whoever the body names
+  router.post('/api/events', async (ctx) => {
+    const owner = requireUserEmail(ctx);
+    const eventData = { ...await readJson<NewEvent>(ctx.req), userEmail: owner, organizerId: owner, userId: owner };
+    if (eventData.coverImage) {
+      eventData.coverImage = toCanonicalUrl(eventData.coverImage);
+    }
+    return { event: await signEvent(await events.create(eventData)) };
+  });
+
+  // Accepts an event code as a guest typed it; the event's id is returned.
+  // Guests the access policy keeps out get its error code instead, e.g.
+  // EVENT_PASSWORD_REQUIRED. includeDeleted=true is only honoured for the
+  // event's organizers.
+  router.get('/api/events/:eventId', async (ctx) => {
+    const { params, query } = ctx;
+    const event = query.get('includeDeleted') === 'true'
+      ? await requireEventOrganizer(ctx, params.eventId, { includeDeleted: true })
+      : await requireEventAccess(ctx, params.eventId);
+    const canManage = hasEventPermission(await getRequestEventRole(ctx, event), 'manage');
+    return { event: await signEvent(canManage ? event : withoutAllowList(event)) };
+  });
+
+  // A guest's password for a password protected event; the browser is let in
+  // with a cookie
+  router.post('/api/events/:eventId/unlock', async (ctx) => {
+    const { password } = await readJson<{ password?: string }>(ctx.req);
+    const event = await unlockEvent(ctx, ctx.params.eventId, requireParam(password, 'password'));
+    return { event: await signEvent(withoutAllowList(event)) };
+  });
+
+  router.put('/api/events/:eventId/access', async (ctx) => {
+    await requireEventOrganizer(ctx, ctx.params.eventId);
+    const access = await readJson<EventAccessUpdate>(ctx.req);
+    return { event: await signEvent(await events.setAccess(ctx.params.eventId, access)) };
+  });
+
+  // Strict or lenient matching of guests' selfies; applies to matches from now on
+  router.put('/api/events/:eventId/match-thresholds', async (ctx) => {
+    await requireEventOrganizer(ctx, ctx.params.eventId);
+    const thresholds = await readJson<MatchThresholds>(ctx.req);
+    return { event: await signEvent(await events.setMatchThresholds(ctx.params.eventId, thresholds)) };
+  });
+
+  // Co-organizers may edit the event too, so it stays with its owner whoever
+  // sends the changes; userEmail is still sent by older clients and ignored.
+  router.patch('/api/events/:eventId', async (ctx) => {
+    const event = await requireEventOrganizer(ctx, ctx.params.eventId);
+    const { updates } = await readJson<{ updates: EventUpdates }>(ctx.req);
+    if (!updates) {
+      throw new HttpError(400, 'updates are required');
+    }
+    if (updates.coverImage) {
+      updates.coverImage = toCanonicalUrl(updates.coverImage);
+    }
+    await events.update(event.id, event.userEmail || event.organizerId || '', updates);
+    return { success: true };
+  });
+
+  // Archiving an event, or restoring an archived one, moves its media to
+  // another storage tier in a background job
+  router.post('/api/events/:eventId/status', async (ctx) => {
+    const { eventId } = ctx.params;
+    const previous = await requireEventOrganizer(ctx, eventId);
+    const { status } = await readJson<{ status: EventStatus }>(ctx.req);
+    const event = await events.setStatus(eventId, requireParam(status, 'status') as EventStatus);
+
+    const job = event.status !== previous.status && (event.status === 'archived' || previous.status === 'archived')
+      ? await jobQueue.enqueue('sync-event-storage', { eventId }, requireUserEmail(ctx))
+      : null;
+    return { event: await signEvent(event), job };
+  });
+
+  // Soft delete; the event is purged after the grace period unless restored.
+  // Only the owner may delete or restore it.
+  router.delete('/api/events/:eventId', async (ctx) => {
+    await requireEventPermission(ctx, ctx.params.eventId, 'delete', { includeDeleted: true });
+    return { event: await signEvent(await events.delete(ctx.params.eventId)) };
+  });
+
+  router.post('/api/events/:eventId/restore', async (ctx) => {
+    await requireEventPermission(ctx, ctx.params.eventId, 'delete', { includeDeleted: true });
+    return { event: await signEvent(await events.restore(ctx.params.eventId)) };
+  });
+};
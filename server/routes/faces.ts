@@ -0,0 +1,163 @@
+import { Router, HttpError, RequestContext, getClientAddress, readJson } from '../http';
+import { getKeyFromUrl } from '../config/aws';
+import { compareFaces, groupEventFaces } from '../services/faceRecognition';
+import { createLivenessChallenge, verifyLivenessChallenge } from '../services/liveness';
+import { checkSelfie } from '../services/selfieQuality';
+import { createDownloadUrl } from '../services/signedUrls';
+import { AttemptLimiter } from '../services/rateLimit';
+import { getUserSelfiePrefix } from '../storage/media';
+import {
+  getRequestAttendeeId,
+  getRequestUserEmail,
+  isOwnSelfie,
+  rejectIfLimited,
+  requireEventAccess,
+  requireEventPermission,
+  requireLiveEvent,
+  requireLiveSelfie,
+  requireMediaAccess,
+  requireUserEmail,
+  startGuestSession
+} from '../auth';
+import { jobQueue } from '../jobs';
+
+// Accept either a raw S3 key or a bucket URL and return the key
+const resolveKey = (key: string | undefined, url: string | undefined, name: string) => {
+  const resolved = key || (url ? getKeyFromUrl(url) : null);
+  if (!resolved) {
+    throw new HttpError(400, `A valid ${name} key or bucket URL is required`);
+  }
+  return resolved;
+};
+
+// Only selfies the caller uploaded to their own selfie folder
+const requireUploadedSelfieKey = (attendeeId: string, key: unknown) => {
+  if (typeof key !== 'string' || !key.startsWith(getUserSelfiePrefix(attendeeId))) {
+    throw new HttpError(400, 'Only your own selfies can be checked');
+  }
+  return key;
+};
+
+// Only the caller's own selfies (see isOwnSelfie), never someone else's or event photos
+const requireOwnSelfieKey = async (attendeeId: string, key: string) => {
+  if (!await isOwnSelfie(attendeeId, key)) {
+    throw new HttpError(400, 'Only your own selfies can be checked');
+  }
+  return key;
+};
+
+// Selfie checks, each a paid face detection, one attendee may run within the
+// window. Clearing cookies gives a guest a new id, so each client is limited too.
+const attendeeSelfieChecks = new AttemptLimiter(30, 15 * 60 * 1000);
+const clientSelfieChecks = new AttemptLimiter(100, 15 * 60 * 1000);
+
+const countSelfieCheck = (ctx: RequestContext, attendeeId: string) => {
+  const client = getClientAddress(ctx.req);
+  rejectIfLimited(ctx, attendeeSelfieChecks, attendeeId, 'selfie checks');
+  rejectIfLimited(ctx, clientSelfieChecks, client, 'selfie checks');
+  attendeeSelfieChecks.recordFailure(attendeeId);
+  clientSelfieChecks.recordFailure(client);
+};
+
+export const registerFaceRoutes = (router: Router) => {
+  // Only images the caller may see themselves can be compared
+  router.post('/api/faces/compare', async (ctx) => {
+    requireUserEmail(ctx);
+    const body = await readJson<{ sourceKey?: string; sourceUrl?: string; targetKey?: string; targetUrl?: string }>(ctx.req);
+    const sourceKey = resolveKey(body.sourceKey, body.sourceUrl, 'source');
+    const targetKey = resolveKey(body.targetKey, body.targetUrl, 'target');
+    await requireMediaAccess(ctx, sourceKey);
+    await requireMediaAccess(ctx, targetKey);
+    const similarity = await compareFaces(sourceKey, targetKey);
+    return { matched: similarity !== null, similarity };
+  });
+
+  // Whether one of the caller's own selfies is good enough to match with, and
+  // what to change if not
+  router.post('/api/faces/selfie-checks', async (ctx) => {
+    const attendeeId = getRequestAttendeeId(ctx);
+    if (!attendeeId) {
+      throw new HttpError(401, 'Upload a selfie first', 'UNAUTHENTICATED');
+    }
+    const body = await readJson<{ selfieKey?: string; selfieUrl?: string }>(ctx.req);
+    const selfieKey = await requireOwnSelfieKey(attendeeId, resolveKey(body.selfieKey, body.selfieUrl, 'selfie'));
+    countSelfieCheck(ctx, attendeeId);
+    return { check: await checkSelfie(selfieKey) };
+  });
+
+  // Starts a liveness check: the steps to take in front of the camera. It is
+  // issued to the signed-in user or this browser's guest id, giving it one if
+  // it has none yet, so the frames can be uploaded to their selfie folder.
+  router.post('/api/liveness/challenges', async (ctx) => ({
+    challenge: createLivenessChallenge(getRequestUserEmail(ctx) || startGuestSession(ctx))
+  }));
+
+  // Checks the frames taken for a challenge, which must be the caller's own
+  // uploads. The token returned lets a guest match the selfie; see requireLiveSelfie.
+  router.post('/api/liveness/verifications', async (ctx) => {
+    const body = await readJson<{ challengeId?: string; frameKeys?: string[]; selfieKey?: string }>(ctx.req);
+    if (!body.challengeId || !Array.isArray(body.frameKeys)) {
+      throw new HttpError(400, 'challengeId and frameKeys are required');
+    }
+    const attendeeId = getRequestAttendeeId(ctx);
+    if (!attendeeId) {
+      throw new HttpError(400, 'This liveness check has expired. Please start again.', 'LIVENESS_EXPIRED');
+    }
+    const selfieKey = requireUploadedSelfieKey(attendeeId, body.selfieKey);
+    const frameKeys = body.frameKeys.map(key => requireUploadedSelfieKey(attendeeId, key));
+    if (new Set([...frameKeys, selfieKey]).size !== frameKeys.length + 1) {
+      throw new HttpError(400, 'Every frame must be a different image');
+    }
+
+    countSelfieCheck(ctx, attendeeId);
+    const outcome = await verifyLivenessChallenge(body.challengeId, attendeeId, frameKeys, selfieKey);
+    if (!outcome) {
+      throw new HttpError(400, 'This liveness check has expired. Please start again.', 'LIVENESS_EXPIRED');
+    }
+    if (!outcome.passed) {
+      throw new HttpError(400, outcome.reason, 'LIVENESS_FAILED');
+    }
+    return { livenessToken: outcome.livenessToken };
+  });
+
+  // Queue a match of one of the caller's own selfies against every image of
+  // the event. The matches are saved to the guest's attendee record, under
+  // their guest id when they have not signed in. Only live events take new
+  // selfies, and only ones that were taken live (for guests) and pass the
+  // selfie check.
+  router.post('/api/events/:eventId/match-jobs', async (ctx) => {
+    const event = await requireLiveEvent(ctx, ctx.params.eventId);
+    const body = await readJson<{ selfieKey?: string; selfieUrl?: string; livenessToken?: string }>(ctx.req);
+    const userId = getRequestUserEmail(ctx) || startGuestSession(ctx);
+    const selfieKey = await requireOwnSelfieKey(userId, resolveKey(body.selfieKey, body.selfieUrl, 'selfie'));
+    requireLiveSelfie(ctx, selfieKey, body.livenessToken);
+    countSelfieCheck(ctx, userId);
+    const check = await checkSelfie(selfieKey);
+    if (!check.passed) {
+      throw new HttpError(400, check.issues.map(issue => issue.message).join(' '), 'SELFIE_REJECTED');
+    }
+    const job = await jobQueue.enqueue('match-selfie', { eventId: event.id, selfieKey, userId }, userId);
+    return { job };
+  });
+
+  // Queue indexing of any event images that are not in the face collection yet
+  router.post('/api/events/:eventId/index-jobs', async (ctx) => {
+    await requireEventPermission(ctx, ctx.params.eventId, 'upload');
+    return { job: await jobQueue.enqueue('index-event-images', { eventId: ctx.params.eventId }, requireUserEmail(ctx)) };
+  });
+
+  // Shows every photo of the event, so it is as private as the gallery
+  router.get('/api/events/:eventId/faces/groups', async (ctx) => {
+    const event = await requireEventAccess(ctx, ctx.params.eventId, 'gallery');
+    const groups = await groupEventFaces(event.id);
+    return {
+      groups: await Promise.all(groups.map(async group => ({
+        ...group,
+        faces: await Promise.all(group.faces.map(async face => ({
+          ...face,
+          image: { ...face.image, url: await createDownloadUrl(face.image.key) }
+        })))
+      })))
+    };
+  });
+};
@@ -0,0 +1,23 @@
+import { Router, HttpError } from '../http';
+import { jobQueue } from '../jobs';
+import { signFaceMatchResult } from '../services/signedUrls';
+import { getRequestGuestId, getRequestUserEmail } from '../auth';
+import type { FaceMatchResult } from '../../shared/types';
+
+export const registerJobRoutes = (router: Router) => {
+  // Poll a background job for progress and its result. Only whoever queued
+  // it may, and to anyone else it does not exist.
+  router.get('/api/jobs/:jobId', async (ctx) => {
+    const { params } = ctx;
+    const job = await jobQueue.get(params.jobId);
+    const requester = job?.requestedBy;
+    if (!job || !requester || (requester !== getRequestUserEmail(ctx) && requester !== getRequestGuestId(ctx))) {
+      throw new HttpError(404, `Job ${params.jobId} not found`, 'JOB_NOT_FOUND');
+    }
+
+    if (job.type === 'match-selfie' && job.result) {
+      return { job: { ...job, result: await signFaceMatchResult(job.result as FaceMatchResult) } };
+    }
+    return { job };
+  });
+};
@@ -0,0 +1,61 @@
+import { pipeline } from 'node:stream/promises';
+import { Router, HttpError, parseRange, requireParam } from '../http';
+import type { FileObjectStore } from '../storage/fileObjectStore';
+
+// Serves the signed URLs of the local object store, standing in for S3 when
+// the server runs with AWS_MODE=local. Only registered in that mode.
+export const registerLocalObjectRoutes = (router: Router, store: FileObjectStore) => {
+  router.get('/api/local-objects/:key', async ({ req, res, params, query }) => {
+    const grant = store.verifyGrant(params.key, requireParam(query.get('token'), 'token'), 'GET');
+    if (!grant) {
+      throw new HttpError(403, 'This link is invalid or has expired', 'LINK_EXPIRED');
+    }
+    const object = await store.head(params.key);
+    if (!object) {
+      throw new HttpError(404, `Object ${params.key} does not exist`);
+    }
+
+    // Videos are played with Range requests
+    const range = object.size > 0 ? parseRange(req.headers.range, object.size) : null;
+    const start = range?.start ?? 0;
+    const end = range ? range.end + 1 : object.size;
+
+    res.setHeader('Content-Type', object.contentType);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    if (grant.contentDisposition) {
+      res.setHeader('Content-Disposition', grant.contentDisposition);
+    }
+    if (range) {
+      res.statusCode = 206;
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+    } else {
+      res.statusCode = 200;
+    }
+    res.setHeader('Content-Length', end - start);
+
+    if (end === start) {
+      res.end();
+      return;
+    }
+    await pipeline(await store.getStream(params.key, start, end), res);
+  });
+
+  // Like a presigned S3 PUT, the type and size must be the ones that were signed
+  router.put('/api/local-objects/:key', async ({ req, res, params, query }) => {
+    const grant = store.verifyGrant(params.key, requireParam(query.get('token'), 'token'), 'PUT');
+    if (!grant) {
+      throw new HttpError(403, 'This upload link is invalid or has expired', 'LINK_EXPIRED');
+    }
+    if (req.headers['content-type'] !== grant.contentType) {
+      throw new HttpError(403, `Content-Type must be ${grant.contentType}`);
+    }
+    if (Number(req.headers['content-length']) !== grant.contentLength) {
+      throw new HttpError(403, `Content-Length must be ${grant.contentLength}`);
+    }
+
+    await store.put(params.key, req, grant.contentType || 'application/octet-stream', grant.metadata);
+    res.statusCode = 200;
+    res.end();
+  });
+};
@@ -0,0 +1,218 @@
+import { Router, HttpError, RequestContext, readJson, requireParam } from '../http';
+import { getKeyFromUrl } from '../config/aws';
+import {
+  getRequestAttendeeId,
+  requireAttendee,
+  requireEventAccess,
+  requireEventPermission,
+  requireMediaAccess
+} from '../auth';
+import {
+  deleteObject,
+  findEventCover,
+  getEventMediaPrefix,
+  getSharedEventPath,
+  getUserSelfiePrefix,
+  isValidMediaFile,
+  listEventMedia,
+  objectExists,
+  putObject,
+  sanitizeFileName
+} from '../storage/media';
+import { createDownloadUrl, createUploadUrl, signMediaItem } from '../services/signedUrls';
+import { indexEventImage, removeEventImageFaces } from '../services/faceIndex';
+import { getImageFaceRecords, markVideoCompleted } from '../storage/faceIndex';
+import { eventCounters } from '../repositories';
+import { queueEventRematch } from '../jobs';
+import { getEventStatus } from '../../shared/eventStatus';
+import type { EventUploadKind, UploadRequest, UploadResult } from '../../shared/types';
+
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024; // 50MB
+const MAX_VIDEO_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+
+// Stream the raw request body into S3 under the given key
+const handleUpload = async (
+  { req }: RequestContext,
+  key: string,
+  options: { maxSize: number; contentTypePrefix: string; metadata?: Record<string, string> }
+): Promise<UploadResult> => {
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith(options.contentTypePrefix)) {
+    throw new HttpError(415, `Expected a ${options.contentTypePrefix}* upload, got "${contentType}"`);
+  }
+
+  const contentLength = Number(req.headers['content-length'] || 0);
+  if (!contentLength) {
+    throw new HttpError(411, 'Content-Length is required');
+  }
+  if (contentLength > options.maxSize) {
+    throw new HttpError(413, `File exceeds the ${Math.round(options.maxSize / (1024 * 1024))}MB size limit`);
+  }
+
+  await putObject(key, req, contentType, {
+    ...options.metadata,
+    'upload-date': new Date().toISOString()
+  });
+
+  return { key, url: await createDownloadUrl(key) };
+};
+
+const UPLOAD_RULES: Record<EventUploadKind, { maxSize: number; contentTypePrefix: string }> = {
+  images: { maxSize: MAX_IMAGE_SIZE, contentTypePrefix: 'image/' },
+  videos: { maxSize: MAX_VIDEO_SIZE, contentTypePrefix: 'video/' },
+  cover: { maxSize: MAX_IMAGE_SIZE, contentTypePrefix: 'image/' }
+};
+
+// Validate an organizer's upload request and pick the object key for it
+const buildUploadKey = (eventId: string, upload: UploadRequest) => {
+  const rules = UPLOAD_RULES[upload.kind];
+  if (!rules) {
+    throw new HttpError(400, `Unknown upload kind: ${upload.kind}`);
+  }
+  if (!upload.contentType?.startsWith(rules.contentTypePrefix)) {
+    throw new HttpError(415, `Expected a ${rules.contentTypePrefix}* upload, got "${upload.contentType}"`);
+  }
+  if (!Number.isInteger(upload.size) || upload.size <= 0) {
+    throw new HttpError(400, 'size must be the file size in bytes');
+  }
+  if (upload.size > rules.maxSize) {
+    throw new HttpError(413, `File exceeds the ${Math.round(rules.maxSize / (1024 * 1024))}MB size limit`);
+  }
+
+  if (upload.kind === 'cover') {
+    return `${getSharedEventPath(eventId)}/cover.jpg`;
+  }
+  const fileName = sanitizeFileName(requireParam(upload.fileName, 'fileName'));
+  if (!isValidMediaFile(upload.kind, fileName)) {
+    throw new HttpError(415, `Unsupported file type for ${upload.kind}: ${fileName}`);
+  }
+  return `${getEventMediaPrefix(eventId, upload.kind)}${Date.now()}-${fileName}`;
+};
+
+// Who uploaded an object: a user's email or a guest's id
+const sessionMetadata = (ctx: RequestContext) => ({
+  'event-id': ctx.params.eventId,
+  'session-id': getRequestAttendeeId(ctx) || ''
+});
+
+export const registerMediaRoutes = (router: Router) => {
+  // Media listings look the event up like a guest entering its code, so they
+  // cannot be used to walk codes either. Only the organizer, and guests of
+  // public events, may list every photo and video.
+  router.get('/api/events/:eventId/images', async (ctx) => {
+    const event = await requireEventAccess(ctx, ctx.params.eventId, 'gallery');
+    const items = await listEventMedia(event.id, 'images');
+    return { items: await Promise.all(items.map(signMediaItem)) };
+  });
+
+  router.get('/api/events/:eventId/videos', async (ctx) => {
+    const event = await requireEventAccess(ctx, ctx.params.eventId, 'gallery');
+    const items = await listEventMedia(event.id, 'videos');
+    return { items: await Promise.all(items.map(signMediaItem)) };
+  });
+
+  router.get('/api/events/:eventId/cover', async (ctx) => {
+    const event = await requireEventAccess(ctx, ctx.params.eventId);
+    const cover = await findEventCover(event.id);
+    return { item: cover ? await signMediaItem(cover) : null };
+  });
+
+  // Presigned PUT to upload an image, video or cover directly to S3.
+  // Photographers may upload images and videos; the cover is for organizers.
+  router.post('/api/events/:eventId/uploads', async (ctx) => {
+    const upload = await readJson<UploadRequest>(ctx.req);
+    const permission = upload.kind === 'cover' ? 'manage' : 'upload';
+    const { event } = await requireEventPermission(ctx, ctx.params.eventId, permission);
+    // New files would land in the standard tier and never be archived
+    if (getEventStatus(event) === 'archived') {
+      throw new HttpError(409, 'Restore the event before uploading to it', 'EVENT_ARCHIVED');
+    }
+    const key = buildUploadKey(ctx.params.eventId, upload);
+    return createUploadUrl(key, upload.contentType, upload.size, {
+      ...sessionMetadata(ctx),
+      'upload-date': new Date().toISOString()
+    });
+  });
+
+  // Called by the browser once a presigned photo or video upload finished.
+  // Counts it on the event; a photo's faces are also indexed so they are
+  // searchable right away and earlier guests get rematched.
+  router.post('/api/events/:eventId/uploads/complete', async (ctx) => {
+    const { eventId } = ctx.params;
+    await requireEventPermission(ctx, eventId, 'upload');
+    const { key } = await readJson<{ key: string }>(ctx.req);
+    requireParam(key, 'key');
+
+    if (key.startsWith(getEventMediaPrefix(eventId, 'videos'))) {
+      if (!await objectExists(key)) {
+        throw new HttpError(404, `Uploaded video ${key} not found`);
+      }
+      // Completing a video again does not count it twice
+      if (await markVideoCompleted(eventId, key)) {
+        await eventCounters.adjust(eventId, { videoCount: 1 });
+      }
+      return { key, faceCount: 0 };
+    }
+    if (!key.startsWith(getEventMediaPrefix(eventId, 'images'))) {
+      throw new HttpError(400, 'Only event photos and videos can be completed');
+    }
+
+    try {
+      // A photo that already has index records was completed before
+      const isNew = (await getImageFaceRecords(key)).length === 0;
+      const faces = await indexEventImage(eventId, key);
+      if (isNew) {
+        await eventCounters.adjust(eventId, { photoCount: 1 });
+      }
+      if (faces.length > 0) {
+        queueEventRematch(eventId, key);
+      }
+      return { key, faceCount: faces.length };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'InvalidS3ObjectException') {
+        throw new HttpError(404, `Uploaded image ${key} not found`);
+      }
+      throw error;
+    }
+  });
+
+  // Presigned GET that makes the browser save the object as a file. Only
+  // for media the caller may see (see requireMediaAccess).
+  router.get('/api/media/download-url', async (ctx) => {
+    const { query } = ctx;
+    const url = query.get('url');
+    const key = query.get('key') || (url ? getKeyFromUrl(url) : null);
+    if (!key) {
+      throw new HttpError(400, 'A valid media key or bucket URL is required');
+    }
+    await requireMediaAccess(ctx, key);
+    const fileName = query.get('fileName') || key.split('/').pop() || 'download';
+    return { url: await createDownloadUrl(key, fileName) };
+  });
+
+  router.delete('/api/events/:eventId/images', async (ctx) => {
+    const { params, query } = ctx;
+    await requireEventPermission(ctx, params.eventId, 'remove-media');
+    const key = requireParam(query.get('key'), 'key');
+    if (!key.startsWith(getEventMediaPrefix(params.eventId, 'images'))) {
+      throw new HttpError(403, 'Key does not belong to this event');
+    }
+    const existed = await objectExists(key);
+    await deleteObject(key);
+    await removeEventImageFaces(params.eventId, key);
+    if (existed) {
+      await eventCounters.adjust(params.eventId, { photoCount: -1 });
+    }
+    return { success: true };
+  });
+
+  // A user's or guest's own selfie, not tied to any event
+  router.post('/api/users/:userId/selfies', async (ctx) => {
+    requireAttendee(ctx, ctx.params.userId);
+    const fileName = sanitizeFileName(requireParam(ctx.query.get('fileName'), 'fileName'));
+    return handleUpload(ctx, `${getUserSelfiePrefix(ctx.params.userId)}${Date.now()}-${fileName}`, {
+      maxSize: MAX_IMAGE_SIZE,
+      contentTypePrefix: 'image/'
+    });
+  });
+};
@@ -0,0 +1,99 @@
+import { Router, HttpError, readJson, requireParam } from '../http';
+import { eventMembers, events } from '../repositories';
+import { requireEventPermission, requireUserEmail } from '../auth';
+import { APP_URL, mailer } from '../mail';
+import { signEvent } from '../services/signedUrls';
+import { withoutAllowList } from '../../shared/eventAccess';
+import { getEventRole, hasEventPermission, isEventOwner } from '../../shared/eventRoles';
+import type { EventInvitation } from '../../shared/repositories';
+import type { EventData, EventMember } from '../../shared/types';
+
+const ROLE_NAMES: Record<EventMember['role'], string> = {
+  'co-organizer': 'a co-organizer',
+  photographer: 'a photographer',
+  viewer: 'a viewer'
+};
+
+const sendInvitation = (event: EventData, member: EventMember) =>
+  mailer.send({
+    to: member.email,
+    subject: `You're invited to ${event.name}`,
+    text: [
+      `${member.invitedBy} invited you to join ${event.name} as ${ROLE_NAMES[member.role]}.`,
+      `Sign in with this email address to accept: ${APP_URL}/events?invite=${encodeURIComponent(event.id)}`
+    ].join('\n\n')
+  });
+
+export const registerMemberRoutes = (router: Router) => {
+  // The events a user was invited to or is a member of, for their dashboard.
+  // Invited users see the event before accepting, whatever its access policy.
+  router.get('/api/event-members', async (ctx) => {
+    const email = requireParam(ctx.query.get('email'), 'email').toLowerCase();
+    if (email !== requireUserEmail(ctx)) {
+      throw new HttpError(403, 'You can only list your own invitations');
+    }
+    const members = await eventMembers.listByUser(email);
+    const found = await Promise.all(members.map(async (member) => {
+      const event = await events.get(member.eventId);
+      if (!event) return null;
+      // Co-organizers edit the access policy, allow-list included
+      const canManage = hasEventPermission(getEventRole(event, email, member), 'manage');
+      return { member, event: await signEvent(canManage ? event : withoutAllowList(event)) };
+    }));
+    const shared = found.filter((entry): entry is { member: EventMember; event: EventData } => entry !== null);
+    return { members: shared.map(entry => entry.member), events: shared.map(entry => entry.event) };
+  });
+
+  router.get('/api/events/:eventId/members', async (ctx) => {
+    const { event } = await requireEventPermission(ctx, ctx.params.eventId, 'members');
+    return { members: await eventMembers.listByEvent(event.id) };
+  });
+
+  // Invites someone by email, or changes the role of an existing invitation
+  router.post('/api/events/:eventId/members', async (ctx) => {
+    const { event } = await requireEventPermission(ctx, ctx.params.eventId, 'members');
+    const invitation = await readJson<EventInvitation>(ctx.req);
+    if (isEventOwner(event, invitation.email?.trim() || null)) {
+      throw new HttpError(409, 'The owner is already part of this event', 'ALREADY_OWNER');
+    }
+    const existing = invitation.email ? await eventMembers.get(event.id, invitation.email.trim()) : null;
+    const member = await eventMembers.invite(event.id, invitation, requireUserEmail(ctx));
+    if (!existing) {
+      await sendInvitation(event, member);
+    }
+    return { member };
+  });
+
+  router.get('/api/events/:eventId/members/:email', async (ctx) => {
+    const { eventId, email } = ctx.params;
+    if (email.toLowerCase() !== requireUserEmail(ctx)) {
+      await requireEventPermission(ctx, eventId, 'members');
+    }
+    return { member: await eventMembers.get(eventId, email) };
+  });
+
+  router.patch('/api/events/:eventId/members/:email', async (ctx) => {
+    const { event } = await requireEventPermission(ctx, ctx.params.eventId, 'members');
+    const { role } = await readJson<{ role: EventMember['role'] }>(ctx.req);
+    return { member: await eventMembers.setRole(event.id, ctx.params.email, role) };
+  });
+
+  // Organizers remove members; anyone may leave an event or decline an invitation
+  router.delete('/api/events/:eventId/members/:email', async (ctx) => {
+    const { eventId, email } = ctx.params;
+    if (email.toLowerCase() !== requireUserEmail(ctx)) {
+      await requireEventPermission(ctx, eventId, 'members');
+    }
+    await eventMembers.remove(eventId, email);
+    return { success: true };
+  });
+
+  // The signed-in user accepts their own invitation
+  router.post('/api/events/:eventId/members/:email/accept', async (ctx) => {
+    const { eventId, email } = ctx.params;
+    if (email.toLowerCase() !== requireUserEmail(ctx)) {
+      throw new HttpError(403, 'Sign in as the invited user to accept this invitation', 'NOT_INVITED');
+    }
+    return { member: await eventMembers.accept(eventId, email) };
+  });
+};
@@ -0,0 +1,53 @@
+import { HttpError, Router, readJson, requireParam } from '../http';
+import { getRequestGuestId, getRequestUser, requireUserEmail, sendSignInChallenge, signIn, signOut, startGuestSession } from '../auth';
+import type { SignInMethod, SignInProof } from '../../shared/types';
+
+const field = (body: Record<string, unknown>, name: string) =>
+  requireParam(typeof body[name] === 'string' ? body[name] as string : null, name);
+
+// A bare credential is a Google one, as sent before there were other sign-in methods
+const readProof = (body: Record<string, unknown>): SignInProof => {
+  switch (body.method ?? 'google') {
+    case 'google': return { method: 'google', credential: field(body, 'credential') };
+    case 'email': return { method: 'email', email: field(body, 'email'), token: field(body, 'token') };
+    case 'phone': return { method: 'phone', phone: field(body, 'phone'), code: field(body, 'code') };
+    default: throw new HttpError(400, 'method must be google, email or phone', 'INVALID_SIGN_IN_METHOD');
+  }
+};
+
+export const registerSessionRoutes = (router: Router) => {
+  // Who is signed in on this browser; 401 when nobody is or the session ran out
+  router.get('/api/session', async (ctx) => {
+    requireUserEmail(ctx);
+    return { user: getRequestUser(ctx) };
+  });
+
+  // Exchanges proof of who the user is for a session cookie
+  router.post('/api/session', async (ctx) => {
+    return { user: await signIn(ctx, readProof(await readJson<Record<string, unknown>>(ctx.req))) };
+  });
+
+  // Emails a sign-in link or texts a sign-in code
+  router.post('/api/session/challenges', async (ctx) => {
+    const { method, address } = await readJson<{ method?: SignInMethod; address?: string }>(ctx.req);
+    if (method !== 'email' && method !== 'phone') {
+      throw new HttpError(400, 'method must be email or phone', 'INVALID_SIGN_IN_METHOD');
+    }
+    return { sentTo: await sendSignInChallenge(ctx, method, requireParam(address, 'address')) };
+  });
+
+  // The guest id this browser's anonymous matches are kept under, if it has one
+  router.get('/api/session/guest', async (ctx) => {
+    return { guestId: getRequestGuestId(ctx) };
+  });
+
+  // Lets a guest find their photos without signing in
+  router.post('/api/session/guest', async (ctx) => {
+    return { guestId: startGuestSession(ctx) };
+  });
+
+  router.delete('/api/session', async (ctx) => {
+    signOut(ctx);
+    return { success: true };
+  });
+};
@@ -0,0 +1,35 @@
+import { Router, readJson, requireParam } from '../http';
+import { users } from '../repositories';
+import { getRequestUser, requireSelf } from '../auth';
+import type { UserCredentials } from '../../shared/types';
+
+export const registerUserRoutes = (router: Router) => {
+  // Look a user up by email through the table scan (email is not always the key).
+  // Users only read and write their own record.
+  router.get('/api/users', async (ctx) => {
+    const email = requireParam(ctx.query.get('email'), 'email');
+    requireSelf(ctx, email);
+    return { user: await users.findByEmail(email) };
+  });
+
+  router.get('/api/users/:userId', async (ctx) => {
+    requireSelf(ctx, ctx.params.userId);
+    return { user: await users.get(ctx.params.userId) };
+  });
+
+  // Users who signed in by text message are known by their phone number alone
+  router.put('/api/users/:userId', async (ctx) => {
+    const userId = requireSelf(ctx, ctx.params.userId);
+    const byPhone = getRequestUser(ctx)?.method === 'phone';
+    const body = await readJson<UserCredentials>(ctx.req);
+    await users.save({
+      userId: ctx.params.userId,
+      email: byPhone ? '' : userId,
+      name: body.name,
+      mobile: byPhone ? userId : body.mobile,
+      role: body.role,
+      createdEvents: body.createdEvents || undefined
+    });
+    return { success: true };
+  });
+};
@@ -0,0 +1,64 @@
+// Adds the OrganizerIndex key attributes (organizerId, createdAt) to Events
+// records written before every event got them, so the index lists them.
+// Safe to run more than once; records that already have both are skipped.
+//
+//   npm run backfill:events              update the table
+//   npm run backfill:events -- --dry-run only report what would change
+import { tableBackend } from '../repositories';
+import { EVENTS_TABLE } from '../repositories/events';
+import type { Item, ItemPage } from '../repositories/backend';
+
+// Sorts records without any timestamp after every dated event
+const UNKNOWN_CREATED_AT = new Date(0).toISOString();
+
+const isSet = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+// The attributes a record is missing, or null when it needs nothing
+const missingIndexAttributes = (item: Item): Item | null => {
+  const changes: Item = {};
+  if (!isSet(item.organizerId)) {
+    const owner = [item.userEmail, item.userId].find(isSet);
+    if (owner) changes.organizerId = owner;
+  }
+  if (!isSet(item.createdAt)) {
+    changes.createdAt = [item.updatedAt, item.date].find(value => isSet(value) && !isNaN(Date.parse(value)))
+      || UNKNOWN_CREATED_AT;
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const run = async (dryRun: boolean) => {
+  let scanned = 0;
+  let updated = 0;
+  const ownerless: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: ItemPage<Item> = await tableBackend.scanPage(EVENTS_TABLE, { limit: 100, cursor });
+    for (const item of page.items) {
+      scanned += 1;
+      const changes = missingIndexAttributes(item);
+      if (!isSet(item.organizerId) && !changes?.organizerId) {
+        ownerless.push(String(item.eventId));
+      }
+      if (!changes) continue;
+
+      console.log(`${dryRun ? 'Would update' : 'Updating'} event ${item.eventId}:`, changes);
+      if (!dryRun) {
+        await tableBackend.update(EVENTS_TABLE, { eventId: String(item.eventId) }, changes);
+      }
+      updated += 1;
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  console.log(`Scanned ${scanned} events, ${dryRun ? 'would update' : 'updated'} ${updated}`);
+  if (ownerless.length > 0) {
+    console.warn(`No owner to index ${ownerless.length} events by: ${ownerless.join(', ')}`);
+  }
+};
+
+run(process.argv.includes('--dry-run')).catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exitCode = 1;
+});
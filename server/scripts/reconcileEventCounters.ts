@@ -0,0 +1,84 @@
+// Recounts each event's photoCount, videoCount, guestCount and matchCount
+// from its stored media and attendee records, and fixes any that drifted
+// (e.g. an upload whose completion call never arrived). Safe to run any time.
+//
+//   npm run reconcile:counters                     every event
+//   npm run reconcile:counters -- --event <id>     a single event
+//   npm run reconcile:counters -- --dry-run        only report drift
+import { attendeeImages, eventCounters, events, tableBackend } from '../repositories';
+import { EVENTS_TABLE } from '../repositories/events';
+import { listEventMedia } from '../storage/media';
+import type { Item, ItemPage } from '../repositories/backend';
+import type { EventCounter } from '../../shared/repositories';
+
+type Counts = Record<EventCounter, number>;
+
+const COUNTERS: EventCounter[] = ['photoCount', 'videoCount', 'guestCount', 'matchCount'];
+
+const countEvent = async (eventId: string): Promise<Counts> => {
+  const [images, videos, attendees] = await Promise.all([
+    listEventMedia(eventId, 'images'),
+    listEventMedia(eventId, 'videos'),
+    attendeeImages.listByEvent(eventId)
+  ]);
+  return {
+    photoCount: images.length,
+    videoCount: videos.length,
+    guestCount: attendees.length,
+    matchCount: attendees.reduce((sum, record) => sum + record.matchedImages.length, 0)
+  };
+};
+
+const eventIds = async function* (only: string | null) {
+  if (only) {
+    yield only;
+    return;
+  }
+  let cursor: string | null = null;
+  do {
+    const page: ItemPage<Item> = await tableBackend.scanPage(EVENTS_TABLE, { limit: 100, cursor });
+    for (const item of page.items) {
+      yield String(item.eventId);
+    }
+    cursor = page.cursor;
+  } while (cursor);
+};
+
+const run = async (only: string | null, dryRun: boolean) => {
+  let checked = 0;
+  let drifted = 0;
+
+  for await (const eventId of eventIds(only)) {
+    const event = await events.get(eventId);
+    if (!event) {
+      console.warn(`Event ${eventId} not found`);
+      continue;
+    }
+    checked += 1;
+
+    const counts = await countEvent(eventId);
+    const changed = COUNTERS.filter(counter => (event[counter] || 0) !== counts[counter]);
+    if (changed.length === 0) continue;
+
+    const report = changed.map(counter => `${counter} ${event[counter] || 0} -> ${counts[counter]}`).join(', ');
+    console.log(`${dryRun ? 'Would fix' : 'Fixing'} event ${eventId}: ${report}`);
+    if (!dryRun) {
+      await eventCounters.set(eventId, counts);
+    }
+    drifted += 1;
+  }
+
+  console.log(`Checked ${checked} events, ${dryRun ? 'would fix' : 'fixed'} ${drifted}`);
+};
+
+const eventArg = process.argv.indexOf('--event');
+const only = eventArg >= 0 ? process.argv[eventArg + 1] || null : null;
+if (eventArg >= 0 && !only) {
+  console.error('--event needs an event id');
+  process.exitCode = 1;
+} else {
+  run(only, process.argv.includes('--dry-run')).catch((error) => {
+    console.error('Reconciliation failed:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,120 @@
+import { getKeyFromUrl } from '../config/aws';
+import { attendeeImages, events } from '../repositories';
+import { getObjectStream, listEventMedia } from '../storage/media';
+import { ZipArchive, ZipSource } from './zip';
+import { createLinkToken, verifyLinkToken } from './linkTokens';
+import type { ArchiveLink, MediaItem } from '../../shared/types';
+
+// What an archive contains: all media of an event (organizer export), or the
+// photos matched to an attendee, optionally for a single event
+export type ArchiveScope =
+  | { type: 'event'; eventId: string }
+  | { type: 'attendee'; userId: string; eventId?: string };
+
+// Long enough to resume a multi-gigabyte export the next day
+const ARCHIVE_LINK_TTL_SECONDS = 48 * 60 * 60;
+
+// Upload keys are '<timestamp>-<original name>'; archives use the original name
+const displayName = (key: string) => (key.split('/').pop() || key).replace(/^\d{10,}-/, '');
+
+// File and folder names safe on every OS
+const safeName = (name: string) =>
+  Array.from(name, char => (char < ' ' || '<>:"/\\|?*'.includes(char) ? '_' : char)).join('').trim() || 'untitled';
+
+// Add ' (2)', ' (3)', ... before the extension of names already used
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.substring(0, dot) : name;
+  const extension = dot > 0 ? name.substring(dot) : '';
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const toSource = (item: MediaItem, name: string): ZipSource => ({
+  name,
+  size: item.size || 0,
+  modifiedAt: item.lastModified ? new Date(item.lastModified) : new Date(),
+  cacheKey: `${item.key}:${item.size}:${item.lastModified}`,
+  open: (start, end) => getObjectStream(item.key, start, end)
+});
+
+const eventSources = async (eventId: string): Promise<{ sources: ZipSource[]; fileName: string }> => {
+  const [event, images, videos] = await Promise.all([
+    events.get(eventId),
+    listEventMedia(eventId, 'images'),
+    listEventMedia(eventId, 'videos')
+  ]);
+
+  const used = new Set<string>();
+  const sources = [
+    ...images.map(item => toSource(item, `Photos/${uniqueName(safeName(displayName(item.key)), used)}`)),
+    ...videos.map(item => toSource(item, `Videos/${uniqueName(safeName(displayName(item.key)), used)}`))
+  ];
+  return { sources, fileName: `${safeName(event?.name || eventId)}.zip` };
+};
+
+const attendeeSources = async (userId: string, eventId?: string): Promise<{ sources: ZipSource[]; fileName: string }> => {
+  const records = eventId
+    ? [await attendeeImages.get(userId, eventId)].filter(record => record !== null)
+    : (await attendeeImages.listByUser(userId)).filter(record => record.eventId !== 'default');
+  records.sort((a, b) => a.eventId.localeCompare(b.eventId));
+
+  const sources: ZipSource[] = [];
+  const usedFolders = new Set<string>();
+  let singleEventName = '';
+
+  for (const record of records) {
+    const [event, images] = await Promise.all([
+      events.get(record.eventId),
+      listEventMedia(record.eventId, 'images')
+    ]);
+    const imagesByKey = new Map(images.map(item => [item.key, item]));
+    const eventName = safeName(event?.name || record.eventId);
+    singleEventName = eventName;
+    // One folder per event unless the archive covers a single event
+    const folder = records.length > 1 ? `${uniqueName(eventName, usedFolders)}/` : '';
+
+    const used = new Set<string>();
+    for (const url of record.matchedImages) {
+      const key = getKeyFromUrl(url);
+      const item = key ? imagesByKey.get(key) : undefined;
+      // Skip photos deleted since they were matched
+      if (!item) continue;
+      sources.push(toSource(item, `${folder}${uniqueName(safeName(displayName(item.key)), used)}`));
+    }
+  }
+
+  const fileName = records.length === 1 ? `${singleEventName} - My Photos.zip` : 'My Photos.zip';
+  return { sources, fileName };
+};
+
+/**
+ * Builds the archive for a scope. The layout is deterministic, so the same
+ * scope yields the same bytes (and ETag) until its media changes.
+ */
+export const buildArchive = async (scope: ArchiveScope) => {
+  const { sources, fileName } = scope.type === 'event'
+    ? await eventSources(scope.eventId)
+    : await attendeeSources(scope.userId, scope.eventId);
+  return { archive: new ZipArchive(sources), fileName };
+};
+
+// Create a signed download link for a scope
+export const createArchiveLink = async (scope: ArchiveScope): Promise<ArchiveLink> => {
+  const { archive, fileName } = await buildArchive(scope);
+  const { token, expiresAt } = createLinkToken({ scope }, ARCHIVE_LINK_TTL_SECONDS);
+  return {
+    path: `/api/archives/${token}`,
+    fileName,
+    size: archive.size,
+    fileCount: archive.fileCount,
+    expiresAt
+  };
+};
+
+export const getArchiveScope = (token: string): ArchiveScope | null =>
+  verifyLinkToken<{ scope: ArchiveScope }>(token)?.scope ?? null;
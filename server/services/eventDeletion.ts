@@ -0,0 +1,152 @@
+import { faceMatcher } from '../faces';
+import { attendeeImages, eventMembers, events, tableBackend, users } from '../repositories';
+import { ATTENDEE_IMGS_TABLE } from '../repositories/attendeeImages';
+import { EVENTS_TABLE } from '../repositories/events';
+import { EVENT_MEMBERS_TABLE } from '../repositories/eventMembers';
+import { USERS_TABLE } from '../repositories/users';
+import { deleteObject, getSharedEventPath, objectStore } from '../storage/media';
+import { deleteFaceRecords, getEventFaceRecords } from '../storage/faceIndex';
+import { getEventCollectionId } from './faceIndex';
+import type { Item, ItemPage } from '../repositories/backend';
+import type { EventData, EventDeletionReport, JobResults } from '../../shared/types';
+
+// How often the server looks for deleted events whose grace period is over
+const SWEEP_INTERVAL_MS = Number(process.env.EVENT_PURGE_SWEEP_MINUTES || 15) * 60 * 1000;
+// A purge queued this long ago without finishing is queued again; purging is idempotent
+const REQUEUE_AFTER_MS = 60 * 60 * 1000;
+// Objects deleted in parallel
+const DELETE_CONCURRENCY = 10;
+
+const isDue = (event: Pick<EventData, 'deletedAt' | 'purgeAfter' | 'purgedAt'>, now: number) =>
+  Boolean(event.deletedAt && event.purgeAfter && !event.purgedAt && Date.parse(event.purgeAfter) <= now);
+
+const deleteEventObjects = async (eventId: string) => {
+  const objects = await objectStore.list(`${getSharedEventPath(eventId)}/`);
+  for (let i = 0; i < objects.length; i += DELETE_CONCURRENCY) {
+    await Promise.all(objects.slice(i, i + DELETE_CONCURRENCY).map(object => deleteObject(object.key)));
+  }
+  return {
+    objectsDeleted: objects.length,
+    bytesDeleted: objects.reduce((sum, object) => sum + (object.size || 0), 0)
+  };
+};
+
+const deleteAttendeeRecords = async (eventId: string) => {
+  const records = await attendeeImages.listByEvent(eventId);
+  await tableBackend.batchDelete(ATTENDEE_IMGS_TABLE, records.map(({ userId }) => ({ userId, eventId })));
+  return records.length;
+};
+
+const deleteMemberRecords = async (eventId: string) => {
+  const members = await eventMembers.listByEvent(eventId);
+  await tableBackend.batchDelete(EVENT_MEMBERS_TABLE, members.map(({ email }) => ({ eventId, email })));
+  return members.length;
+};
+
+// Takes the event off its organizer's createdEvents
+const updateOrganizer = async (event: EventData) => {
+  const organizerIds = Array.from(new Set([event.organizerId, event.userEmail].filter((id): id is string => Boolean(id))));
+  let updated = false;
+  for (const userId of organizerIds) {
+    const user = await users.get(userId);
+    if (!user?.createdEvents?.includes(event.id)) continue;
+    await tableBackend.update(USERS_TABLE, { userId }, {
+      createdEvents: user.createdEvents.filter(id => id !== event.id),
+      updatedAt: new Date().toISOString()
+    });
+    updated = true;
+  }
+  return updated;
+};
+
+/**
+ * Permanently removes a deleted event whose grace period is over: its media,
+ * face collection, face index, attendee and member records, and its place in the
+ * organizer's createdEvents. The event record stays behind, stripped of its
+ * links, with the deletion report. Every step can be repeated, so a failed
+ * purge is simply run again.
+ * @param eventId The event to purge
+ */
+export const purgeEvent = async (eventId: string): Promise<JobResults['purge-event']> => {
+  const event = await events.get(eventId, { includeDeleted: true });
+  // Restored, purged already, or not due yet
+  if (!event || !isDue(event, Date.now())) {
+    return { purged: false };
+  }
+
+  // From here on the event can no longer be restored
+  if (!event.purgeStartedAt) {
+    await tableBackend.update(EVENTS_TABLE, { eventId }, { purgeStartedAt: new Date().toISOString() });
+  }
+
+  const objects = await deleteEventObjects(eventId);
+  const faceRecords = await getEventFaceRecords(eventId);
+  await deleteFaceRecords(faceRecords);
+  const report: EventDeletionReport = {
+    ...objects,
+    faceRecordsDeleted: faceRecords.length,
+    faceCollectionDeleted: await faceMatcher.deleteCollection(getEventCollectionId(eventId)),
+    attendeeRecordsDeleted: await deleteAttendeeRecords(eventId),
+    memberRecordsDeleted: await deleteMemberRecords(eventId),
+    organizerUpdated: await updateOrganizer(event)
+  };
+
+  const purgedAt = new Date().toISOString();
+  await tableBackend.update(EVENTS_TABLE, { eventId }, {
+    purgedAt,
+    deletionReport: { ...report },
+    coverImage: null,
+    eventUrl: null,
+    updatedAt: purgedAt
+  });
+  console.log(`Purged event ${eventId}:`, report);
+  return { purged: true, report };
+};
+
+// Deleted events whose grace period is over. Deletions are rare, so a full
+// scan is cheaper than keeping an index for them.
+const findEventsDueForPurge = async () => {
+  const now = Date.now();
+  const due: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: ItemPage<Item> = await tableBackend.scanPage(EVENTS_TABLE, { limit: 100, cursor });
+    for (const item of page.items) {
+      if (isDue(item as Pick<EventData, 'deletedAt' | 'purgeAfter' | 'purgedAt'>, now)) {
+        due.push(String(item.eventId));
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor);
+  return due;
+};
+
+/**
+ * Checks for events to purge now and every few minutes after
+ * @param enqueue Queues the purge job for one event
+ * @returns Stops the checks
+ */
+export const scheduleEventPurges = (enqueue: (eventId: string) => Promise<unknown>) => {
+  const queuedAt = new Map<string, number>();
+
+  const sweep = async () => {
+    const now = Date.now();
+    for (const eventId of await findEventsDueForPurge()) {
+      const previous = queuedAt.get(eventId);
+      if (previous && now - previous < REQUEUE_AFTER_MS) continue;
+      queuedAt.set(eventId, now);
+      await enqueue(eventId);
+    }
+  };
+
+  const run = () => {
+    sweep().catch(error => {
+      console.error('Error checking for events to purge:', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,45 @@
+import { events } from '../repositories';
+import { getSharedEventPath, objectStore } from '../storage/media';
+import { getEventStatus } from '../../shared/eventStatus';
+import type { EventData, JobResults, StorageTier } from '../../shared/types';
+
+// Objects moved in parallel within a sync job
+const MOVE_CONCURRENCY = 5;
+
+const tierFor = (event: EventData): StorageTier => getEventStatus(event) === 'archived' ? 'archive' : 'standard';
+
+/**
+ * Moves all of an event's media (photos, videos, selfies and cover) to the
+ * storage tier its status calls for. Stops early when the status changes
+ * mid-way; the status change queues a sync of its own.
+ * @param eventId The event whose media to move
+ * @param onProgress Called after each batch with the number of objects done
+ */
+export const syncEventStorage = async (
+  eventId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<JobResults['sync-event-storage']> => {
+  const event = await events.get(eventId);
+  if (!event) {
+    throw new Error(`Event ${eventId} not found`);
+  }
+
+  const tier = tierFor(event);
+  const objects = await objectStore.list(`${getSharedEventPath(eventId)}/`);
+  let movedCount = 0;
+
+  for (let i = 0; i < objects.length; i += MOVE_CONCURRENCY) {
+    const batch = objects.slice(i, i + MOVE_CONCURRENCY);
+    const moved = await Promise.all(batch.map(object => objectStore.setStorageTier(object.key, tier)));
+    movedCount += moved.filter(Boolean).length;
+    onProgress?.(i + batch.length, objects.length);
+
+    const current = await events.get(eventId);
+    if (!current || tierFor(current) !== tier) {
+      console.log(`Event ${eventId} changed status while moving its media to ${tier}; stopping`);
+      break;
+    }
+  }
+
+  return { tier, objectCount: objects.length, movedCount };
+};
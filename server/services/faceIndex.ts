@@ -0,0 +1,167 @@
+import { faceMatcher } from '../faces';
+import type { FaceSimilarity } from '../faces/matcher';
+import { getEventMediaPrefix, listEventMedia } from '../storage/media';
+import {
+  FaceIndexRecord,
+  deleteFaceRecords,
+  getEventFaceRecords,
+  getFaceRecords,
+  getImageFaceRecords,
+  isFaceRecord,
+  storeImageFaces
+} from '../storage/faceIndex';
+
+// Every event gets its own face collection. Photos are indexed into it
+// once, when they are uploaded, so finding a guest is a single search instead
+// of one CompareFaces call per photo. The Face-index table maps each FaceId
+// back to the photo it came from.
+
+export interface FaceSearchMatch {
+  faceId: string;
+  imageKey: string;
+  similarity: number;
+}
+
+// Rekognition limits, which the other face matchers share
+const MAX_EXTERNAL_IMAGE_ID_LENGTH = 255;
+const MAX_SEARCH_FACES = 4096;
+// Number of images indexed in parallel when backfilling an event
+const INDEX_CONCURRENCY = 5;
+
+export const getEventCollectionId = (eventId: string) =>
+  `chitralai-event-${eventId.replace(/[^a-zA-Z0-9_.-]/g, '_')}`;
+
+// ExternalImageId only allows [a-zA-Z0-9_.\-:]; it is informational, the
+// Face-index table is what links faces to image keys.
+const toExternalImageId = (eventId: string, imageKey: string) => {
+  const prefix = getEventMediaPrefix(eventId, 'images');
+  const relativeKey = imageKey.startsWith(prefix) ? imageKey.substring(prefix.length) : imageKey;
+  return relativeKey.replace(/[^a-zA-Z0-9_.\-:]/g, '_').slice(0, MAX_EXTERNAL_IMAGE_ID_LENGTH);
+};
+
+// Create the event's collection unless it already exists
+export const ensureEventCollection = async (eventId: string): Promise<string> => {
+  const collectionId = getEventCollectionId(eventId);
+  await faceMatcher.ensureCollection(collectionId);
+  return collectionId;
+};
+
+/**
+ * Indexes the faces of one event photo into the event's collection, unless it
+ * was indexed before
+ * @param eventId The event the photo belongs to
+ * @param imageKey S3 key of the photo
+ * @returns The photo's faces; empty when it has none
+ */
+export const indexEventImage = async (eventId: string, imageKey: string): Promise<FaceIndexRecord[]> => {
+  const existing = await getImageFaceRecords(imageKey);
+  if (existing.length > 0) {
+    return existing.filter(isFaceRecord);
+  }
+
+  const collectionId = await ensureEventCollection(eventId);
+  const faces = await faceMatcher.indexFaces(collectionId, imageKey, toExternalImageId(eventId, imageKey));
+
+  const records = await storeImageFaces(eventId, imageKey, faces);
+  return records.filter(isFaceRecord);
+};
+
+/**
+ * Makes sure every photo of an event is in its collection, indexing any that
+ * were uploaded before indexing happened at upload time
+ * @param eventId The event to index
+ * @param onProgress Called after each batch with the number of photos done
+ * @returns All faces of the event
+ */
+export const indexEventImages = async (
+  eventId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<FaceIndexRecord[]> => {
+  const [images, records] = await Promise.all([
+    listEventMedia(eventId, 'images'),
+    getEventFaceRecords(eventId)
+  ]);
+
+  const indexedKeys = new Set(records.map(record => record.imageKey));
+  const pending = images.filter(image => !indexedKeys.has(image.key));
+  const faces = records.filter(isFaceRecord);
+
+  for (let i = 0; i < pending.length; i += INDEX_CONCURRENCY) {
+    const batch = pending.slice(i, i + INDEX_CONCURRENCY);
+    const results = await Promise.all(batch.map(async (image) => {
+      try {
+        return await indexEventImage(eventId, image.key);
+      } catch (error) {
+        console.error(`Error indexing image ${image.key}:`, error);
+        return [];
+      }
+    }));
+    faces.push(...results.flat());
+    onProgress?.(images.length - pending.length + i + batch.length, images.length);
+  }
+
+  onProgress?.(images.length, images.length);
+  return faces;
+};
+
+/**
+ * Removes a deleted photo's faces from the collection and the Face-index table
+ * @param eventId The event the photo belonged to
+ * @param imageKey S3 key of the photo
+ */
+export const removeEventImageFaces = async (eventId: string, imageKey: string): Promise<void> => {
+  const records = await getImageFaceRecords(imageKey);
+  const faceIds = records.filter(isFaceRecord).map(record => record.faceId);
+
+  if (faceIds.length > 0) {
+    await faceMatcher.deleteFaces(getEventCollectionId(eventId), faceIds);
+  }
+  await deleteFaceRecords(records);
+};
+
+// Resolves faces found by a search to the photos they were found in, best first
+const toFaceSearchMatches = async (eventId: string, matches: FaceSimilarity[]): Promise<FaceSearchMatch[]> => {
+  const similarityByFace = new Map(matches.map(match => [match.faceId, match.similarity]));
+  const records = await getFaceRecords(eventId, Array.from(similarityByFace.keys()));
+  return records
+    .map(record => ({
+      faceId: record.faceId,
+      imageKey: record.imageKey,
+      similarity: similarityByFace.get(record.faceId) || 0
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+};
+
+/**
+ * Searches the event's collection for the largest face in an image
+ * @param eventId The event to search
+ * @param imageKey S3 key of the image to search with, usually a selfie
+ * @param threshold Minimum similarity (0-100)
+ * @returns One entry per matched face, best first; empty when the image has no face
+ */
+export const searchEventFacesByImage = async (
+  eventId: string,
+  imageKey: string,
+  threshold: number
+): Promise<FaceSearchMatch[]> => {
+  const collectionId = await ensureEventCollection(eventId);
+  const matches = await faceMatcher.searchByImage(collectionId, imageKey, threshold, MAX_SEARCH_FACES);
+  return toFaceSearchMatches(eventId, matches);
+};
+
+/**
+ * Searches the event's collection for faces like one of its own faces
+ * @param eventId The event to search
+ * @param faceId The face to search with
+ * @param threshold Minimum similarity (0-100)
+ * @returns One entry per matched face, best first, without the face itself
+ */
+export const searchEventFacesByFace = async (
+  eventId: string,
+  faceId: string,
+  threshold: number
+): Promise<FaceSearchMatch[]> => {
+  const collectionId = await ensureEventCollection(eventId);
+  const matches = await faceMatcher.searchByFace(collectionId, faceId, threshold, MAX_SEARCH_FACES);
+  return toFaceSearchMatches(eventId, matches);
+};
@@ -0,0 +1,178 @@
+import { getKeyFromUrl, getObjectUrl } from '../config/aws';
+import { faceMatcher } from '../faces';
+import { ensureEventCollection, indexEventImages, searchEventFacesByFace, searchEventFacesByImage } from './faceIndex';
+import type { FaceSearchMatch } from './faceIndex';
+import { getImageFaceRecords, isFaceRecord } from '../storage/faceIndex';
+import { getMatchTier } from '../../shared/matchThresholds';
+import type { AttendeeImageData, FaceGroup, FaceMatch, FaceMatchResult, FaceRecord, MatchThresholds } from '../../shared/types';
+
+// Minimum similarity for comparing two images outside any event
+const SIMILARITY_THRESHOLD = 80;
+// Photos a guest confirmed that are searched with besides their selfie; the
+// most recently confirmed ones are used
+const MAX_REFERENCE_PHOTOS = 10;
+
+/**
+ * Compares the face in one object against the faces in another
+ * @returns The best similarity found, or null when there is no match
+ */
+export const compareFaces = (sourceKey: string, targetKey: string): Promise<number | null> =>
+  faceMatcher.compare(sourceKey, targetKey, SIMILARITY_THRESHOLD);
+
+// The guest's face in each photo they confirmed: the face most like their
+// selfie, or else the photo's only face
+const findReferenceFaces = async (referenceKeys: string[], selfieMatches: FaceSearchMatch[]) => {
+  const faceIds = await Promise.all(referenceKeys.slice(-MAX_REFERENCE_PHOTOS).map(async (imageKey) => {
+    const best = selfieMatches.find(match => match.imageKey === imageKey);
+    if (best) return best.faceId;
+    const faces = (await getImageFaceRecords(imageKey)).filter(isFaceRecord);
+    return faces.length === 1 ? faces[0].faceId : null;
+  }));
+  return faceIds.filter((faceId): faceId is string => faceId !== null);
+};
+
+// Search the event's collection with a selfie, one match per photo, best
+// first. The guest's faces in the photos they confirmed are searched with
+// too, which finds photos where they look less like their selfie (e.g. in
+// profile or partly covered).
+const searchSelfie = async (
+  eventId: string,
+  selfieKey: string,
+  thresholds: MatchThresholds,
+  referenceKeys: string[],
+  imageKeys?: Set<string>
+): Promise<FaceMatch[]> => {
+  const selfieMatches = await searchEventFacesByImage(eventId, selfieKey, thresholds.possible);
+  const referenceMatches = await Promise.all(
+    (await findReferenceFaces(referenceKeys, selfieMatches)).map(faceId =>
+      searchEventFacesByFace(eventId, faceId, thresholds.possible).catch((error): FaceSearchMatch[] => {
+        console.error(`Face search error for faceId ${faceId}:`, error);
+        return [];
+      })
+    )
+  );
+  const faceMatches = [...selfieMatches, ...referenceMatches.flat()].sort((a, b) => b.similarity - a.similarity);
+
+  // A photo can contain several matching faces; keep its best similarity
+  const bestByImage = new Map<string, FaceMatch>();
+  for (const match of faceMatches) {
+    const tier = getMatchTier(match.similarity, thresholds);
+    if (!tier || bestByImage.has(match.imageKey)) continue;
+    if (imageKeys && !imageKeys.has(match.imageKey)) continue;
+    bestByImage.set(match.imageKey, {
+      key: match.imageKey,
+      url: getObjectUrl(match.imageKey),
+      similarity: match.similarity,
+      tier
+    });
+  }
+
+  return Array.from(bestByImage.values()).sort((a, b) => b.similarity - a.similarity);
+};
+
+/**
+ * Finds the photos of an event that contain the face in a selfie, using a
+ * single search of the event's face collection
+ * @param eventId The event whose images should be searched
+ * @param selfieKey S3 key of the uploaded selfie
+ * @param thresholds The event's match thresholds
+ * @param referenceKeys Photos the guest confirmed they are in
+ * @param onProgress Called while photos that were not indexed yet are indexed
+ */
+export const matchSelfieAgainstEvent = async (
+  eventId: string,
+  selfieKey: string,
+  thresholds: MatchThresholds,
+  referenceKeys: string[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<FaceMatchResult> => {
+  // Indexes any photos uploaded before indexing happened at upload time
+  const faces = await indexEventImages(eventId, onProgress);
+  return {
+    matches: await searchSelfie(eventId, selfieKey, thresholds, referenceKeys),
+    processedCount: new Set(faces.map(face => face.imageKey)).size
+  };
+};
+
+/**
+ * Finds which of the given, already indexed photos contain the face in a selfie
+ * @param eventId The event the photos belong to
+ * @param selfieKey S3 key of the selfie
+ * @param thresholds The event's match thresholds
+ * @param referenceKeys Photos the guest confirmed they are in
+ * @param imageKeys Photos to consider; matches in any other photo are ignored
+ */
+export const matchSelfieAgainstImages = (
+  eventId: string,
+  selfieKey: string,
+  thresholds: MatchThresholds,
+  referenceKeys: string[],
+  imageKeys: string[]
+) => searchSelfie(eventId, selfieKey, thresholds, referenceKeys, new Set(imageKeys));
+
+// Keys of the photos a guest confirmed they are in, to search with
+export const getReferenceKeys = (record: AttendeeImageData | null | undefined): string[] =>
+  (record?.confirmedImages || []).map(getKeyFromUrl).filter((key): key is string => key !== null);
+
+// Confident matches become the guest's photos; possible ones wait for the
+// guest to confirm or reject them
+export const toAttendeeMatches = (
+  matches: FaceMatch[]
+): Pick<AttendeeImageData, 'matchedImages' | 'matchScores' | 'possibleMatches'> => {
+  const scored = (tier: FaceMatch['tier']) => matches
+    .filter(match => match.tier === tier)
+    .map(({ url, similarity }) => ({ url, similarity }));
+  const matchScores = scored('confident');
+  return { matchedImages: matchScores.map(match => match.url), matchScores, possibleMatches: scored('possible') };
+};
+
+/**
+ * Groups the faces of an event's images by person, two-phase approach
+ *
+ * PHASE 1: Make sure every image is indexed into the event's collection. If multiple
+ *          faces exist, each becomes its own face in the collection.
+ *
+ * PHASE 2: For each face, search the collection by faceId to see if it matches existing faces.
+ *          If matched, reuse groupId; if not, create a new groupId.
+ */
+export const groupEventFaces = async (eventId: string): Promise<FaceGroup[]> => {
+  const collectionId = await ensureEventCollection(eventId);
+
+  // PHASE 1: Index all images
+  const faceRecords: FaceRecord[] = (await indexEventImages(eventId)).map(face => ({
+    faceId: face.faceId,
+    boundingBox: face.boundingBox,
+    image: { key: face.imageKey, url: getObjectUrl(face.imageKey) }
+  }));
+
+  // PHASE 2: Search & group
+  const faceIdToGroupId: Record<string, string> = {};
+  let groupCount = 0;
+  const newGroupId = () => {
+    groupCount += 1;
+    return `group_${groupCount}`;
+  };
+
+  await Promise.all(faceRecords.map(async (faceRec) => {
+    try {
+      const matches = await faceMatcher.searchByFace(collectionId, faceRec.faceId, 99, 5);
+
+      const matchedGroupIds = matches
+        .map((m) => faceIdToGroupId[m.faceId])
+        .filter((gid): gid is string => !!gid);
+
+      faceIdToGroupId[faceRec.faceId] = matchedGroupIds[0] || newGroupId();
+    } catch (err) {
+      console.error(`Face search error for faceId ${faceRec.faceId}:`, err);
+      faceIdToGroupId[faceRec.faceId] = newGroupId();
+    }
+  }));
+
+  const groups = new Map<string, FaceRecord[]>();
+  for (const faceRec of faceRecords) {
+    const gid = faceIdToGroupId[faceRec.faceId];
+    groups.set(gid, [...(groups.get(gid) || []), faceRec]);
+  }
+
+  return Array.from(groups, ([groupId, faces]) => ({ groupId, faces }));
+};
@@ -0,0 +1,38 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Signed, expiring tokens for links the browser opens directly (such as a
+// ZIP download), where it cannot attach the usual request headers.
+const secret = process.env.LINK_SIGNING_SECRET || (() => {
+  console.warn('LINK_SIGNING_SECRET is not set; download links and sign-ins will stop working when the server restarts');
+  return randomBytes(32).toString('hex');
+})();
+
+const sign = (data: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+/**
+ * Creates a token carrying a payload
+ * @param payload Data the token grants access to
+ * @param ttlSeconds How long the token stays valid
+ */
+export const createLinkToken = (payload: object, ttlSeconds: number) => {
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  const data = Buffer.from(JSON.stringify({ ...payload, exp: expiresAt.getTime() })).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expiresAt: expiresAt.toISOString() };
+};
+
+// Returns the token's payload, or null when it is forged or expired
+export const verifyLinkToken = <T extends object>(token: string): T | null => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { exp, ...payload } = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return typeof exp === 'number' && exp > Date.now() ? payload as T : null;
+  } catch {
+    return null;
+  }
+};
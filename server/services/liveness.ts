@@ -0,0 +1,95 @@
+import { randomInt } from 'node:crypto';
+import { livenessVerifier } from '../liveness';
+import { createLinkToken, verifyLinkToken } from './linkTokens';
+import { findObject } from '../storage/media';
+import type { LivenessChallenge, LivenessStep } from '../../shared/types';
+
+// Guests match only selfies taken live, so nobody can find someone else in an
+// event by uploading their photo. Challenges are signed tokens, so the server
+// keeps no state between issuing one and checking the frames. Each is for the
+// guest it was issued to, and only frames they upload after it count, so
+// photos taken beforehand cannot be replayed.
+
+const STEPS_PER_CHALLENGE = 4;
+// Time to take the frames once a challenge is issued
+const CHALLENGE_TTL_SECONDS = 2 * 60;
+// How long a verified selfie can be matched against events
+const LIVE_SELFIE_TTL_SECONDS = 24 * 60 * 60;
+
+export type LivenessOutcome =
+  | { passed: true; livenessToken: string }
+  | { passed: false; reason: string };
+
+interface ChallengePayload {
+  livenessSteps?: LivenessStep[];
+  // The user's email or guest id it was issued to
+  attendeeId?: string;
+  issuedAt?: number;
+}
+
+/**
+ * Picks random steps among those the verifier can check. Steps may come back
+ * later in the challenge, but never twice in a row, so the guest has to move
+ * between every two frames.
+ * @param attendeeId The user's email or guest id taking the check
+ */
+export const createLivenessChallenge = (attendeeId: string): LivenessChallenge => {
+  const steps: LivenessStep[] = [];
+  while (steps.length < STEPS_PER_CHALLENGE) {
+    const choices = livenessVerifier.steps.filter(step => step !== steps[steps.length - 1]);
+    steps.push(choices[randomInt(choices.length)]);
+  }
+  const { token, expiresAt } = createLinkToken(
+    { livenessSteps: steps, attendeeId, issuedAt: Date.now() } satisfies ChallengePayload,
+    CHALLENGE_TTL_SECONDS
+  );
+  return { id: token, steps, expiresAt };
+};
+
+// Whether every image was uploaded after the challenge was issued. S3 keeps
+// upload times to the second, so the second it was issued in counts.
+const uploadedSince = async (imageKeys: string[], issuedAt: number) => {
+  const since = Math.floor(issuedAt / 1000) * 1000;
+  const objects = await Promise.all(imageKeys.map(findObject));
+  return objects.every(object => (object?.lastModified?.getTime() ?? 0) >= since);
+};
+
+/**
+ * Checks the frames a guest took for a liveness challenge
+ * @param challengeId The id the challenge was issued with
+ * @param attendeeId The user's email or guest id sending the frames
+ * @param frameKeys S3 keys of one frame per step, in the challenge's order
+ * @param selfieKey S3 key of the selfie taken after the last step
+ * @returns null when the challenge is forged, has expired or was issued to
+ * someone else; otherwise whether the frames passed, with a token vouching
+ * for the selfie when they did
+ */
+export const verifyLivenessChallenge = async (
+  challengeId: string,
+  attendeeId: string,
+  frameKeys: string[],
+  selfieKey: string
+): Promise<LivenessOutcome | null> => {
+  const challenge = verifyLinkToken<ChallengePayload>(challengeId);
+  const steps = challenge?.livenessSteps;
+  if (!steps || challenge.attendeeId !== attendeeId || typeof challenge.issuedAt !== 'number') return null;
+  if (frameKeys.length !== steps.length) {
+    return { passed: false, reason: `Expected ${steps.length} frames, one for each step` };
+  }
+  if (!await uploadedSince([...frameKeys, selfieKey], challenge.issuedAt)) {
+    return { passed: false, reason: 'Take every frame with your camera during the check. Please try again.' };
+  }
+
+  const result = await livenessVerifier.verify(
+    steps.map((step, i) => ({ step, imageKey: frameKeys[i] })),
+    selfieKey
+  );
+  if (!result.passed) {
+    return { passed: false, reason: result.reason || 'The liveness check did not pass. Please try again.' };
+  }
+  return { passed: true, livenessToken: createLinkToken({ liveSelfie: selfieKey }, LIVE_SELFIE_TTL_SECONDS).token };
+};
+
+// Whether a token from verifyLivenessChallenge vouches for the selfie
+export const isLiveSelfie = (livenessToken: string | undefined, selfieKey: string) =>
+  Boolean(livenessToken && verifyLinkToken<{ liveSelfie?: string }>(livenessToken)?.liveSelfie === selfieKey);
@@ -0,0 +1,49 @@
+interface Failures {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Counts failed attempts per client, e.g. wrong event codes, and turns a
+ * client away once it fails too often within a window. Kept in memory, so
+ * each server process counts on its own.
+ */
+export class AttemptLimiter {
+  private failures = new Map<string, Failures>();
+
+  constructor(private maxFailures: number, private windowMs: number) {}
+
+  // Seconds until the client may try again, or 0 when it may now
+  retryAfter(clientKey: string): number {
+    const failures = this.current(clientKey);
+    if (!failures || failures.count < this.maxFailures) return 0;
+    return Math.ceil((failures.resetAt - Date.now()) / 1000);
+  }
+
+  recordFailure(clientKey: string) {
+    const failures = this.current(clientKey);
+    if (failures) {
+      failures.count += 1;
+      return;
+    }
+    this.prune();
+    this.failures.set(clientKey, { count: 1, resetAt: Date.now() + this.windowMs });
+  }
+
+  private current(clientKey: string) {
+    const failures = this.failures.get(clientKey);
+    if (failures && failures.resetAt <= Date.now()) {
+      this.failures.delete(clientKey);
+      return undefined;
+    }
+    return failures;
+  }
+
+  // Drops expired windows so clients that stopped failing are forgotten
+  private prune() {
+    const now = Date.now();
+    for (const [clientKey, failures] of this.failures) {
+      if (failures.resetAt <= now) this.failures.delete(clientKey);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { getKeyFromUrl } from '../config/aws';
+import { attendeeImages, attendeeMatches, events } from '../repositories';
+import { getReferenceKeys, matchSelfieAgainstImages, toAttendeeMatches } from './faceRecognition';
+import { getMatchThresholds } from '../../shared/matchThresholds';
+import type { JobResults } from '../../shared/types';
+
+// Images uploaded within this window after the first new image are rematched
+// together, so a photographer uploading hundreds of photos queues one job.
+const REMATCH_BATCH_WINDOW_MS = 30 * 1000;
+// Attendees searched in parallel within a rematch job
+const REMATCH_CONCURRENCY = 5;
+
+const pendingImages = new Map<string, Set<string>>();
+
+/**
+ * Notes a newly indexed event image so attendees who matched earlier are
+ * checked against it
+ * @param eventId The event the image belongs to
+ * @param imageKey S3 key of the new image
+ * @param enqueue Queues the rematch job once the batch window closes
+ */
+export const scheduleEventRematch = (
+  eventId: string,
+  imageKey: string,
+  enqueue: (eventId: string, imageKeys: string[]) => Promise<unknown>
+) => {
+  const pending = pendingImages.get(eventId);
+  if (pending) {
+    pending.add(imageKey);
+    return;
+  }
+
+  pendingImages.set(eventId, new Set([imageKey]));
+  setTimeout(() => {
+    const imageKeys = Array.from(pendingImages.get(eventId) || []);
+    pendingImages.delete(eventId);
+    enqueue(eventId, imageKeys).catch(error => {
+      console.error(`Error queueing rematch for event ${eventId}:`, error);
+    });
+  }, REMATCH_BATCH_WINDOW_MS);
+};
+
+/**
+ * Checks every attendee of an event against new images only and adds any
+ * matches to their matchedImages, or possibleMatches for the guest to review
+ * @param eventId The event that received new images
+ * @param imageKeys The new images
+ * @param onProgress Called with the number of attendees checked
+ */
+export const rematchEventAttendees = async (
+  eventId: string,
+  imageKeys: string[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<JobResults['rematch-event']> => {
+  const attendees = (await attendeeImages.listByEvent(eventId)).filter(record => record.selfieURL);
+  const thresholds = getMatchThresholds(await events.get(eventId) || {});
+  let updatedCount = 0;
+  let newMatchCount = 0;
+
+  for (let i = 0; i < attendees.length; i += REMATCH_CONCURRENCY) {
+    const batch = attendees.slice(i, i + REMATCH_CONCURRENCY);
+
+    await Promise.all(batch.map(async (record) => {
+      const selfieKey = getKeyFromUrl(record.selfieURL);
+      if (!selfieKey) return;
+
+      const matches = await matchSelfieAgainstImages(eventId, selfieKey, thresholds, getReferenceKeys(record), imageKeys);
+      const known = new Set([
+        ...record.matchedImages,
+        ...(record.possibleMatches || []).map(match => match.url),
+        ...record.rejectedImages || []
+      ]);
+      const newMatches = matches.filter(match => !known.has(match.url));
+      if (newMatches.length === 0) return;
+
+      // save merges these into the existing matches
+      await attendeeMatches.save({
+        ...record,
+        ...toAttendeeMatches(newMatches),
+        lastUpdated: new Date().toISOString()
+      });
+      updatedCount += 1;
+      newMatchCount += newMatches.length;
+    }));
+
+    onProgress?.(Math.min(i + batch.length, attendees.length), attendees.length);
+  }
+
+  return { attendeeCount: attendees.length, updatedCount, newMatchCount };
+};
@@ -0,0 +1,75 @@
+import { faceMatcher } from '../faces';
+import type { DetectedFace } from '../faces';
+import type { SelfieCheck, SelfieIssue } from '../../shared/types';
+
+// A selfie that is blurry, dark, turned away or shared with friends quietly
+// matches nothing, so selfies are checked before matching and the guest is
+// told what to change.
+
+// Faces less than this fraction of the largest face's width are people in
+// the background, not a second person in the selfie
+const BACKGROUND_FACE_RATIO = 0.5;
+// Fractions of the image width
+const MIN_FACE_WIDTH = 0.15;
+// 0-100, as reported by the face matcher
+const MIN_SHARPNESS = 20;
+const MIN_BRIGHTNESS = 25;
+const MAX_BRIGHTNESS = 95;
+// Degrees
+const MAX_YAW = 30;
+const MAX_PITCH = 25;
+const MAX_ROLL = 30;
+
+const issue = (code: SelfieIssue['code'], message: string): SelfieIssue => ({ code, message });
+
+const findIssues = (face: DetectedFace): SelfieIssue[] => {
+  const issues: SelfieIssue[] = [];
+  if (face.boundingBox.Width < MIN_FACE_WIDTH) {
+    issues.push(issue('FACE_TOO_SMALL', 'Move closer so your face fills more of the photo.'));
+  }
+  if (face.sharpness !== undefined && face.sharpness < MIN_SHARPNESS) {
+    issues.push(issue('TOO_BLURRY', 'The photo is blurry. Hold your phone still and tap to focus on your face.'));
+  }
+  if (face.brightness !== undefined && face.brightness < MIN_BRIGHTNESS) {
+    issues.push(issue('TOO_DARK', 'The photo is too dark. Face a window or a light.'));
+  }
+  if (face.brightness !== undefined && face.brightness > MAX_BRIGHTNESS) {
+    issues.push(issue('TOO_BRIGHT', 'The photo is too bright. Move out of direct light or turn off the flash.'));
+  }
+  if (face.pose && (
+    Math.abs(face.pose.yaw) > MAX_YAW ||
+    Math.abs(face.pose.pitch) > MAX_PITCH ||
+    Math.abs(face.pose.roll) > MAX_ROLL
+  )) {
+    issues.push(issue('FACE_TURNED', 'Look straight at the camera and hold your phone upright.'));
+  }
+  if (face.eyesOpen === false) {
+    issues.push(issue('EYES_CLOSED', 'Keep your eyes open.'));
+  }
+  return issues;
+};
+
+/**
+ * Checks that a selfie shows one face, large, sharp, well lit and facing the camera
+ * @param selfieKey S3 key of the selfie
+ * @returns The problems found, each with what to do about it
+ */
+export const checkSelfie = async (selfieKey: string): Promise<SelfieCheck> => {
+  const detected = await faceMatcher.detectFaces(selfieKey);
+  if (detected.length === 0) {
+    return {
+      passed: false,
+      faceCount: 0,
+      issues: [issue('NO_FACE', "We couldn't find a face. Face the camera with nothing covering your face.")]
+    };
+  }
+
+  const [face] = detected;
+  const faces = detected.filter(other =>
+    other.boundingBox.Width >= face.boundingBox.Width * BACKGROUND_FACE_RATIO
+  );
+  const issues = faces.length > 1
+    ? [issue('MULTIPLE_FACES', 'Only one face please. Take the selfie on your own.'), ...findIssues(face)]
+    : findIssues(face);
+  return { passed: issues.length === 0, faceCount: faces.length, issues };
+};
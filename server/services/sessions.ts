@@ -0,0 +1,51 @@
+import { createLinkToken, verifyLinkToken } from './linkTokens';
+import type { SessionUser } from '../../shared/types';
+
+// Sessions are signed tokens kept in an HttpOnly cookie. A session lasts
+// SESSION_TTL_SECONDS after the last request that renewed it; requests in its
+// second half renew it, until MAX_SESSION_AGE_MS after the user signed in,
+// when the user has to sign in again.
+
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+const MAX_SESSION_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Browsers keep the cookie for as long as a session can possibly last
+export const SESSION_COOKIE_MAX_AGE_SECONDS = MAX_SESSION_AGE_MS / 1000;
+
+interface SessionPayload {
+  session: SessionUser;
+  signedInAt: number;
+  renewAfter: number;
+}
+
+export interface Session {
+  user: SessionUser;
+  // The cookie value
+  token: string;
+  // Whether the cookie should be replaced with a renewed token
+  renewed: boolean;
+}
+
+const issue = (user: SessionUser, signedInAt: number): Session => {
+  const now = Date.now();
+  const ttlSeconds = Math.min(SESSION_TTL_SECONDS, Math.floor((signedInAt + MAX_SESSION_AGE_MS - now) / 1000));
+  const payload: SessionPayload = { session: user, signedInAt, renewAfter: now + ttlSeconds * 500 };
+  return { user, token: createLinkToken(payload, ttlSeconds).token, renewed: true };
+};
+
+export const createSession = (user: SessionUser) => issue(user, Date.now());
+
+/**
+ * Reads a session cookie, renewing the session when it is due
+ * @returns The session, or null when the token is forged or expired
+ */
+export const readSession = (token: string): Session | null => {
+  const payload = verifyLinkToken<SessionPayload>(token);
+  if (!payload?.session?.email) return null;
+  // Not due yet, or too close to the end of its last renewal to bother
+  const maxAgeLeft = payload.signedInAt + MAX_SESSION_AGE_MS - Date.now();
+  if (Date.now() < payload.renewAfter || maxAgeLeft < 60 * 1000) {
+    return { user: payload.session, token, renewed: false };
+  }
+  return issue(payload.session, payload.signedInAt);
+};
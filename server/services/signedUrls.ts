@@ -0,0 +1,90 @@
+import { getKeyFromUrl, getObjectUrl } from '../config/aws';
+import { objectStore } from '../storage/media';
+import type { AttendeeImageData, EventData, FaceMatchResult, MediaItem, PresignedUpload, ScoredImage } from '../../shared/types';
+
+// The media bucket is private; browsers only ever see these short-lived URLs.
+export const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+export const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+const expiresAt = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+/**
+ * Creates a presigned PUT for a single object. Content type and length are
+ * part of the signature, so the browser cannot swap in a different file.
+ * @param key Destination key
+ * @param contentType MIME type the browser will send
+ * @param contentLength Exact size in bytes of the file
+ * @param metadata Optional user metadata stored with the object
+ */
+export const createUploadUrl = async (
+  key: string,
+  contentType: string,
+  contentLength: number,
+  metadata?: Record<string, string>
+): Promise<PresignedUpload> => {
+  const uploadUrl = await objectStore.createUploadUrl(key, contentType, contentLength, metadata, UPLOAD_URL_TTL_SECONDS);
+
+  return {
+    key,
+    url: await createDownloadUrl(key),
+    uploadUrl,
+    headers: { 'Content-Type': contentType },
+    expiresAt: expiresAt(UPLOAD_URL_TTL_SECONDS)
+  };
+};
+
+/**
+ * Creates a presigned GET for viewing an object, or for downloading it when
+ * a file name is given
+ * @param key The object key
+ * @param downloadName Optional file name for a Content-Disposition: attachment response
+ */
+export const createDownloadUrl = (key: string, downloadName?: string): Promise<string> =>
+  objectStore.createDownloadUrl(
+    key,
+    downloadName ? `attachment; filename="${downloadName.replace(/["\\\r\n]/g, '_')}"` : undefined,
+    DOWNLOAD_URL_TTL_SECONDS
+  );
+
+// Sign a stored bucket URL for viewing; URLs outside the bucket pass through
+export const signObjectUrl = async (url: string): Promise<string> => {
+  const key = url ? getKeyFromUrl(url) : null;
+  return key ? createDownloadUrl(key) : url;
+};
+
+// Strip any signature so only the permanent bucket URL is ever stored
+export const toCanonicalUrl = (url: string): string => {
+  const key = url ? getKeyFromUrl(url) : null;
+  return key ? getObjectUrl(key) : url;
+};
+
+export const signMediaItem = async (item: MediaItem): Promise<MediaItem> => ({
+  ...item,
+  url: await createDownloadUrl(item.key)
+});
+
+export const signEvent = async <T extends Pick<EventData, 'coverImage'>>(event: T): Promise<T> => ({
+  ...event,
+  coverImage: event.coverImage ? await signObjectUrl(event.coverImage) : event.coverImage
+});
+
+const signScoredImages = (images: ScoredImage[] | undefined) =>
+  images && Promise.all(images.map(async image => ({ ...image, url: await signObjectUrl(image.url) })));
+
+export const signAttendeeRecord = async (record: AttendeeImageData): Promise<AttendeeImageData> => ({
+  ...record,
+  selfieURL: await signObjectUrl(record.selfieURL),
+  matchedImages: await Promise.all(record.matchedImages.map(signObjectUrl)),
+  matchScores: await signScoredImages(record.matchScores),
+  possibleMatches: await signScoredImages(record.possibleMatches),
+  confirmedImages: record.confirmedImages && await Promise.all(record.confirmedImages.map(signObjectUrl)),
+  rejectedImages: record.rejectedImages && await Promise.all(record.rejectedImages.map(signObjectUrl))
+});
+
+export const signFaceMatchResult = async (result: FaceMatchResult): Promise<FaceMatchResult> => ({
+  ...result,
+  matches: await Promise.all(result.matches.map(async match => ({
+    ...match,
+    url: await createDownloadUrl(match.key)
+  })))
+});
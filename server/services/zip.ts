@@ -0,0 +1,330 @@
+import { once } from 'node:events';
+import { createHash } from 'node:crypto';
+import type { Readable, Writable } from 'node:stream';
+import { crc32 } from 'node:zlib';
+
+// Streaming ZIP writer for photo and video exports. Files are stored without
+// compression (media is already compressed), so the archive's exact size and
+// layout are known before any byte is read. That is what lets a download be
+// resumed with an HTTP Range request at any offset.
+
+export interface ZipSource {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+  // Identifies this exact file content; used to cache its CRC-32
+  cacheKey: string;
+  // Opens the file's bytes [start, end)
+  open(start: number, end: number): Promise<Readable>;
+}
+
+interface ZipEntry {
+  source: ZipSource;
+  name: Buffer;
+  // Sizes beyond 4GB need ZIP64 fields in the local header and data descriptor
+  zip64: boolean;
+  headerOffset: number;
+  header: Buffer;
+  dataOffset: number;
+  descriptorOffset: number;
+  descriptorSize: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+// Bit 3: CRC and sizes follow the data; bit 11: file names are UTF-8
+const FLAGS = 0x0808;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+// CRCs of files already streamed once, so resuming near the end of a large
+// export does not have to read every earlier file again
+const CRC_CACHE_LIMIT = 100000;
+const crcCache = new Map<string, number>();
+
+const cacheCrc = (key: string, crc: number) => {
+  if (crcCache.size >= CRC_CACHE_LIMIT) {
+    const oldest = crcCache.keys().next().value;
+    if (oldest !== undefined) crcCache.delete(oldest);
+  }
+  crcCache.set(key, crc);
+};
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+const localHeader = (name: Buffer, modifiedAt: Date, zip64: boolean) => {
+  const extraLength = zip64 ? 20 : 0;
+  const header = Buffer.alloc(30 + name.length + extraLength);
+  const { time, date } = toDosDateTime(modifiedAt);
+
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8); // stored
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  // CRC and sizes are in the data descriptor
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(zip64 ? UINT32_MAX : 0, 18);
+  header.writeUInt32LE(zip64 ? UINT32_MAX : 0, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(extraLength, 28);
+  name.copy(header, 30);
+
+  if (zip64) {
+    const extra = 30 + name.length;
+    header.writeUInt16LE(0x0001, extra);
+    header.writeUInt16LE(16, extra + 2);
+    // Both sizes stay zero here; the data descriptor carries them
+  }
+  return header;
+};
+
+const dataDescriptor = (entry: ZipEntry, crc: number) => {
+  const descriptor = Buffer.alloc(entry.descriptorSize);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  if (entry.zip64) {
+    descriptor.writeBigUInt64LE(BigInt(entry.source.size), 8);
+    descriptor.writeBigUInt64LE(BigInt(entry.source.size), 16);
+  } else {
+    descriptor.writeUInt32LE(entry.source.size, 8);
+    descriptor.writeUInt32LE(entry.source.size, 12);
+  }
+  return descriptor;
+};
+
+const centralHeader = (entry: ZipEntry, crc: number) => {
+  const { size, modifiedAt } = entry.source;
+  const needsOffset64 = entry.headerOffset >= UINT32_MAX;
+  const extraFields = (entry.zip64 ? 2 : 0) + (needsOffset64 ? 1 : 0);
+  const extraLength = extraFields > 0 ? 4 + extraFields * 8 : 0;
+  const header = Buffer.alloc(46 + entry.name.length + extraLength);
+  const { time, date } = toDosDateTime(modifiedAt);
+
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_ZIP64, 4);
+  header.writeUInt16LE(extraFields > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(time, 12);
+  header.writeUInt16LE(date, 14);
+  header.writeUInt32LE(crc, 16);
+  header.writeUInt32LE(entry.zip64 ? UINT32_MAX : size, 20);
+  header.writeUInt32LE(entry.zip64 ? UINT32_MAX : size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt16LE(extraLength, 30);
+  // Comment length, disk number, internal and external attributes stay zero
+  header.writeUInt32LE(needsOffset64 ? UINT32_MAX : entry.headerOffset, 42);
+  entry.name.copy(header, 46);
+
+  if (extraLength > 0) {
+    let position = 46 + entry.name.length;
+    header.writeUInt16LE(0x0001, position);
+    header.writeUInt16LE(extraFields * 8, position + 2);
+    position += 4;
+    if (entry.zip64) {
+      header.writeBigUInt64LE(BigInt(size), position);
+      header.writeBigUInt64LE(BigInt(size), position + 8);
+      position += 16;
+    }
+    if (needsOffset64) {
+      header.writeBigUInt64LE(BigInt(entry.headerOffset), position);
+    }
+  }
+  return header;
+};
+
+const endRecords = (entryCount: number, directoryOffset: number, directorySize: number) => {
+  const needsZip64 = entryCount >= UINT16_MAX || directoryOffset >= UINT32_MAX || directorySize >= UINT32_MAX;
+  const records: Buffer[] = [];
+
+  if (needsZip64) {
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+    zip64End.writeBigUInt64LE(44n, 4);
+    zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+    zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+    zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+    zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+    zip64End.writeBigUInt64LE(BigInt(directorySize), 40);
+    zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    records.push(zip64End, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_SIGNATURE, 0);
+  end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 8);
+  end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 10);
+  end.writeUInt32LE(Math.min(directorySize, UINT32_MAX), 12);
+  end.writeUInt32LE(Math.min(directoryOffset, UINT32_MAX), 16);
+  records.push(end);
+
+  return Buffer.concat(records);
+};
+
+// Write to a response, waiting for it to drain; fails once the client is gone
+const writeChunk = async (out: Writable, chunk: Buffer) => {
+  if (out.destroyed) {
+    throw new Error('Archive download was closed by the client');
+  }
+  if (!out.write(chunk)) {
+    await Promise.race([once(out, 'drain'), once(out, 'close')]);
+  }
+};
+
+export class ZipArchive {
+  readonly size: number;
+  readonly etag: string;
+  private entries: ZipEntry[] = [];
+  private directoryOffset: number;
+  private directorySize: number;
+
+  constructor(sources: ZipSource[]) {
+    let offset = 0;
+    for (const source of sources) {
+      const name = Buffer.from(source.name, 'utf8');
+      const zip64 = source.size >= UINT32_MAX;
+      const header = localHeader(name, source.modifiedAt, zip64);
+      const descriptorSize = zip64 ? 24 : 16;
+      const entry: ZipEntry = {
+        source,
+        name,
+        zip64,
+        headerOffset: offset,
+        header,
+        dataOffset: offset + header.length,
+        descriptorOffset: offset + header.length + source.size,
+        descriptorSize
+      };
+      this.entries.push(entry);
+      offset = entry.descriptorOffset + descriptorSize;
+    }
+
+    this.directoryOffset = offset;
+    // CRCs do not change header lengths, so size the directory with a placeholder
+    this.directorySize = this.entries.reduce((total, entry) => total + centralHeader(entry, 0).length, 0);
+    this.size = offset + this.directorySize + endRecords(this.entries.length, offset, this.directorySize).length;
+
+    const hash = createHash('sha1');
+    for (const source of sources) {
+      hash.update(`${source.name}\0${source.size}\0${source.cacheKey}\n`);
+    }
+    this.etag = `"${hash.digest('hex')}"`;
+  }
+
+  get fileCount() {
+    return this.entries.length;
+  }
+
+  /**
+   * Streams bytes [start, end] (inclusive, as in an HTTP Range) of the archive
+   * @param out Destination, usually the HTTP response
+   * @param start First byte to write
+   * @param end Last byte to write
+   */
+  async write(out: Writable, start = 0, end = this.size - 1): Promise<void> {
+    // Write the part of a buffer at an archive offset that falls in the range
+    const emit = async (buffer: Buffer, offset: number) => {
+      const from = Math.max(start, offset);
+      const to = Math.min(end + 1, offset + buffer.length);
+      if (from < to) {
+        await writeChunk(out, buffer.subarray(from - offset, to - offset));
+      }
+    };
+
+    const directoryNeeded = end >= this.directoryOffset;
+    const crcs: number[] = [];
+
+    for (const [index, entry] of this.entries.entries()) {
+      if (entry.headerOffset > end && !directoryNeeded) break;
+
+      await emit(entry.header, entry.headerOffset);
+
+      const { source } = entry;
+      const descriptorNeeded = start < entry.descriptorOffset + entry.descriptorSize && end >= entry.descriptorOffset;
+      const crcNeeded = descriptorNeeded || directoryNeeded;
+      const cachedCrc = crcCache.get(source.cacheKey);
+
+      if (crcNeeded && cachedCrc === undefined) {
+        crcs[index] = await this.streamData(entry, emit, 0, source.size, true);
+      } else {
+        crcs[index] = cachedCrc ?? 0;
+        if (start < entry.dataOffset + source.size && end >= entry.dataOffset) {
+          // Only fetch the part of the file inside the range
+          await this.streamData(
+            entry,
+            emit,
+            Math.max(0, start - entry.dataOffset),
+            Math.min(source.size, end + 1 - entry.dataOffset),
+            false
+          );
+        }
+      }
+
+      if (descriptorNeeded) {
+        await emit(dataDescriptor(entry, crcs[index]), entry.descriptorOffset);
+      }
+    }
+
+    if (directoryNeeded) {
+      const directory = Buffer.concat(this.entries.map((entry, index) => centralHeader(entry, crcs[index])));
+      await emit(directory, this.directoryOffset);
+      await emit(endRecords(this.entries.length, this.directoryOffset, this.directorySize), this.directoryOffset + this.directorySize);
+    }
+  }
+
+  // Stream bytes [from, to) of a file's data. To compute its CRC the whole
+  // file is read, even if only part of it falls in the requested range.
+  private async streamData(
+    entry: ZipEntry,
+    emit: (buffer: Buffer, offset: number) => Promise<void>,
+    from: number,
+    to: number,
+    computeCrc: boolean
+  ): Promise<number> {
+    const { source } = entry;
+    if (from >= to) {
+      if (computeCrc) cacheCrc(source.cacheKey, 0);
+      return 0;
+    }
+
+    const stream = await source.open(from, to);
+    let crc = 0;
+    let position = entry.dataOffset + from;
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        if (computeCrc) crc = crc32(buffer, crc);
+        await emit(buffer, position);
+        position += buffer.length;
+      }
+    } finally {
+      stream.destroy();
+    }
+
+    if (position - entry.dataOffset !== to) {
+      throw new Error(`${source.name} changed size while it was being archived`);
+    }
+    if (computeCrc) cacheCrc(source.cacheKey, crc);
+    return crc;
+  }
+}
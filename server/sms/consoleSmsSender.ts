@@ -0,0 +1,7 @@
+import type { SmsMessage, SmsSender } from './smsSender';
+
+export class ConsoleSmsSender implements SmsSender {
+  async send({ to, text }: SmsMessage) {
+    console.log(`Text message to ${to}: ${text}`);
+  }
+}
@@ -0,0 +1,14 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { SmsMessage, SmsSender } from './smsSender';
+
+// Appends each message to sms.log in a directory, for local runs where the
+// server log is not handy (see OUTBOX_DIR)
+export class FileSmsSender implements SmsSender {
+  constructor(private dir: string) {}
+
+  async send({ to, text }: SmsMessage) {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(join(this.dir, 'sms.log'), `${new Date().toISOString()} To: ${to}\n${text}\n\n`);
+  }
+}
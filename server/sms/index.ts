@@ -0,0 +1,9 @@
+import { ConsoleSmsSender } from './consoleSmsSender';
+import { FileSmsSender } from './fileSmsSender';
+import type { SmsSender } from './smsSender';
+
+export type { SmsMessage, SmsSender } from './smsSender';
+
+export const smsSender: SmsSender = process.env.OUTBOX_DIR
+  ? new FileSmsSender(process.env.OUTBOX_DIR)
+  : new ConsoleSmsSender();
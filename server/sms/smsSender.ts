@@ -0,0 +1,13 @@
+// Text messages the server sends, such as sign-in codes. ConsoleSmsSender
+// writes them to the server log until an SMS provider is wired up, or
+// FileSmsSender to files in OUTBOX_DIR when it is set.
+
+export interface SmsMessage {
+  // E.164, e.g. "+15550100199"
+  to: string;
+  text: string;
+}
+
+export interface SmsSender {
+  send(message: SmsMessage): Promise<void>;
+}
@@ -0,0 +1,100 @@
+import { tableBackend } from '../repositories';
+import type { TableDefinition } from '../repositories/backend';
+import type { BoundingBox } from '../../shared/types';
+
+// Table linking the faces in each event's face collection to the photos
+// they were found in. Key: eventId (partition) + faceId (sort).
+// GSI 'ImageKeyIndex' on imageKey lists the faces of a single photo.
+export const FACE_INDEX_TABLE: TableDefinition = {
+  name: 'Face-index',
+  keys: ['eventId', 'faceId'],
+  indexes: { ImageKeyIndex: ['imageKey'] }
+};
+
+// Photos without any face get a single marker record so they are not
+// re-indexed on every search, much like the 'default' attendee selfie record.
+const NO_FACES_PREFIX = 'NO_FACES#';
+
+// Videos are not indexed, but get a marker record once their upload is
+// completed, so each is counted on its event only once
+const VIDEO_PREFIX = 'VIDEO#';
+
+export interface FaceIndexRecord {
+  eventId: string;
+  faceId: string;
+  imageKey: string;
+  boundingBox?: BoundingBox;
+  confidence?: number;
+  indexedAt: string;
+}
+
+// Real faces only; drops the markers of photos without faces and of videos
+export const isFaceRecord = (record: FaceIndexRecord) =>
+  !record.faceId.startsWith(NO_FACES_PREFIX) && !record.faceId.startsWith(VIDEO_PREFIX);
+
+/**
+ * Gets every record of an event, including markers of photos without faces
+ * @param eventId The event code/id
+ */
+export const getEventFaceRecords = (eventId: string): Promise<FaceIndexRecord[]> =>
+  tableBackend.query<FaceIndexRecord>(FACE_INDEX_TABLE, 'eventId', eventId);
+
+/**
+ * Gets the records of a single photo
+ * @param imageKey S3 key of the photo
+ * @returns The photo's records, or an empty array when it was never indexed
+ */
+export const getImageFaceRecords = (imageKey: string): Promise<FaceIndexRecord[]> =>
+  tableBackend.query<FaceIndexRecord>(FACE_INDEX_TABLE, 'imageKey', imageKey, 'ImageKeyIndex');
+
+/**
+ * Looks up faces returned by a face search
+ * @param eventId The event whose collection was searched
+ * @param faceIds Face IDs from the search
+ * @returns The records found; faces missing from the table are left out
+ */
+export const getFaceRecords = (eventId: string, faceIds: string[]): Promise<FaceIndexRecord[]> =>
+  tableBackend.batchGet<FaceIndexRecord>(
+    FACE_INDEX_TABLE,
+    Array.from(new Set(faceIds), faceId => ({ eventId, faceId }))
+  );
+
+/**
+ * Records the faces found in a photo, or a marker when it has none
+ * @param eventId The event code/id
+ * @param imageKey S3 key of the photo
+ * @param faces Faces returned by IndexFaces
+ * @returns The stored records
+ */
+export const storeImageFaces = async (
+  eventId: string,
+  imageKey: string,
+  faces: Omit<FaceIndexRecord, 'eventId' | 'imageKey' | 'indexedAt'>[]
+): Promise<FaceIndexRecord[]> => {
+  const indexedAt = new Date().toISOString();
+  const records: FaceIndexRecord[] = faces.length > 0
+    ? faces.map(face => ({ ...face, eventId, imageKey, indexedAt }))
+    : [{ eventId, faceId: `${NO_FACES_PREFIX}${imageKey}`, imageKey, indexedAt }];
+
+  await tableBackend.batchPut(FACE_INDEX_TABLE, records.map(record => ({ ...record })));
+  return records;
+};
+
+/**
+ * Records that a video's upload was completed
+ * @param eventId The event code/id
+ * @param videoKey S3 key of the video
+ * @returns false when it was recorded before
+ */
+export const markVideoCompleted = (eventId: string, videoKey: string): Promise<boolean> =>
+  tableBackend.putIfAbsent(FACE_INDEX_TABLE, {
+    eventId,
+    faceId: `${VIDEO_PREFIX}${videoKey}`,
+    imageKey: videoKey,
+    indexedAt: new Date().toISOString()
+  });
+
+// Remove records, e.g. after their faces were deleted from the collection
+export const deleteFaceRecords = async (records: Pick<FaceIndexRecord, 'eventId' | 'faceId'>[]): Promise<void> => {
+  await tableBackend.batchDelete(FACE_INDEX_TABLE, records.map(({ eventId, faceId }) => ({ eventId, faceId })));
+};
@@ -0,0 +1,175 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createLinkToken, verifyLinkToken } from '../services/linkTokens';
+import type { ObjectStore, StorageTier, StoredObject } from './objectStore';
+
+// What a signed local URL allows: reading an object, or writing one with
+// exactly the given type and size, like a presigned S3 URL
+export interface LocalObjectGrant {
+  key: string;
+  method: 'GET' | 'PUT';
+  contentType?: string;
+  contentLength?: number;
+  metadata?: Record<string, string>;
+  contentDisposition?: string;
+}
+
+interface ObjectInfo {
+  contentType: string;
+  metadata?: Record<string, string>;
+  // Only recorded; every file is read the same way
+  storageTier?: StorageTier;
+}
+
+// Same name the S3 client gives a missing key, so callers handle both alike
+const noSuchKey = (key: string) => {
+  const error = new Error(`Object ${key} does not exist`);
+  error.name = 'NoSuchKey';
+  return error;
+};
+
+/**
+ * Stand-in for the media bucket. Objects live under `<root>/objects/<key>`
+ * with their content type and metadata in `<root>/metadata/<key>.json`.
+ * Signed URLs point at the API server (see routes/localObjects).
+ */
+export class FileObjectStore implements ObjectStore {
+  private objectsDir: string;
+  private metadataDir: string;
+
+  constructor(root: string, private baseUrl: string) {
+    this.objectsDir = resolve(root, 'objects');
+    this.metadataDir = resolve(root, 'metadata');
+  }
+
+  async list(prefix: string) {
+    // Only walk the deepest folder the prefix names
+    const folder = prefix.substring(0, prefix.lastIndexOf('/') + 1);
+    const objects: StoredObject[] = [];
+
+    const walk = async (dir: string) => {
+      const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(path);
+          continue;
+        }
+        const key = relative(this.objectsDir, path).split(sep).join('/');
+        if (!key.startsWith(prefix) || entry.name.endsWith('.tmp')) continue;
+        const stats = await stat(path);
+        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    };
+
+    await walk(this.pathOf(this.objectsDir, folder));
+    return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  async put(key: string, body: Buffer | Readable, contentType: string, metadata?: Record<string, string>) {
+    const path = this.pathOf(this.objectsDir, key);
+    const infoPath = `${this.pathOf(this.metadataDir, key)}.json`;
+    await Promise.all([mkdir(dirname(path), { recursive: true }), mkdir(dirname(infoPath), { recursive: true })]);
+
+    // Write to a temporary file first so readers never see half an object
+    const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, createWriteStream(tempPath));
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+    const info: ObjectInfo = { contentType, metadata };
+    await writeFile(infoPath, JSON.stringify(info));
+  }
+
+  async getStream(key: string, start: number, end: number): Promise<Readable> {
+    const path = await this.existingPath(key);
+    return createReadStream(path, { start, end: end - 1 });
+  }
+
+  async getBuffer(key: string) {
+    return readFile(await this.existingPath(key));
+  }
+
+  async delete(key: string) {
+    await Promise.all([
+      rm(this.pathOf(this.objectsDir, key), { force: true }),
+      rm(`${this.pathOf(this.metadataDir, key)}.json`, { force: true })
+    ]);
+  }
+
+  async setStorageTier(key: string, tier: StorageTier) {
+    await this.existingPath(key);
+    const infoPath = `${this.pathOf(this.metadataDir, key)}.json`;
+    const info: ObjectInfo = await readFile(infoPath, 'utf8')
+      .then(text => JSON.parse(text) as ObjectInfo)
+      .catch(() => ({ contentType: 'application/octet-stream' }));
+    if ((info.storageTier || 'standard') === tier) return false;
+
+    await writeFile(infoPath, JSON.stringify({ ...info, storageTier: tier }));
+    return true;
+  }
+
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    metadata: Record<string, string> | undefined,
+    expiresIn: number
+  ) {
+    return this.signUrl({ key, method: 'PUT', contentType, contentLength, metadata }, expiresIn);
+  }
+
+  async createDownloadUrl(key: string, contentDisposition: string | undefined, expiresIn: number) {
+    return this.signUrl({ key, method: 'GET', contentDisposition }, expiresIn);
+  }
+
+  // Size and content type of an object, or null when it does not exist
+  async head(key: string): Promise<{ size: number; contentType: string } | null> {
+    try {
+      const [stats, info] = await Promise.all([
+        stat(this.pathOf(this.objectsDir, key)),
+        readFile(`${this.pathOf(this.metadataDir, key)}.json`, 'utf8')
+          .then(text => JSON.parse(text) as ObjectInfo)
+          .catch(() => null)
+      ]);
+      return { size: stats.size, contentType: info?.contentType || 'application/octet-stream' };
+    } catch {
+      return null;
+    }
+  }
+
+  // The grant carried by a signed URL, or null when it is forged, expired or for another key
+  verifyGrant(key: string, token: string, method: LocalObjectGrant['method']): LocalObjectGrant | null {
+    const grant = verifyLinkToken<LocalObjectGrant>(token);
+    return grant && grant.key === key && grant.method === method ? grant : null;
+  }
+
+  private signUrl(grant: LocalObjectGrant, expiresIn: number) {
+    const { token } = createLinkToken(grant, expiresIn);
+    return `${this.baseUrl}${encodeURIComponent(grant.key)}?token=${token}`;
+  }
+
+  private async existingPath(key: string) {
+    const path = this.pathOf(this.objectsDir, key);
+    const stats = await stat(path).catch(() => null);
+    if (!stats?.isFile()) {
+      throw noSuchKey(key);
+    }
+    return path;
+  }
+
+  // Resolve a key under a folder, refusing keys that would escape it
+  private pathOf(dir: string, key: string) {
+    const path = resolve(dir, key);
+    if (path !== dir && !path.startsWith(dir + sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,101 @@
+import type { Readable } from 'node:stream';
+import {
+  LOCAL_DATA_DIR,
+  LOCAL_OBJECTS_URL,
+  S3_BUCKET_NAME,
+  getObjectUrl,
+  isLocalMode,
+  s3Client
+} from '../config/aws';
+import { FileObjectStore } from './fileObjectStore';
+import { S3ObjectStore } from './s3ObjectStore';
+import type { ObjectStore, StoredObject } from './objectStore';
+import type { MediaItem } from '../../shared/types';
+
+// The media bucket, or files on disk in local mode
+export const localObjectStore = isLocalMode ? new FileObjectStore(LOCAL_DATA_DIR, LOCAL_OBJECTS_URL) : null;
+export const objectStore: ObjectStore = localObjectStore || new S3ObjectStore(s3Client, S3_BUCKET_NAME);
+
+export type MediaKind = 'images' | 'videos' | 'selfies';
+
+const MEDIA_PATTERNS: Record<MediaKind, RegExp> = {
+  images: /\.(jpg|jpeg|png)$/i,
+  videos: /\.(mp4|mov|avi|wmv)$/i,
+  selfies: /\.(jpg|jpeg|png)$/i
+};
+
+// Helper function for building S3 paths
+export const getSharedEventPath = (eventId: string) => `events/shared/${eventId}`;
+
+export const getEventMediaPrefix = (eventId: string, kind: MediaKind) =>
+  `${getSharedEventPath(eventId)}/${kind}/`;
+
+// A user's or guest's own selfies, not tied to any event
+export const getUserSelfiePrefix = (userId: string) => `users/${userId}/selfies/`;
+
+// Strip anything that could escape the target prefix from a client-supplied name
+export const sanitizeFileName = (fileName: string) =>
+  fileName.replace(/[/\\]/g, '_').replace(/^\.+/, '').slice(0, 150) || 'file';
+
+/**
+ * Lists every object under a prefix
+ * @param prefix The S3 key prefix to list
+ * @param pattern Optional filename filter
+ * @returns Media items in key order
+ */
+export const listObjects = async (prefix: string, pattern?: RegExp): Promise<MediaItem[]> => {
+  const objects = await objectStore.list(prefix);
+  return objects
+    .filter(object => !pattern || pattern.test(object.key))
+    .map(object => ({
+      key: object.key,
+      url: getObjectUrl(object.key),
+      name: object.key.split('/').pop() || object.key,
+      lastModified: object.lastModified?.toISOString(),
+      size: object.size
+    }));
+};
+
+export const listEventMedia = (eventId: string, kind: MediaKind) =>
+  listObjects(getEventMediaPrefix(eventId, kind), MEDIA_PATTERNS[kind]);
+
+// Returns the cover image for an event, trying the current and legacy key layouts
+export const findEventCover = async (eventId: string): Promise<MediaItem | null> => {
+  const covers = await listObjects(`${getSharedEventPath(eventId)}/cover`);
+  return covers[0] || null;
+};
+
+/**
+ * Uploads a buffer or stream
+ * @param key Destination key
+ * @param body File contents
+ * @param contentType MIME type to store with the object
+ * @param metadata Optional user metadata
+ */
+export const putObject = (
+  key: string,
+  body: Buffer | Readable,
+  contentType: string,
+  metadata?: Record<string, string>
+): Promise<void> => objectStore.put(key, body, contentType, metadata);
+
+/**
+ * Opens a byte range of an object as a stream
+ * @param key The object key
+ * @param start First byte
+ * @param end One past the last byte
+ */
+export const getObjectStream = (key: string, start: number, end: number): Promise<Readable> =>
+  objectStore.getStream(key, start, end);
+
+export const deleteObject = (key: string): Promise<void> => objectStore.delete(key);
+
+// The object's size and upload time, or null when there is no such object
+export const findObject = async (key: string): Promise<StoredObject | null> => {
+  const objects = await objectStore.list(key);
+  return objects.find(object => object.key === key) || null;
+};
+
+export const objectExists = async (key: string): Promise<boolean> => Boolean(await findObject(key));
+
+export const isValidMediaFile = (kind: MediaKind, fileName: string) => MEDIA_PATTERNS[kind].test(fileName);
@@ -0,0 +1,36 @@
+import type { Readable } from 'node:stream';
+import type { StorageTier } from '../../shared/types';
+
+export type { StorageTier };
+
+// Object storage the media helpers are written against. S3ObjectStore talks
+// to the media bucket; FileObjectStore keeps objects on disk and serves them
+// from the API server for local runs.
+
+export interface StoredObject {
+  key: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface ObjectStore {
+  // Every object under a prefix, in key order
+  list(prefix: string): Promise<StoredObject[]>;
+  put(key: string, body: Buffer | Readable, contentType: string, metadata?: Record<string, string>): Promise<void>;
+  // Bytes start to end - 1 of an object
+  getStream(key: string, start: number, end: number): Promise<Readable>;
+  getBuffer(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  // Keeps contents and metadata; resolves with false when the object was already in the tier
+  setStorageTier(key: string, tier: StorageTier): Promise<boolean>;
+  // URL the browser PUTs the file to; content type and length must match
+  createUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    metadata: Record<string, string> | undefined,
+    expiresIn: number
+  ): Promise<string>;
+  // URL the browser GETs the object from, with an optional Content-Disposition
+  createDownloadUrl(key: string, contentDisposition: string | undefined, expiresIn: number): Promise<string>;
+}
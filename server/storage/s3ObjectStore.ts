@@ -0,0 +1,136 @@
+import type { Readable } from 'node:stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand
+} from '@aws-sdk/client-s3';
+import type { S3Client, StorageClass } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { ObjectStore, StorageTier, StoredObject } from './objectStore';
+
+// Glacier Instant Retrieval serves reads in milliseconds like STANDARD
+const STORAGE_CLASSES: Record<StorageTier, StorageClass> = {
+  standard: 'STANDARD',
+  archive: 'GLACIER_IR'
+};
+
+export class S3ObjectStore implements ObjectStore {
+  constructor(private client: S3Client, private bucket: string) {}
+
+  // Follows continuation tokens, so prefixes with over 1000 objects are listed in full
+  async list(prefix: string) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const item of response.Contents || []) {
+        if (!item.Key) continue;
+        objects.push({ key: item.Key, size: item.Size, lastModified: item.LastModified });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  // Multipart upload, so streams of unknown length work too
+  async put(key: string, body: Buffer | Readable, contentType: string, metadata?: Record<string, string>) {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        Metadata: metadata
+      },
+      partSize: 5 * 1024 * 1024,
+      leavePartsOnError: false
+    });
+
+    await upload.done();
+  }
+
+  async getStream(key: string, start: number, end: number) {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: `bytes=${start}-${end - 1}`
+    }));
+    if (!response.Body) {
+      throw new Error(`Object ${key} has no body`);
+    }
+    return response.Body as Readable;
+  }
+
+  async getBuffer(key: string) {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  // Copies the object onto itself in the new storage class. S3 refuses such
+  // a copy when nothing changes, so objects already in the class are skipped.
+  async setStorageTier(key: string, tier: StorageTier) {
+    const storageClass = STORAGE_CLASSES[tier];
+    const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+    // HeadObject leaves StorageClass out for STANDARD objects
+    if ((head.StorageClass || 'STANDARD') === storageClass) return false;
+
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      CopySource: `${this.bucket}/${encodeURIComponent(key)}`,
+      StorageClass: storageClass,
+      MetadataDirective: 'COPY'
+    }));
+    return true;
+  }
+
+  // Content type and length are part of the signature, so the browser cannot swap in a different file
+  createUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    metadata: Record<string, string> | undefined,
+    expiresIn: number
+  ) {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: contentLength,
+      Metadata: metadata
+    });
+    return getSignedUrl(this.client, command, {
+      expiresIn,
+      signableHeaders: new Set(['content-type', 'content-length'])
+    });
+  }
+
+  createDownloadUrl(key: string, contentDisposition: string | undefined, expiresIn: number) {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentDisposition: contentDisposition
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+}
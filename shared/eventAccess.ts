@@ -0,0 +1,46 @@
+// Access policies decide who gets into an event and who may browse all of
+// its photos. The API server enforces them (server/auth.ts); the apps use
+// these helpers to show guests what they need.
+import type { EventAccessMode, EventAccessPolicy, EventData } from './types';
+
+export const EVENT_ACCESS_MODES: EventAccessMode[] = ['public', 'code', 'password', 'invite'];
+
+export const MIN_EVENT_PASSWORD_LENGTH = 6;
+
+export const isEventAccessMode = (value: unknown): value is EventAccessMode =>
+  EVENT_ACCESS_MODES.includes(value as EventAccessMode);
+
+export const getEventAccess = (event: Pick<EventData, 'access'>): EventAccessPolicy => event.access || { mode: 'code' };
+
+// Every other mode only shows guests the photos they were matched to
+export const showsGalleryToGuests = (event: Pick<EventData, 'access'>) => getEventAccess(event).mode === 'public';
+
+/**
+ * Reads an allow-list entry or a guest's contact details. Emails match in any
+ * case and phone numbers by their digits, so "+1 (555) 010-0199" and
+ * "15550100199" are the same guest.
+ * @returns The entry as stored, or null when it is neither an email nor a phone number
+ */
+export const normalizeAccessIdentity = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (trimmed.includes('@')) {
+    return /^[^\s@]+@[^\s@]+$/.test(trimmed) ? trimmed.toLowerCase() : null;
+  }
+  const phone = trimmed.replace(/[\s().-]/g, '');
+  return /^\+?\d{6,15}$/.test(phone) ? phone.replace('+', '') : null;
+};
+
+// Whether any of a guest's emails or phone numbers is on the event's allow-list
+export const isOnAllowList = (event: Pick<EventData, 'access'>, identities: (string | null | undefined)[]) => {
+  const allowList = getEventAccess(event).allowList || [];
+  return identities.some(identity => {
+    const normalized = identity ? normalizeAccessIdentity(identity) : null;
+    return normalized !== null && allowList.includes(normalized);
+  });
+};
+
+// The event as guests get it: the allow-list is the organizer's business
+export const withoutAllowList = <T extends Pick<EventData, 'access'>>(event: T): T => {
+  if (!event.access?.allowList) return event;
+  return { ...event, access: { mode: event.access.mode, hasPassword: event.access.hasPassword } };
+};
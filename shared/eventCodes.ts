@@ -0,0 +1,32 @@
+// Event codes are what guests type in to find an event, so they are random
+// (not enumerable like the old 6-digit codes) and easy to read out: eight
+// characters from Crockford's base 32, which has no I, L, O or U. Typed
+// look-alikes are read as the digit they resemble, and codes are shown in
+// two groups of four.
+//
+// Events created before these codes keep their ids, e.g. "482913".
+
+export const EVENT_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+export const EVENT_CODE_LENGTH = 8;
+
+const LOOK_ALIKES: Record<string, string> = { I: '1', L: '1', O: '0' };
+
+// 32 divides 256, so taking bytes modulo 32 keeps every character equally likely
+export const generateEventCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(EVENT_CODE_LENGTH)), byte => EVENT_CODE_ALPHABET[byte % 32]).join('');
+
+export const isEventCode = (value: string) =>
+  value.length === EVENT_CODE_LENGTH && Array.from(value).every(char => EVENT_CODE_ALPHABET.includes(char));
+
+/**
+ * Reads a code as typed: any case, with spaces or dashes, and look-alike letters
+ * @returns The code, or null when the input is not one (it may be an older id)
+ */
+export const normalizeEventCode = (input: string): string | null => {
+  const code = Array.from(input.toUpperCase().replace(/[\s-]/g, ''), char => LOOK_ALIKES[char] || char).join('');
+  return isEventCode(code) ? code : null;
+};
+
+// "7KQ2-M9XD" for codes; older ids are shown as they are
+export const formatEventCode = (eventId: string) =>
+  isEventCode(eventId) ? `${eventId.slice(0, 4)}-${eventId.slice(4)}` : eventId;
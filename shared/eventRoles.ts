@@ -0,0 +1,46 @@
+// Per-event roles, shared so the apps only offer what the API server allows
+import type { EventData, EventMember, EventRole } from './types';
+
+export const EVENT_ROLES: EventRole[] = ['owner', 'co-organizer', 'photographer', 'viewer'];
+
+// Every role but owner, which stays with whoever created the event
+export const INVITABLE_EVENT_ROLES: EventMember['role'][] = ['co-organizer', 'photographer', 'viewer'];
+
+// manage: edit the event, its status and access policy
+// members: invite, change and remove members
+// delete: delete and restore the event
+// upload: add photos and videos
+// remove-media: delete photos
+// gallery: see every photo and video, and download them all
+export type EventPermission = 'manage' | 'members' | 'delete' | 'upload' | 'remove-media' | 'gallery';
+
+const ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  owner: ['manage', 'members', 'delete', 'upload', 'remove-media', 'gallery'],
+  'co-organizer': ['manage', 'members', 'upload', 'remove-media', 'gallery'],
+  photographer: ['upload', 'gallery'],
+  viewer: ['gallery']
+};
+
+export const isInvitableEventRole = (value: unknown): value is EventMember['role'] =>
+  INVITABLE_EVENT_ROLES.includes(value as EventMember['role']);
+
+export const hasEventPermission = (role: EventRole | null, permission: EventPermission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+export const isEventOwner = (event: Pick<EventData, 'organizerId' | 'userEmail'>, email: string | null) =>
+  Boolean(email) && [event.organizerId, event.userEmail].some(id => id?.toLowerCase() === email?.toLowerCase());
+
+/**
+ * A user's role for an event: owner when they created it, otherwise the role
+ * of their accepted membership
+ * @param membership Their Event-members record, if any
+ * @returns The role, or null for everyone else (guests included)
+ */
+export const getEventRole = (
+  event: Pick<EventData, 'organizerId' | 'userEmail'>,
+  email: string | null,
+  membership: EventMember | null
+): EventRole | null => {
+  if (isEventOwner(event, email)) return 'owner';
+  return membership?.status === 'active' ? membership.role : null;
+};
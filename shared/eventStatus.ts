@@ -0,0 +1,25 @@
+// Lifecycle rules for events, shared so the dashboard offers exactly the
+// status changes the API server accepts.
+import type { EventData, EventStatus } from './types';
+
+export const EVENT_STATUSES: EventStatus[] = ['draft', 'live', 'closed', 'archived'];
+
+// The statuses an event may move to from each status. Archiving needs a
+// closed event, and an archived event is restored to closed.
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ['live'],
+  live: ['closed'],
+  closed: ['live', 'archived'],
+  archived: ['closed']
+};
+
+export const isEventStatus = (value: unknown): value is EventStatus =>
+  EVENT_STATUSES.includes(value as EventStatus);
+
+export const getEventStatus = (event: Pick<EventData, 'status'>): EventStatus => event.status || 'live';
+
+export const canChangeEventStatus = (from: EventStatus, to: EventStatus) =>
+  EVENT_STATUS_TRANSITIONS[from].includes(to);
+
+// Only live events take new selfies
+export const acceptsSelfies = (event: Pick<EventData, 'status'>) => getEventStatus(event) === 'live';
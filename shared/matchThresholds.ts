@@ -0,0 +1,38 @@
+// How alike a face in a photo and a guest's selfie must be before the photo
+// counts as theirs, set per event. The API server sorts matches into tiers
+// with these; the dashboard offers the presets.
+import type { EventData, MatchThresholds, MatchTier } from './types';
+
+export type MatchThresholdPreset = 'strict' | 'standard' | 'lenient';
+
+export const MATCH_THRESHOLD_PRESETS: Record<MatchThresholdPreset, MatchThresholds> = {
+  // Wrong matches are embarrassing, e.g. corporate events
+  strict: { confident: 95, possible: 90 },
+  standard: { confident: 80, possible: 70 },
+  // Small, far away and turned faces, e.g. crowded weddings
+  lenient: { confident: 75, possible: 60 }
+};
+
+export const DEFAULT_MATCH_THRESHOLDS = MATCH_THRESHOLD_PRESETS.standard;
+
+// Below this, too many strangers would be asked "is this you?"
+export const MIN_POSSIBLE_SIMILARITY = 50;
+
+export const getMatchThresholds = (event: Pick<EventData, 'matchThresholds'>): MatchThresholds =>
+  event.matchThresholds || DEFAULT_MATCH_THRESHOLDS;
+
+// The preset the thresholds are, or null for custom ones
+export const getMatchThresholdPreset = (thresholds: MatchThresholds): MatchThresholdPreset | null => {
+  const preset = (Object.keys(MATCH_THRESHOLD_PRESETS) as MatchThresholdPreset[]).find(name =>
+    MATCH_THRESHOLD_PRESETS[name].confident === thresholds.confident &&
+    MATCH_THRESHOLD_PRESETS[name].possible === thresholds.possible
+  );
+  return preset || null;
+};
+
+// The tier of a match with this similarity, or null when it is no match
+export const getMatchTier = (similarity: number, thresholds: MatchThresholds): MatchTier | null => {
+  if (similarity >= thresholds.confident) return 'confident';
+  if (similarity >= thresholds.possible) return 'possible';
+  return null;
+};
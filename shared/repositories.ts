@@ -0,0 +1,167 @@
+// Data-access interfaces for Users, Events and Attendee-imgs. The API server
+// implements them on top of a storage backend (server/repositories) and the
+// browser implements them over HTTP (src/repositories), so code on either side
+// depends only on these interfaces and can be handed an in-memory version.
+//
+// Every method throws on failure instead of returning false / [] / null:
+// invalid input is reported as a validation error, a missing record as a
+// not-found error. null is only returned by lookups for "no such record".
+import type {
+  AttendeeImageData,
+  AttendeeStatistics,
+  EventAccessMode,
+  EventData,
+  EventMember,
+  EventStatistics,
+  EventStatus,
+  MatchReview,
+  MatchThresholds,
+  UserCredentials
+} from './types';
+
+export interface UserInput {
+  userId: string;
+  email: string;
+  name: string;
+  mobile: string;
+  role?: string | null;
+  // Merged into the user's existing list
+  createdEvents?: string[];
+}
+
+export interface UserRepository {
+  get(userId: string): Promise<UserCredentials | null>;
+  // Scans by email for records whose key is not the email
+  findByEmail(email: string): Promise<UserCredentials | null>;
+  save(user: UserInput): Promise<void>;
+}
+
+// Maintained by the server as media and attendees come and go
+export type EventCounter = 'photoCount' | 'videoCount' | 'guestCount' | 'matchCount';
+
+// Set by the server as the event is deleted and purged
+export type EventDeletionField = 'deletedAt' | 'purgeAfter' | 'purgeStartedAt' | 'purgedAt' | 'deletionReport';
+
+// The server assigns the event code (see shared/eventCodes). status may only
+// be 'draft' or 'live' (the default) for a new event. New events need the
+// code to get into; setAccess changes that.
+export type NewEvent = Omit<
+  EventData,
+  'id' | 'eventId' | 'createdAt' | 'updatedAt' | 'statusChangedAt' | 'access' | EventCounter | EventDeletionField
+>;
+
+export type EventUpdates = Partial<Pick<EventData, 'name' | 'date' | 'description' | 'coverImage' | 'eventUrl'>>;
+
+export interface EventAccessUpdate {
+  mode: EventAccessMode;
+  // Kept when left out, so switching modes does not lose the list
+  allowList?: string[];
+  // Only sent to set or change the password; required the first time
+  // password mode is chosen. Other modes drop the password.
+  password?: string;
+}
+
+export interface PageRequest {
+  // Defaults to 20, at most 100
+  limit?: number;
+  // nextCursor of the previous page; leave out for the first page
+  cursor?: string | null;
+}
+
+export interface EventListRequest extends PageRequest {
+  // Only events in this status; events without one count as live
+  status?: EventStatus;
+  // Deleted events (awaiting purge or purged) instead of the others
+  deleted?: boolean;
+}
+
+export interface EventLookup {
+  // Also return events that were deleted
+  includeDeleted?: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  // null on the last page
+  nextCursor: string | null;
+}
+
+export interface EventRepository {
+  create(event: NewEvent): Promise<EventData>;
+  // Deleted events count as missing unless asked for
+  get(eventId: string, lookup?: EventLookup): Promise<EventData | null>;
+  // The organizer's events, newest first
+  listByOrganizer(organizerId: string, page?: EventListRequest): Promise<Page<EventData>>;
+  update(eventId: string, userEmail: string, updates: EventUpdates): Promise<void>;
+  // Moves the event along its lifecycle (see shared/eventStatus); rejects
+  // changes EVENT_STATUS_TRANSITIONS does not allow
+  setStatus(eventId: string, status: EventStatus): Promise<EventData>;
+  // Replaces the event's access policy (see shared/eventAccess)
+  setAccess(eventId: string, access: EventAccessUpdate): Promise<EventData>;
+  // Sets how alike faces must be to match guests (see shared/matchThresholds)
+  setMatchThresholds(eventId: string, thresholds: MatchThresholds): Promise<EventData>;
+  // Hides the event right away; its media and records are purged once the
+  // server's grace period (purgeAfter) is over. Until then it can be restored.
+  delete(eventId: string): Promise<EventData>;
+  // Undoes delete; rejects events already purged
+  restore(eventId: string): Promise<EventData>;
+  // Totals over every event the user created
+  getStatistics(userEmail: string): Promise<EventStatistics>;
+}
+
+export interface AttendeeImageRepository {
+  get(userId: string, eventId: string): Promise<AttendeeImageData | null>;
+  listByUser(userId: string): Promise<AttendeeImageData[]>;
+  listByEvent(eventId: string): Promise<AttendeeImageData[]>;
+  // Records the guest's answer for a matched or possible image. Confirmed
+  // images are matched and kept in confirmedImages; rejected ones leave the
+  // matches for rejectedImages. Rejects images that are neither.
+  reviewMatch(userId: string, eventId: string, imageUrl: string, review: MatchReview): Promise<AttendeeImageData>;
+  getStatistics(userId: string): Promise<AttendeeStatistics>;
+  // Replaces the selfie on all of the user's records; resolves with how many
+  // were updated. Guests pass the token of the liveness check the selfie passed.
+  updateSelfie(userId: string, selfieURL: string, livenessToken?: string): Promise<number>;
+  // The selfie kept for users who have not joined any event yet
+  getDefaultSelfie(userId: string): Promise<string | null>;
+  setDefaultSelfie(userId: string, selfieURL: string): Promise<void>;
+}
+
+export interface EventInvitation {
+  email: string;
+  role: EventMember['role'];
+}
+
+export interface EventMemberRepository {
+  get(eventId: string, email: string): Promise<EventMember | null>;
+  // Members and open invitations of an event; its owner is not among them
+  listByEvent(eventId: string): Promise<EventMember[]>;
+  // Every event the user is a member of or invited to
+  listByUser(email: string): Promise<EventMember[]>;
+  // Invites someone, or changes the role of a member or open invitation
+  invite(eventId: string, invitation: EventInvitation, invitedBy: string): Promise<EventMember>;
+  // Changes the role of a member or open invitation; rejects when there is neither
+  setRole(eventId: string, email: string, role: EventMember['role']): Promise<EventMember>;
+  // Makes an invited user a member; rejects when there is no invitation
+  accept(eventId: string, email: string): Promise<EventMember>;
+  // Removes a member, or withdraws or declines an invitation
+  remove(eventId: string, email: string): Promise<void>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  events: EventRepository;
+  attendeeImages: AttendeeImageRepository;
+  eventMembers: EventMemberRepository;
+}
+
+// Follows nextCursor until every page is read, for callers that need a full list
+export const readAllPages = async <T>(readPage: (cursor: string | null) => Promise<Page<T>>): Promise<T[]> => {
+  const items: T[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: Page<T> = await readPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+};
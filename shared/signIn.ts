@@ -0,0 +1,27 @@
+import type { SignInMethod } from './types';
+
+// Digits in the codes texted to users who sign in with their phone
+export const SIGN_IN_CODE_LENGTH = 6;
+
+/**
+ * Reads an email address as typed to send a sign-in link to
+ * @returns The address in lower case, or null when it is not an email address
+ */
+export const normalizeSignInEmail = (value: string): string | null => {
+  const trimmed = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Reads a phone number as typed, e.g. "+1 (555) 010-0199". It must start with
+ * the country code, since sign-in codes go to guests from anywhere.
+ * @returns The number in E.164 ("+15550100199"), or null when it is not one
+ */
+export const normalizePhoneNumber = (value: string): string | null => {
+  const phone = value.trim().replace(/[\s().-]/g, '');
+  return /^\+[1-9]\d{7,14}$/.test(phone) ? phone : null;
+};
+
+// The address a sign-in link or code is sent to, normalized for the method
+export const normalizeSignInAddress = (method: Exclude<SignInMethod, 'google'>, value: string) =>
+  method === 'email' ? normalizeSignInEmail(value) : normalizePhoneNumber(value);
@@ -0,0 +1,339 @@
+// Types shared between the browser app (src/) and the API server (server/).
+// Anything that crosses the HTTP boundary should be declared here so both
+// sides agree on the shape of requests and responses.
+
+// draft: being set up, hidden from guests
+// live: guests can upload selfies and find their photos
+// closed: no new selfies; galleries and earlier matches stay viewable
+// archived: closed, with the media moved to cheaper storage
+export type EventStatus = 'draft' | 'live' | 'closed' | 'archived';
+
+// Where an object is kept: archived events' media goes to the cheaper
+// archive tier, which is still readable straight away
+export type StorageTier = 'standard' | 'archive';
+
+// Who can get into an event (see shared/eventAccess):
+// public: anyone with the link, who can also browse every photo
+// code: anyone with the event code; guests only see the photos they are in
+// password: as code, once the guest entered the event password
+// invite: as code, for guests whose email or phone number is on the allow-list
+export type EventAccessMode = 'public' | 'code' | 'password' | 'invite';
+
+export interface EventAccessPolicy {
+  mode: EventAccessMode;
+  // Emails and phone numbers invite mode lets in; only sent to the organizer
+  allowList?: string[];
+  // Whether the event has a password; the password itself stays on the server
+  hasPassword?: boolean;
+}
+
+// What a person may do with an event (see shared/eventRoles):
+// owner: the organizer who created it; everything
+// co-organizer: everything except deleting or restoring the event
+// photographer: uploads photos and videos, and sees the whole gallery
+// viewer: sees the whole gallery
+export type EventRole = 'owner' | 'co-organizer' | 'photographer' | 'viewer';
+
+// Record in the Event-members table: someone invited to help with an event.
+// The owner has no record; they are the event's organizerId.
+export interface EventMember {
+  eventId: string;
+  email: string;  // Lowercase; the member signs in with it
+  role: Exclude<EventRole, 'owner'>;
+  // invited until they accept after signing in
+  status: 'invited' | 'active';
+  invitedBy: string;
+  invitedAt: string;
+  acceptedAt?: string;
+}
+
+// Interface for event data
+export interface EventData {
+  id: string;         // Used in application code
+  eventId?: string;   // Used by DynamoDB as primary key
+  name: string;
+  date: string;
+  description?: string;
+  // Counters kept up to date by the API server; clients cannot set them
+  photoCount: number;
+  videoCount: number;
+  guestCount: number;
+  matchCount?: number;  // Matched photos over all guests; missing on older events
+  userEmail: string;
+  organizerId?: string; // The user who created the event (mapped from userEmail)
+  userId?: string;      // The user ID of the creator
+  createdAt: string;
+  updatedAt: string;
+  coverImage?: string;
+  eventUrl?: string;    // URL for uploading selfies and getting matching images
+  status?: EventStatus; // Missing on events created before statuses, which are live
+  statusChangedAt?: string;
+  access?: EventAccessPolicy; // Missing on events created before policies, which need the code
+  matchThresholds?: MatchThresholds; // Missing on events using the defaults (see shared/matchThresholds)
+  // Set by deleting the event, which can be undone until purgeAfter. Purging
+  // then removes its media and records, leaving this record with the report.
+  deletedAt?: string | null;
+  purgeAfter?: string | null;
+  purgeStartedAt?: string;
+  purgedAt?: string;
+  deletionReport?: EventDeletionReport;
+}
+
+// What purging a deleted event removed
+export interface EventDeletionReport {
+  objectsDeleted: number;
+  bytesDeleted: number;
+  faceRecordsDeleted: number;
+  // False when the event had no face collection
+  faceCollectionDeleted: boolean;
+  attendeeRecordsDeleted: number;
+  memberRecordsDeleted?: number; // Missing on events purged before roles
+  // Whether the event was taken off the organizer's createdEvents
+  organizerUpdated: boolean;
+}
+
+export interface EventStatistics {
+  eventCount: number;
+  photoCount: number;
+  videoCount: number;
+  guestCount: number;
+  matchCount: number;
+}
+
+// Similarities (0-100) a face in a photo must reach to match a guest's
+// selfie: from `confident` up the photo is theirs, from `possible` up they are
+// asked whether it is them
+export interface MatchThresholds {
+  confident: number;
+  possible: number;
+}
+
+export type MatchTier = 'confident' | 'possible';
+
+// What a guest says about a possible match
+export type MatchReview = 'confirmed' | 'rejected';
+
+export interface ScoredImage {
+  url: string;
+  similarity: number;
+}
+
+// Interface for attendee image data
+export interface AttendeeImageData {
+  userId: string;
+  eventId: string;
+  selfieURL: string;
+  // The guest's photos: confident matches and possible ones they confirmed
+  matchedImages: string[];
+  // Similarity of each matched image; missing on records saved before scores were kept
+  matchScores?: ScoredImage[];
+  // Waiting for the guest to confirm or reject
+  possibleMatches?: ScoredImage[];
+  // Images the guest said are them; their face in these helps find more photos
+  confirmedImages?: string[];
+  // Images the guest said are not them; never suggested or matched again
+  rejectedImages?: string[];
+  uploadedAt: string;
+  lastUpdated: string;
+}
+
+export interface AttendeeStatistics {
+  totalEvents: number;
+  totalImages: number;
+  firstEventDate: string | null;
+  latestEventDate: string | null;
+}
+
+// How a user proved who they are: Sign in with Google, a link emailed to
+// them, or a code sent to their phone by text message
+export type SignInMethod = 'google' | 'email' | 'phone';
+
+// What the browser sends the API server to sign in with each method
+export type SignInProof =
+  | { method: 'google'; credential: string }
+  | { method: 'email'; email: string; token: string }
+  | { method: 'phone'; phone: string; code: string };
+
+// The signed-in user, as the API server verified them
+export interface SessionUser {
+  // Their user id: their email address, or for users who signed in by text
+  // message their phone number in E.164 (e.g. "+15550100199")
+  email: string;
+  name: string;
+  picture?: string;
+  method: SignInMethod;
+}
+
+// Record stored in the Users table
+export interface UserCredentials {
+  userId: string;
+  // Empty for users who signed in by text message, whose userId is their phone number
+  email: string;
+  name: string;
+  mobile: string;
+  role?: string | null;
+  createdEvents?: string[] | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A single object stored under an event's S3 prefix
+export interface MediaItem {
+  key: string;
+  url: string;
+  name: string;
+  lastModified?: string;
+  size?: number;
+}
+
+// Result of uploading a file through the API
+export interface UploadResult {
+  key: string;
+  url: string;
+}
+
+export type EventUploadKind = 'images' | 'videos' | 'cover';
+
+export interface UploadRequest {
+  kind: EventUploadKind;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+// A short-lived presigned PUT the browser uses to send a file straight to S3.
+// `headers` must be sent with the PUT exactly as given.
+export interface PresignedUpload extends UploadResult {
+  uploadUrl: string;
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface FaceMatch {
+  key: string;
+  url: string;
+  similarity: number;
+  tier: MatchTier;
+}
+
+export interface FaceMatchResult {
+  matches: FaceMatch[];
+  processedCount: number;
+}
+
+export type SelfieIssueCode =
+  | 'NO_FACE'
+  | 'MULTIPLE_FACES'
+  | 'FACE_TOO_SMALL'
+  | 'TOO_BLURRY'
+  | 'TOO_DARK'
+  | 'TOO_BRIGHT'
+  | 'FACE_TURNED'
+  | 'EYES_CLOSED';
+
+export interface SelfieIssue {
+  code: SelfieIssueCode;
+  // What the guest should do about it, e.g. "Move closer to the camera"
+  message: string;
+}
+
+// Whether a selfie is good enough to match with; selfies that are not passed
+// are refused by the match job
+export interface SelfieCheck {
+  passed: boolean;
+  faceCount: number;
+  issues: SelfieIssue[];
+}
+
+// What a guest is asked to do in front of the camera to show they are there
+export type LivenessStep = 'turn-left' | 'turn-right' | 'look-up' | 'look-down' | 'blink';
+
+// A random sequence of steps. `id` is signed by the server and brought back
+// with one camera frame per step, plus the selfie looking straight ahead.
+export interface LivenessChallenge {
+  id: string;
+  steps: LivenessStep[];
+  expiresAt: string;
+}
+
+export interface BoundingBox {
+  Left: number;
+  Top: number;
+  Width: number;
+  Height: number;
+}
+
+export interface FaceRecord {
+  faceId: string;
+  boundingBox?: BoundingBox;
+  image: { key: string; url: string };
+}
+
+export interface FaceGroup {
+  groupId: string;
+  faces: FaceRecord[];
+}
+
+// A signed link to a ZIP of event media; `path` is relative to the API base URL
+export interface ArchiveLink {
+  path: string;
+  fileName: string;
+  size: number;
+  fileCount: number;
+  expiresAt: string;
+}
+
+// Background jobs run by the API server's job queue
+export type JobType = 'index-event-images' | 'match-selfie' | 'rematch-event' | 'sync-event-storage' | 'purge-event';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobPayloads {
+  'index-event-images': { eventId: string };
+  // userId is set when the guest is signed in; matches are then saved to Attendee-imgs
+  'match-selfie': { eventId: string; selfieKey: string; userId?: string };
+  // Checks the event's existing attendees against newly uploaded images only
+  'rematch-event': { eventId: string; imageKeys: string[] };
+  // Moves the event's media to the storage tier its status calls for
+  'sync-event-storage': { eventId: string };
+  // Permanently removes a deleted event once its grace period is over
+  'purge-event': { eventId: string };
+}
+
+export interface JobResults {
+  'index-event-images': { imageCount: number; faceCount: number };
+  'match-selfie': FaceMatchResult;
+  'rematch-event': { attendeeCount: number; updatedCount: number; newMatchCount: number };
+  'sync-event-storage': { tier: StorageTier; objectCount: number; movedCount: number };
+  // report is left out when the event was restored or purged already
+  'purge-event': { purged: boolean; report?: EventDeletionReport };
+}
+
+export interface JobProgress {
+  processed: number;
+  total: number;
+}
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  // The user's email or guest id that queued it, who alone may read it; unset
+  // for jobs the server queues itself
+  requestedBy?: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  progress?: JobProgress;
+  result?: JobResults[T];
+  error?: string;
+  // Earliest time a queued job may run; set when a failed attempt is retried
+  runAfter?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Error body returned by the API for any non-2xx response
+export interface ApiErrorBody {
+  error: string;
+  code?: string;
+}
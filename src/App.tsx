@@ -18,19 +18,25 @@ import AttendeeDashboard from './components/AttendeeDashboard';
 import EventPhotos from './components/EventPhotos';
 import MyPhotos from './components/MyPhotos';
 import { GoogleAuthConfig } from './config/GoogleAuthConfig';
-import { queryUserByEmail, storeUserCredentials } from './config/dynamodb';
-import { migrateLocalStorageToDb } from './config/eventStorage';
+import { repositories } from './repositories';
+import { migrateLocalEvents } from './services/localEvents';
+import { cacheUser, fetchSession, readCachedUser } from './services/session';
+import { SESSION_EXPIRED_EVENT } from './services/api';
+import type { SessionUser } from '../shared/types';
 
-// Create a user context to manage authentication state
+// Create a user context to manage authentication state. user is whoever the
+// API server has a session for; userEmail is their email, kept for convenience.
 export const UserContext = createContext<{
+  user: SessionUser | null;
   userEmail: string | null;
   userRole: string | null;
-  setUserEmail: (email: string | null) => void;
+  setUser: (user: SessionUser | null) => void;
   setUserRole: (role: string | null) => void;
 }>({
+  user: null,
   userEmail: null,
   userRole: null,
-  setUserEmail: () => {},
+  setUser: () => {},
   setUserRole: () => {}
 });
 
@@ -38,14 +44,37 @@ const App = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false);
   const [showNavbar, setShowNavbar] = React.useState(true);
   const [showSignInModal, setShowSignInModal] = React.useState(false);
-  const [userEmail, setUserEmail] = useState<string | null>(localStorage.getItem('userEmail'));
+  const [user, setUser] = useState<SessionUser | null>(readCachedUser);
   const [userRole, setUserRole] = useState<string | null>(null);
+  const userEmail = user?.email ?? null;
+
+  // The cached user is only a guess until the API server confirms the session
+  useEffect(() => {
+    fetchSession()
+      .then(setUser)
+      .catch(error => console.error('Error checking session:', error));
+  }, []);
+
+  useEffect(() => {
+    cacheUser(user);
+  }, [user]);
+
+  // Sessions run out after a while; ask the user to sign in again
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null);
+      setUserRole(null);
+      setShowSignInModal(true);
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
 
   // Ensure user exists in DynamoDB
   const ensureUserInDb = async (email: string) => {
     try {
       // Check if user exists
-      const user = await queryUserByEmail(email);
+      const user = await repositories.users.findByEmail(email);
       
       // If user doesn't exist, create default record
       if (!user) {
@@ -72,7 +101,7 @@ const App = () => {
         const role = pendingAction === 'createEvent' ? 'organizer' : 'attendee';
         
         // Create user with appropriate role
-        await storeUserCredentials({
+        await repositories.users.save({
           userId: email,
           email,
           name,
@@ -96,7 +125,7 @@ const App = () => {
       if (userEmail) {
         try {
           // Migrate any existing localStorage data to DynamoDB
-          await migrateLocalStorageToDb(userEmail);
+          await migrateLocalEvents(userEmail);
           
           // Ensure user exists in DynamoDB and get role
           const role = await ensureUserInDb(userEmail);
@@ -113,7 +142,7 @@ const App = () => {
   }, [userEmail]);
 
   return (
-    <UserContext.Provider value={{ userEmail, userRole, setUserEmail, setUserRole }}>
+    <UserContext.Provider value={{ user, userEmail, userRole, setUser, setUserRole }}>
       <GoogleAuthConfig>
         <Router>
           <div className="min-h-screen bg-white">
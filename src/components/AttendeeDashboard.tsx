@@ -1,13 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Camera, Calendar, Image as ImageIcon, ArrowRight, X, Search, Download } from 'lucide-react';
-import { ListObjectsV2Command } from '@aws-sdk/client-s3';
-import { Upload } from '@aws-sdk/lib-storage';
-import { S3_BUCKET_NAME, s3Client, rekognitionClient } from '../config/aws';
-import { CompareFacesCommand } from '@aws-sdk/client-rekognition';
-import { getEventById } from '../config/eventStorage';
-import { storeAttendeeImageData } from '../config/attendeeStorage';
-import { compareFaces } from '../services/faceRecognition';
+import { createAttendeeArchiveLink, downloadArchive } from '../services/archives';
+import { runSelfieMatch } from '../services/jobs';
+import { checkSelfie } from '../services/faceRecognition';
+import type { SelfieCheck } from '../services/faceRecognition';
+import { BROWSER_ZIP_MAX_FILES, downloadFile, downloadFilesAsZip } from '../services/downloads';
+import { uploadUserSelfie } from '../services/media';
+import { describeEventAccessDenial, getEventAccessDenial, unlockEvent } from '../services/eventAccess';
+import { getAttendeeId, startGuestSession } from '../services/session';
+import { repositories } from '../repositories';
+import SelfieFeedback from './SelfieFeedback';
+import PossibleMatches from './PossibleMatches';
+import type { PossibleMatch } from './PossibleMatches';
+import MatchFeedbackButtons from './MatchFeedbackButtons';
+import LiveSelfieCamera from './LiveSelfieCamera';
+import type { LiveSelfie } from './LiveSelfieCamera';
+import { getEventStatus } from '../../shared/eventStatus';
+import type { AttendeeImageData, EventStatus, MatchReview, ScoredImage } from '../../shared/types';
 
 interface Event {
   eventId: string;
@@ -23,6 +33,8 @@ interface MatchingImage {
   eventName: string;
   imageUrl: string;
   matchedDate: string;
+  // The attendee said this is them
+  confirmed?: boolean;
 }
 
 interface Statistics {
@@ -32,6 +44,25 @@ interface Statistics {
   latestEventDate: string | null;
 }
 
+// Shown for events that no longer take selfies; earlier matches stay viewable
+const NOT_ACCEPTING_SELFIES: Partial<Record<EventStatus, string>> = {
+  closed: 'This event is closed and no longer accepts selfies.',
+  archived: 'This event has been archived and no longer accepts selfies.'
+};
+
+// Possible matches of an event, for the attendee to review
+const toPossibleMatches = (eventId: string, eventName: string, images: ScoredImage[] = []): PossibleMatch[] =>
+  images.map(image => ({ eventId, eventName, imageUrl: image.url, similarity: image.similarity }));
+
+// Signed URLs of the same photo differ in their query string
+const confirmedUrlsOf = (data: Pick<AttendeeImageData, 'confirmedImages'>) =>
+  new Set((data.confirmedImages || []).map(withoutQuery));
+
+const possiblePhotosMessage = (count: number) =>
+  count === 0 ? '' : ` ${count} more might be you; please check them.`;
+
+const withoutQuery = (url: string) => url.split('?')[0];
+
 // Add interface for props
 interface AttendeeDashboardProps {
   setShowSignInModal: (show: boolean) => void;
@@ -45,6 +76,9 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
   const [attendedEvents, setAttendedEvents] = useState<Event[]>([]);
   const [matchingImages, setMatchingImages] = useState<MatchingImage[]>([]);
   const [filteredImages, setFilteredImages] = useState<MatchingImage[]>([]);
+  // Photos that might show the attendee, waiting for them to say whether they do
+  const [possibleMatches, setPossibleMatches] = useState<PossibleMatch[]>([]);
+  const [reviewingUrl, setReviewingUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [statistics, setStatistics] = useState<Statistics>({
     totalEvents: 0,
@@ -53,21 +87,29 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     latestEventDate: null
   });
   const [selectedEventFilter, setSelectedEventFilter] = useState<string>('all');
+  // Percentage of the ZIP received while a Download All is in progress
+  const [archiveProgress, setArchiveProgress] = useState<number | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Not signed in; any photos found are kept for this browser only until the guest signs in
+  const [isGuest, setIsGuest] = useState(!localStorage.getItem('userEmail'));
   
   // New state variables for event code entry and selfie upload
   const [eventCode, setEventCode] = useState('');
   const [eventDetails, setEventDetails] = useState<{ id: string; name: string; date: string } | null>(null);
   const [selfie, setSelfie] = useState<File | null>(null);
   const [selfiePreview, setSelfiePreview] = useState<string | null>(null);
+  // The last check of a captured selfie, shown until it passes
+  const [selfieCheck, setSelfieCheck] = useState<SelfieCheck | null>(null);
+  // The selfie taken live in this visit; guests can only match with it
+  const [liveSelfie, setLiveSelfie] = useState<LiveSelfie | null>(null);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Code of a password protected event the guest is entering the password for
+  const [passwordEventCode, setPasswordEventCode] = useState<string | null>(null);
+  const [eventPassword, setEventPassword] = useState('');
   
   // New state variables for camera functionality
-  const [isCameraActive, setIsCameraActive] = useState(false);
-  const [videoRef, setVideoRef] = useState<HTMLVideoElement | null>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
   const [showCameraModal, setShowCameraModal] = useState(false);
 
   // Add new useEffect to handle URL parameters
@@ -85,24 +127,21 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
           setSuccessMessage(null);
           setProcessingStatus('Looking up event...');
           
-          // Get user email if available
-          const userEmail = localStorage.getItem('userEmail');
-          
           // Try to get event by ID first
-          let event = await getEventById(eventIdFromUrl);
+          let event = await repositories.events.get(eventIdFromUrl);
           
           if (!event) {
             // Try with leading zeros if needed (for 6-digit codes)
             if (eventIdFromUrl.length < 6) {
               const paddedCode = eventIdFromUrl.padStart(6, '0');
-              event = await getEventById(paddedCode);
+              event = await repositories.events.get(paddedCode);
             }
             
             // If it's exactly 6 digits, try without leading zeros
             if (eventIdFromUrl.length === 6 && eventIdFromUrl.startsWith('0')) {
               const unPaddedCode = eventIdFromUrl.replace(/^0+/, '');
               if (unPaddedCode) {
-                event = await getEventById(unPaddedCode);
+                event = await repositories.events.get(unPaddedCode);
               }
             }
           }
@@ -111,21 +150,9 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
             throw new Error(`Event with code "${eventIdFromUrl}" not found. Please check the code and try again.`);
           }
           
-          // If user is not signed in, show event details and prompt to sign in
-          if (!userEmail) {
-            setEventDetails({
-              id: event.id,
-              name: event.name,
-              date: event.date
-            });
-            setProcessingStatus(null);
-            setError('Please sign in to access your photos from this event.');
-            return;
-          }
-          
-          // Check if user already has images for this event
-          const { getAttendeeImagesByUserAndEvent } = await import('../config/attendeeStorage');
-          const existingData = await getAttendeeImagesByUserAndEvent(userEmail, event.id);
+          // Check if the user, or this browser as a guest, already has images for this event
+          const attendeeId = await getAttendeeId();
+          const existingData = attendeeId ? await repositories.attendeeImages.get(attendeeId, event.id) : null;
           
           if (existingData) {
             // Handle existing data case
@@ -140,7 +167,11 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
           }
         } catch (error: any) {
           console.error('Error finding event:', error);
-          setError(error.message || 'Failed to find event. Please try again.');
+          const denial = getEventAccessDenial(error);
+          setError(denial ? describeEventAccessDenial(denial) : error.message || 'Failed to find event. Please try again.');
+          if (denial === 'EVENT_PASSWORD_REQUIRED') {
+            setPasswordEventCode(eventIdFromUrl);
+          }
         } finally {
           setProcessingStatus(null);
         }
@@ -150,6 +181,92 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     }
   }, [location.search]); // We don't need handleEventCodeSubmit in dependencies
 
+  // Explains why an event's access policy turned the guest away, and asks for
+  // the password or a sign-in where that lets them in. False for other errors.
+  const handleAccessDenial = (error: unknown, code: string) => {
+    const denial = getEventAccessDenial(error);
+    if (!denial) return false;
+
+    setError(describeEventAccessDenial(denial));
+    if (denial === 'EVENT_PASSWORD_REQUIRED') {
+      setPasswordEventCode(code);
+    } else if (denial === 'UNAUTHENTICATED') {
+      localStorage.setItem('pendingAction', 'getPhotos');
+      setShowSignInModal(true);
+    }
+    return true;
+  };
+
+  const handleEventPasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordEventCode) return;
+    try {
+      setError(null);
+      setProcessingStatus('Checking password...');
+      await unlockEvent(passwordEventCode, eventPassword);
+      setPasswordEventCode(null);
+      setEventPassword('');
+      // Look the event up again, now that this browser is let in
+      await handleEventCodeSubmit(e);
+    } catch (error) {
+      console.error('Error unlocking event:', error);
+      setError(error instanceof Error ? error.message : 'Failed to check the password. Please try again.');
+      setProcessingStatus(null);
+    }
+  };
+
+  // Adds possible matches to review, each photo once
+  const addPossibleMatches = (added: PossibleMatch[]) => {
+    setPossibleMatches(prev => {
+      const known = new Set(prev.map(match => withoutQuery(match.imageUrl)));
+      return [...prev, ...added.filter(match => !known.has(withoutQuery(match.imageUrl)))];
+    });
+  };
+
+  // Saves whether the attendee is in a matched or possible photo; resolves
+  // with false when that failed
+  const saveReview = async (eventId: string, imageUrl: string, review: MatchReview) => {
+    setReviewingUrl(imageUrl);
+    setError(null);
+    try {
+      const attendeeId = await getAttendeeId();
+      if (!attendeeId) throw new Error('Please find your photos again to review them.');
+      await repositories.attendeeImages.reviewMatch(attendeeId, eventId, imageUrl, review);
+      return true;
+    } catch (error) {
+      console.error('Error reviewing match:', error);
+      setError(error instanceof Error ? error.message : 'Could not save your answer. Please try again.');
+      return false;
+    } finally {
+      setReviewingUrl(null);
+    }
+  };
+
+  // The attendee says whether they are in a possible match
+  const handleReviewMatch = async (match: PossibleMatch, review: MatchReview) => {
+    if (!await saveReview(match.eventId, match.imageUrl, review)) return;
+    setPossibleMatches(prev => prev.filter(possible => possible.imageUrl !== match.imageUrl));
+    if (review === 'confirmed') {
+      setMatchingImages(prev => [{
+        imageId: match.imageUrl.split('/').pop() || '',
+        eventId: match.eventId,
+        eventName: match.eventName,
+        imageUrl: match.imageUrl,
+        matchedDate: new Date().toISOString(),
+        confirmed: true
+      }, ...prev]);
+    }
+  };
+
+  // "This is me" or "Not me" on one of the attendee's photos
+  const handleReviewPhoto = async (image: MatchingImage, review: MatchReview) => {
+    if (!await saveReview(image.eventId, image.imageUrl, review)) return;
+    setMatchingImages(prev => review === 'rejected'
+      ? prev.filter(other => other.imageUrl !== image.imageUrl)
+      : prev.map(other => other.imageUrl === image.imageUrl ? { ...other, confirmed: true } : other)
+    );
+  };
+
   // Add the handleExistingEventData helper function
   const handleExistingEventData = (existingData: any, event: any) => {
     setProcessingStatus('Found your previous photos for this event!');
@@ -168,12 +285,14 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     }
     
     // Add the matched images to the list if not already there
+    const confirmed = confirmedUrlsOf(existingData);
     const newImages: MatchingImage[] = existingData.matchedImages.map((url: string) => ({
       imageId: url.split('/').pop() || '',
       eventId: event.id,
       eventName: event.name,
       imageUrl: url,
-      matchedDate: existingData.uploadedAt
+      matchedDate: existingData.uploadedAt,
+      confirmed: confirmed.has(withoutQuery(url))
     }));
     
     // Check if these images are already in the state
@@ -183,6 +302,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     if (uniqueNewImages.length > 0) {
       setMatchingImages(prev => [...uniqueNewImages, ...prev]);
     }
+    addPossibleMatches(toPossibleMatches(event.id, event.name, existingData.possibleMatches));
     
     // Set filter to show only this event's images
     setSelectedEventFilter(event.id);
@@ -208,34 +328,34 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
   useEffect(() => {
     const fetchUserData = async () => {
       try {
-        const userEmail = localStorage.getItem('userEmail');
         setLoading(true);
+        const attendeeId = await getAttendeeId();
+        setIsGuest(!localStorage.getItem('userEmail'));
 
-        // Dynamically import required modules
-        const { getAllAttendeeImagesByUser, getAttendeeStatistics, getUserDefaultSelfie } = await import('../config/attendeeStorage');
-        const { getEventById } = await import('../config/eventStorage');
-            
-        // If user is signed in, fetch their data
-        if (userEmail) {
+        // If user is signed in, or found photos as a guest on this browser, fetch their data
+        if (attendeeId) {
           // Fetch attendee image data from the database
-          const attendeeImageData = await getAllAttendeeImagesByUser(userEmail);
+          const attendeeImageData = await repositories.attendeeImages.listByUser(attendeeId);
           
           // Get statistics
-          const userStats = await getAttendeeStatistics(userEmail);
+          const userStats = await repositories.attendeeImages.getStatistics(attendeeId);
           setStatistics(userStats);
           
           if (attendeeImageData.length > 0) {
             // Extract events from the attendee image data
             const eventsList: Event[] = [];
             const imagesList: MatchingImage[] = [];
+            const possibleList: PossibleMatch[] = [];
             
             // Process each attendee-event entry sequentially to get event details
             for (const data of attendeeImageData) {
               // Skip the 'default' event entry which is just for storing the default selfie
               if (data.eventId === 'default') continue;
               
-              // Get event details from the events database
-              const eventDetails = await getEventById(data.eventId);
+              // Get event details from the events database. Earlier matches stay
+              // listed when the event's access policy no longer lets the guest in.
+              const eventDetails = await repositories.events.get(data.eventId)
+                .catch(error => getEventAccessDenial(error) ? null : Promise.reject(error));
               
               // Default event name and date if details not found
               const eventName = eventDetails?.name || `Event ${data.eventId}`;
@@ -254,20 +374,24 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
               }
               
               // Add all matched images to the images list
+              const confirmed = confirmedUrlsOf(data);
               data.matchedImages.forEach(imageUrl => {
                 imagesList.push({
                   imageId: imageUrl.split('/').pop() || '',
                   eventId: data.eventId,
                   eventName: eventName,
                   imageUrl: imageUrl,
-                  matchedDate: data.uploadedAt
+                  matchedDate: data.uploadedAt,
+                  confirmed: confirmed.has(withoutQuery(imageUrl))
                 });
               });
+              possibleList.push(...toPossibleMatches(data.eventId, eventName, data.possibleMatches));
             }
             
             // Update state
             setAttendedEvents(eventsList);
             setMatchingImages(imagesList);
+            setPossibleMatches(possibleList);
             setFilteredImages(imagesList); // Initially show all images
             
             // Set selfie URL to the most recent selfie
@@ -288,13 +412,13 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
             }
           } else {
             // Check for default selfie
-            const defaultSelfie = await getUserDefaultSelfie(userEmail);
+            const defaultSelfie = await repositories.attendeeImages.getDefaultSelfie(attendeeId);
             if (defaultSelfie) {
               setSelfieUrl(defaultSelfie);
             }
           }
         } else {
-          // User is not signed in, show empty state with event code entry
+          // Neither signed in nor a returning guest, show empty state with event code entry
           setAttendedEvents([]);
           setMatchingImages([]);
           setFilteredImages([]);
@@ -344,6 +468,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     setError(null);
     setEventDetails(null);
     setSuccessMessage(null);
+    setPasswordEventCode(null);
     
     if (!eventCode.trim()) {
       setError('Please enter an event code');
@@ -354,11 +479,8 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
       setProcessingStatus('Looking up event...');
       console.log('Looking up event with code:', eventCode);
       
-      // Get user email if available
-      const userEmail = localStorage.getItem('userEmail');
-      
       // Try to get event by ID first
-      let event = await getEventById(eventCode);
+      let event = await repositories.events.get(eventCode);
       console.log('Event lookup result:', event);
       
       // If not found, try some alternative approaches
@@ -369,7 +491,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
         if (eventCode.length < 6) {
           const paddedCode = eventCode.padStart(6, '0');
           console.log('Trying with padded code:', paddedCode);
-          event = await getEventById(paddedCode);
+          event = await repositories.events.get(paddedCode);
         }
         
         // If it's exactly 6 digits, try without leading zeros
@@ -377,7 +499,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
           const unPaddedCode = eventCode.replace(/^0+/, '');
           if (unPaddedCode) {
             console.log('Trying without leading zeros:', unPaddedCode);
-            event = await getEventById(unPaddedCode);
+            event = await repositories.events.get(unPaddedCode);
           }
         }
       }
@@ -387,26 +509,16 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
       }
       
       console.log('Event found:', event);
-      
-      // If user is not signed in, show event details and prompt to sign in
-      if (!userEmail) {
-        setEventDetails({
-          id: event.id,
-          name: event.name,
-          date: event.date
-        });
-        setProcessingStatus(null);
-        setError('Please sign in to access your photos from this event.');
-        // Store pendingAction for after sign in
-        localStorage.setItem('pendingAction', 'getPhotos');
-        // Show sign in modal
-        setShowSignInModal(true);
-        return;
+
+      const status = getEventStatus(event);
+      if (status === 'draft') {
+        throw new Error(`"${event.name}" is not open yet. Please check back once the organizer publishes it.`);
       }
+      const closedMessage = NOT_ACCEPTING_SELFIES[status];
       
-      // Check if user already has images for this event
-      const { getAttendeeImagesByUserAndEvent, getUserDefaultSelfie } = await import('../config/attendeeStorage');
-      const existingData = await getAttendeeImagesByUserAndEvent(userEmail, event.id);
+      // Check if the user, or this browser as a guest, already has images for this event
+      const attendeeId = await getAttendeeId();
+      const existingData = attendeeId ? await repositories.attendeeImages.get(attendeeId, event.id) : null;
       
       if (existingData) {
         console.log('User already has images for this event:', existingData);
@@ -427,12 +539,14 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
         }
         
         // Add the matched images to the list if not already there
+        const confirmed = confirmedUrlsOf(existingData);
         const newImages: MatchingImage[] = existingData.matchedImages.map(url => ({
           imageId: url.split('/').pop() || '',
           eventId: event.id,
           eventName: event.name,
           imageUrl: url,
-          matchedDate: existingData.uploadedAt
+          matchedDate: existingData.uploadedAt,
+          confirmed: confirmed.has(withoutQuery(url))
         }));
         
         // Check if these images are already in the state
@@ -442,6 +556,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
         if (uniqueNewImages.length > 0) {
           setMatchingImages(prev => [...uniqueNewImages, ...prev]);
         }
+        addPossibleMatches(toPossibleMatches(event.id, event.name, existingData.possibleMatches));
         
         // Set filter to show only this event's images
         setSelectedEventFilter(event.id);
@@ -450,21 +565,26 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
         setEventCode('');
         
         // Set success message
-        setSuccessMessage(`Found ${existingData.matchedImages.length} photos from ${event.name}!`);
+        setSuccessMessage(`Found ${existingData.matchedImages.length} photos from ${event.name}!${closedMessage ? ` ${closedMessage}` : ''}`);
         
         // Hide processing status after a delay
         setTimeout(() => setProcessingStatus(null), 1000);
+      } else if (closedMessage) {
+        // Nothing found earlier and no new selfies are taken
+        setProcessingStatus(null);
+        setError(closedMessage);
       } else {
-        // Check if user has a default selfie or any existing selfie
-        const defaultSelfie = await getUserDefaultSelfie(userEmail);
-        const existingSelfie = selfieUrl || defaultSelfie;
+        // Check if user has a default selfie or any existing selfie. Guests
+        // can only match with a selfie taken live in this visit.
+        const defaultSelfie = attendeeId && !isGuest ? await repositories.attendeeImages.getDefaultSelfie(attendeeId) : null;
+        const existingSelfie = isGuest ? liveSelfie?.upload.url : selfieUrl || defaultSelfie;
         
         if (existingSelfie) {
           // User has an existing selfie, use it for comparison automatically
           setProcessingStatus('Using your existing selfie to find photos...');
           
           // Start the face comparison process using the existing selfie
-          await performFaceComparisonWithExistingSelfie(userEmail, existingSelfie, event);
+          await performFaceComparisonWithExistingSelfie(existingSelfie, event);
           
           // Clear event code
           setEventCode('');
@@ -480,107 +600,43 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
       }
     } catch (error: any) {
       console.error('Error finding event:', error);
-      setError(error.message || 'Failed to find event. Please try again.');
+      if (!handleAccessDenial(error, eventCode)) {
+        setError(error.message || 'Failed to find event. Please try again.');
+      }
       setProcessingStatus(null);
     }
   };
 
   // New function to perform face comparison with existing selfie
-  const performFaceComparisonWithExistingSelfie = async (userEmail: string, existingSelfieUrl: string, event: any) => {
+  const performFaceComparisonWithExistingSelfie = async (existingSelfieUrl: string, event: any) => {
     try {
       setIsUploading(true);
       setProcessingStatus('Comparing with event images...');
       
-      // Extract the S3 key from the selfie URL
-      const s3BucketUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/`;
-      let selfiePath = '';
-      
-      if (existingSelfieUrl.startsWith(s3BucketUrl)) {
-        selfiePath = existingSelfieUrl.substring(s3BucketUrl.length);
-      } else {
-        throw new Error('Could not determine S3 path for the existing selfie');
-      }
-      
-      // Get the list of images in the event
-      const imagesPath = `events/shared/${event.id}/images/`;
-      const listCommand = new ListObjectsV2Command({
-        Bucket: S3_BUCKET_NAME,
-        Prefix: imagesPath,
-        MaxKeys: 1000
-      });
-      
-      const listResponse = await s3Client.send(listCommand);
+      // Compare the existing selfie against the event's images in a server job,
+      // which also saves the matches to the user's attendee record
+      const { matches, processedCount } = await runSelfieMatch(
+        event.id,
+        {
+          selfieUrl: existingSelfieUrl,
+          livenessToken: liveSelfie?.upload.url === existingSelfieUrl ? liveSelfie.livenessToken : undefined
+        },
+        ({ processed, total }) => setProcessingStatus(`Comparing with event images... (${processed}/${total})`)
+      );
       
-      if (!listResponse.Contents || listResponse.Contents.length === 0) {
+      if (processedCount === 0) {
         throw new Error('No images found in this event.');
       }
       
-      const imageKeys = listResponse.Contents
-        .filter(item => item.Key && /\.(jpg|jpeg|png)$/i.test(item.Key!))
-        .map(item => item.Key!);
-      
-      if (imageKeys.length === 0) {
-        throw new Error('No valid images found in this event.');
-      }
-      
-      // Compare faces in batches
-      const batchSize = 10;
-      const results: { url: string; similarity: number }[] = [];
-      
-      for (let i = 0; i < imageKeys.length; i += batchSize) {
-        const batch = imageKeys.slice(i, i + batchSize);
-        setProcessingStatus(`Comparing with images... ${Math.min(i + batch.length, imageKeys.length)}/${imageKeys.length}`);
-        
-        const batchPromises = batch.map(async (key) => {
-          try {
-            const compareCommand = new CompareFacesCommand({
-              SourceImage: {
-                S3Object: { Bucket: S3_BUCKET_NAME, Name: selfiePath },
-              },
-              TargetImage: {
-                S3Object: { Bucket: S3_BUCKET_NAME, Name: key },
-              },
-              SimilarityThreshold: 80,
-              QualityFilter: "HIGH"
-            });
-            
-            const compareResponse = await rekognitionClient.send(compareCommand);
-            
-            if (compareResponse.FaceMatches && compareResponse.FaceMatches.length > 0) {
-              const bestMatch = compareResponse.FaceMatches.reduce(
-                (prev, current) => (prev.Similarity || 0) > (current.Similarity || 0) ? prev : current
-              );
-              
-              return { 
-                url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${key}`, 
-                similarity: bestMatch.Similarity || 0 
-              };
-            }
-            return null;
-          } catch (error) {
-            console.error(`Error processing image ${key}:`, error);
-            return null;
-          }
-        });
-        
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults.filter((result): result is { url: string; similarity: number } => 
-          result !== null && result.similarity >= 70
-        ));
-        
-        // Add a small delay between batches
-        if (i + batchSize < imageKeys.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-      
-      // Sort matches by similarity
-      const sortedMatches = results.sort((a, b) => b.similarity - a.similarity);
-      
-      if (sortedMatches.length === 0) {
+      if (matches.length === 0) {
         throw new Error('No matching faces found in the event images.');
       }
       
+      // Matches come back sorted by similarity; the attendee reviews possible ones
+      const sortedMatches = matches.filter(match => match.tier === 'confident');
+      const possible = matches.filter(match => match.tier === 'possible');
+      addPossibleMatches(toPossibleMatches(event.id, event.name, possible));
+      
       // Add matched images to the state
       const newMatchingImages: MatchingImage[] = sortedMatches.map(match => ({
         imageId: match.url.split('/').pop() || '',
@@ -601,36 +657,15 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
           eventName: event.name,
           eventDate: event.date,
           // Use event's coverImage if available, otherwise fall back to first matched image
-          thumbnailUrl: event.coverImage || sortedMatches[0].url,
+          thumbnailUrl: event.coverImage || matches[0].url,
           coverImage: event.coverImage || ''
         };
         
         setAttendedEvents(prev => [newEvent, ...prev]);
       }
       
-      // Store the attendee image data in the database
-      const matchedImageUrls = sortedMatches.map(match => match.url);
-      const currentTimestamp = new Date().toISOString();
-      
-      // Prepare the data to be stored
-      const attendeeData = {
-        userId: userEmail,
-        eventId: event.id,
-        selfieURL: existingSelfieUrl,
-        matchedImages: matchedImageUrls,
-        uploadedAt: currentTimestamp,
-        lastUpdated: currentTimestamp
-      };
-      
-      // Store in the database
-      const storageResult = await storeAttendeeImageData(attendeeData);
-      
-      if (!storageResult) {
-        console.error('Failed to store attendee image data in the database');
-      }
-      
       // Set success message and filter to show only this event's images
-      setSuccessMessage(`Found ${sortedMatches.length} new photos from ${event.name}!`);
+      setSuccessMessage(`Found ${sortedMatches.length} new photos from ${event.name}!${possiblePhotosMessage(possible.length)}`);
       setSelectedEventFilter(event.id);
       
       setProcessingStatus(null);
@@ -643,181 +678,34 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     }
   };
 
-  // New function to start the camera
-  const startCamera = async () => {
-    try {
-      // First check if we have the permissions
-      if (navigator.permissions && navigator.permissions.query) {
-        const result = await navigator.permissions.query({ name: 'camera' as PermissionName });
-        if (result.state === 'denied') {
-          throw new Error('Camera permission was denied. Please enable camera access in your device settings.');
-        }
-      }
-
-      // Try to get the video stream with mobile-friendly constraints
-      const videoStream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: 'user',
-          width: { ideal: 1280, max: 1920 },
-          height: { ideal: 720, max: 1080 },
-          frameRate: { ideal: 30, max: 60 }
-        },
-        audio: false
-      });
-      
-      setStream(videoStream);
-      setIsCameraActive(true);
-      setError(null);
-      
-      // Wait for the next render cycle to ensure video element exists
-      setTimeout(() => {
-        const videoElement = document.querySelector('video');
-        if (videoElement) {
-          videoElement.srcObject = videoStream;
-          videoElement.setAttribute('playsinline', 'true'); // Important for iOS
-          videoElement.play().catch(console.error);
-          setVideoRef(videoElement);
-        }
-      }, 100);
-      
-    } catch (error: any) {
-      console.error('Error accessing camera:', error);
-      let errorMessage = 'Could not access camera. ';
-      
-      if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-        errorMessage += 'Please grant camera permissions in your device settings.';
-      } else if (error.name === 'NotFoundError' || error.name === 'DevicesNotFoundError') {
-        errorMessage += 'No camera device was found on your device.';
-      } else if (error.name === 'NotReadableError' || error.name === 'TrackStartError') {
-        errorMessage += 'Your camera may be in use by another application.';
-      } else {
-        errorMessage += error.message || 'Please check your camera permissions and try again.';
-      }
-      
-      setError(errorMessage);
-      setIsCameraActive(false);
-    }
-  };
-
-  // New function to stop the camera
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
-      setStream(null);
-    }
-    if (videoRef && videoRef.srcObject) {
-      const tracks = (videoRef.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
-      videoRef.srcObject = null;
-    }
-    setVideoRef(null);
-    setIsCameraActive(false);
-  };
-
-  // New function to capture image from camera
-  const captureImage = async () => {
-    if (!videoRef || !stream) return;
-
-    try {
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.videoWidth;
-      canvas.height = videoRef.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Could not get canvas context');
-      ctx.drawImage(videoRef, 0, 0);
-      
-      const blob = await new Promise<Blob>((resolve) => {
-        canvas.toBlob((blob) => {
-          if (blob) resolve(blob);
-        }, 'image/jpeg', 0.8);
-      });
-      
-      const cameraFile = new File([blob], 'selfie.jpg', { type: 'image/jpeg' });
-      
-      // Process the captured image
-      setSelfie(cameraFile);
-      setSelfiePreview(URL.createObjectURL(cameraFile));
-      
-      // Stop camera and cleanup
-      stopCamera();
-      
-      // Upload the captured selfie
-      await uploadSelfie(cameraFile);
-      
-      // Close the modal
-      setShowCameraModal(false);
-      
-    } catch (error: any) {
-      console.error('Error capturing image:', error);
-      setError(error.message || 'Failed to capture image. Please try again.');
-      // Ensure camera is stopped even if capture fails
-      stopCamera();
-    }
-  };
+  // Frames of the liveness check go to the user's selfie folder like selfies
+  const uploadLivenessFrame = async (frame: File) =>
+    uploadUserSelfie(localStorage.getItem('userEmail') || await startGuestSession(), frame, frame.name);
 
-  // New function to upload the selfie
-  const uploadSelfie = async (file: File) => {
+  // Once a selfie taken live passes the selfie check, make it the user's
+  // selfie. Resolves with whether it did.
+  const saveSelfie = async ({ upload, livenessToken }: LiveSelfie) => {
     setError(null);
     setSuccessMessage(null);
-    setProcessingStatus('Updating your selfie...');
+    setSelfieCheck(null);
+    setProcessingStatus('Checking your selfie...');
     
     try {
-      const userEmail = localStorage.getItem('userEmail') || '';
-      
-      // Generate a unique filename
-      const fileName = `selfie-${Date.now()}-${file.name}`;
-      const selfiePath = `users/${userEmail}/selfies/${fileName}`;
-      
-      // Convert File to arrayBuffer and then to Uint8Array
-      const buffer = await file.arrayBuffer();
-      const uint8Array = new Uint8Array(buffer);
-      
-      // Upload selfie to S3
-      const upload = new Upload({
-        client: s3Client,
-        params: {
-          Bucket: S3_BUCKET_NAME,
-          Key: selfiePath,
-          Body: uint8Array,
-          ContentType: file.type,
-          ACL: 'public-read'
-        },
-        partSize: 1024 * 1024 * 5
-      });
-      
-      await upload.done();
+      const attendeeId = localStorage.getItem('userEmail') || await startGuestSession();
+      const { key, url: selfieUrl } = upload;
       
-      // Get the public URL of the uploaded selfie
-      const selfieUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${selfiePath}`;
-      
-      // Import the necessary functions
-      const { updateUserSelfieURL, getAllAttendeeImagesByUser, storeUserDefaultSelfie } = await import('../config/attendeeStorage');
-      
-      // Check if the user has any events
-      const userEvents = await getAllAttendeeImagesByUser(userEmail);
-      
-      // If the user has events, update the selfie URL for all of them
-      if (userEvents.length > 0) {
-        const updateResult = await updateUserSelfieURL(userEmail, selfieUrl);
-        
-        if (!updateResult) {
-          console.warn('Failed to update selfie for existing events');
-        }
+      const check = await checkSelfie(key);
+      setSelfieCheck(check);
+      if (!check.passed) {
+        setProcessingStatus(null);
+        return false;
       }
       
-      // Always store a default selfie for future events
-      const defaultSelfieResult = await storeUserDefaultSelfie(userEmail, selfieUrl);
+      // Update the selfie on every event the user has joined
+      await repositories.attendeeImages.updateSelfie(attendeeId, selfieUrl, livenessToken);
       
-      if (!defaultSelfieResult) {
-        console.warn('Failed to store default selfie');
-      }
+      // Always store a default selfie for future events
+      await repositories.attendeeImages.setDefaultSelfie(attendeeId, selfieUrl);
       
       // Update the selfie URL in state
       setSelfieUrl(selfieUrl);
@@ -828,11 +716,23 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
       
       // Scroll to top to show the updated selfie
       window.scrollTo({ top: 0, behavior: 'smooth' });
-      
+      return true;
     } catch (error: any) {
       console.error('Error updating selfie:', error);
       setError(error.message || 'Error updating your selfie. Please try again.');
       setProcessingStatus(null);
+      return false;
+    }
+  };
+
+  // A selfie taken through the liveness check; the camera stays open to
+  // retake one that fails the selfie check
+  const handleLiveSelfie = async (live: LiveSelfie) => {
+    if (await saveSelfie(live)) {
+      setSelfie(live.file);
+      setSelfiePreview(URL.createObjectURL(live.file));
+      setLiveSelfie(live);
+      setShowCameraModal(false);
     }
   };
 
@@ -841,36 +741,12 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     // Clear any previous errors
     setError(null);
     setSuccessMessage(null);
+    setSelfieCheck(null);
     
-    // Show camera modal and start the camera
+    // Show camera modal
     setShowCameraModal(true);
-    startCamera();
   };
 
-  // Clean up camera when component unmounts
-  useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
-
-  // Add cleanup when component is hidden or user navigates away
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        stopCamera();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('beforeunload', stopCamera);
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('beforeunload', stopCamera);
-    };
-  }, []);
-
   // Modify the handleSelfieChange to use handleUpdateSelfie instead
   const handleSelfieChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Instead of handling the file directly, trigger the update selfie flow
@@ -880,6 +756,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
   // Clear selfie selection
   const clearSelfie = () => {
     setSelfie(null);
+    setLiveSelfie(null);
     if (selfiePreview) {
       URL.revokeObjectURL(selfiePreview);
     }
@@ -888,18 +765,8 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
 
   // Upload selfie and compare faces
   const handleUploadAndCompare = async () => {
-    // Check for user authentication first
-    const userEmail = localStorage.getItem('userEmail');
-    if (!userEmail) {
-      setError('Please sign in to access your photos from this event.');
-      // Store pendingAction for after sign in
-      localStorage.setItem('pendingAction', 'getPhotos');
-      // Show sign in modal
-      setShowSignInModal(true);
-      return;
-    }
-
-    if (!selfie || !eventDetails) {
+    // Guests need not sign in; the API server keeps their matches under a guest id
+    if (!selfie || !liveSelfie || !eventDetails) {
       setError('Please select a selfie and enter a valid event code');
       return;
     }
@@ -907,99 +774,44 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     setIsUploading(true);
     setError(null);
     setSuccessMessage(null);
-    setProcessingStatus('Uploading selfie...');
+    setProcessingStatus('Looking up event...');
     
     try {
       // Fetch complete event details from database
-      const completeEventDetails = await getEventById(eventDetails.id);
+      const completeEventDetails = await repositories.events.get(eventDetails.id);
       
       if (!completeEventDetails) {
         throw new Error('Could not retrieve complete event details from database.');
       }
       
-      // Generate a unique filename
-      const fileName = `selfie-${Date.now()}-${selfie.name}`;
-      const selfiePath = `events/shared/${eventDetails.id}/selfies/${fileName}`;
-      
-      // Convert File to arrayBuffer and then to Uint8Array
-      const buffer = await selfie.arrayBuffer();
-      const uint8Array = new Uint8Array(buffer);
-      
-      // Upload selfie to S3
-      const upload = new Upload({
-        client: s3Client,
-        params: {
-          Bucket: S3_BUCKET_NAME,
-          Key: selfiePath,
-          Body: uint8Array,
-          ContentType: selfie.type,
-          ACL: 'public-read'
-        },
-        partSize: 1024 * 1024 * 5
-      });
-      
-      await upload.done();
-      
-      // After successful upload, start face comparison
+      // The selfie was uploaded and checked when it was taken
       setProcessingStatus('Comparing with event images...');
       
-      // Get the list of images in the event
-      const imagesPath = `events/shared/${eventDetails.id}/images/`;
-      const listCommand = new ListObjectsV2Command({
-        Bucket: S3_BUCKET_NAME,
-        Prefix: imagesPath,
-        MaxKeys: 1000
-      });
-      
-      const listResponse = await s3Client.send(listCommand);
+      const { matches, processedCount } = await runSelfieMatch(
+        eventDetails.id,
+        { selfieKey: liveSelfie.upload.key, livenessToken: liveSelfie.livenessToken },
+        ({ processed, total }) => setProcessingStatus(`Comparing with event images... (${processed}/${total})`)
+      );
       
-      if (!listResponse.Contents || listResponse.Contents.length === 0) {
+      if (processedCount === 0) {
         throw new Error('No images found in this event.');
       }
       
-      // Get the uploaded selfie URL
-      const selfieUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${selfiePath}`;
-      
-      // Compare faces with each image
-      const matchingImages: MatchingImage[] = [];
-      for (const image of listResponse.Contents) {
-        if (!image.Key) continue;
-        
-        const imageUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${image.Key}`;
-        
-        try {
-          const result = await compareFaces(selfieUrl, imageUrl);
-          if (result) {
-            matchingImages.push({
-              imageId: image.Key.split('/').pop() || '',
-              eventId: eventDetails.id,
-              eventName: eventDetails.name,
-              imageUrl,
-              matchedDate: new Date().toISOString()
-            });
-          }
-        } catch (error) {
-          console.error('Error comparing faces:', error);
-          continue;
-        }
-      }
+      const possible = matches.filter(match => match.tier === 'possible');
+      const matchingImages: MatchingImage[] = matches.filter(match => match.tier === 'confident').map(match => ({
+        imageId: match.key.split('/').pop() || '',
+        eventId: eventDetails.id,
+        eventName: eventDetails.name,
+        imageUrl: match.url,
+        matchedDate: new Date().toISOString()
+      }));
       
-      if (matchingImages.length > 0) {
-        // Store the matching images for the user
-        const { storeAttendeeImageData } = await import('../config/attendeeStorage');
-        await storeAttendeeImageData({
-          userId: userEmail,
-          eventId: eventDetails.id,
-          selfieURL: selfieUrl,
-          matchedImages: matchingImages.map(img => img.imageUrl),
-          uploadedAt: new Date().toISOString(),
-          lastUpdated: new Date().toISOString()
-        });
-        
-        // Update the UI
+      if (matches.length > 0) {
+        // The match job already saved these for the user; update the UI
         setMatchingImages(matchingImages);
         setFilteredImages(matchingImages);
-        setSuccessMessage(`Found ${matchingImages.length} matching photos!`);
+        setPossibleMatches(toPossibleMatches(eventDetails.id, eventDetails.name, possible));
+        setSuccessMessage(`Found ${matchingImages.length} matching photos!${possiblePhotosMessage(possible.length)}`);
       } else {
         setError('No matching photos found. Please try again with a different selfie.');
       }
@@ -1018,71 +830,26 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
     navigate(`/event-photos/${eventId}`);
   };
 
-  const handleDownload = async (url: string) => {
-    try {
-      const userEmail = localStorage.getItem('userEmail') || '';
-      const response = await fetch(url, {
-        headers: {
-          'Cache-Control': 'no-cache',
-        },
-        mode: 'cors',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-      
-      // Get the content type
-      const contentType = response.headers.get('content-type') || 'image/jpeg';
-      
-      // Get the image as a blob
-      const blob = await response.blob();
-      
-      // Create a blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-      
-      // Extract filename from URL
-      const filename = url.split('/').pop() || 'photo.jpg';
-      
-      // Create a temporary anchor element
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = filename;
-      link.type = contentType;
-      link.target = '_blank';
-      
-      // Required for Firefox
-      document.body.appendChild(link);
-      
-      // Trigger the download
-      link.click();
-      
-      // Cleanup
-      setTimeout(() => {
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(blobUrl);
-      }, 100);
-    } catch (error) {
-      console.error('Error downloading image:', error);
-      // If download fails, open the image in a new tab
-      window.open(url, '_blank');
-    }
-  };
-
   const handleDownloadAll = async () => {
     try {
-      // Show a message that downloads are starting
-      alert('Starting downloads. Please allow multiple downloads in your browser settings.');
-      
-      // Download each image with a small delay to prevent browser blocking
-      for (const image of filteredImages) {
-        await handleDownload(image.imageUrl);
-        // Add a small delay between downloads
-        await new Promise(resolve => setTimeout(resolve, 500));
+      setArchiveProgress(0);
+      // Small sets are zipped in the browser; larger ones are built by the server
+      if (filteredImages.length <= BROWSER_ZIP_MAX_FILES) {
+        const result = await downloadFilesAsZip(filteredImages.map(image => image.imageUrl), 'My photos.zip', setArchiveProgress);
+        if (result && result.failedUrls.length > 0) {
+          alert(`${result.failedUrls.length} photos could not be downloaded and are missing from the ZIP. Please try downloading them individually.`);
+        }
+      } else {
+        const attendeeId = await getAttendeeId();
+        if (!attendeeId) return;
+        const link = await createAttendeeArchiveLink(attendeeId, selectedEventFilter === 'all' ? undefined : selectedEventFilter);
+        await downloadArchive(link, setArchiveProgress);
       }
     } catch (error) {
       console.error('Error downloading all images:', error);
-      alert('Some downloads may have failed. Please try downloading individual photos.');
+      alert('Failed to prepare your download. Please try again or download individual photos.');
+    } finally {
+      setArchiveProgress(null);
     }
   };
 
@@ -1136,7 +903,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
                     type="text"
                     value={eventCode}
                     onChange={(e) => setEventCode(e.target.value)}
-                    placeholder="Event code"
+                    placeholder="Event code, e.g. 7KQ2-M9XD"
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                     required
                   />
@@ -1150,6 +917,29 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
                   </button>
                 </div>
               </form>
+
+              {passwordEventCode && (
+                <form onSubmit={handleEventPasswordSubmit} className="mb-3">
+                  <div className="flex space-x-2">
+                    <input
+                      type="password"
+                      value={eventPassword}
+                      onChange={(e) => setEventPassword(e.target.value)}
+                      placeholder="Event password"
+                      autoComplete="off"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                      disabled={isUploading}
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                </form>
+              )}
               
               {eventDetails && (
                 <div className="border border-blue-200 bg-blue-50 p-3 rounded-lg mb-3">
@@ -1361,10 +1151,17 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
               {filteredImages.length > 0 && (
                 <button
                   onClick={handleDownloadAll}
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  disabled={archiveProgress !== null}
+                  className="relative overflow-hidden flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
                 >
                   <Download className="h-4 w-4 mr-2" />
-                  Download All
+                  {archiveProgress !== null ? `Preparing ZIP ${archiveProgress}%` : 'Download All'}
+                  {archiveProgress !== null && (
+                    <span
+                      className="absolute bottom-0 left-0 h-1 bg-white/80 transition-all"
+                      style={{ width: `${archiveProgress}%` }}
+                    />
+                  )}
                 </button>
               )}
               <label htmlFor="event-filter" className="text-gray-700">Filter by event:</label>
@@ -1384,6 +1181,22 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
             </div>
           </div>
           
+          {isGuest && matchingImages.length > 0 && (
+            <div className="bg-blue-50 text-blue-800 p-4 rounded-lg mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <span>These photos are saved on this browser only. Sign in to keep them in your account and see them on any device.</span>
+              <button
+                onClick={() => {
+                  localStorage.setItem('pendingAction', 'getPhotos');
+                  localStorage.setItem('pendingRedirectUrl', window.location.href);
+                  setShowSignInModal(true);
+                }}
+                className="shrink-0 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Sign in to keep them
+              </button>
+            </div>
+          )}
+
           {successMessage && (
             <div className="bg-green-50 text-green-700 p-4 rounded-lg mb-6 flex items-center animate-pulse">
               <div className="bg-green-100 rounded-full p-2 mr-3">
@@ -1392,6 +1205,12 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
               {successMessage}
             </div>
           )}
+
+          <PossibleMatches
+            matches={possibleMatches.filter(match => selectedEventFilter === 'all' || match.eventId === selectedEventFilter)}
+            reviewingUrl={reviewingUrl}
+            onReview={handleReviewMatch}
+          />
           
           {filteredImages.length > 0 ? (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
@@ -1406,8 +1225,13 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
                       alt={`Matched photo from ${image.eventName}`}
                       className="object-cover w-full h-full"
                     />
+                    <MatchFeedbackButtons
+                      confirmed={Boolean(image.confirmed)}
+                      disabled={reviewingUrl !== null}
+                      onReview={review => handleReviewPhoto(image, review)}
+                    />
                     <button
-                      onClick={() => handleDownload(image.imageUrl)}
+                      onClick={() => downloadFile(image.imageUrl)}
                       className="absolute top-2 right-2 p-2 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
                     >
                       <Download className="h-4 w-4" />
@@ -1456,10 +1280,7 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg p-6 max-w-md w-full relative">
             <button
-              onClick={() => {
-                stopCamera();
-                setShowCameraModal(false);
-              }}
+              onClick={() => setShowCameraModal(false)}
               className="absolute -top-3 -right-3 bg-white text-gray-700 rounded-full p-2 shadow-lg hover:bg-gray-100"
             >
               <X className="w-5 h-5" />
@@ -1472,28 +1293,17 @@ const AttendeeDashboard: React.FC<AttendeeDashboardProps> = ({ setShowSignInModa
                 {error}
               </div>
             )}
+
+            {selfieCheck && !selfieCheck.passed && (
+              <div className="mb-4">
+                <SelfieFeedback check={selfieCheck} />
+              </div>
+            )}
             
             <div className="relative w-full">
-              {isCameraActive && (
-                <div className="mb-4">
-                  <video
-                    autoPlay
-                    playsInline
-                    className="w-full rounded-lg border-2 border-blue-500"
-                    style={{ transform: 'scaleX(-1)' }} // Mirror the video feed
-                  />
-                  
-                  <button
-                    onClick={captureImage}
-                    className="mt-4 w-full py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center"
-                  >
-                    <Camera className="w-5 h-5 mr-2" />
-                    Capture Selfie
-                  </button>
-                </div>
-              )}
+              <LiveSelfieCamera uploadFrame={uploadLivenessFrame} onCaptured={handleLiveSelfie} />
               
-              {!isCameraActive && processingStatus && (
+              {processingStatus && (
                 <div className="flex items-center justify-center p-6">
                   <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600 mr-3"></div>
                   <p className="text-blue-600">{processingStatus}</p>
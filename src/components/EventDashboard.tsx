@@ -1,20 +1,19 @@
-import React, { useState, useEffect, useContext } from 'react';
+import React, { useState, useEffect, useContext, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Camera, Image, Video, Users, Plus, X, Trash2, Copy } from 'lucide-react';
-import { 
-    storeEventData, 
-    getEventStatistics, 
-    getUserEvents, 
-    EventData, 
-    deleteEvent, 
-    getEventsByOrganizerId,
-    getEventsByUserId,
-    getEventById
-} from '../config/eventStorage';
-import { s3Client, S3_BUCKET_NAME } from '../config/aws';
-import { Upload } from '@aws-sdk/lib-storage';
+import { Camera, Image, Video, Users, Plus, X, Trash2, Copy, Lock, SlidersHorizontal } from 'lucide-react';
+import { uploadEventCover } from '../services/media';
+import { listSharedEvents } from '../services/eventMembers';
+import type { SharedEvents } from '../services/eventMembers';
 import { UserContext } from '../App';
-import { storeUserCredentials, getUserByEmail } from '../config/dynamodb';
+import { repositories } from '../repositories';
+import type { EventUpdates, NewEvent } from '../repositories';
+import { formatEventCode } from '../../shared/eventCodes';
+import { EVENT_STATUSES, EVENT_STATUS_TRANSITIONS, getEventStatus } from '../../shared/eventStatus';
+import { EVENT_ACCESS_MODES, MIN_EVENT_PASSWORD_LENGTH, getEventAccess } from '../../shared/eventAccess';
+import { INVITABLE_EVENT_ROLES, hasEventPermission } from '../../shared/eventRoles';
+import { MATCH_THRESHOLD_PRESETS, MIN_POSSIBLE_SIMILARITY, getMatchThresholdPreset, getMatchThresholds } from '../../shared/matchThresholds';
+import type { MatchThresholdPreset } from '../../shared/matchThresholds';
+import type { EventAccessMode, EventData, EventMember, EventRole, EventStatus } from '../../shared/types';
 
 interface Event {
     id: string;
@@ -22,6 +21,8 @@ interface Event {
     date: string;
     description?: string;
     coverImage?: File;
+    // Create hidden from guests until published
+    isDraft?: boolean;
 }
 
 interface StatsCardProps {
@@ -47,50 +48,127 @@ interface EventDashboardProps {
     setShowNavbar: (show: boolean) => void;
 }
 
-// Function to generate a unique 6-digit event ID
-const generateUniqueEventId = async (): Promise<string> => {
-    const generateSixDigitId = (): string => {
-        // Generate a random 6-digit number
-        return Math.floor(100000 + Math.random() * 900000).toString();
-    };
-    
-    // Generate an initial ID
-    let eventId = generateSixDigitId();
-    
-    // Check if the ID already exists in the database
-    // If it does, generate a new one until we find a unique ID
-    let isUnique = false;
-    let maxAttempts = 10; // Prevent infinite loops
-    let attempts = 0;
-    
-    while (!isUnique && attempts < maxAttempts) {
-        attempts++;
-        try {
-            // Check if an event with this ID already exists
-            const existingEvent = await getEventById(eventId);
-            
-            if (!existingEvent) {
-                // ID is unique
-                isUnique = true;
-            } else {
-                // ID exists, generate a new one
-                console.log(`Event ID ${eventId} already exists, generating a new one...`);
-                eventId = generateSixDigitId();
-            }
-        } catch (error) {
-            console.error('Error checking event ID uniqueness:', error);
-            // If there's an error checking, assume it's unique to avoid getting stuck
-            isUnique = true;
-        }
-    }
-    
-    if (attempts >= maxAttempts) {
-        console.warn('Reached maximum attempts to generate a unique ID');
-    }
-    
-    return eventId;
+// Events per page of the "All Events" grid (a multiple of its 1, 2 and 3 columns)
+const EVENTS_PAGE_SIZE = 12;
+
+// 'deleted' lists events awaiting purge (which can still be restored) and purged ones
+type StatusFilter = EventStatus | 'all' | 'deleted';
+
+const FILTER_LABELS: Record<StatusFilter, string> = {
+    all: 'All',
+    draft: 'Draft',
+    live: 'Live',
+    closed: 'Closed',
+    archived: 'Archived',
+    deleted: 'Deleted'
+};
+
+const listFilter = (filter: StatusFilter) => {
+    if (filter === 'all') return {};
+    return filter === 'deleted' ? { deleted: true } : { status: filter };
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+// One line summing up what purging an event removed
+const describeDeletion = (event: EventData) => {
+    const report = event.deletionReport;
+    if (!report) return `Permanently deleted on ${formatDateTime(event.purgedAt || '')}`;
+    return `Permanently deleted on ${formatDateTime(event.purgedAt || '')}: ${report.objectsDeleted} files `
+        + `(${(report.bytesDeleted / (1024 * 1024)).toFixed(1)} MB), ${report.faceRecordsDeleted} indexed faces `
+        + `and ${report.attendeeRecordsDeleted} guest records removed.`;
+};
+
+const STATUS_BADGE_COLORS: Record<EventStatus, string> = {
+    draft: 'bg-gray-200 text-gray-800',
+    live: 'bg-green-200 text-green-800',
+    closed: 'bg-yellow-200 text-yellow-800',
+    archived: 'bg-purple-200 text-purple-800'
+};
+
+// Button label for moving an event from one status to another
+const statusActionLabel = (from: EventStatus, to: EventStatus) => {
+    if (to === 'live') return from === 'draft' ? 'Publish' : 'Reopen';
+    if (to === 'closed') return from === 'archived' ? 'Restore' : 'Close';
+    return 'Archive';
 };
 
+// Asked before the status changes that turn guests away
+const STATUS_CHANGE_CONFIRMATIONS: Record<string, string> = {
+    Close: 'Close this event? Guests will no longer be able to upload selfies, but galleries stay viewable.',
+    Archive: 'Archive this event? Its photos and videos move to cheaper storage and no new uploads are accepted until it is restored.'
+};
+
+const ACCESS_MODE_LABELS: Record<EventAccessMode, string> = {
+    public: 'Public gallery',
+    code: 'Event code',
+    password: 'Password',
+    invite: 'Invite list'
+};
+
+const ACCESS_MODE_DESCRIPTIONS: Record<EventAccessMode, string> = {
+    public: 'Anyone with the link can browse every photo and find their own.',
+    code: 'Guests need the event code and only see the photos they are in.',
+    password: 'Guests need the event code and a password, and only see the photos they are in.',
+    invite: 'Only guests signed in with an email or phone number on your list get in, and only see the photos they are in.'
+};
+
+const MATCH_PRESET_LABELS: Record<MatchThresholdPreset | 'custom', string> = {
+    strict: 'Strict',
+    standard: 'Standard',
+    lenient: 'Lenient',
+    custom: 'Custom'
+};
+
+const MATCH_PRESET_DESCRIPTIONS: Record<MatchThresholdPreset | 'custom', string> = {
+    strict: 'Fewer wrong photos, though guests may miss a few of theirs. Suits corporate events.',
+    standard: 'A balance that suits most events.',
+    lenient: 'Finds guests in crowded and distant shots; they review more possible matches. Suits weddings and parties.',
+    custom: 'Choose the similarities yourself.'
+};
+
+const matchPresetOf = (event: EventData) => getMatchThresholdPreset(getMatchThresholds(event)) || 'custom';
+
+const ROLE_LABELS: Record<EventRole, string> = {
+    owner: 'Owner',
+    'co-organizer': 'Co-organizer',
+    photographer: 'Photographer',
+    viewer: 'Viewer'
+};
+
+const ROLE_DESCRIPTIONS: Record<EventMember['role'], string> = {
+    'co-organizer': 'Can do everything you can except delete the event',
+    photographer: 'Can upload photos and videos, and browse the gallery',
+    viewer: 'Can browse and download the gallery'
+};
+
+// The members of one event being managed
+interface MemberEditor {
+    event: EventData;
+    members: EventMember[];
+    // The invitation being written
+    email: string;
+    role: EventMember['role'];
+}
+
+// The access policy being edited for one event
+interface AccessEditor {
+    event: EventData;
+    mode: EventAccessMode;
+    // One email or phone number per line
+    allowList: string;
+    password: string;
+}
+
+// The match thresholds being edited for one event
+interface MatchingEditor {
+    event: EventData;
+    preset: MatchThresholdPreset | 'custom';
+    // Similarities from 0 to 100; only edited for custom thresholds
+    confident: number;
+    possible: number;
+}
+
 const EventDashboard = (props: EventDashboardProps) => {
     const navigate = useNavigate();
     const { userEmail, userRole, setUserRole } = useContext(UserContext);
@@ -103,8 +181,38 @@ const EventDashboard = (props: EventDashboardProps) => {
     const [stats, setStats] = useState({ eventCount: 0, photoCount: 0, videoCount: 0, guestCount: 0 });
     const [isLoading, setIsLoading] = useState(false);
     const [events, setEvents] = useState<EventData[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [showAllEvents, setShowAllEvents] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [changingStatusId, setChangingStatusId] = useState<string | null>(null);
+    // The event just deleted, offered for undo
+    const [deletedEvent, setDeletedEvent] = useState<EventData | null>(null);
     const [copiedEventId, setCopiedEventId] = useState<string | null>(null);
+    const [accessEditor, setAccessEditor] = useState<AccessEditor | null>(null);
+    const [isSavingAccess, setIsSavingAccess] = useState(false);
+    const [matchingEditor, setMatchingEditor] = useState<MatchingEditor | null>(null);
+    const [isSavingMatching, setIsSavingMatching] = useState(false);
+    // Events other organizers shared with this user, and the invitations to them
+    const [sharedEvents, setSharedEvents] = useState<SharedEvents>({ members: [], events: [] });
+    const [memberEditor, setMemberEditor] = useState<MemberEditor | null>(null);
+    const [isSavingMembers, setIsSavingMembers] = useState(false);
+    // Invitation emails link here with ?invite=<eventId>
+    const [invitedEventId] = useState(() => new URLSearchParams(window.location.search).get('invite'));
+
+    const loadSharedEvents = useCallback(async () => {
+        const email = localStorage.getItem('userEmail');
+        if (!email) return;
+        try {
+            setSharedEvents(await listSharedEvents(email));
+        } catch (error) {
+            console.error('Error loading shared events:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSharedEvents();
+    }, [loadSharedEvents]);
 
     useEffect(() => {
         loadEvents();
@@ -131,7 +239,7 @@ const EventDashboard = (props: EventDashboardProps) => {
                     const mobile = localStorage.getItem('userMobile') || '';
                     
                     // Update user role to organizer
-                    await storeUserCredentials({
+                    await repositories.users.save({
                         userId: email,
                         email,
                         name,
@@ -151,7 +259,8 @@ const EventDashboard = (props: EventDashboardProps) => {
         }
     }, [navigate, setUserRole]);
 
-    const loadEvents = async () => {
+    // First page of the organizer's events, newest first
+    const loadEvents = async (filter: StatusFilter = statusFilter) => {
         try {
             const userEmail = localStorage.getItem('userEmail');
             if (!userEmail) {
@@ -160,45 +269,40 @@ const EventDashboard = (props: EventDashboardProps) => {
             }
             
             console.log('Loading events for user:', userEmail);
-            
-            // Get events where user is listed as userEmail (backward compatibility)
-            const userEvents = await getUserEvents(userEmail);
-            
-            // Get events where user is the organizer
-            const organizerEvents = await getEventsByOrganizerId(userEmail);
-            
-            // Get events where user is the userId
-            const userIdEvents = await getEventsByUserId(userEmail);
-            
-            // Combine events and remove duplicates (based on eventId)
-            const allEvents = [...userEvents];
-            
-            // Add organizer events that aren't already in the list
-            organizerEvents.forEach(orgEvent => {
-                if (!allEvents.some(event => event.id === orgEvent.id)) {
-                    allEvents.push(orgEvent);
-                }
+            const page = await repositories.events.listByOrganizer(userEmail, {
+                limit: EVENTS_PAGE_SIZE,
+                ...listFilter(filter)
             });
-            
-            // Add userId events that aren't already in the list
-            userIdEvents.forEach(userIdEvent => {
-                if (!allEvents.some(event => event.id === userIdEvent.id)) {
-                    allEvents.push(userIdEvent);
-                }
-            });
-            
-            if (Array.isArray(allEvents)) {
-                setEvents(allEvents);
-                // Update statistics after loading events
-                await loadEventStatistics();
-            } else {
-                console.error('Invalid events data received');
-            }
+            setEvents(page.items);
+            setNextCursor(page.nextCursor);
+            // Update statistics after loading events
+            await loadEventStatistics();
         } catch (error) {
             console.error('Error loading events:', error);
         }
     };
 
+    const loadMoreEvents = async () => {
+        const userEmail = localStorage.getItem('userEmail');
+        if (!userEmail || !nextCursor) return;
+
+        setIsLoadingMore(true);
+        try {
+            const page = await repositories.events.listByOrganizer(userEmail, {
+                limit: EVENTS_PAGE_SIZE,
+                cursor: nextCursor,
+                ...listFilter(statusFilter)
+            });
+            // An event created meanwhile can show up on a later page too
+            setEvents(prev => [...prev, ...page.items.filter(event => !prev.some(existing => existing.id === event.id))]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            console.error('Error loading more events:', error);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
     useEffect(() => {
         loadEventStatistics();
     }, []);
@@ -208,7 +312,7 @@ const EventDashboard = (props: EventDashboardProps) => {
             const userEmail = localStorage.getItem('userEmail');
             if (userEmail) {
                 console.log('Loading statistics for user:', userEmail);
-                const statistics = await getEventStatistics(userEmail);
+                const statistics = await repositories.events.getStatistics(userEmail);
                 setStats(statistics);
             }
         } catch (error) {
@@ -257,7 +361,7 @@ const EventDashboard = (props: EventDashboardProps) => {
                     const mobile = localStorage.getItem('userMobile') || '';
                     
                     // Update user role to organizer
-                    await storeUserCredentials({
+                    await repositories.users.save({
                         userId: email,
                         email,
                         name,
@@ -299,49 +403,24 @@ const EventDashboard = (props: EventDashboardProps) => {
             }
             console.log('User authenticated:', userEmail);
 
-            // Generate a unique 6-digit event ID
-            const eventId = await generateUniqueEventId();
-            console.log('Generated event ID:', eventId);
-
-            // Handle cover image upload first
-            let coverImageUrl = '';
-            if (newEvent.coverImage) {
-                console.log('Starting cover image upload...');
-                const coverImageKey = `events/shared/${eventId}/cover.jpg`;
-                console.log('Cover image key:', coverImageKey);
-                
-                try {
-                    // Convert File to arrayBuffer and then to Uint8Array, which works properly with Buffer.concat
-                    const buffer = await newEvent.coverImage.arrayBuffer();
-                    const uint8Array = new Uint8Array(buffer);
-                    
-                    // Upload using AWS SDK
-                    const uploadCoverImage = new Upload({
-                        client: s3Client,
-                        params: {
-                            Bucket: S3_BUCKET_NAME,
-                            Key: coverImageKey,
-                            Body: uint8Array,
-                            ContentType: newEvent.coverImage.type,
-                            ACL: 'public-read'
-                        },
-                        partSize: 1024 * 1024 * 5
-                    });
+            // Create the event, then record it on the organizer
+            try {
+                // The server assigns the event code
+                const eventData: NewEvent = {
+                    name: newEvent.name,
+                    date: newEvent.date,
+                    description: newEvent.description,
+                    coverImage: '',
+                    userEmail,
+                    organizerId: userEmail,
+                    userId: userEmail,
+                    status: newEvent.isDraft ? 'draft' : 'live'
+                };
 
-                    console.log('Starting S3 upload...');
-                    await uploadCoverImage.done();
-                    console.log('S3 upload completed successfully');
-                    
-                    coverImageUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${coverImageKey}`;
-                    console.log('Cover image URL:', coverImageUrl);
-                } catch (uploadError) {
-                    console.error('Error uploading cover image:', uploadError);
-                    throw new Error('Failed to upload cover image. Please try again.');
-                }
-            }
+                console.log('Storing event data...');
+                const { id: eventId } = await repositories.events.create(eventData);
+                console.log('Created event:', eventId);
 
-            // Update user role and create event data
-            try {
                 // Get user info from localStorage
                 let name = '';
                 const userProfileStr = localStorage.getItem('userProfile');
@@ -358,7 +437,7 @@ const EventDashboard = (props: EventDashboardProps) => {
                 console.log('User profile loaded:', { name, mobile });
 
                 // Get existing user data
-                const existingUser = await getUserByEmail(userEmail);
+                const existingUser = await repositories.users.get(userEmail);
                 console.log('Retrieved existing user data:', existingUser);
                 let eventIds: string[] = [];
                 
@@ -369,7 +448,7 @@ const EventDashboard = (props: EventDashboardProps) => {
                 eventIds.push(eventId);
                 
                 // Update user role and createdEvents
-                await storeUserCredentials({
+                await repositories.users.save({
                     userId: userEmail,
                     email: userEmail,
                     name,
@@ -380,43 +459,34 @@ const EventDashboard = (props: EventDashboardProps) => {
                 
                 setUserRole('organizer');
 
-                // Create event data
-                const eventData: EventData = {
-                    id: eventId,
-                    name: newEvent.name,
-                    date: newEvent.date,
-                    description: newEvent.description,
-                    coverImage: coverImageUrl,
-                    photoCount: 0,
-                    videoCount: 0,
-                    guestCount: 0,
-                    userEmail,
-                    organizerId: userEmail,
-                    userId: userEmail,
-                    createdAt: new Date().toISOString(),
-                    updatedAt: new Date().toISOString(),
+                // The guest link and cover need the code, so they are added once the event exists
+                const updates: EventUpdates = {
                     eventUrl: `${window.location.origin}/attendee-dashboard?eventId=${eventId}`
                 };
-
-                // Store event data
-                console.log('Storing event data...');
-                const success = await storeEventData(eventData);
-                
-                if (success) {
-                    console.log('Event created successfully');
-                    await loadEventStatistics();
-                    await loadEvents();
-                    setIsModalOpen(false);
-                    setNewEvent({ id: '', name: '', date: '', description: '' });
-                    setCoverImagePreview(null);
-                    props.setShowNavbar(true);
-                    
-                    // Navigate directly to the upload images page
-                    console.log('Navigating to upload images page:', `/upload-image?eventId=${eventId}`);
-                    navigate(`/upload-image?eventId=${eventId}`);
-                } else {
-                    throw new Error('Failed to store event data');
+                if (newEvent.coverImage) {
+                    console.log('Starting cover image upload...');
+                    try {
+                        const { url } = await uploadEventCover(eventId, newEvent.coverImage);
+                        console.log('Cover image URL:', url);
+                        updates.coverImage = url;
+                    } catch (uploadError) {
+                        console.error('Error uploading cover image:', uploadError);
+                        alert('Event created, but the cover image failed to upload.');
+                    }
                 }
+                await repositories.events.update(eventId, userEmail, updates);
+                
+                console.log('Event created successfully');
+                await loadEventStatistics();
+                await loadEvents();
+                setIsModalOpen(false);
+                setNewEvent({ id: '', name: '', date: '', description: '' });
+                setCoverImagePreview(null);
+                props.setShowNavbar(true);
+                
+                // Navigate directly to the upload images page
+                console.log('Navigating to upload images page:', `/upload-image?eventId=${eventId}`);
+                navigate(`/upload-image?eventId=${eventId}`);
             } catch (error) {
                 console.error('Error in event creation process:', error);
                 throw error;
@@ -432,22 +502,208 @@ const EventDashboard = (props: EventDashboardProps) => {
     const handleConfirmDelete = async () => {
         if (deleteConfirmation.eventId && deleteConfirmation.userEmail) {
             try {
-                const success = await deleteEvent(deleteConfirmation.eventId, deleteConfirmation.userEmail);
-                if (success) {
-                    // After successful deletion from DynamoDB
-                    loadEvents();
-                    loadEventStatistics();
-                    setDeleteConfirmation({isOpen: false, eventId: '', userEmail: ''});
-                } else {
-                    alert('Failed to delete event. Please try again.');
-                }
+                const deleted = await repositories.events.delete(deleteConfirmation.eventId);
+                setDeletedEvent(deleted);
+                loadEvents();
+                loadEventStatistics();
+                setDeleteConfirmation({isOpen: false, eventId: '', userEmail: ''});
             } catch (error) {
                 console.error('Error deleting event:', error);
-                alert('An error occurred while deleting the event.');
+                alert('Failed to delete event. Please try again.');
             }
         }
     };
 
+    const handleRestore = async (eventId: string) => {
+        try {
+            await repositories.events.restore(eventId);
+            setDeletedEvent(prev => (prev?.id === eventId ? null : prev));
+            loadEvents();
+            loadEventStatistics();
+        } catch (error) {
+            console.error('Error restoring event:', error);
+            alert(error instanceof Error ? error.message : 'Failed to restore the event. Please try again.');
+        }
+    };
+
+    const handleStatusFilterChange = (filter: StatusFilter) => {
+        setStatusFilter(filter);
+        loadEvents(filter);
+    };
+
+    // Co-organizers change shared events as well
+    const replaceSharedEvent = (updated: EventData) => {
+        setSharedEvents(prev => ({
+            ...prev,
+            events: prev.events.map(existing => existing.id === updated.id ? updated : existing)
+        }));
+    };
+
+    const handleStatusChange = async (event: EventData, status: EventStatus) => {
+        const confirmation = STATUS_CHANGE_CONFIRMATIONS[statusActionLabel(getEventStatus(event), status)];
+        if (confirmation && !window.confirm(confirmation)) {
+            return;
+        }
+
+        setChangingStatusId(event.id);
+        try {
+            const updated = await repositories.events.setStatus(event.id, status);
+            // Drop the event from a filtered list it no longer belongs in
+            setEvents(prev => statusFilter === 'all' || statusFilter === status
+                ? prev.map(existing => existing.id === event.id ? updated : existing)
+                : prev.filter(existing => existing.id !== event.id));
+            replaceSharedEvent(updated);
+        } catch (error) {
+            console.error('Error changing event status:', error);
+            alert(error instanceof Error ? error.message : 'Failed to change the event status. Please try again.');
+        } finally {
+            setChangingStatusId(null);
+        }
+    };
+
+    const handleOpenAccessEditor = (event: EventData) => {
+        const access = getEventAccess(event);
+        setAccessEditor({ event, mode: access.mode, allowList: (access.allowList || []).join('\n'), password: '' });
+    };
+
+    const handleSaveAccess = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!accessEditor) return;
+
+        setIsSavingAccess(true);
+        try {
+            const updated = await repositories.events.setAccess(accessEditor.event.id, {
+                mode: accessEditor.mode,
+                allowList: accessEditor.allowList.split(/[\n,;]/).map(entry => entry.trim()).filter(Boolean),
+                password: accessEditor.password || undefined
+            });
+            setEvents(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+            replaceSharedEvent(updated);
+            setAccessEditor(null);
+        } catch (error) {
+            console.error('Error saving event access:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save who can access the event. Please try again.');
+        } finally {
+            setIsSavingAccess(false);
+        }
+    };
+
+    const handleOpenMatchingEditor = (event: EventData) => {
+        setMatchingEditor({ event, preset: matchPresetOf(event), ...getMatchThresholds(event) });
+    };
+
+    const handleSelectMatchPreset = (preset: MatchThresholdPreset | 'custom') => {
+        if (!matchingEditor) return;
+        setMatchingEditor(preset === 'custom'
+            ? { ...matchingEditor, preset }
+            : { ...matchingEditor, preset, ...MATCH_THRESHOLD_PRESETS[preset] });
+    };
+
+    const handleSaveMatching = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!matchingEditor) return;
+
+        setIsSavingMatching(true);
+        try {
+            const updated = await repositories.events.setMatchThresholds(matchingEditor.event.id, {
+                confident: matchingEditor.confident,
+                possible: matchingEditor.possible
+            });
+            setEvents(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+            replaceSharedEvent(updated);
+            setMatchingEditor(null);
+        } catch (error) {
+            console.error('Error saving match thresholds:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save how guests are matched. Please try again.');
+        } finally {
+            setIsSavingMatching(false);
+        }
+    };
+
+    const handleOpenMembers = async (event: EventData) => {
+        try {
+            const members = await repositories.eventMembers.listByEvent(event.id);
+            setMemberEditor({ event, members, email: '', role: 'photographer' });
+        } catch (error) {
+            console.error('Error loading event members:', error);
+            alert(error instanceof Error ? error.message : 'Failed to load the event members. Please try again.');
+        }
+    };
+
+    const handleInviteMember = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!memberEditor) return;
+
+        setIsSavingMembers(true);
+        try {
+            const member = await repositories.eventMembers.invite(
+                memberEditor.event.id,
+                { email: memberEditor.email.trim(), role: memberEditor.role },
+                userEmail || ''
+            );
+            setMemberEditor(prev => prev && {
+                ...prev,
+                members: [...prev.members.filter(existing => existing.email !== member.email), member],
+                email: ''
+            });
+        } catch (error) {
+            console.error('Error inviting member:', error);
+            alert(error instanceof Error ? error.message : 'Failed to send the invitation. Please try again.');
+        } finally {
+            setIsSavingMembers(false);
+        }
+    };
+
+    const handleMemberRoleChange = async (member: EventMember, role: EventMember['role']) => {
+        try {
+            const updated = await repositories.eventMembers.setRole(member.eventId, member.email, role);
+            setMemberEditor(prev => prev && {
+                ...prev,
+                members: prev.members.map(existing => existing.email === updated.email ? updated : existing)
+            });
+        } catch (error) {
+            console.error('Error changing member role:', error);
+            alert(error instanceof Error ? error.message : 'Failed to change the role. Please try again.');
+        }
+    };
+
+    const handleRemoveMember = async (member: EventMember) => {
+        if (!window.confirm(`Remove ${member.email} from this event?`)) return;
+        try {
+            await repositories.eventMembers.remove(member.eventId, member.email);
+            setMemberEditor(prev => prev && {
+                ...prev,
+                members: prev.members.filter(existing => existing.email !== member.email)
+            });
+        } catch (error) {
+            console.error('Error removing member:', error);
+            alert(error instanceof Error ? error.message : 'Failed to remove the member. Please try again.');
+        }
+    };
+
+    const handleAcceptInvitation = async (member: EventMember) => {
+        try {
+            await repositories.eventMembers.accept(member.eventId, member.email);
+            await loadSharedEvents();
+        } catch (error) {
+            console.error('Error accepting invitation:', error);
+            alert(error instanceof Error ? error.message : 'Failed to accept the invitation. Please try again.');
+        }
+    };
+
+    // Declines an invitation, or leaves an event the user is a member of
+    const handleLeaveEvent = async (member: EventMember) => {
+        const question = member.status === 'invited' ? 'Decline this invitation?' : 'Leave this event? You will need a new invitation to rejoin.';
+        if (!window.confirm(question)) return;
+        try {
+            await repositories.eventMembers.remove(member.eventId, member.email);
+            await loadSharedEvents();
+        } catch (error) {
+            console.error('Error leaving event:', error);
+            alert(error instanceof Error ? error.message : 'Failed to leave the event. Please try again.');
+        }
+    };
+
     const handleDeleteClick = (eventId: string, userEmail: string) => {
         setDeleteConfirmation({isOpen: true, eventId, userEmail});
     };
@@ -570,6 +826,16 @@ const EventDashboard = (props: EventDashboardProps) => {
                                         required
                                     />
                                 </div>
+                                <label className="flex items-center text-blue-700 text-sm" htmlFor="eventIsDraft">
+                                    <input
+                                        type="checkbox"
+                                        id="eventIsDraft"
+                                        checked={Boolean(newEvent.isDraft)}
+                                        onChange={(e) => setNewEvent({ ...newEvent, isDraft: e.target.checked })}
+                                        className="mr-2"
+                                    />
+                                    Save as draft (guests cannot join until you publish it)
+                                </label>
 
                                 <button
                                     type="submit"
@@ -590,7 +856,11 @@ const EventDashboard = (props: EventDashboardProps) => {
                     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
                         <div className="bg-white rounded-lg p-6 max-w-sm w-full">
                             <h3 className="text-xl font-bold text-gray-800 mb-4">Confirm Delete</h3>
-                            <p className="text-gray-600 mb-6">Are you sure you want to delete this event? This action cannot be undone.</p>
+                            <p className="text-gray-600 mb-6">
+                                Are you sure you want to delete this event? Guests lose access right away, and its photos,
+                                videos and guest records are permanently removed after a grace period. Until then you can
+                                restore it from the Deleted tab.
+                            </p>
                             <div className="flex justify-end space-x-4">
                                 <button
                                     onClick={() => setDeleteConfirmation({isOpen: false, eventId: '', userEmail: ''})}
@@ -609,9 +879,266 @@ const EventDashboard = (props: EventDashboardProps) => {
                     </div>
                 )}
 
-                {showAllEvents && events.length > 0 && (
+                {/* Access Policy Modal */}
+                {accessEditor && (
+                    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                        <form onSubmit={handleSaveAccess} className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+                            <h3 className="text-xl font-bold text-gray-800 mb-1">Who can access this event?</h3>
+                            <p className="text-gray-600 mb-4">{accessEditor.event.name}</p>
+                            <div className="space-y-3 mb-4">
+                                {EVENT_ACCESS_MODES.map(mode => (
+                                    <label key={mode} className="flex items-start gap-3 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="accessMode"
+                                            value={mode}
+                                            checked={accessEditor.mode === mode}
+                                            onChange={() => setAccessEditor({ ...accessEditor, mode })}
+                                            className="mt-1"
+                                        />
+                                        <span>
+                                            <span className="block font-medium text-gray-800">{ACCESS_MODE_LABELS[mode]}</span>
+                                            <span className="block text-sm text-gray-600">{ACCESS_MODE_DESCRIPTIONS[mode]}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                            {accessEditor.mode === 'password' && (
+                                <input
+                                    type="password"
+                                    value={accessEditor.password}
+                                    onChange={(e) => setAccessEditor({ ...accessEditor, password: e.target.value })}
+                                    placeholder={accessEditor.event.access?.hasPassword
+                                        ? 'Leave empty to keep the current password'
+                                        : `Password, at least ${MIN_EVENT_PASSWORD_LENGTH} characters`}
+                                    minLength={MIN_EVENT_PASSWORD_LENGTH}
+                                    required={!accessEditor.event.access?.hasPassword}
+                                    autoComplete="new-password"
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            )}
+                            {accessEditor.mode === 'invite' && (
+                                <textarea
+                                    value={accessEditor.allowList}
+                                    onChange={(e) => setAccessEditor({ ...accessEditor, allowList: e.target.value })}
+                                    placeholder="One email address or phone number per line"
+                                    rows={5}
+                                    required
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            )}
+                            <div className="flex justify-end space-x-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setAccessEditor(null)}
+                                    className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors duration-200"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isSavingAccess}
+                                    className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50"
+                                >
+                                    {isSavingAccess ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                )}
+
+                {/* Match Thresholds Modal */}
+                {matchingEditor && (
+                    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                        <form onSubmit={handleSaveMatching} className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+                            <h3 className="text-xl font-bold text-gray-800 mb-1">How closely should faces match?</h3>
+                            <p className="text-gray-600 mb-4">{matchingEditor.event.name}</p>
+                            <div className="space-y-3 mb-4">
+                                {(['strict', 'standard', 'lenient', 'custom'] as const).map(preset => (
+                                    <label key={preset} className="flex items-start gap-3 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="matchPreset"
+                                            value={preset}
+                                            checked={matchingEditor.preset === preset}
+                                            onChange={() => handleSelectMatchPreset(preset)}
+                                            className="mt-1"
+                                        />
+                                        <span>
+                                            <span className="block font-medium text-gray-800">{MATCH_PRESET_LABELS[preset]}</span>
+                                            <span className="block text-sm text-gray-600">{MATCH_PRESET_DESCRIPTIONS[preset]}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                            {matchingEditor.preset === 'custom' && (
+                                <div className="grid grid-cols-2 gap-3 mb-4">
+                                    <label className="text-sm text-gray-700">
+                                        Confident from
+                                        <input
+                                            type="number"
+                                            min={matchingEditor.possible}
+                                            max={100}
+                                            value={matchingEditor.confident}
+                                            onChange={(e) => setMatchingEditor({ ...matchingEditor, confident: Number(e.target.value) })}
+                                            required
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg mt-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </label>
+                                    <label className="text-sm text-gray-700">
+                                        Possible from
+                                        <input
+                                            type="number"
+                                            min={MIN_POSSIBLE_SIMILARITY}
+                                            max={matchingEditor.confident}
+                                            value={matchingEditor.possible}
+                                            onChange={(e) => setMatchingEditor({ ...matchingEditor, possible: Number(e.target.value) })}
+                                            required
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg mt-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </label>
+                                </div>
+                            )}
+                            <p className="text-sm text-gray-600 mb-4">
+                                Photos with a similarity of {matchingEditor.confident}% or more are added to the guest's photos.
+                                From {matchingEditor.possible}%, the guest is asked whether it is them. Applies to matches from now on.
+                            </p>
+                            <div className="flex justify-end space-x-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setMatchingEditor(null)}
+                                    className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors duration-200"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isSavingMatching}
+                                    className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50"
+                                >
+                                    {isSavingMatching ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                )}
+
+                {/* Members Modal */}
+                {memberEditor && (
+                    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                        <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-auto">
+                            <div className="flex justify-between items-start mb-4">
+                                <div>
+                                    <h3 className="text-xl font-bold text-gray-800 mb-1">Event team</h3>
+                                    <p className="text-gray-600">{memberEditor.event.name}</p>
+                                </div>
+                                <button onClick={() => setMemberEditor(null)} className="text-black hover:text-gray-700" title="Close">
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </div>
+                            {memberEditor.members.length === 0 ? (
+                                <p className="text-gray-600 mb-4">Nobody else has been invited yet.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200 mb-4">
+                                    {memberEditor.members.map(member => (
+                                        <li key={member.email} className="py-2 flex items-center justify-between gap-2">
+                                            <span className="min-w-0">
+                                                <span className="block text-gray-800 truncate">{member.email}</span>
+                                                {member.status === 'invited' && (
+                                                    <span className="block text-xs text-gray-500">Invitation sent {formatDateTime(member.invitedAt)}</span>
+                                                )}
+                                            </span>
+                                            <span className="flex items-center gap-2 flex-shrink-0">
+                                                <select
+                                                    value={member.role}
+                                                    onChange={(e) => handleMemberRoleChange(member, e.target.value as EventMember['role'])}
+                                                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                                                >
+                                                    {INVITABLE_EVENT_ROLES.map(role => (
+                                                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => handleRemoveMember(member)}
+                                                    className="text-gray-500 hover:text-gray-800"
+                                                    title={member.status === 'invited' ? 'Withdraw invitation' : 'Remove from event'}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <form onSubmit={handleInviteMember} className="space-y-3">
+                                <input
+                                    type="email"
+                                    value={memberEditor.email}
+                                    onChange={(e) => setMemberEditor({ ...memberEditor, email: e.target.value })}
+                                    placeholder="Email address to invite"
+                                    required
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <select
+                                    value={memberEditor.role}
+                                    onChange={(e) => setMemberEditor({ ...memberEditor, role: e.target.value as EventMember['role'] })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                                >
+                                    {INVITABLE_EVENT_ROLES.map(role => (
+                                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                    ))}
+                                </select>
+                                <p className="text-sm text-gray-600">{ROLE_DESCRIPTIONS[memberEditor.role]}</p>
+                                <div className="flex justify-end">
+                                    <button
+                                        type="submit"
+                                        disabled={isSavingMembers}
+                                        className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50"
+                                    >
+                                        {isSavingMembers ? 'Inviting...' : 'Send invitation'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                )}
+
+                {deletedEvent && (
+                    <div className="mt-4 flex flex-wrap items-center justify-between gap-2 bg-yellow-100 border border-yellow-400 text-yellow-900 px-4 py-3 rounded-lg">
+                        <span>
+                            "{deletedEvent.name}" was deleted and will be permanently removed on{' '}
+                            {formatDateTime(deletedEvent.purgeAfter || '')}.
+                        </span>
+                        <div className="flex gap-3">
+                            <button onClick={() => handleRestore(deletedEvent.id)} className="font-semibold underline">
+                                Undo
+                            </button>
+                            <button onClick={() => setDeletedEvent(null)} title="Dismiss">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {showAllEvents && (events.length > 0 || statusFilter !== 'all') && (
                     <div className="mt-4 sm:mt-8">
                         <h2 className="text-xl sm:text-2xl font-bold text-blue-900 mb-4 sm:mb-6">All Events</h2>
+                        <div className="flex flex-wrap gap-2 mb-4 sm:mb-6">
+                            {(['all', ...EVENT_STATUSES, 'deleted'] as StatusFilter[]).map(filter => (
+                                <button
+                                    key={filter}
+                                    onClick={() => handleStatusFilterChange(filter)}
+                                    className={`px-3 sm:px-4 py-1.5 rounded-full text-sm sm:text-base transition-colors duration-200 ${
+                                        statusFilter === filter ? 'bg-blue-500 text-white' : 'bg-blue-100 text-blue-900 hover:bg-blue-200'
+                                    }`}
+                                >
+                                    {FILTER_LABELS[filter]}
+                                </button>
+                            ))}
+                        </div>
+                        {events.length === 0 && (
+                            <p className="text-gray-600 mb-4">No {statusFilter !== 'all' ? FILTER_LABELS[statusFilter].toLowerCase() : ''} events.</p>
+                        )}
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-8">
                             {Array.isArray(events) && events.map((event) => (
                                 <div key={event.id} className="bg-blue-200 rounded-lg shadow-md border-2 border-blue-700 overflow-hidden">
@@ -623,25 +1150,86 @@ const EventDashboard = (props: EventDashboardProps) => {
                                         )}
                                     </div>
                                     <div className="p-2 sm:p-6">
-                                        <h3 className="text-base sm:text-2xl font-semibold text-blue-800 mb-1 sm:mb-3">{event.name}</h3>
+                                        <div className="flex items-start justify-between gap-2 mb-1 sm:mb-3">
+                                            <h3 className="text-base sm:text-2xl font-semibold text-blue-800">{event.name}</h3>
+                                            <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs sm:text-sm font-medium ${STATUS_BADGE_COLORS[getEventStatus(event)]}`}>
+                                                {FILTER_LABELS[getEventStatus(event)]}
+                                            </span>
+                                        </div>
                                         <div className="flex items-center mb-1 sm:mb-3">
                                             <span className="text-sm sm:text-base font-medium text-gray-700 mr-2">Event Code:</span>
                                             <div className="bg-blue-100 px-2 py-1 rounded-md flex items-center">
-                                                <span className="text-sm sm:text-base font-mono">{event.id}</span>
+                                                <span className="text-sm sm:text-base font-mono">{formatEventCode(event.id)}</span>
                                                 <button 
-                                                    onClick={() => handleCopyEventId(event.id)}
+                                                    onClick={() => handleCopyEventId(formatEventCode(event.id))}
                                                     className="ml-2 text-blue-700 hover:text-blue-900"
                                                     title="Copy event code"
                                                 >
                                                     <Copy className="w-4 h-4" />
                                                 </button>
-                                                {copiedEventId === event.id && (
+                                                {copiedEventId === formatEventCode(event.id) && (
                                                     <span className="ml-2 text-xs text-green-600">Copied!</span>
                                                 )}
                                             </div>
                                         </div>
                                         <p className="text-sm sm:text-lg text-black-600 mb-1 sm:mb-3">{new Date(event.date).toLocaleDateString()}</p>
                                         <p className="text-xs sm:text-base text-black-500 mb-2 sm:mb-4 line-clamp-2">{event.description}</p>
+                                        {event.deletedAt ? (
+                                            <div className="text-sm sm:text-base text-gray-700">
+                                                {event.purgedAt ? (
+                                                    <p>{describeDeletion(event)}</p>
+                                                ) : event.purgeStartedAt ? (
+                                                    <p>Being permanently deleted...</p>
+                                                ) : (
+                                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                                        <p>Will be permanently deleted on {formatDateTime(event.purgeAfter || '')}</p>
+                                                        <button
+                                                            onClick={() => handleRestore(event.id)}
+                                                            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 text-sm sm:text-base"
+                                                        >
+                                                            Restore
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ) : (
+                                        <>
+                                        <div className="flex flex-wrap gap-2 mb-1 sm:mb-2">
+                                            {EVENT_STATUS_TRANSITIONS[getEventStatus(event)].map(status => (
+                                                <button
+                                                    key={status}
+                                                    onClick={() => handleStatusChange(event, status)}
+                                                    disabled={changingStatusId === event.id}
+                                                    className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    {statusActionLabel(getEventStatus(event), status)}
+                                                </button>
+                                            ))}
+                                            <button
+                                                onClick={() => handleOpenAccessEditor(event)}
+                                                className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                title="Who can access this event"
+                                            >
+                                                <Lock className="w-3 h-3 mr-1" />
+                                                {ACCESS_MODE_LABELS[getEventAccess(event).mode]}
+                                            </button>
+                                            <button
+                                                onClick={() => handleOpenMatchingEditor(event)}
+                                                className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                title="How closely faces must match guests' selfies"
+                                            >
+                                                <SlidersHorizontal className="w-3 h-3 mr-1" />
+                                                Matching: {MATCH_PRESET_LABELS[matchPresetOf(event)]}
+                                            </button>
+                                            <button
+                                                onClick={() => handleOpenMembers(event)}
+                                                className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                title="Invite co-organizers, photographers and viewers"
+                                            >
+                                                <Users className="w-3 h-3 mr-1" />
+                                                Team
+                                            </button>
+                                        </div>
                                         <div className="flex justify-between items-center">
                                             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 sm:gap-6"></div>
                                             <div className="mt-2 sm:mt-4 flex justify-end space-x-3 sm:space-x-4">
@@ -660,10 +1248,138 @@ const EventDashboard = (props: EventDashboardProps) => {
                                                 </button>
                                             </div>
                                         </div>
+                                        </>
+                                        )}
                                     </div>
                                 </div>
                             ))}
                         </div>
+                        {nextCursor && (
+                            <div className="flex justify-center mt-6 sm:mt-8">
+                                <button
+                                    onClick={loadMoreEvents}
+                                    disabled={isLoadingMore}
+                                    className="bg-blue-500 text-white px-6 py-2.5 rounded-lg hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isLoadingMore ? 'Loading...' : 'Load more events'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {sharedEvents.members.length > 0 && (
+                    <div className="mt-8 sm:mt-12">
+                        <h2 className="text-xl sm:text-2xl font-bold text-blue-900 mb-4 sm:mb-6">Shared With You</h2>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-8">
+                            {sharedEvents.members.map(member => {
+                                const event = sharedEvents.events.find(shared => shared.id === member.eventId);
+                                if (!event) return null;
+                                const role = member.status === 'active' ? member.role : null;
+                                return (
+                                    <div
+                                        key={event.id}
+                                        className={`bg-white rounded-lg shadow-md border-2 p-3 sm:p-6 ${
+                                            invitedEventId === event.id && member.status === 'invited' ? 'border-green-500' : 'border-blue-300'
+                                        }`}
+                                    >
+                                        <div className="flex items-start justify-between gap-2 mb-1 sm:mb-3">
+                                            <h3 className="text-base sm:text-2xl font-semibold text-blue-800">{event.name}</h3>
+                                            <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs sm:text-sm font-medium bg-blue-100 text-blue-800">
+                                                {ROLE_LABELS[member.role]}
+                                            </span>
+                                        </div>
+                                        <p className="text-sm sm:text-lg text-black-600 mb-1 sm:mb-3">{new Date(event.date).toLocaleDateString()}</p>
+                                        {member.status === 'invited' ? (
+                                            <>
+                                                <p className="text-sm text-gray-700 mb-3">
+                                                    {member.invitedBy} invited you as {ROLE_LABELS[member.role].toLowerCase()}.
+                                                </p>
+                                                <div className="flex gap-3">
+                                                    <button
+                                                        onClick={() => handleAcceptInvitation(member)}
+                                                        className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 text-sm sm:text-base"
+                                                    >
+                                                        Accept
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleLeaveEvent(member)}
+                                                        className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors duration-200 text-sm sm:text-base"
+                                                    >
+                                                        Decline
+                                                    </button>
+                                                </div>
+                                            </>
+                                        ) : (
+                                            <>
+                                                {hasEventPermission(role, 'manage') && (
+                                                    <div className="flex flex-wrap gap-2 mb-2">
+                                                        {EVENT_STATUS_TRANSITIONS[getEventStatus(event)].map(status => (
+                                                            <button
+                                                                key={status}
+                                                                onClick={() => handleStatusChange(event, status)}
+                                                                disabled={changingStatusId === event.id}
+                                                                className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                                            >
+                                                                {statusActionLabel(getEventStatus(event), status)}
+                                                            </button>
+                                                        ))}
+                                                        <button
+                                                            onClick={() => handleOpenAccessEditor(event)}
+                                                            className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                            title="Who can access this event"
+                                                        >
+                                                            <Lock className="w-3 h-3 mr-1" />
+                                                            {ACCESS_MODE_LABELS[getEventAccess(event).mode]}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleOpenMatchingEditor(event)}
+                                                            className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                            title="How closely faces must match guests' selfies"
+                                                        >
+                                                            <SlidersHorizontal className="w-3 h-3 mr-1" />
+                                                            Matching: {MATCH_PRESET_LABELS[matchPresetOf(event)]}
+                                                        </button>
+                                                        {hasEventPermission(role, 'members') && (
+                                                            <button
+                                                                onClick={() => handleOpenMembers(event)}
+                                                                className="bg-white text-blue-800 border border-blue-500 px-3 py-1 rounded-lg hover:bg-blue-100 transition-colors duration-200 text-sm flex items-center"
+                                                                title="Invite co-organizers, photographers and viewers"
+                                                            >
+                                                                <Users className="w-3 h-3 mr-1" />
+                                                                Team
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )}
+                                                <div className="flex flex-wrap justify-end gap-3 mt-2 sm:mt-4">
+                                                    <button
+                                                        onClick={() => handleLeaveEvent(member)}
+                                                        className="px-3 py-2 text-gray-600 hover:text-gray-800 transition-colors duration-200 text-sm sm:text-base"
+                                                    >
+                                                        Leave
+                                                    </button>
+                                                    {hasEventPermission(role, 'upload') && (
+                                                        <Link
+                                                            to={`/upload-image?eventId=${event.id}`}
+                                                            className="bg-blue-300 text-black px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 text-sm sm:text-base"
+                                                        >
+                                                            Upload
+                                                        </Link>
+                                                    )}
+                                                    <Link
+                                                        to={`/event/${event.id}`}
+                                                        className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors duration-200 text-sm sm:text-base"
+                                                    >
+                                                        View Event
+                                                    </Link>
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
                     </div>
                 )}
             </div>
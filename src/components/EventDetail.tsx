@@ -3,7 +3,9 @@ import { Link } from 'react-router-dom';
 import { Camera, QrCode, Share2, Download, Upload } from 'lucide-react';
 import EventImages from './EventImages';
 import EventVideos from './EventVideos';
-import { getEventById, EventData } from '../config/eventStorage';
+import { repositories } from '../repositories';
+import { getMyEventRole } from '../services/eventMembers';
+import type { EventData, EventRole } from '../../shared/types';
 
 interface EventDetailProps {
   eventId: string;
@@ -34,13 +36,15 @@ const EventActionBar = () => {
 
 const EventDetail = ({ eventId }: EventDetailProps) => {
   const [event, setEvent] = useState<EventData | null>(null);
+  const [role, setRole] = useState<EventRole | null>(null);
 
   useEffect(() => {
     const loadEventDetails = async () => {
       try {
-        const currentEvent = await getEventById(eventId);
+        const currentEvent = await repositories.events.get(eventId);
         if (currentEvent) {
           setEvent(currentEvent);
+          setRole(await getMyEventRole(currentEvent));
         }
       } catch (error) {
         console.error('Error loading event details:', error);
@@ -76,7 +80,7 @@ const EventDetail = ({ eventId }: EventDetailProps) => {
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold text-blue-900">Event Images</h2>
           </div>
-          <EventImages eventId={eventId} />
+          <EventImages eventId={eventId} role={role} />
         </div>
 
         <div className="bg-white rounded-lg shadow-md p-6">
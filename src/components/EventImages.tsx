@@ -1,14 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { ListObjectsV2Command, GetObjectCommand, DeleteObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
-import { Upload } from '@aws-sdk/lib-storage';
-import { s3Client, S3_BUCKET_NAME, rekognitionClient } from '../config/aws';
-import { region as awsRegion } from '../config/aws';
-import { DetectFacesCommand, CompareFacesCommand } from '@aws-sdk/client-rekognition';
 import { Download, Trash2, Camera } from 'lucide-react';
-import { getEventById, updateEventData } from '../config/eventStorage';
+import { deleteEventImage, listEventImages, uploadEventImage } from '../services/media';
+import { hasEventPermission } from '../../shared/eventRoles';
+import type { EventRole } from '../../shared/types';
 
 interface EventImagesProps {
   eventId: string;
+  // The viewer's role for the event; uploading and deleting are offered by it
+  role: EventRole | null;
 }
 
 interface ProcessedImage {
@@ -23,7 +22,7 @@ interface ProcessedImage {
   };
 }
 
-const EventImages = ({ eventId }: EventImagesProps) => {
+const EventImages = ({ eventId, role }: EventImagesProps) => {
   const [images, setImages] = useState<ProcessedImage[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingStatus, setProcessingStatus] = useState('');
@@ -36,29 +35,19 @@ const EventImages = ({ eventId }: EventImagesProps) => {
   const fetchEventImages = async (pageNum = 1) => {
     try {
       setLoading(true);
-      const listCommand = new ListObjectsV2Command({
-        Bucket: S3_BUCKET_NAME,
-        Prefix: `events/shared/${eventId}/images/`,
-        MaxKeys: IMAGES_PER_PAGE,
-        StartAfter: pageNum > 1 ? `events/shared/${eventId}/images/${(pageNum - 1) * IMAGES_PER_PAGE}` : undefined
-      });
+      const items = await listEventImages(eventId);
+      const visibleCount = pageNum * IMAGES_PER_PAGE;
   
-      const result = await s3Client.send(listCommand);
-      if (!result.Contents) {
-        setHasMore(false);
-        return;
-      }
-  
-      const imageItems = result.Contents
-        .filter(item => item.Key && item.Key.match(/\.(jpg|jpeg|png)$/i))
+      const imageItems = items
+        .slice(0, visibleCount)
         .map(item => ({
-          url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${item.Key}`,
-          key: item.Key || '',
+          url: item.url,
+          key: item.key,
           hasFace: false
         }));
   
-      setImages(prev => pageNum === 1 ? imageItems : [...prev, ...imageItems]);
-      setHasMore(imageItems.length === IMAGES_PER_PAGE);
+      setImages(imageItems);
+      setHasMore(items.length > visibleCount);
       setProcessingStatus('');
     } catch (error) {
       console.error('Error fetching event images:', error);
@@ -94,23 +83,8 @@ const EventImages = ({ eventId }: EventImagesProps) => {
   const handleDelete = async (image: ProcessedImage) => {
     try {
       setDeleting(prev => [...prev, image.key]);
-      const deleteCommand = new DeleteObjectCommand({
-        Bucket: S3_BUCKET_NAME,
-        Key: image.key
-      });
-      await s3Client.send(deleteCommand);
+      await deleteEventImage(eventId, image.key);
       setImages(prev => prev.filter(img => img.key !== image.key));
-      
-      // Also update the photoCount in DynamoDB (decrement by 1)
-      const userEmail = localStorage.getItem('userEmail');
-      if (userEmail) {
-        const currentEvent = await getEventById(eventId);
-        if (currentEvent && currentEvent.photoCount > 0) {
-          await updateEventData(eventId, userEmail, {
-            photoCount: currentEvent.photoCount - 1
-          });
-        }
-      }
     } catch (error) {
       console.error('Error deleting image:', error);
     } finally {
@@ -188,33 +162,9 @@ const EventImages = ({ eventId }: EventImagesProps) => {
         
         // Compress image before upload
         const compressedFile = await compressImage(file);
-        const key = `events/shared/${eventId}/images/${Date.now()}-${file.name}`;
-        
         setProcessingStatus(`Uploading image ${i + 1} of ${files.length}...`);
         
-        const upload = new Upload({
-          client: s3Client,
-          params: {
-            Bucket: S3_BUCKET_NAME,
-            Key: key,
-            Body: compressedFile,
-            ContentType: file.type,
-            CacheControl: 'max-age=31536000' // Cache for 1 year
-          },
-          queueSize: 4,
-          partSize: 1024 * 1024 * 5,
-          leavePartsOnError: false
-        });
-  
-        await upload.done();
-      }
-      
-      // Update the photoCount in DynamoDB
-      const currentEvent = await getEventById(eventId);
-      if (currentEvent) {
-        await updateEventData(eventId, userEmail, {
-          photoCount: (currentEvent.photoCount || 0) + files.length
-        });
+        await uploadEventImage(eventId, compressedFile, file.name);
       }
   
       // Refresh only the latest page of images
@@ -265,14 +215,16 @@ const EventImages = ({ eventId }: EventImagesProps) => {
               >
                 <Download className="w-4 h-4 text-gray-700" />
               </button>
-              <button
-                onClick={() => handleDelete(image)}
-                className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200"
-                disabled={deleting.includes(image.key)}
-                title="Delete image"
-              >
-                <Trash2 className="w-4 h-4 text-blue-500" />
-              </button>
+              {hasEventPermission(role, 'remove-media') && (
+                <button
+                  onClick={() => handleDelete(image)}
+                  className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200"
+                  disabled={deleting.includes(image.key)}
+                  title="Delete image"
+                >
+                  <Trash2 className="w-4 h-4 text-blue-500" />
+                </button>
+              )}
             </div>
             {deleting.includes(image.key) && (
               <div className="absolute inset-0 bg-black bg-opacity-50 rounded-lg flex items-center justify-center">
@@ -289,17 +241,19 @@ const EventImages = ({ eventId }: EventImagesProps) => {
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 sm:gap-6 mb-4 sm:mb-6">
         <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Event Photos</h2>
-        <label className="cursor-pointer bg-primary text-white py-2 px-3 sm:px-4 rounded-lg hover:bg-secondary transition-colors duration-200 flex items-center text-sm sm:text-base whitespace-nowrap w-full sm:w-auto justify-center">
-          <Camera className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
-          Upload Photos
-          <input
-            type="file"
-            accept="image/*"
-            multiple
-            className="hidden"
-            onChange={handleImageUpload}
-          />
-        </label>
+        {hasEventPermission(role, 'upload') && (
+          <label className="cursor-pointer bg-primary text-white py-2 px-3 sm:px-4 rounded-lg hover:bg-secondary transition-colors duration-200 flex items-center text-sm sm:text-base whitespace-nowrap w-full sm:w-auto justify-center">
+            <Camera className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            Upload Photos
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={handleImageUpload}
+            />
+          </label>
+        )}
       </div>
       {processingStatus && (
         <div className="bg-blue-50 text-blue-700 p-3 rounded-lg mb-4">
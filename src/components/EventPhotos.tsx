@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Image as ImageIcon, Download, X } from 'lucide-react';
-import { getEventById } from '../config/eventStorage';
-import { getAllAttendeeImagesByUser } from '../config/attendeeStorage';
+import { createAttendeeArchiveLink, downloadArchive } from '../services/archives';
+import { downloadFile } from '../services/downloads';
+import { describeEventAccessDenial, getEventAccessDenial } from '../services/eventAccess';
+import { repositories } from '../repositories';
 
 interface Event {
   id: string;
@@ -24,7 +26,11 @@ const EventPhotos: React.FC = () => {
   const [event, setEvent] = useState<Event | null>(null);
   const [images, setImages] = useState<MatchingImage[]>([]);
   const [loading, setLoading] = useState(true);
+  // Why the event's access policy keeps this guest out
+  const [accessError, setAccessError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<MatchingImage | null>(null);
+  // Percentage of the ZIP received while a Download All is in progress
+  const [archiveProgress, setArchiveProgress] = useState<number | null>(null);
 
   // Toggle header and footer visibility
   const toggleHeaderFooter = (visible: boolean) => {
@@ -60,7 +66,7 @@ const EventPhotos: React.FC = () => {
         }
 
         // Get event details
-        const eventDetails = await getEventById(eventId || '');
+        const eventDetails = await repositories.events.get(eventId || '');
         if (!eventDetails) {
           console.error('Event not found');
           navigate('/attendee-dashboard');
@@ -69,7 +75,7 @@ const EventPhotos: React.FC = () => {
         setEvent(eventDetails);
 
         // Get all attendee images
-        const attendeeImageData = await getAllAttendeeImagesByUser(userEmail);
+        const attendeeImageData = await repositories.attendeeImages.listByUser(userEmail);
         
         // Filter images for this event
         const eventImages = attendeeImageData
@@ -86,7 +92,17 @@ const EventPhotos: React.FC = () => {
 
         setImages(eventImages);
       } catch (error) {
-        console.error('Error fetching event photos:', error);
+        const denial = getEventAccessDenial(error);
+        if (denial === 'EVENT_PASSWORD_REQUIRED') {
+          // The dashboard asks for the password
+          navigate(`/attendee-dashboard?eventId=${encodeURIComponent(eventId || '')}`);
+          return;
+        }
+        if (denial) {
+          setAccessError(describeEventAccessDenial(denial));
+        } else {
+          console.error('Error fetching event photos:', error);
+        }
       } finally {
         setLoading(false);
       }
@@ -95,71 +111,18 @@ const EventPhotos: React.FC = () => {
     fetchEventPhotos();
   }, [eventId, navigate]);
 
-  const handleDownload = async (url: string) => {
-    try {
-      // Fetch the image with appropriate headers
-      const response = await fetch(url, {
-        headers: {
-          'Cache-Control': 'no-cache',
-        },
-        mode: 'cors',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-      
-      // Get the content type
-      const contentType = response.headers.get('content-type') || 'image/jpeg';
-      
-      // Get the image as a blob
-      const blob = await response.blob();
-      
-      // Create a blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-      
-      // Extract filename from URL
-      const filename = url.split('/').pop() || 'photo.jpg';
-      
-      // Create a temporary anchor element
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = filename;
-      link.type = contentType;
-      link.target = '_blank';
-      
-      // Required for Firefox
-      document.body.appendChild(link);
-      
-      // Trigger the download
-      link.click();
-      
-      // Cleanup
-      setTimeout(() => {
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(blobUrl);
-      }, 100);
-    } catch (error) {
-      console.error('Error downloading image:', error);
-      // If download fails, open the image in a new tab
-      window.open(url, '_blank');
-    }
-  };
-
   const handleDownloadAll = async () => {
+    const userEmail = localStorage.getItem('userEmail');
+    if (!userEmail) return;
     try {
-      // Show a message that downloads are starting
-      alert('Starting downloads. Please allow multiple downloads in your browser settings.');
-      
-      // Download each image with a small delay to prevent browser blocking
-      for (const image of images) {
-        await handleDownload(image.imageUrl);
-        // Add a small delay between downloads
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      setArchiveProgress(0);
+      const link = await createAttendeeArchiveLink(userEmail, eventId);
+      await downloadArchive(link, setArchiveProgress);
     } catch (error) {
       console.error('Error downloading all images:', error);
-      alert('Some downloads may have failed. Please try downloading individual photos.');
+      alert('Failed to prepare your download. Please try again or download individual photos.');
+    } finally {
+      setArchiveProgress(null);
     }
   };
 
@@ -197,16 +160,19 @@ const EventPhotos: React.FC = () => {
             {images.length > 0 && (
               <button
                 onClick={handleDownloadAll}
-                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                disabled={archiveProgress !== null}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
               >
                 <Download className="h-4 w-4 mr-2" />
-                Download All
+                {archiveProgress !== null ? `Preparing ZIP ${archiveProgress}%` : 'Download All'}
               </button>
             )}
           </div>
         </div>
 
-        {images.length > 0 ? (
+        {accessError ? (
+          <div className="bg-red-50 text-red-600 p-4 rounded-lg">{accessError}</div>
+        ) : images.length > 0 ? (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {images.map((image) => (
               <div
@@ -228,7 +194,7 @@ const EventPhotos: React.FC = () => {
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleDownload(image.imageUrl);
+                      downloadFile(image.imageUrl);
                     }}
                     className="absolute top-2 right-2 p-2 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
                   >
@@ -273,7 +239,7 @@ const EventPhotos: React.FC = () => {
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  handleDownload(selectedImage.imageUrl);
+                  downloadFile(selectedImage.imageUrl);
                 }}
                 className="absolute bottom-4 right-4 p-2 rounded-full bg-black/10 text-white hover:bg-black/70 transition-colors duration-200 flex items-center gap-2"
               >
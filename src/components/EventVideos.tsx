@@ -1,8 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ListObjectsV2Command } from '@aws-sdk/client-s3';
-import { Upload } from '@aws-sdk/lib-storage';
-import { s3Client, S3_BUCKET_NAME } from '../config/aws';
-import { getEventById, updateEventData } from '../config/eventStorage';
+import { listEventVideos, uploadEventVideo } from '../services/media';
 import { Video, Upload as UploadIcon } from 'lucide-react';
 
 interface EventVideosProps {
@@ -30,21 +27,12 @@ const EventVideos = ({ eventId }: EventVideosProps) => {
       const userEmail = localStorage.getItem('userEmail');
       if (!userEmail) throw new Error('User not authenticated');
 
-      const listCommand = new ListObjectsV2Command({
-        Bucket: S3_BUCKET_NAME,
-        Prefix: `events/shared/${eventId}/videos/`
-      });
-
-      const result = await s3Client.send(listCommand);
-      if (!result.Contents) return;
-
-      const videoItems = result.Contents
-        .filter(item => item.Key && item.Key.match(/\.(mp4|mov|avi|wmv)$/i))
-        .map(item => ({
-          url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${item.Key}`,
-          name: item.Key?.split('/').pop() || 'Untitled',
-          uploadDate: item.LastModified?.toLocaleDateString() || ''
-        }));
+      const items = await listEventVideos(eventId);
+      const videoItems = items.map(item => ({
+        url: item.url,
+        name: item.name,
+        uploadDate: item.lastModified ? new Date(item.lastModified).toLocaleDateString() : ''
+      }));
 
       setVideos(videoItems);
     } catch (error) {
@@ -65,34 +53,7 @@ const EventVideos = ({ eventId }: EventVideosProps) => {
     setUploadProgress(0);
 
     try {
-      const key = `events/shared/${eventId}/videos/${file.name}`;
-
-      const upload = new Upload({
-        client: s3Client,
-        params: {
-          Bucket: S3_BUCKET_NAME,
-          Key: key,
-          Body: file,
-          ContentType: file.type,
-        },
-      });
-
-      upload.on('httpUploadProgress', (progress) => {
-        const percentage = Math.round((progress.loaded || 0) * 100 / (progress.total || 1));
-        setUploadProgress(percentage);
-      });
-
-      await upload.done();
-      
-      // Update event video count
-      const currentEvent = await getEventById(eventId);
-      
-      if (currentEvent) {
-        await updateEventData(eventId, userEmail, {
-          videoCount: (currentEvent.videoCount || 0) + 1
-        });
-      }
-      
+      await uploadEventVideo(eventId, file, setUploadProgress);
       await fetchEventVideos();
     } catch (error) {
       console.error('Error uploading video:', error);
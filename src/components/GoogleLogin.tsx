@@ -1,30 +1,24 @@
 import React from 'react';
 import { GoogleLogin as GoogleLoginButton } from '@react-oauth/google';
-import { storeUserCredentials, getUserByEmail, queryUserByEmail } from '../config/dynamodb';
-import { jwtDecode as jwt_decode } from 'jwt-decode';
+import { repositories } from '../repositories';
+import { signIn } from '../services/session';
 
 interface GoogleLoginProps {
   onSuccess: (credentialResponse: any) => void;
   onError: () => void;
 }
 
-interface GoogleUserData {
-  email: string;
-  name: string;
-  picture: string;
-  sub: string;
-}
-
 const GoogleLogin: React.FC<GoogleLoginProps> = ({ onSuccess, onError }) => {
   const handleSuccess = async (credentialResponse: any) => {
     try {
-      const decoded: GoogleUserData = jwt_decode(credentialResponse.credential);
+      // The API server checks the credential with Google and starts a session
+      const signedIn = await signIn({ method: 'google', credential: credentialResponse.credential });
       
       // Check if user already exists using both methods
-      let existingUser = await getUserByEmail(decoded.email);
+      let existingUser = await repositories.users.get(signedIn.email);
       
       if (!existingUser) {
-        existingUser = await queryUserByEmail(decoded.email);
+        existingUser = await repositories.users.findByEmail(signedIn.email);
       }
       
       // Check if there was a pending action before login
@@ -35,19 +29,19 @@ const GoogleLogin: React.FC<GoogleLoginProps> = ({ onSuccess, onError }) => {
       
       if (!existingUser) {
         // Create new user with role as organizer if pendingAction is createEvent, otherwise attendee
-        await storeUserCredentials({
-          userId: decoded.sub,
-          email: decoded.email,
-          name: decoded.name,
+        await repositories.users.save({
+          userId: signedIn.email,
+          email: signedIn.email,
+          name: signedIn.name,
           mobile: '', // Mobile will be updated later when user fills the form
           role: role
         });
       } else if (pendingAction === 'createEvent') {
         // If user exists but they're creating an event, update their role
-        await storeUserCredentials({
-          userId: decoded.sub,
-          email: decoded.email,
-          name: decoded.name,
+        await repositories.users.save({
+          userId: signedIn.email,
+          email: signedIn.email,
+          name: signedIn.name,
           mobile: existingUser.mobile || '',
           role: 'organizer'
         });
@@ -1,9 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { Camera, Users, Shield, Zap, Clock, Image, Share2, ChevronDown, ChevronUp, CheckCircle, Lock } from 'lucide-react';
-import { storeUserCredentials, getUserByEmail } from '../config/dynamodb';
-import { jwtDecode as jwt_decode } from 'jwt-decode';
+import { repositories } from '../repositories';
+import { UserContext } from '../App';
 
 interface HeroProps {
   onShowSignIn: () => void;
@@ -11,14 +11,12 @@ interface HeroProps {
 
 const Hero: React.FC<HeroProps> = ({ onShowSignIn }) => {
   const navigate = useNavigate();
+  const { user } = useContext(UserContext);
   const [showImage, setShowImage] = useState(false);
   const [openIndex, setOpenIndex] = useState<number | null>(null);
 
   const handleCreateEvent = async () => {
-    const userEmail = localStorage.getItem('userEmail');
-    const token = localStorage.getItem('googleToken');
-    
-    if (!userEmail || !token) {
+    if (!user) {
       // If user is not signed in, show sign-in modal and set pendingAction
       console.log('User not signed in, showing sign-in modal and setting pendingAction');
       
@@ -29,38 +27,32 @@ const Hero: React.FC<HeroProps> = ({ onShowSignIn }) => {
     } else {
       try {
         // User is already signed in, set their role as organizer
-        const decoded = jwt_decode<any>(token);
         console.log('User already signed in, setting organizer role and navigating to events');
         
         // First, check current user data to see role
         try {
-          const existingUser = await getUserByEmail(decoded.email);
+          const existingUser = await repositories.users.get(user.email);
           console.log('Current user data before update:', existingUser);
         } catch (checkError) {
           console.error('Error checking existing user:', checkError);
         }
         
         // Update user role to organizer
-        const updateResult = await storeUserCredentials({
-          userId: decoded.email,
-          email: decoded.email,
-          name: decoded.name,
-          mobile: localStorage.getItem('userMobile') || '',
-          role: "organizer" 
-        });
-        
-        if (updateResult) {
+        try {
+          await repositories.users.save({
+            userId: user.email,
+            email: user.email,
+            name: user.name,
+            mobile: localStorage.getItem('userMobile') || '',
+            role: "organizer" 
+          });
           console.log('Successfully updated user role to organizer');
           
           // Verify the update
-          try {
-            const updatedUser = await getUserByEmail(decoded.email);
-            console.log('User data after update:', updatedUser);
-          } catch (verifyError) {
-            console.error('Error verifying user update:', verifyError);
-          }
-        } else {
-          console.error('Failed to update user role');
+          const updatedUser = await repositories.users.get(user.email);
+          console.log('User data after update:', updatedUser);
+        } catch (updateError) {
+          console.error('Failed to update user role:', updateError);
         }
         
         // Set pendingAction to createEvent even for logged in users
@@ -78,10 +70,7 @@ const Hero: React.FC<HeroProps> = ({ onShowSignIn }) => {
   };
 
   const handleGetPhotos = async () => {
-    const userEmail = localStorage.getItem('userEmail');
-    const token = localStorage.getItem('googleToken');
-    
-    if (!userEmail || !token) {
+    if (!user) {
       // If user is not signed in, show sign-in modal and set pendingAction
       console.log('User not signed in, showing sign-in modal and setting pendingAction');
       
@@ -91,12 +80,11 @@ const Hero: React.FC<HeroProps> = ({ onShowSignIn }) => {
     } else {
       try {
         // User is already signed in, check their role
-        const decoded = jwt_decode<any>(token);
         
         // First, check if user exists in the database
         let existingUser;
         try {
-          existingUser = await getUserByEmail(decoded.email);
+          existingUser = await repositories.users.get(user.email);
           console.log('Current user data:', existingUser);
         } catch (checkError) {
           console.error('Error checking existing user:', checkError);
@@ -106,26 +94,21 @@ const Hero: React.FC<HeroProps> = ({ onShowSignIn }) => {
         // If user doesn't exist or doesn't have a role, create/update them as attendee
         if (!existingUser || !existingUser.role) {
           console.log('User is new or has no role, setting as attendee');
-          const updateResult = await storeUserCredentials({
-            userId: decoded.email,
-            email: decoded.email,
-            name: decoded.name,
-            mobile: localStorage.getItem('userMobile') || '',
-            role: "attendee" 
-          });
-          
-          if (updateResult) {
+          try {
+            await repositories.users.save({
+              userId: user.email,
+              email: user.email,
+              name: user.name,
+              mobile: localStorage.getItem('userMobile') || '',
+              role: "attendee" 
+            });
             console.log('Successfully created/updated user as attendee');
             
             // Verify the update
-            try {
-              const updatedUser = await getUserByEmail(decoded.email);
-              console.log('User data after update:', updatedUser);
-            } catch (verifyError) {
-              console.error('Error verifying user update:', verifyError);
-            }
-          } else {
-            console.error('Failed to update user role');
+            const updatedUser = await repositories.users.get(user.email);
+            console.log('User data after update:', updatedUser);
+          } catch (updateError) {
+            console.error('Failed to update user role:', updateError);
           }
         } else {
           console.log('User already exists with role:', existingUser.role);
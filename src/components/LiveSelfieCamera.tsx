@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera } from 'lucide-react';
+import { startLivenessChallenge, verifyLiveness } from '../services/liveness';
+import type { LivenessStep, UploadResult } from '../../shared/types';
+
+export interface LiveSelfie {
+  file: File;
+  upload: UploadResult;
+  // Pass with the selfie when matching it, so the server knows it was taken live
+  livenessToken: string;
+}
+
+interface LiveSelfieCameraProps {
+  // Uploads one frame; the file names tell the steps apart
+  uploadFrame: (frame: File) => Promise<UploadResult>;
+  onCaptured: (selfie: LiveSelfie) => void;
+}
+
+const STEP_INSTRUCTIONS: Record<LivenessStep, string> = {
+  'turn-left': 'Slowly turn your head to the left',
+  'turn-right': 'Slowly turn your head to the right',
+  'look-up': 'Tilt your head up',
+  'look-down': 'Tilt your head down',
+  blink: 'Close your eyes'
+};
+
+// Time to follow each instruction before its frame is taken
+const STEP_SECONDS = 3;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Takes a selfie through a liveness check: the guest follows a few random
+// steps in front of the camera, one frame is taken for each, and the selfie
+// last, looking straight ahead. There is no file upload, so nobody can search
+// for someone else with a photo of them.
+const LiveSelfieCamera: React.FC<LiveSelfieCameraProps> = ({ uploadFrame, onCaptured }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [phase, setPhase] = useState<'idle' | 'capturing' | 'verifying'>('idle');
+  const [instruction, setInstruction] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+  };
+
+  // Stop the camera when the component goes away mid-check
+  useEffect(() => () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const countDown = async () => {
+    for (let seconds = STEP_SECONDS; seconds > 0; seconds--) {
+      setSecondsLeft(seconds);
+      await wait(1000);
+    }
+    setSecondsLeft(0);
+  };
+
+  const captureFrame = async (fileName: string) => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current) throw new Error('The camera was closed. Please try again.');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(video, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    if (!blob) throw new Error('Failed to capture image. Please try again.');
+    return new File([blob], fileName, { type: 'image/jpeg' });
+  };
+
+  const start = async () => {
+    setError(null);
+    setPhase('capturing');
+    try {
+      const challenge = await startLivenessChallenge();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+
+      const frames: File[] = [];
+      for (const step of challenge.steps) {
+        setInstruction(STEP_INSTRUCTIONS[step]);
+        await countDown();
+        frames.push(await captureFrame(`liveness-${frames.length + 1}-${step}.jpg`));
+      }
+      setInstruction('Now look straight at the camera');
+      await countDown();
+      const selfie = await captureFrame('selfie.jpg');
+      stopCamera();
+
+      setPhase('verifying');
+      // One at a time, in the order they were taken
+      const uploads: UploadResult[] = [];
+      for (const file of [selfie, ...frames]) {
+        uploads.push(await uploadFrame(file));
+      }
+      const [selfieUpload, ...frameUploads] = uploads;
+      const livenessToken = await verifyLiveness(challenge.id, frameUploads.map(upload => upload.key), selfieUpload.key);
+      onCaptured({ file: selfie, upload: selfieUpload, livenessToken });
+    } catch (err) {
+      console.error('Error taking live selfie:', err);
+      setError(err instanceof DOMException
+        ? 'Could not access camera. Please make sure you have granted camera permissions.'
+        : err instanceof Error ? err.message : 'Failed to take your selfie. Please try again.');
+      stopCamera();
+    } finally {
+      setPhase('idle');
+      setInstruction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className={phase === 'capturing' ? 'relative' : 'hidden'}>
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full rounded-lg border-2 border-blue-500"
+          style={{ transform: 'scaleX(-1)' }} // Mirror the video feed
+        />
+        {instruction && (
+          <div className="absolute bottom-0 inset-x-0 m-2 p-2 bg-black bg-opacity-60 text-white text-center rounded-lg">
+            <p className="font-medium">{instruction}</p>
+            {secondsLeft > 0 && <p className="text-2xl font-bold">{secondsLeft}</p>}
+          </div>
+        )}
+      </div>
+
+      {phase === 'verifying' && (
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600 mr-3"></div>
+          <p className="text-blue-600">Checking it's really you...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {phase === 'idle' && (
+        <button
+          onClick={start}
+          className="w-full py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center"
+        >
+          <Camera className="w-5 h-5 mr-2" />
+          {error ? 'Try again' : 'Start camera'}
+        </button>
+      )}
+      {phase === 'idle' && (
+        <p className="text-xs text-gray-500 text-center">
+          You'll be asked to turn or tilt your head or close your eyes for a few seconds, to show it's really you.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LiveSelfieCamera;
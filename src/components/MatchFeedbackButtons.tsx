@@ -0,0 +1,43 @@
+import React from 'react';
+import { UserCheck, UserX } from 'lucide-react';
+import type { MatchReview } from '../../shared/types';
+
+interface MatchFeedbackButtonsProps {
+  // Whether the attendee already said the photo is them
+  confirmed: boolean;
+  disabled: boolean;
+  onReview: (review: MatchReview) => void;
+}
+
+// "This is me" / "Not me" on a matched photo. Confirmed photos help find the
+// attendee in more photos; rejected ones are removed and never matched again.
+const MatchFeedbackButtons: React.FC<MatchFeedbackButtonsProps> = ({ confirmed, disabled, onReview }) => (
+  <div className="absolute top-2 left-2 flex gap-1">
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!confirmed) onReview('confirmed');
+      }}
+      disabled={disabled}
+      title={confirmed ? 'You said this is you' : 'This is me'}
+      className={`p-2 rounded-full text-white transition-colors disabled:opacity-50 ${
+        confirmed ? 'bg-green-600' : 'bg-black/50 hover:bg-green-600'
+      }`}
+    >
+      <UserCheck className="h-4 w-4" />
+    </button>
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onReview('rejected');
+      }}
+      disabled={disabled}
+      title="Not me"
+      className="p-2 bg-black/50 text-white rounded-full hover:bg-red-600 transition-colors disabled:opacity-50"
+    >
+      <UserX className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+export default MatchFeedbackButtons;
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Image as ImageIcon, ArrowLeft, Download, X } from 'lucide-react';
-import { getAllAttendeeImagesByUser } from '../config/attendeeStorage';
+import { createAttendeeArchiveLink, downloadArchive } from '../services/archives';
+import { BROWSER_ZIP_MAX_FILES, downloadFile, downloadFilesAsZip } from '../services/downloads';
+import { repositories } from '../repositories';
+import MatchFeedbackButtons from './MatchFeedbackButtons';
+import type { MatchReview } from '../../shared/types';
 
 interface MatchingImage {
   imageId: string;
@@ -9,13 +13,22 @@ interface MatchingImage {
   eventName: string;
   imageUrl: string;
   matchedDate: string;
+  // The user said this is them
+  confirmed: boolean;
 }
 
+// Signed URLs of the same photo differ in their query string
+const withoutQuery = (url: string) => url.split('?')[0];
+
 const MyPhotos: React.FC = () => {
   const navigate = useNavigate();
   const [images, setImages] = useState<MatchingImage[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState<MatchingImage | null>(null);
+  // Percentage of the ZIP received while a Download All is in progress
+  const [archiveProgress, setArchiveProgress] = useState<number | null>(null);
+  // The photo whose "This is me" or "Not me" is being saved
+  const [reviewingUrl, setReviewingUrl] = useState<string | null>(null);
 
   // Toggle header and footer visibility when image is clicked
   const toggleHeaderFooter = (visible: boolean) => {
@@ -51,7 +64,7 @@ const MyPhotos: React.FC = () => {
         }
 
         // Get all attendee images
-        const attendeeImageData = await getAllAttendeeImagesByUser(userEmail);
+        const attendeeImageData = await repositories.attendeeImages.listByUser(userEmail);
         
         // Extract all images
         const allImages: MatchingImage[] = [];
@@ -59,20 +72,21 @@ const MyPhotos: React.FC = () => {
         // Process each attendee-event entry sequentially to get event details
         for (const data of attendeeImageData) {
           // Get event details from the events database
-          const { getEventById } = await import('../config/eventStorage');
-          const eventDetails = await getEventById(data.eventId);
+          const eventDetails = await repositories.events.get(data.eventId);
           
           // Default event name and date if details not found
           const eventName = eventDetails?.name || `Event ${data.eventId}`;
           
           // Add all matched images to the images list
+          const confirmed = new Set((data.confirmedImages || []).map(withoutQuery));
           data.matchedImages.forEach(imageUrl => {
             allImages.push({
               imageId: imageUrl.split('/').pop() || '',
               eventId: data.eventId,
               eventName: eventName,
               imageUrl: imageUrl,
-              matchedDate: data.uploadedAt
+              matchedDate: data.uploadedAt,
+              confirmed: confirmed.has(withoutQuery(imageUrl))
             });
           });
         }
@@ -91,71 +105,46 @@ const MyPhotos: React.FC = () => {
     fetchUserPhotos();
   }, [navigate]);
 
-  const handleDownload = async (url: string) => {
+  // Rejected photos leave the user's photos for good; confirmed ones help
+  // find them in more photos
+  const handleReview = async (image: MatchingImage, review: MatchReview) => {
+    const userEmail = localStorage.getItem('userEmail');
+    if (!userEmail) return;
+    setReviewingUrl(image.imageUrl);
     try {
-      // Fetch the image with appropriate headers
-      const response = await fetch(url, {
-        headers: {
-          'Cache-Control': 'no-cache',
-        },
-        mode: 'cors',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-      
-      // Get the content type
-      const contentType = response.headers.get('content-type') || 'image/jpeg';
-      
-      // Get the image as a blob
-      const blob = await response.blob();
-      
-      // Create a blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-      
-      // Extract filename from URL
-      const filename = url.split('/').pop() || 'photo.jpg';
-      
-      // Create a temporary anchor element
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = filename;
-      link.type = contentType;
-      link.target = '_blank';
-      
-      // Required for Firefox
-      document.body.appendChild(link);
-      
-      // Trigger the download
-      link.click();
-      
-      // Cleanup
-      setTimeout(() => {
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(blobUrl);
-      }, 100);
+      await repositories.attendeeImages.reviewMatch(userEmail, image.eventId, image.imageUrl, review);
+      setImages(prev => review === 'rejected'
+        ? prev.filter(other => other.imageUrl !== image.imageUrl)
+        : prev.map(other => other.imageUrl === image.imageUrl ? { ...other, confirmed: true } : other)
+      );
     } catch (error) {
-      console.error('Error downloading image:', error);
-      // If download fails, open the image in a new tab
-      window.open(url, '_blank');
+      console.error('Error reviewing photo:', error);
+      alert('Could not save your answer. Please try again.');
+    } finally {
+      setReviewingUrl(null);
     }
   };
 
   const handleDownloadAll = async () => {
+    const userEmail = localStorage.getItem('userEmail');
+    if (!userEmail) return;
     try {
-      // Show a message that downloads are starting
-      alert('Starting downloads. Please allow multiple downloads in your browser settings.');
-      
-      // Download each image with a small delay to prevent browser blocking
-      for (const image of images) {
-        await handleDownload(image.imageUrl);
-        // Add a small delay between downloads
-        await new Promise(resolve => setTimeout(resolve, 500));
+      setArchiveProgress(0);
+      // Small sets are zipped in the browser; larger ones are built by the server
+      if (images.length <= BROWSER_ZIP_MAX_FILES) {
+        const result = await downloadFilesAsZip(images.map(image => image.imageUrl), 'My photos.zip', setArchiveProgress);
+        if (result && result.failedUrls.length > 0) {
+          alert(`${result.failedUrls.length} photos could not be downloaded and are missing from the ZIP. Please try downloading them individually.`);
+        }
+      } else {
+        const link = await createAttendeeArchiveLink(userEmail);
+        await downloadArchive(link, setArchiveProgress);
       }
     } catch (error) {
       console.error('Error downloading all images:', error);
-      alert('Some downloads may have failed. Please try downloading individual photos.');
+      alert('Failed to prepare your download. Please try again or download individual photos.');
+    } finally {
+      setArchiveProgress(null);
     }
   };
 
@@ -193,10 +182,17 @@ const MyPhotos: React.FC = () => {
             {images.length > 0 && (
               <button
                 onClick={handleDownloadAll}
-                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                disabled={archiveProgress !== null}
+                className="relative overflow-hidden flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
               >
                 <Download className="h-4 w-4 mr-2" />
-                Download All
+                {archiveProgress !== null ? `Preparing ZIP ${archiveProgress}%` : 'Download All'}
+                {archiveProgress !== null && (
+                  <span
+                    className="absolute bottom-0 left-0 h-1 bg-white/80 transition-all"
+                    style={{ width: `${archiveProgress}%` }}
+                  />
+                )}
               </button>
             )}
           </div>
@@ -221,10 +217,15 @@ const MyPhotos: React.FC = () => {
                     alt={`Photo from ${image.eventName}`}
                     className="object-cover w-full h-full"
                   />
+                  <MatchFeedbackButtons
+                    confirmed={image.confirmed}
+                    disabled={reviewingUrl !== null}
+                    onReview={review => handleReview(image, review)}
+                  />
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleDownload(image.imageUrl);
+                      downloadFile(image.imageUrl);
                     }}
                     className="absolute top-2 right-2 p-2 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
                   >
@@ -270,7 +271,7 @@ const MyPhotos: React.FC = () => {
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  handleDownload(selectedImage.imageUrl);
+                  downloadFile(selectedImage.imageUrl);
                 }}
                 className="absolute bottom-4 right-4 p-2 rounded-full bg-black/10 text-white hover:bg-black/70 transition-colors duration-200 flex items-center gap-2"
               >
@@ -1,10 +1,12 @@
-import React, { useState, useEffect, useRef, useContext } from 'react';
+import React, { useState, useEffect, useRef, useContext, useCallback } from 'react';
 import { Menu, X, Upload, Camera, LogIn, LogOut, User, MessageSquare, Phone, Mail, AlertCircle, Calendar, ChevronDown, ChevronUp, ImageIcon } from 'lucide-react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { GoogleLogin, CredentialResponse } from '@react-oauth/google';
-import { jwtDecode } from 'jwt-decode';
-import { storeUserCredentials, getUserByEmail, queryUserByEmail } from '../config/dynamodb';
 import { UserContext } from '../App';
+import { repositories } from '../repositories';
+import { signIn, signOut } from '../services/session';
+import PasswordlessSignIn from './PasswordlessSignIn';
+import type { SessionUser } from '../../shared/types';
 
 interface NavbarProps {
   mobileMenuOpen: boolean;
@@ -13,14 +15,6 @@ interface NavbarProps {
   setShowSignInModal: (show: boolean) => void;
 }
 
-interface DecodedToken {
-  exp: number;
-  name: string;
-  email: string;
-  picture: string;
-  sub: string;
-}
-
 interface UserProfile {
   name: string;
   email: string;
@@ -34,9 +28,8 @@ const Navbar: React.FC<NavbarProps> = ({
   showSignInModal,
   setShowSignInModal 
 }) => {
-  const { userEmail, userRole, setUserEmail, setUserRole } = useContext(UserContext);
-  const [isLoggedIn, setIsLoggedIn] = useState(!!userEmail);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const { user, userRole, setUser, setUserRole } = useContext(UserContext);
+  const isLoggedIn = Boolean(user);
   const [showContactModal, setShowContactModal] = useState(false);
   const [signInForm, setSignInForm] = useState({
     name: '',
@@ -62,74 +55,57 @@ const Navbar: React.FC<NavbarProps> = ({
   const [scrolled, setScrolled] = useState(false);
   const headerRef = useRef<HTMLElement>(null);
 
+  const userEmail = user?.email;
+  const userName = user?.name;
   useEffect(() => {
-    const token = localStorage.getItem('googleToken');
-    const storedProfile = localStorage.getItem('userProfile');
-    
-    if (token && storedProfile) {
+    if (!userEmail) return;
+
+    // Check user role from DynamoDB using both methods
+    const checkUserRole = async () => {
       try {
-        const decoded = jwtDecode<DecodedToken>(token);
-        const exp = decoded.exp * 1000; // Convert to milliseconds
-        
-        if (exp > Date.now()) {
-          setIsLoggedIn(true);
-          setUserProfile(JSON.parse(storedProfile));
-          setUserEmail(decoded.email);
-          
-          // Check user role from DynamoDB using both methods
-          const checkUserRole = async () => {
-            try {
-              // First try with getUserByEmail
-              let user = await getUserByEmail(decoded.email);
-              console.log('getUserByEmail result:', user);
-              
-              // If that fails, try with queryUserByEmail
-              if (!user) {
-                console.log('getUserByEmail returned null, trying queryUserByEmail');
-                user = await queryUserByEmail(decoded.email);
-                console.log('queryUserByEmail result:', user);
-              }
-              
-              if (user && user.role) {
-                console.log('User role found:', user.role);
-                setUserRole(user.role);
-              } else {
-                console.log('No user role found for email:', decoded.email);
-                // Set a consistent role of 'organizer' if no role is found
-                setUserRole('organizer');
-                
-                // Optionally, create/update the user record to include a role
-                try {
-                  const mobileNumber = localStorage.getItem('userMobile') || '';
-                  await storeUserCredentials({
-                    userId: decoded.email,
-                    email: decoded.email,
-                    name: JSON.parse(storedProfile).name || '',
-                    mobile: mobileNumber,
-                    role: 'organizer'
-                  });
-                  console.log('Added default user role to database');
-                } catch (err) {
-                  console.error('Error adding default user role:', err);
-                }
-              }
-            } catch (error) {
-              console.error('Error fetching user role:', error);
-              // Set a default role as fallback
-              setUserRole('user');
-            }
-          };
-          
-          checkUserRole();
+        // First try with getUserByEmail
+        let user = await repositories.users.get(userEmail);
+        console.log('getUserByEmail result:', user);
+
+        // If that fails, try with queryUserByEmail
+        if (!user) {
+          console.log('getUserByEmail returned null, trying queryUserByEmail');
+          user = await repositories.users.findByEmail(userEmail);
+          console.log('queryUserByEmail result:', user);
+        }
+
+        if (user && user.role) {
+          console.log('User role found:', user.role);
+          setUserRole(user.role);
         } else {
-          handleLogout();
+          console.log('No user role found for email:', userEmail);
+          // Set a consistent role of 'organizer' if no role is found
+          setUserRole('organizer');
+
+          // Optionally, create/update the user record to include a role
+          try {
+            const mobileNumber = localStorage.getItem('userMobile') || '';
+            await repositories.users.save({
+              userId: userEmail,
+              email: userEmail,
+              name: userName || '',
+              mobile: mobileNumber,
+              role: 'organizer'
+            });
+            console.log('Added default user role to database');
+          } catch (err) {
+            console.error('Error adding default user role:', err);
+          }
         }
       } catch (error) {
-        console.error('Error checking authentication:', error);
-        handleLogout();
+        console.error('Error fetching user role:', error);
+        // Set a default role as fallback
+        setUserRole('user');
       }
-    }
-  }, [setUserEmail, setUserRole]);
+    };
+
+    checkUserRole();
+  }, [userEmail, userName, setUserRole]);
 
   // Update useEffect to set navType based on current location and user role
   useEffect(() => {
@@ -190,99 +166,106 @@ const Navbar: React.FC<NavbarProps> = ({
     };
   }, []);
 
-  const handleSignIn = async (credentialResponse: CredentialResponse) => {
-    try {
-      const credential = credentialResponse.credential;
-      if (!credential) throw new Error('No credential received');
+  // Records who signed in, whichever way they did, then carries on with what
+  // they were doing before
+  const completeSignIn = useCallback(async (signedIn: SessionUser) => {
+    const { name, email } = signedIn;
+    // Users who signed in by text message are known by their phone number
+    const mobile = signedIn.method === 'phone' ? email : '';
+
+    // Check if there was a pending action before login
+    const pendingAction = localStorage.getItem('pendingAction');
+    const role = pendingAction === 'createEvent' ? 'organizer' : 'attendee';
 
-      const decoded: any = jwtDecode(credential);
-      if (!decoded) throw new Error('Unable to decode credentials');
+    // Set the navigation type based on the pending action
+    if (pendingAction === 'createEvent') {
+      setNavType('organizer');
+    } else if (pendingAction === 'getPhotos') {
+      setNavType('attendee');
+    }
+
+    // Store user in DynamoDB
+    const userData = {
+      userId: email, // Using email as userId for simplicity
+      email: email,
+      name: name || '',
+      mobile,
+      role: role
+    };
 
-      const name = decoded.name || '';
-      const email = decoded.email || '';
-      const picture = decoded.picture || '';
+    await repositories.users.save(userData);
 
-      // Check if there was a pending action before login
-      const pendingAction = localStorage.getItem('pendingAction');
-      const role = pendingAction === 'createEvent' ? 'organizer' : 'attendee';
-      
-      // Set the navigation type based on the pending action
+    localStorage.setItem('userMobile', mobile);
+
+    setShowSignInModal(false);
+    setUser(signedIn);
+    setUserRole(role);
+
+    if (pendingAction) {
+      localStorage.removeItem('pendingAction');
       if (pendingAction === 'createEvent') {
-        setNavType('organizer');
+        navigate('/events?create=true');
       } else if (pendingAction === 'getPhotos') {
-        setNavType('attendee');
-      }
-
-      // Store user in DynamoDB
-      const userData = {
-        userId: email, // Using email as userId for simplicity
-        email: email,
-        name: name || '',
-        mobile: '', // Empty string for mobile, no longer collecting it
-        role: role
-      };
-      
-      await storeUserCredentials(userData);
-
-      // Store essential user data in localStorage for session management
-      localStorage.setItem('userEmail', email);
-      localStorage.setItem('userMobile', ''); // Empty string for mobile, no longer collecting it
-      
-      // We keep these in localStorage for now for backward compatibility
-      if (credentialResponse.credential) {
-        localStorage.setItem('googleToken', credentialResponse.credential);
-      }
-      localStorage.setItem('userProfile', JSON.stringify({
-        name,
-        email,
-        picture
-      }));
-
-      setShowSignInModal(false);
-      setUserProfile({
-        name,
-        email,
-        picture,
-        mobile: ''
-      });
-      setUserEmail(email);
-      setIsLoggedIn(true);
-      setUserRole(role);
-
-      if (pendingAction) {
-        localStorage.removeItem('pendingAction');
-        if (pendingAction === 'createEvent') {
-          navigate('/events?create=true');
-        } else if (pendingAction === 'getPhotos') {
-          // Check if we have a specific URL to redirect to
-          const pendingRedirectUrl = localStorage.getItem('pendingRedirectUrl');
-          if (pendingRedirectUrl) {
-            // Clear the stored URL
-            localStorage.removeItem('pendingRedirectUrl');
-            // Use window.location.href to do a full page reload with the saved URL
-            window.location.href = pendingRedirectUrl;
-          } else {
-            // If no specific URL, just navigate to the dashboard
-            navigate('/attendee-dashboard');
-          }
+        // Check if we have a specific URL to redirect to
+        const pendingRedirectUrl = localStorage.getItem('pendingRedirectUrl');
+        if (pendingRedirectUrl) {
+          // Clear the stored URL
+          localStorage.removeItem('pendingRedirectUrl');
+          // Use window.location.href to do a full page reload with the saved URL
+          window.location.href = pendingRedirectUrl;
+        } else {
+          // If no specific URL, just navigate to the dashboard
+          navigate('/attendee-dashboard');
         }
       }
+    }
+  }, [navigate, setShowSignInModal, setUser, setUserRole]);
+
+  const handleSignIn = async (credentialResponse: CredentialResponse) => {
+    try {
+      const credential = credentialResponse.credential;
+      if (!credential) throw new Error('No credential received');
+
+      // The API server checks the credential with Google and starts a session
+      await completeSignIn(await signIn({ method: 'google', credential }));
     } catch (error) {
       console.error('Error in sign in process:', error);
       setSignInError('Failed to sign in. Please try again.');
     }
   };
 
+  const handlePasswordlessSignIn = (signedIn: SessionUser) => {
+    completeSignIn(signedIn).catch((error) => {
+      console.error('Error in sign in process:', error);
+      setSignInError('Failed to sign in. Please try again.');
+    });
+  };
+
+  // Finishes signing in from the link in a sign-in email. Its token works
+  // once, so it is only sent the first time the effect runs.
+  const signInLinkUsed = useRef(false);
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const email = params.get('signInEmail');
+    const token = params.get('signInToken');
+    if (!email || !token || signInLinkUsed.current) return;
+    signInLinkUsed.current = true;
+    navigate(location.pathname, { replace: true });
+
+    signIn({ method: 'email', email, token })
+      .then(completeSignIn)
+      .catch((error) => {
+        console.error('Error signing in from email link:', error);
+        setSignInError(error instanceof Error ? error.message : 'Failed to sign in. Please try again.');
+        setShowSignInModal(true);
+      });
+  }, [location.search, location.pathname, navigate, completeSignIn, setShowSignInModal]);
+
   const handleLogout = () => {
-    setIsLoggedIn(false);
-    setUserProfile(null);
+    signOut().catch(error => console.error('Error ending session:', error));
+    setUser(null);
     setUserRole(null);
-    setUserEmail(null);
     setNavType(null);
-    localStorage.removeItem('googleToken');
-    localStorage.removeItem('userProfile');
-    localStorage.removeItem('userEmail');
-    localStorage.removeItem('userMobile');
     localStorage.removeItem('pendingAction');
     localStorage.removeItem('pendingRedirectUrl');
     
@@ -575,6 +558,14 @@ const Navbar: React.FC<NavbarProps> = ({
                   </div>
                 </div>
 
+                <div className="flex items-center gap-3 text-sm text-gray-400">
+                  <div className="h-px flex-1 bg-gray-200" />
+                  or, without a Google account
+                  <div className="h-px flex-1 bg-gray-200" />
+                </div>
+
+                <PasswordlessSignIn onSignedIn={handlePasswordlessSignIn} />
+
                 {/* Error Message */}
                 {showSignInError && (
                   <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-xl text-sm">
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Mail, Phone } from 'lucide-react';
+import { sendSignInChallenge, signIn } from '../services/session';
+import { SIGN_IN_CODE_LENGTH, normalizePhoneNumber, normalizeSignInEmail } from '../../shared/signIn';
+import type { SessionUser } from '../../shared/types';
+
+interface PasswordlessSignInProps {
+  onSignedIn: (user: SessionUser) => void;
+}
+
+// Sign-in for guests without a Google account: a link emailed to them, or a
+// code texted to their phone. Email links are opened from the inbox and
+// finish signing in there (see Navbar).
+const PasswordlessSignIn: React.FC<PasswordlessSignInProps> = ({ onSignedIn }) => {
+  const [method, setMethod] = useState<'email' | 'phone'>('email');
+  const [address, setAddress] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchMethod = (next: 'email' | 'phone') => {
+    setMethod(next);
+    setAddress('');
+    setSentTo(null);
+    setCode('');
+    setError(null);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = method === 'email' ? normalizeSignInEmail(address) : normalizePhoneNumber(address);
+    if (!normalized) {
+      setError(method === 'email'
+        ? 'Please enter a valid email address.'
+        : 'Please enter your phone number with its country code, e.g. +91 98765 43210.');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      setSentTo(await sendSignInChallenge(method, normalized));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sentTo) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn({ method: 'phone', phone: sentTo, code }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const tabClass = (tab: 'email' | 'phone') =>
+    `flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg transition-colors ${
+      method === tab ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-blue-50'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 p-1 bg-gray-100 rounded-xl">
+        <button type="button" className={tabClass('email')} onClick={() => switchMethod('email')}>
+          <Mail className="h-4 w-4" /> Email
+        </button>
+        <button type="button" className={tabClass('phone')} onClick={() => switchMethod('phone')}>
+          <Phone className="h-4 w-4" /> Phone
+        </button>
+      </div>
+
+      {!sentTo ? (
+        <form onSubmit={handleSend} className="space-y-3">
+          <input
+            type={method === 'email' ? 'email' : 'tel'}
+            placeholder={method === 'email' ? 'you@example.com' : '+91 98765 43210'}
+            autoComplete={method === 'email' ? 'email' : 'tel'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !address.trim()}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors duration-300 disabled:opacity-50"
+          >
+            {isBusy ? 'Sending...' : method === 'email' ? 'Email me a sign-in link' : 'Text me a code'}
+          </button>
+        </form>
+      ) : method === 'email' ? (
+        <div className="p-4 bg-blue-50 text-blue-800 rounded-xl text-sm">
+          We sent a sign-in link to <span className="font-semibold">{sentTo}</span>. Open it on this device to
+          finish signing in. It works once, for 15 minutes.
+          <button type="button" className="block mt-2 text-blue-600 underline" onClick={() => setSentTo(null)}>
+            Use a different email
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleVerifyCode} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Enter the {SIGN_IN_CODE_LENGTH}-digit code we texted to <span className="font-semibold">{sentTo}</span>.
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={SIGN_IN_CODE_LENGTH}
+            placeholder={'0'.repeat(SIGN_IN_CODE_LENGTH)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg tracking-widest text-center text-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          />
+          <button
+            type="submit"
+            disabled={isBusy || code.length !== SIGN_IN_CODE_LENGTH}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors duration-300 disabled:opacity-50"
+          >
+            {isBusy ? 'Signing in...' : 'Sign in'}
+          </button>
+          <button type="button" className="w-full text-sm text-blue-600 underline" onClick={() => setSentTo(null)}>
+            Send a new code
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PasswordlessSignIn;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Check, HelpCircle, X } from 'lucide-react';
+import type { MatchReview } from '../../shared/types';
+
+export interface PossibleMatch {
+  eventId: string;
+  eventName: string;
+  imageUrl: string;
+  similarity: number;
+}
+
+interface PossibleMatchesProps {
+  matches: PossibleMatch[];
+  // The photo whose review is being saved
+  reviewingUrl: string | null;
+  onReview: (match: PossibleMatch, review: MatchReview) => void;
+}
+
+// Photos that look a bit like the guest, for them to confirm or reject.
+// Confirmed ones join their photos; rejected ones are not suggested again.
+const PossibleMatches: React.FC<PossibleMatchesProps> = ({ matches, reviewingUrl, onReview }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        <HelpCircle className="h-5 w-5 text-yellow-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Is this you?</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        We're not sure about {matches.length === 1 ? 'this photo' : `these ${matches.length} photos`}. Confirm the ones you are in to add them to your photos.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {matches.map(match => (
+          <div key={match.imageUrl} className="bg-white rounded-lg shadow-sm overflow-hidden border border-gray-200">
+            <div className="aspect-square">
+              <img
+                src={match.imageUrl}
+                alt={`Possible match from ${match.eventName}`}
+                className="object-cover w-full h-full"
+              />
+            </div>
+            <div className="flex">
+              <button
+                onClick={() => onReview(match, 'confirmed')}
+                disabled={reviewingUrl !== null}
+                className="flex-1 flex items-center justify-center py-2 text-sm text-green-700 hover:bg-green-50 disabled:opacity-50"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                That's me
+              </button>
+              <button
+                onClick={() => onReview(match, 'rejected')}
+                disabled={reviewingUrl !== null}
+                className="flex-1 flex items-center justify-center py-2 text-sm text-red-600 hover:bg-red-50 border-l border-gray-200 disabled:opacity-50"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Not me
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PossibleMatches;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { SelfieCheck } from '../services/faceRecognition';
+
+interface SelfieFeedbackProps {
+  check: SelfieCheck;
+}
+
+// What the selfie check found, with what to change before trying again
+const SelfieFeedback: React.FC<SelfieFeedbackProps> = ({ check }) => {
+  if (check.passed) {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-green-50 text-green-700 rounded-lg text-sm">
+        <CheckCircle className="h-4 w-4 flex-shrink-0" />
+        Looks good! Your face is clear enough to find your photos.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
+      <div className="flex items-center gap-2 font-medium mb-1">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        Please retake your selfie
+      </div>
+      <ul className="list-disc list-inside space-y-1">
+        {check.issues.map(issue => (
+          <li key={issue.code}>{issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SelfieFeedback;
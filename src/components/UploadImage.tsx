@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Upload } from '@aws-sdk/lib-storage';
-import { S3_BUCKET_NAME, s3Client } from '../config/aws';
 import { Upload as UploadIcon, X, Download, ArrowLeft, Copy, Loader2, Camera } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { getUserEvents } from '../config/eventStorage';
+import { createEventArchiveLink, downloadArchive } from '../services/archives';
+import { downloadFile } from '../services/downloads';
+import { uploadEventImage } from '../services/media';
+import { readAllPages, repositories } from '../repositories';
+import { listSharedEvents } from '../services/eventMembers';
+import { hasEventPermission } from '../../shared/eventRoles';
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 const BATCH_SIZE = 20; // Number of images to process in each batch
@@ -26,6 +29,8 @@ const UploadImage = () => {
   const [showQRModal, setShowQRModal] = useState(false);
   const [showCopySuccess, setShowCopySuccess] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{ current: number; total: number } | null>(null);
+  // Percentage of the event ZIP received while a Download All is in progress
+  const [archiveProgress, setArchiveProgress] = useState<number | null>(null);
   const [imagePreviews, setImagePreviews] = useState<{ [key: string]: string }>({});
 
   // Handle scroll for pagination
@@ -52,9 +57,15 @@ const UploadImage = () => {
       if (!userEmail) return;
 
       try {
-        // Fetch user events
-        const userEvents = await getUserEvents(userEmail);
-        const eventsList = userEvents.map(event => ({
+        // Fetch user events, and the ones they may upload to for other organizers
+        const [userEvents, shared] = await Promise.all([
+          readAllPages(cursor => repositories.events.listByOrganizer(userEmail, { limit: 100, cursor })),
+          listSharedEvents(userEmail)
+        ]);
+        const uploadableEvents = shared.events.filter(event => shared.members.some(member =>
+          member.eventId === event.id && member.status === 'active' && hasEventPermission(member.role, 'upload')
+        ));
+        const eventsList = [...userEvents, ...uploadableEvents].map(event => ({
           id: event.id,
           name: event.name,
         }));
@@ -178,30 +189,8 @@ const UploadImage = () => {
         throw new Error('Event ID is required for uploading images.');
       }
       console.log(`Uploading file: ${fileName}`);
-      const sessionId = localStorage.getItem('sessionId');
-      const folderPath = `events/shared/${selectedEvent}/images/${fileName}`;
-
-      const uploadParams = {
-        Bucket: S3_BUCKET_NAME,
-        Key: folderPath,
-        Body: file,
-        ContentType: file.type,
-        Metadata: {
-          'event-id': selectedEvent,
-          'session-id': sessionId || '',
-          'upload-date': new Date().toISOString(),
-        },
-      };
-
-      const uploadInstance = new Upload({
-        client: s3Client,
-        params: uploadParams,
-        partSize: 50 * 1024 * 1024,
-        leavePartsOnError: false,
-      });
-
-      await uploadInstance.done();
-      return folderPath;
+      const { url } = await uploadEventImage(selectedEvent, file, fileName);
+      return url;
     },
     [selectedEvent]
   );
@@ -232,15 +221,14 @@ const UploadImage = () => {
         if (image.size > MAX_FILE_SIZE) {
           throw new Error(`${image.name} exceeds the 50MB size limit`);
         }
-        const fileName = `${Date.now()}-${image.name}`;
         try {
-          const imageUrl = await uploadToS3(image, fileName);
+          const imageUrl = await uploadToS3(image, image.name);
           
           // Update progress after each successful upload
           uploadedCount++;
           setUploadProgress({ current: uploadedCount, total: totalCount });
           
-          return `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${imageUrl}`;
+          return imageUrl;
         } catch (error) {
           console.error(`Failed to upload ${image.name}:`, error);
           throw new Error(`Failed to upload ${image.name}. Please try again.`);
@@ -263,74 +251,19 @@ const UploadImage = () => {
     }
   }, [images, selectedEvent, uploadToS3]);
 
-  const handleDownload = useCallback(async (url: string) => {
+  const handleDownloadAll = useCallback(async () => {
+    if (!selectedEvent) return;
     try {
-      const response = await fetch(url, {
-        mode: 'cors',
-        headers: {
-          'Cache-Control': 'no-cache',
-        },
-      });
-
-      if (!response.ok) {
-        const errorMessage = `Failed to download image (${response.status}): ${response.statusText}`;
-        console.error(errorMessage);
-        alert(errorMessage);
-        throw new Error(errorMessage);
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('image/')) {
-        const errorMessage = 'Invalid image format received';
-        console.error(errorMessage);
-        alert(errorMessage);
-        throw new Error(errorMessage);
-      }
-
-      const blob = await response.blob();
-      const fileName = decodeURIComponent(url.split('/').pop() || 'image.jpg');
-
-      const link = document.createElement('a');
-      link.href = window.URL.createObjectURL(blob);
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(link.href);
-      console.log(`Successfully downloaded: ${fileName}`);
+      setArchiveProgress(0);
+      const link = await createEventArchiveLink(selectedEvent);
+      await downloadArchive(link, setArchiveProgress);
     } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : 'An unexpected error occurred while downloading the image';
-      console.error('Error downloading image:', error);
-      alert(errorMessage);
-      throw error;
-    }
-  }, []);
-
-  const handleDownloadAll = useCallback(async () => {
-    const downloadPromises = uploadedUrls.map(url =>
-      handleDownload(url).catch(error => ({ error, url }))
-    );
-    const results = await Promise.allSettled(downloadPromises);
-
-    let successCount = 0;
-    let failedUrls: string[] = [];
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        successCount++;
-      } else {
-        failedUrls.push(uploadedUrls[index]);
-      }
-    });
-
-    if (failedUrls.length === 0) {
-      alert(`Successfully downloaded all ${successCount} images!`);
-    } else {
-      alert(`Downloaded ${successCount} images. Failed to download ${failedUrls.length} images. Please try again later.`);
+      console.error('Error downloading all images:', error);
+      alert('Failed to prepare the download. Please try again later.');
+    } finally {
+      setArchiveProgress(null);
     }
-  }, [uploadedUrls, handleDownload]);
+  }, [selectedEvent]);
 
   const handleCopyLink = useCallback(() => {
     const link = `${window.location.origin}/attendee-dashboard?eventId=${selectedEvent}`;
@@ -475,7 +408,7 @@ const UploadImage = () => {
                           />
                         </div>
                         <button
-                          onClick={() => handleDownload(url)}
+                          onClick={() => downloadFile(url)}
                           className="absolute bottom-2 right-2 p-2 bg-white rounded-full shadow-md hover:bg-blue-100 transition-colors"
                           title="Download Image"
                         >
@@ -498,10 +431,11 @@ const UploadImage = () => {
                     {uploadedUrls.length > 1 && (
                       <button
                         onClick={handleDownloadAll}
-                        className="flex items-center justify-center py-2.5 px-5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 shadow-md"
+                        disabled={archiveProgress !== null}
+                        className="flex items-center justify-center py-2.5 px-5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 shadow-md disabled:opacity-60"
                       >
                         <Download className="w-4 h-4 mr-2" />
-                        Download All
+                        {archiveProgress !== null ? `Preparing ZIP ${archiveProgress}%` : 'Download All'}
                       </button>
                     )}
                   </div>
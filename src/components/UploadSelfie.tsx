@@ -1,13 +1,19 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { ListObjectsV2Command } from '@aws-sdk/client-s3';
-import { Upload } from '@aws-sdk/lib-storage';
-import { S3_BUCKET_NAME, s3Client, rekognitionClient } from '../config/aws';
-import { CompareFacesCommand } from '@aws-sdk/client-rekognition';
-import { Camera, X, Download } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useContext } from 'react';
+import { Image as ImageIcon, X, Download } from 'lucide-react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { colors } from '../config/theme';
-import { getEventById, getUserEvents, getEventsByUserId, getEventsByOrganizerId } from '../config/eventStorage';
-import { getUserByEmail } from '../config/dynamodb';
+import { downloadFile, downloadFilesAsZip } from '../services/downloads';
+import { getEventCoverImage, uploadUserSelfie } from '../services/media';
+import { startGuestSession } from '../services/session';
+import { describeEventAccessDenial, getEventAccessDenial } from '../services/eventAccess';
+import { runSelfieMatch } from '../services/jobs';
+import { checkSelfie } from '../services/faceRecognition';
+import type { SelfieCheck } from '../services/faceRecognition';
+import SelfieFeedback from './SelfieFeedback';
+import LiveSelfieCamera from './LiveSelfieCamera';
+import type { LiveSelfie } from './LiveSelfieCamera';
+import { UserContext } from '../App';
+import { readAllPages, repositories } from '../repositories';
 
 interface UploadSelfieProps {
   setShowNavbar?: (show: boolean) => void;
@@ -16,7 +22,14 @@ interface UploadSelfieProps {
 const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(UserContext);
   const [selfie, setSelfie] = useState<File | null>(null);
+  // Set once the uploaded selfie passes the selfie check
+  const [selfieKey, setSelfieKey] = useState<string | null>(null);
+  const [selfieCheck, setSelfieCheck] = useState<SelfieCheck | null>(null);
+  // From the liveness check; not set for gallery photos, which only signed-in users may match
+  const [livenessToken, setLivenessToken] = useState<string | null>(null);
+  const [isCheckingSelfie, setIsCheckingSelfie] = useState(false);
   const [matchedImages, setMatchedImages] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -24,19 +37,12 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<string>('');
   const [eventCoverImage, setEventCoverImage] = useState<string | null>(null);
-  const [isCameraActive, setIsCameraActive] = useState(false);
-  const [videoRef, setVideoRef] = useState<HTMLVideoElement | null>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
 
-  // Helper function for building S3 paths
-  const getSharedEventPath = useCallback(
-    (eventId: string) => `events/shared/${eventId}`,
-    []
-  );
-
   useEffect(() => {
     const initializeComponent = async () => {
+      // The event the link asked for, once it was read
+      let requestedEventId = '';
       try {
         console.log('Initializing UploadSelfie component with URL:', window.location.href);
         
@@ -82,9 +88,10 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
         }
 
         console.log('Looking up event with ID:', urlEventId);
+        requestedEventId = urlEventId;
         
         // First try: Get event directly from DynamoDB
-        let event = await getEventById(urlEventId);
+        let event = await repositories.events.get(urlEventId);
         console.log('Direct event lookup result:', event ? 'Found' : 'Not found');
         
         // Second try: Check if event is associated with the current user
@@ -93,28 +100,16 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
           if (userEmail) {
             console.log('Event not found directly. Checking user associations for:', userEmail);
             
-            // Try to find the event in user's events
-            const userEvents = await getUserEvents(userEmail);
+            // Try to find the event among the ones the user organizes
+            const userEvents = await readAllPages(cursor =>
+              repositories.events.listByOrganizer(userEmail, { limit: 100, cursor })
+            );
             const userEvent = userEvents.find(e => e.id === urlEventId || e.eventId === urlEventId);
             if (userEvent) event = userEvent;
             
-            // Try to find the event where user is organizer
-            if (!event) {
-              const organizerEvents = await getEventsByOrganizerId(userEmail);
-              const organizerEvent = organizerEvents.find(e => e.id === urlEventId || e.eventId === urlEventId);
-              if (organizerEvent) event = organizerEvent;
-            }
-            
-            // Try to find the event where user is creator
-            if (!event) {
-              const creatorEvents = await getEventsByUserId(userEmail);
-              const creatorEvent = creatorEvents.find(e => e.id === urlEventId || e.eventId === urlEventId);
-              if (creatorEvent) event = creatorEvent;
-            }
-            
             // Try to look up user's created events from Users table
             if (!event) {
-              const user = await getUserByEmail(userEmail);
+              const user = await repositories.users.get(userEmail);
               if (user && user.createdEvents && Array.isArray(user.createdEvents)) {
                 if (user.createdEvents.includes(urlEventId)) {
                   console.log('Event found in user\'s createdEvents array');
@@ -173,7 +168,6 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
         try {
           localStorage.setItem('currentEventId', urlEventId);
           if (!localStorage.getItem('userEmail')) {
-            localStorage.setItem('sessionId', urlEventId);
             localStorage.setItem('isSharedAccess', 'true');
           }
         } catch (storageError) {
@@ -189,6 +183,17 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
         }
       } catch (error: any) {
         console.error('Initialization error:', error);
+        // The event's access policy keeps this guest out. The attendee
+        // dashboard asks for an event password.
+        const denial = getEventAccessDenial(error);
+        if (denial === 'EVENT_PASSWORD_REQUIRED') {
+          navigate(`/attendee-dashboard?eventId=${encodeURIComponent(requestedEventId)}`);
+          return;
+        }
+        if (denial) {
+          setUploadError(describeEventAccessDenial(denial));
+          return;
+        }
         setUploadError(error.message || 'Failed to initialize selfie upload');
         
         try {
@@ -211,22 +216,79 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
   // Fetch event cover image from S3
   const fetchEventCoverImage = useCallback(async (eventId: string) => {
     try {
-      const listCommand = new ListObjectsV2Command({
-        Bucket: S3_BUCKET_NAME,
-        Prefix: `events/shared/${eventId}/cover-`
-      });
-      const response = await s3Client.send(listCommand);
-      if (response.Contents && response.Contents.length > 0) {
-        const coverImageKey = response.Contents[0].Key;
-        if (coverImageKey) {
-          setEventCoverImage(`https://${S3_BUCKET_NAME}.s3.amazonaws.com/${coverImageKey}`);
-        }
+      const cover = await getEventCoverImage(eventId);
+      if (cover) {
+        setEventCoverImage(cover.url);
       }
     } catch (error) {
       console.error('Error fetching event cover image:', error);
     }
   }, []);
 
+  // Upload the selfie to the user's or guest's own selfie folder and return its S3 key
+  const uploadToS3 = useCallback(async (file: File, fileName: string) => {
+    try {
+      if (!file) throw new Error('No file selected for upload.');
+
+      console.log('Starting selfie upload:', {
+        fileName,
+        fileSize: file.size,
+        fileType: file.type
+      });
+
+      const attendeeId = localStorage.getItem('userEmail') || await startGuestSession();
+      const { key } = await uploadUserSelfie(attendeeId, file, fileName);
+      console.log('Upload completed successfully');
+      return key;
+    } catch (error: any) {
+      console.error('Error uploading to S3:', error);
+      const errorMessage = error.message || 'Unknown error occurred during upload';
+      throw new Error(`Failed to upload selfie: ${errorMessage}. Please try again.`);
+    }
+  }, []);
+
+  // Check the uploaded selfie is good enough to match with; matching stays
+  // blocked until one passes
+  const checkUploadedSelfie = useCallback(async (key: string) => {
+    setSelfieKey(null);
+    setSelfieCheck(null);
+    setIsCheckingSelfie(true);
+    try {
+      const check = await checkSelfie(key);
+      setSelfieCheck(check);
+      if (check.passed) {
+        setSelfieKey(key);
+      }
+    } finally {
+      setIsCheckingSelfie(false);
+    }
+  }, []);
+
+  // A photo from the gallery, which only signed-in users can match
+  const uploadAndCheckSelfie = useCallback(async (file: File) => {
+    setLivenessToken(null);
+    await checkUploadedSelfie(await uploadToS3(file, `selfie-${file.name}`));
+  }, [uploadToS3, checkUploadedSelfie]);
+
+  // Frames of the liveness check go to the user's or guest's own selfie
+  // folder, as the check only takes frames they uploaded themselves
+  const uploadLivenessFrame = useCallback(async (frame: File) =>
+    uploadUserSelfie(localStorage.getItem('userEmail') || await startGuestSession(), frame, frame.name), []);
+
+  // A selfie taken through the liveness check, already uploaded
+  const handleLiveSelfie = useCallback(async ({ file, upload, livenessToken }: LiveSelfie) => {
+    setUploadError(null);
+    setSelfie(file);
+    setPreviewUrl(URL.createObjectURL(file));
+    setLivenessToken(livenessToken);
+    try {
+      await checkUploadedSelfie(upload.key);
+    } catch (error) {
+      console.error('Error checking selfie:', error);
+      setUploadError(error instanceof Error ? error.message : 'Error checking your selfie. Please try again.');
+    }
+  }, [checkUploadedSelfie]);
+
   // Validate image file type and size
   const validateImage = useCallback((file: File) => {
     if (!file.type.match(/^image\/(jpeg|png)$/)) {
@@ -351,6 +413,8 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
           type: file.type,
           size: `${(file.size / (1024 * 1024)).toFixed(2)}MB`
         });
+
+        await uploadAndCheckSelfie(processedFile);
       } catch (error: any) {
         console.error('Error processing selfie:', error);
         setUploadError(error.message || 'Error processing selfie file');
@@ -361,150 +425,78 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
         }
       }
     }
-  }, [validateImage, previewUrl]);
+  }, [validateImage, previewUrl, uploadAndCheckSelfie]);
 
-  // Compare faces using Promise.all for concurrent processing
+  // Compare the uploaded selfie against the event's images on the server
   const compareFaces = useCallback(
-    async (selfieFileName: string) => {
+    async (selfieKey: string) => {
       try {
         const eventId = selectedEvent || localStorage.getItem('currentEventId');
         if (!eventId) throw new Error('Event ID is required for uploading a selfie.');
 
-        const sharedEventPath = getSharedEventPath(eventId);
-        const selfiePath = `${sharedEventPath}/selfies/${selfieFileName}`;
-        const imagesPath = `${sharedEventPath}/images/`;
-
-        console.log('Starting face comparison process:', {
-          eventId,
-          selfiePath,
-          imagesPath
-        });
+        console.log('Starting face comparison process:', { eventId, selfieKey });
 
-        // List all target images in S3
-        const listCommand = new ListObjectsV2Command({
-          Bucket: S3_BUCKET_NAME,
-          Prefix: imagesPath,
-          MaxKeys: 1000
+        const { matches, processedCount } = await runSelfieMatch(eventId, {
+          selfieKey,
+          livenessToken: livenessToken || undefined
         });
-
-        console.log('Fetching images from S3...');
-        const listResponse = await s3Client.send(listCommand);
-        if (!listResponse.Contents || listResponse.Contents.length === 0) {
+        if (processedCount === 0) {
           throw new Error('No images found in this event. Please ensure images are uploaded before attempting face comparison.');
         }
 
-        const uploadKeys = listResponse.Contents
-          .filter(item => item.Key && /\.(jpg|jpeg|png)$/i.test(item.Key))
-          .map(item => item.Key!);
-
-        if (uploadKeys.length === 0) {
-          throw new Error('No valid images found in this event. Please upload some JPEG or PNG images first.');
-        }
-
-        console.log(`Found ${uploadKeys.length} images to process`);
-
-        // Process images in smaller batches to prevent overwhelming the service
-        const batchSize = 10;
-        const results = [];
-
-        for (let i = 0; i < uploadKeys.length; i += batchSize) {
-          const batch = uploadKeys.slice(i, i + batchSize);
-          console.log(`Processing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(uploadKeys.length/batchSize)}`);
-
-          const batchPromises = batch.map(async (key) => {
-            try {
-              const compareCommand = new CompareFacesCommand({
-                SourceImage: {
-                  S3Object: { Bucket: S3_BUCKET_NAME, Name: selfiePath },
-                },
-                TargetImage: {
-                  S3Object: { Bucket: S3_BUCKET_NAME, Name: key },
-                },
-                SimilarityThreshold: 80,
-                QualityFilter: "HIGH"
-              });
-
-              const compareResponse = await Promise.race([
-                rekognitionClient.send(compareCommand),
-                new Promise((_, reject) => 
-                  setTimeout(() => reject(new Error('Face comparison timed out')), 30000)
-                )
-              ]) as { FaceMatches?: Array<{ Similarity?: number }> };
-
-              if (compareResponse.FaceMatches && compareResponse.FaceMatches.length > 0) {
-                const bestMatch = compareResponse.FaceMatches.reduce((prev: { Similarity?: number }, current: { Similarity?: number }) =>
-                  (prev.Similarity || 0) > (current.Similarity || 0) ? prev : current
-                );
-                console.log(`Found match in ${key} with similarity: ${bestMatch.Similarity}%`);
-                return { url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${key}`, similarity: bestMatch.Similarity || 0 };
-              }
-              return null;
-            } catch (error) {
-              console.error(`Error processing image ${key}:`, error);
-              return null;
-            }
-          });
-
-          const batchResults = await Promise.all(batchPromises);
-          results.push(...batchResults.filter(result => result !== null));
-
-          // Add a small delay between batches to prevent rate limiting
-          if (i + batchSize < uploadKeys.length) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        }
-
-        const matchedResults = results.filter(
-          (result): result is { url: string; similarity: number } =>
-            result !== null && result.similarity >= 70
-        );
-
-        const sortedMatches = matchedResults.sort((a, b) => b.similarity - a.similarity);
-
-        if (sortedMatches.length === 0) {
+        if (matches.length === 0) {
           throw new Error('No matching faces found in your uploaded images.');
         }
 
-        console.log(`Face comparison completed. Found ${sortedMatches.length} matches`);
+        console.log(`Face comparison completed. Found ${matches.length} matches`);
 
+        // Possible matches are left for the attendee to review on their dashboard
+        const confident = matches.filter(match => match.tier === 'confident');
         return {
-          matchedUrls: sortedMatches.map(match => match.url),
-          message: `Found ${sortedMatches.length} matches out of ${uploadKeys.length} images processed.`
+          matchedUrls: confident.map(match => match.url),
+          possibleCount: matches.length - confident.length,
+          message: `Found ${confident.length} matches and ${matches.length - confident.length} possible matches out of ${processedCount} images processed.`
         };
       } catch (error: any) {
         console.error('Error in face comparison process:', error);
         throw new Error(`Face comparison failed: ${error.message}. Please try again.`);
       }
     },
-    [selectedEvent, getSharedEventPath]
+    [selectedEvent, livenessToken]
   );
 
   // Clear the selected selfie and preview URL
   const clearSelfie = useCallback(() => {
     setSelfie(null);
+    setSelfieKey(null);
+    setSelfieCheck(null);
+    setLivenessToken(null);
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
     }
     setPreviewUrl(null);
   }, [previewUrl]);
 
-  // Upload selfie to S3 and then run face comparison
+  // Run face comparison with the selfie that passed the check
   const handleUpload = useCallback(async () => {
     if (!selfie) {
       setUploadError('Please select a selfie image first.');
       return;
     }
+    if (!selfieKey) {
+      setUploadError('Please retake your selfie following the tips below.');
+      return;
+    }
     setIsUploading(true);
     setUploadError(null);
     setMatchedImages([]);
 
     try {
-      // Generate a unique filename
-      const fileName = `selfie-${Date.now()}-${selfie.name}`;
-      await uploadToS3(selfie, fileName);
-      const result = await compareFaces(fileName);
+      const result = await compareFaces(selfieKey);
       if (result.matchedUrls && result.matchedUrls.length > 0) {
         setMatchedImages(result.matchedUrls);
+      } else if (result.possibleCount > 0) {
+        setUploadError(`We found ${result.possibleCount} photos that might be you. Check them in your dashboard.`);
       } else {
         setUploadError('No matching faces found in your uploaded images.');
       }
@@ -518,238 +510,20 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
     } finally {
       setIsUploading(false);
     }
-  }, [selfie, compareFaces]);
+  }, [selfie, selfieKey, compareFaces]);
 
-  // Upload file to S3 using AWS SDK's multipart upload
-  const uploadToS3 = useCallback(async (file: File, fileName: string) => {
-    try {
-      if (!selectedEvent) throw new Error('Event ID is required for uploading a selfie.');
-      if (!file) throw new Error('No file selected for upload.');
-      
-      const isSharedLink = !localStorage.getItem('userEmail');
-      const sessionId = localStorage.getItem('sessionId');
-      const folderPath = `${getSharedEventPath(selectedEvent)}/selfies/${fileName}`;
-      
-      console.log('Starting upload to S3:', {
-        fileName,
-        fileSize: file.size,
-        fileType: file.type,
-        folderPath
-      });
-
-      const uploadParams = {
-        Bucket: S3_BUCKET_NAME,
-        Key: folderPath,
-        Body: file,
-        ContentType: file.type,
-        Metadata: {
-          'event-id': selectedEvent,
-          'session-id': sessionId || '',
-          'upload-date': new Date().toISOString()
-        }
-      };
-
-      const uploadInstance = new Upload({
-        client: s3Client,
-        params: uploadParams,
-        partSize: 5 * 1024 * 1024,
-        leavePartsOnError: false,
-        queueSize: 4
-      });
-
-      uploadInstance.on('httpUploadProgress', (progress) => {
-        console.log('Upload progress:', {
-          loaded: progress.loaded,
-          total: progress.total
-        });
-      });
-
-      await uploadInstance.done();
-      console.log('Upload completed successfully');
-      return fileName;
-    } catch (error: any) {
-      console.error('Error uploading to S3:', error);
-      const errorMessage = error.message || 'Unknown error occurred during upload';
-      throw new Error(`Failed to upload selfie: ${errorMessage}. Please try again.`);
-    }
-  }, [selectedEvent, getSharedEventPath]);
-
-  // Download a single image given its URL
-  const handleDownload = useCallback(async (url: string) => {
-    try {
-      const response = await fetch(url, {
-        mode: 'cors',
-        headers: { 'Cache-Control': 'no-cache' }
-      });
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('image/')) {
-        throw new Error('Invalid image format received');
-      }
-      const blob = await response.blob();
-      const fileName = decodeURIComponent(url.split('/').pop() || 'image.jpg');
-      const link = document.createElement('a');
-      link.href = window.URL.createObjectURL(blob);
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(link.href);
-    } catch (error) {
-      console.error('Error downloading image:', error);
-      throw error;
-    }
-  }, []);
-
-  // Download all matched images sequentially with a small delay
+  // Download all matched images as a single ZIP built in the browser
   const handleDownloadAll = useCallback(async () => {
-    let successCount = 0;
-    const failedUrls: string[] = [];
-    for (const url of matchedImages) {
-      try {
-        await handleDownload(url);
-        successCount++;
-        await new Promise(resolve => setTimeout(resolve, 800));
-      } catch (error) {
-        console.error(`Failed to download image from ${url}:`, error);
-        failedUrls.push(url);
-      }
-    }
-    if (failedUrls.length === 0) {
-      alert(`Successfully downloaded all ${successCount} images!`);
-    } else {
-      alert(`Downloaded ${successCount} images. Failed to download ${failedUrls.length} images. Please try again later.`);
-    }
-  }, [matchedImages, handleDownload]);
-
-  const startCamera = async () => {
     try {
-      const videoStream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: 'user',
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        }
-      });
-      
-      setStream(videoStream);
-      setIsCameraActive(true);
-      
-      // Wait for the next render cycle to ensure video element exists
-      setTimeout(() => {
-        const videoElement = document.querySelector('video');
-        if (videoElement) {
-          videoElement.srcObject = videoStream;
-          videoElement.play().catch(console.error);
-          setVideoRef(videoElement);
-        }
-      }, 100);
-      
-    } catch (error) {
-      console.error('Error accessing camera:', error);
-      alert('Could not access camera. Please make sure you have granted camera permissions.');
-      setIsCameraActive(false);
-    }
-  };
-
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
-      setStream(null);
-    }
-    if (videoRef && videoRef.srcObject) {
-      const tracks = (videoRef.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
-      videoRef.srcObject = null;
-    }
-    setVideoRef(null);
-    setIsCameraActive(false);
-  };
-
-  const captureImage = async () => {
-    if (!videoRef || !stream) return;
-
-    try {
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.videoWidth;
-      canvas.height = videoRef.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Could not get canvas context');
-      ctx.drawImage(videoRef, 0, 0);
-      
-      const blob = await new Promise<Blob>((resolve) => {
-        canvas.toBlob((blob) => {
-          if (blob) resolve(blob);
-        }, 'image/jpeg', 0.8);
-      });
-      
-      const cameraFile = new File([blob], 'selfie.jpg', { type: 'image/jpeg' });
-      
-      // Process the captured image
-      setSelfie(cameraFile);
-      setPreviewUrl(URL.createObjectURL(cameraFile));
-      
-      // Stop camera and cleanup
-      stopCamera();
-      if (videoRef.srcObject) {
-        const tracks = (videoRef.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
-        videoRef.srcObject = null;
+      const result = await downloadFilesAsZip(matchedImages, 'Matched photos.zip');
+      if (result && result.failedUrls.length > 0) {
+        alert(`Downloaded ${result.fileCount} images. Failed to download ${result.failedUrls.length} images. Please try again later.`);
       }
-      setVideoRef(null);
-      setIsCameraActive(false);
-      
     } catch (error) {
-      console.error('Error capturing image:', error);
-      alert('Failed to capture image. Please try again.');
-      // Ensure camera is stopped even if capture fails
-      stopCamera();
+      console.error('Error downloading matched images:', error);
+      alert('Failed to download the images. Please try again later.');
     }
-  };
-
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (isCameraActive) {
-      stopCamera();
-    } else {
-      startCamera();
-    }
-  };
-
-  // Cleanup camera stream on component unmount and when navigating away
-  useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
-
-  // Add cleanup when component is hidden or user navigates away
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        stopCamera();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('beforeunload', stopCamera);
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('beforeunload', stopCamera);
-    };
-  }, []);
+  }, [matchedImages]);
 
   if (!isInitialized) {
     return (
@@ -801,61 +575,20 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
             )}
 
             <div className="space-y-4">
-              <div className="flex items-center justify-center w-full">
-                <button
-                  onClick={startCamera}
-                  disabled={isCameraActive}
-                  className={`w-full flex flex-col items-center px-4 py-6 rounded-lg border-2 ${
-                    isCameraActive 
-                    ? 'bg-gray-100 border-gray-300 cursor-not-allowed' 
-                    : 'bg-blue-100 border-turquoise border-dashed cursor-pointer hover:border-aquamarine hover:bg-champagne'
-                  } transition-colors duration-200`}
-                >
-                  <div className="flex flex-col items-center">
-                    <div className={`p-3 ${
-                      isCameraActive 
-                      ? 'text-gray-400' 
-                      : 'text-black-400'
-                    }`}>
-                      <Camera className={`w-8 h-8 ${isCameraActive ? 'text-gray-400' : 'text-black-400'}`} />
-                    </div>
-                    <div className={`mt-2 px-3 py-1 border-2 rounded-lg ${
-                      isCameraActive 
-                      ? 'border-gray-400 bg-gray-50' 
-                      : 'border-blue-500 bg-blue-50'
-                    }`}>
-                      <p className={`text-sm ${isCameraActive ? 'text-gray-500' : 'text-blue-500'}`}>
-                        <span className="font-semibold">
-                          {isCameraActive ? 'Camera is active' : 'Open camera'}
-                        </span>
-                      </p>
-                    </div>
-                    <p className={`text-xs mt-1 ${isCameraActive ? 'text-gray-500' : 'text-blue-500'}`}>
-                      {isCameraActive ? 'Use capture button below' : 'Click to start camera'}
-                    </p>
-                  </div>
-                </button>
-              </div>
-
-              {isCameraActive && (
-                <div className="relative w-full max-w-md mx-auto">
-                  <video
-                    autoPlay
-                    playsInline
-                    className="w-full rounded-lg border-4 border-blue-500"
-                    style={{ transform: 'scaleX(-1)' }} // Mirror the video feed
-                  />
-                  <button
-                    onClick={captureImage}
-                    className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-blue-500 text-white rounded-full p-2 sm:p-3 hover:bg-blue-600 transition-colors shadow-lg flex items-center gap-1 sm:gap-2 text-xs sm:text-sm"
-                  >
-                    <Camera className="w-4 h-4 sm:w-5 sm:h-5" />
-                    
-                  </button>
-                </div>
+              {!previewUrl && (
+                <>
+                  <LiveSelfieCamera uploadFrame={uploadLivenessFrame} onCaptured={handleLiveSelfie} />
+                  {user && (
+                    <label className="w-full flex items-center justify-center gap-2 py-2 px-4 border-2 border-dashed border-blue-300 rounded-lg text-sm text-blue-600 cursor-pointer hover:bg-blue-50 transition-colors">
+                      <ImageIcon className="w-4 h-4" />
+                      Or choose a photo of yourself from your gallery
+                      <input type="file" accept="image/jpeg,image/png" className="hidden" onChange={handleSelfieChange} />
+                    </label>
+                  )}
+                </>
               )}
 
-              {previewUrl && !isCameraActive && (
+              {previewUrl && (
                 <div className="relative w-32 h-32 mx-auto">
                   <img
                     src={previewUrl}
@@ -871,16 +604,25 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
                 </div>
               )}
 
+              {isCheckingSelfie && (
+                <p className="text-sm text-center text-gray-600">Checking your selfie...</p>
+              )}
+              {selfieCheck && <SelfieFeedback check={selfieCheck} />}
+
               <button
                 onClick={handleUpload}
-                disabled={isUploading || !selfie}
+                disabled={isUploading || !selfieKey}
                 className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium ${
-                  isUploading || !selfie 
+                  isUploading || !selfieKey 
                   ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                   : 'text-white bg-blue-500 hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
                 } transition-colors duration-200`}
               >
-                {isUploading ? 'Processing...' : !selfie ? 'Take a selfie first' : 'Upload Selfie'}
+                {isUploading ? 'Processing...'
+                  : isCheckingSelfie ? 'Checking selfie...'
+                  : !selfie ? 'Take a selfie first'
+                  : !selfieKey ? 'Retake your selfie'
+                  : 'Upload Selfie'}
               </button>
             </div>
 
@@ -900,7 +642,7 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
                           onClick={() => setSelectedImage(url)}
                         />
                         <button
-                          onClick={() => handleDownload(url)}
+                          onClick={() => downloadFile(url)}
                           className="absolute bottom-2 right-2 bg-white text-black rounded-full p-2 opacity-70 group-hover:opacity-100 transition-opacity"
                           title="Download image"
                         >
@@ -944,7 +686,7 @@ const UploadSelfie: React.FC<UploadSelfieProps> = ({ setShowNavbar }) => {
                     <X className="w-5 h-5 text-gray-600" />
                   </button>
                   <button
-                    onClick={() => handleDownload(selectedImage)}
+                    onClick={() => downloadFile(selectedImage)}
                     className="absolute bottom-6 right-6 p-3 rounded-full bg-blue-500 text-white hover:bg-blue-600 transition-colors duration-200 flex items-center gap-2 shadow-lg"
                   >
                     <Download className="w-6 h-6" />
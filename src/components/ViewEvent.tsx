@@ -1,17 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ListObjectsV2Command } from '@aws-sdk/client-s3';
-import { Upload } from '@aws-sdk/lib-storage';
-import { s3Client, S3_BUCKET_NAME, rekognitionClient } from '../config/aws';
 import { Camera, X, ArrowLeft, Download, Upload as UploadIcon, Copy } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
-import {
-  IndexFacesCommand,
-  SearchFacesCommand,
-  CreateCollectionCommand,
-  ListCollectionsCommand
-} from '@aws-sdk/client-rekognition';
 import { Link, useNavigate } from 'react-router-dom';
-import { getEventById } from '../config/eventStorage';
+import { downloadFile } from '../services/downloads';
+import { listEventImages, uploadEventImage } from '../services/media';
+import { getEventFaceGroups, FaceRecord } from '../services/faceRecognition';
+import { describeEventAccessDenial, getEventAccessDenial } from '../services/eventAccess';
 
 interface ViewEventProps {
   eventId: string;
@@ -24,11 +18,7 @@ interface EventImage {
   key: string;
 }
 
-interface FaceRecordWithImage {
-  faceId: string;
-  boundingBox?: { Left: number; Top: number; Width: number; Height: number };
-  image: EventImage;
-}
+type FaceRecordWithImage = FaceRecord;
 
 interface FaceGroups {
   [groupId: string]: FaceRecordWithImage[];
@@ -144,154 +134,23 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
     }
   };
 
-  // Ensure a Rekognition collection exists for this event.
-  const ensureCollection = async (collectionId: string) => {
-    try {
-      const listResponse = await rekognitionClient.send(new ListCollectionsCommand({}));
-      const collections = listResponse.CollectionIds || [];
-      if (!collections.includes(collectionId)) {
-        await rekognitionClient.send(new CreateCollectionCommand({ CollectionId: collectionId }));
-      }
-    } catch (error) {
-      console.error('Error ensuring collection:', error);
-    }
-  };
-
-  const handleDownload = useCallback(async (url: string) => {
-    try {
-      const response = await fetch(url, {
-        mode: 'cors',
-        headers: { 'Cache-Control': 'no-cache' }
-      });
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('image/')) {
-        throw new Error('Invalid image format received');
-      }
-      const blob = await response.blob();
-      const fileName = decodeURIComponent(url.split('/').pop() || 'image.jpg');
-      const link = document.createElement('a');
-      link.href = window.URL.createObjectURL(blob);
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(link.href);
-    } catch (error) {
-      console.error('Error downloading image:', error);
-      throw error;
-    }
-  }, []);
-
   /**
-   * detectAndGroupFaces: two-phase approach
-   *
-   * PHASE 1: Index each image. If multiple faces exist, Rekognition returns multiple FaceRecords.
-   *          We store them in "allFaceRecords".
-   *
-   * PHASE 2: For each faceRecord, call SearchFaces by faceId to see if it matches existing faces.
-   *          If matched, reuse groupId; if not, create a new groupId. Then build "faceGroups".
+   * detectAndGroupFaces: the server indexes every event image into the event's
+   * face collection and groups the resulting faces by person.
    */
-  const detectAndGroupFaces = async (imagesToProcess: EventImage[]) => {
-    const collectionId = eventId;
-    await ensureCollection(collectionId);
-
-    const tempFaceRecords: FaceRecordWithImage[] = [];
-
-    // PHASE 1: Index all images
-    await Promise.all(
-      imagesToProcess.map(async (image) => {
-        try {
-          const indexResponse = await rekognitionClient.send(
-            new IndexFacesCommand({
-              CollectionId: collectionId,
-              Image: {
-                S3Object: {
-                  Bucket: S3_BUCKET_NAME,
-                  Name: image.key
-                }
-              },
-              DetectionAttributes: [],
-              ExternalImageId: 'placeholder'
-            })
-          );
-
-          if (indexResponse.FaceRecords) {
-            for (const rec of indexResponse.FaceRecords) {
-              if (rec.Face?.FaceId) {
-                tempFaceRecords.push({
-                  faceId: rec.Face.FaceId,
-                  boundingBox: rec.Face.BoundingBox as {
-                    Left: number;
-                    Top: number;
-                    Width: number;
-                    Height: number;
-                  },
-                  image
-                });
-              }
-            }
-          }
-        } catch (error) {
-          console.error(`Error indexing image ${image.key}:`, error);
-        }
-      })
-    );
-
-    setAllFaceRecords(tempFaceRecords);
-
-    // PHASE 2: Search & group
-    const faceIdToGroupId: Record<string, string> = {};
-    let groupCount = 0;
-
-    await Promise.all(
-      tempFaceRecords.map(async (faceRec) => {
-        try {
-          const searchResponse = await rekognitionClient.send(
-            new SearchFacesCommand({
-              CollectionId: collectionId,
-              FaceId: faceRec.faceId,
-              MaxFaces: 5,
-              FaceMatchThreshold: 99
-            })
-          );
-          if (searchResponse.FaceMatches && searchResponse.FaceMatches.length > 0) {
-            const matchedGroupIds = searchResponse.FaceMatches
-              .map((m) => m.Face?.FaceId)
-              .filter((id): id is string => !!id)
-              .map((id) => faceIdToGroupId[id])
-              .filter((gid): gid is string => !!gid);
-
-            if (matchedGroupIds.length > 0) {
-              faceIdToGroupId[faceRec.faceId] = matchedGroupIds[0];
-            } else {
-              groupCount += 1;
-              faceIdToGroupId[faceRec.faceId] = `group_${groupCount}`;
-            }
-          } else {
-            groupCount += 1;
-            faceIdToGroupId[faceRec.faceId] = `group_${groupCount}`;
-          }
-        } catch (err) {
-          console.error(`SearchFaces error for faceId ${faceRec.faceId}:`, err);
-          groupCount += 1;
-          faceIdToGroupId[faceRec.faceId] = `group_${groupCount}`;
-        }
-      })
-    );
+  const detectAndGroupFaces = async () => {
+    try {
+      const groups = await getEventFaceGroups(eventId);
+      setAllFaceRecords(groups.flatMap(group => group.faces));
 
-    const newGroups: FaceGroups = {};
-    for (const faceRec of tempFaceRecords) {
-      const gid = faceIdToGroupId[faceRec.faceId];
-      if (!newGroups[gid]) {
-        newGroups[gid] = [];
+      const newGroups: FaceGroups = {};
+      for (const group of groups) {
+        newGroups[group.groupId] = group.faces;
       }
-      newGroups[gid].push(faceRec);
+      setFaceGroups(newGroups);
+    } catch (error) {
+      console.error('Error grouping faces:', error);
     }
-
-    setFaceGroups(newGroups);
   };
 
   useEffect(() => {
@@ -319,47 +178,27 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
   const fetchEventImages = async () => {
     try {
       const eventToUse = selectedEvent || eventId;
-      const prefixes = [`events/shared/${eventToUse}/images`];
-      let allImages: EventImage[] = [];
-      let fetchError: any = null;
-
-      for (const prefix of prefixes) {
-        try {
-          const listCommand = new ListObjectsV2Command({
-            Bucket: S3_BUCKET_NAME,
-            Prefix: prefix
-          });
-          const result = await s3Client.send(listCommand);
-          if (result.Contents) {
-            const imageItems = result.Contents
-              .filter((item) => item.Key && item.Key.match(/\.(jpg|jpeg|png)$/i))
-              .map((item) => ({
-                url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${item.Key}`,
-                key: item.Key || ''
-              }));
-            allImages = [...allImages, ...imageItems];
-          }
-        } catch (error) {
-          fetchError = error;
-          console.error(`Error fetching from path ${prefix}:`, error);
-          continue;
-        }
-      }
+      const items = await listEventImages(eventToUse);
+      const allImages: EventImage[] = items.map(({ url, key }) => ({ url, key }));
 
       if (allImages.length > 0) {
         // Deduplicate images based on the filename after the timestamp code
         const deduplicatedImages = deduplicateImages(allImages);
         setImages(deduplicatedImages);
-        await detectAndGroupFaces(deduplicatedImages);
+        await detectAndGroupFaces();
         setError(null);
-      } else if (fetchError) {
-        throw fetchError;
       } else {
         setError('No images found for this event.');
       }
     } catch (error: any) {
+      // Only organizers, and guests of public events, see the whole gallery
+      const denial = getEventAccessDenial(error);
+      if (denial === 'EVENT_PASSWORD_REQUIRED') {
+        navigate(`/attendee-dashboard?eventId=${encodeURIComponent(selectedEvent || eventId)}`);
+        return;
+      }
       console.error('Error fetching event images:', error);
-      setError(error.message);
+      setError(denial ? describeEventAccessDenial(denial) : error.message);
     } finally {
       setLoading(false);
     }
@@ -400,35 +239,7 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
       try {
         await Promise.all(
           files.map(async (file) => {
-            const key = `events/shared/${eventId}/images/${Date.now()}-${file.name}`;
-            const buffer = await file.arrayBuffer();
-            const uint8Array = new Uint8Array(buffer);
-
-            const upload = new Upload({
-              client: s3Client,
-              params: {
-                Bucket: S3_BUCKET_NAME,
-                Key: key,
-                Body: uint8Array,
-                ContentType: file.type,
-                Metadata: {
-                  'event-id': eventId,
-                  'session-id': localStorage.getItem('sessionId') || '',
-                  'upload-date': new Date().toISOString()
-                }
-              },
-              partSize: 5 * 1024 * 1024,
-              leavePartsOnError: false
-            });
-
-            upload.on('httpUploadProgress', (progress) => {
-              const percentage = Math.round(
-                ((progress.loaded || 0) * 100) / (progress.total || 1)
-              );
-              setUploadProgress(percentage);
-            });
-
-            await upload.done();
+            await uploadEventImage(eventId, file, file.name, setUploadProgress);
           })
         );
 
@@ -516,7 +327,7 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
             onClick={() => {
               images.forEach((image, index) => {
                 setTimeout(() => {
-                  handleDownload(image.url);
+                  downloadFile(image.url);
                 }, index * 500);
               });
             }}
@@ -615,7 +426,7 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    handleDownload(image.url);
+                    downloadFile(image.url);
                   }}
                   className="absolute top-2 right-2 p-1 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors duration-200"
                 >
@@ -663,7 +474,7 @@ const ViewEvent: React.FC<ViewEventProps> = ({ eventId, selectedEvent, onEventSe
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  handleDownload(selectedImage.url);
+                  downloadFile(selectedImage.url);
                 }}
                 className="absolute bottom-4 right-4 p-2 rounded-full bg-black/10 text-white hover:bg-black/70 transition-colors duration-200 flex items-center gap-2"
               >
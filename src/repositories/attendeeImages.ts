@@ -0,0 +1,60 @@
+import { apiRequest, segment } from '../services/api';
+import type { AttendeeImageRepository } from '../../shared/repositories';
+import type { AttendeeImageData, AttendeeStatistics } from '../../shared/types';
+
+export const apiAttendeeImageRepository: AttendeeImageRepository = {
+  async get(userId, eventId) {
+    const { record } = await apiRequest<{ record: AttendeeImageData | null }>(
+      `/api/attendee-images/${segment(userId)}/${segment(eventId)}`
+    );
+    return record;
+  },
+
+  async listByUser(userId) {
+    const { records } = await apiRequest<{ records: AttendeeImageData[] }>(
+      `/api/attendee-images?userId=${encodeURIComponent(userId)}`
+    );
+    return records;
+  },
+
+  async listByEvent(eventId) {
+    const { records } = await apiRequest<{ records: AttendeeImageData[] }>(
+      `/api/attendee-images?eventId=${encodeURIComponent(eventId)}`
+    );
+    return records;
+  },
+
+  async reviewMatch(userId, eventId, imageUrl, review) {
+    const { record } = await apiRequest<{ record: AttendeeImageData }>(
+      `/api/attendee-images/${segment(userId)}/${segment(eventId)}/reviews`,
+      { method: 'POST', body: { imageUrl, review } }
+    );
+    return record;
+  },
+
+  getStatistics(userId) {
+    return apiRequest<AttendeeStatistics>(`/api/attendee-images/statistics?userId=${encodeURIComponent(userId)}`);
+  },
+
+  async updateSelfie(userId, selfieURL, livenessToken) {
+    const { updated } = await apiRequest<{ updated: number }>(
+      `/api/attendee-images/${segment(userId)}/selfie`,
+      { method: 'PUT', body: { selfieURL, livenessToken } }
+    );
+    return updated;
+  },
+
+  async getDefaultSelfie(userId) {
+    const { selfieURL } = await apiRequest<{ selfieURL: string | null }>(
+      `/api/attendee-images/${segment(userId)}/default-selfie`
+    );
+    return selfieURL;
+  },
+
+  async setDefaultSelfie(userId, selfieURL) {
+    await apiRequest(`/api/attendee-images/${segment(userId)}/default-selfie`, {
+      method: 'PUT',
+      body: { selfieURL }
+    });
+  }
+};
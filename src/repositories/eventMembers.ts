@@ -0,0 +1,53 @@
+import { apiRequest, segment } from '../services/api';
+import type { EventMemberRepository } from '../../shared/repositories';
+import type { EventMember } from '../../shared/types';
+
+const memberPath = (eventId: string, email: string) =>
+  `/api/events/${segment(eventId)}/members/${segment(email)}`;
+
+export const apiEventMemberRepository: EventMemberRepository = {
+  async get(eventId, email) {
+    const { member } = await apiRequest<{ member: EventMember | null }>(memberPath(eventId, email));
+    return member;
+  },
+
+  async listByEvent(eventId) {
+    const { members } = await apiRequest<{ members: EventMember[] }>(`/api/events/${segment(eventId)}/members`);
+    return members;
+  },
+
+  async listByUser(email) {
+    const { members } = await apiRequest<{ members: EventMember[] }>(
+      `/api/event-members?email=${encodeURIComponent(email)}`
+    );
+    return members;
+  },
+
+  async invite(eventId, invitation) {
+    const { member } = await apiRequest<{ member: EventMember }>(
+      `/api/events/${segment(eventId)}/members`,
+      { method: 'POST', body: invitation }
+    );
+    return member;
+  },
+
+  async setRole(eventId, email, role) {
+    const { member } = await apiRequest<{ member: EventMember }>(memberPath(eventId, email), {
+      method: 'PATCH',
+      body: { role }
+    });
+    return member;
+  },
+
+  async accept(eventId, email) {
+    const { member } = await apiRequest<{ member: EventMember }>(
+      `${memberPath(eventId, email)}/accept`,
+      { method: 'POST' }
+    );
+    return member;
+  },
+
+  async remove(eventId, email) {
+    await apiRequest(memberPath(eventId, email), { method: 'DELETE' });
+  }
+};
@@ -0,0 +1,77 @@
+import { apiRequest, ApiError, segment } from '../services/api';
+import type { EventRepository } from '../../shared/repositories';
+import type { EventData, EventStatistics } from '../../shared/types';
+
+export const apiEventRepository: EventRepository = {
+  async create(event) {
+    const { event: created } = await apiRequest<{ event: EventData }>('/api/events', { method: 'POST', body: event });
+    return created;
+  },
+
+  async get(eventId, { includeDeleted = false } = {}) {
+    try {
+      const query = includeDeleted ? '?includeDeleted=true' : '';
+      const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}${query}`);
+      return event;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  async listByOrganizer(organizerId, { limit, cursor, status, deleted } = {}) {
+    const params = new URLSearchParams({ organizerId });
+    if (limit) params.set('limit', String(limit));
+    if (cursor) params.set('cursor', cursor);
+    if (status) params.set('status', status);
+    if (deleted) params.set('deleted', 'true');
+    const { events, nextCursor } = await apiRequest<{ events: EventData[]; nextCursor: string | null }>(
+      `/api/events?${params}`
+    );
+    return { items: events, nextCursor };
+  },
+
+  async update(eventId, userEmail, updates) {
+    await apiRequest(`/api/events/${segment(eventId)}`, { method: 'PATCH', body: { userEmail, updates } });
+  },
+
+  async setStatus(eventId, status) {
+    const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}/status`, {
+      method: 'POST',
+      body: { status }
+    });
+    return event;
+  },
+
+  async setAccess(eventId, access) {
+    const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}/access`, {
+      method: 'PUT',
+      body: access
+    });
+    return event;
+  },
+
+  async setMatchThresholds(eventId, thresholds) {
+    const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}/match-thresholds`, {
+      method: 'PUT',
+      body: thresholds
+    });
+    return event;
+  },
+
+  async delete(eventId) {
+    const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}`, { method: 'DELETE' });
+    return event;
+  },
+
+  async restore(eventId) {
+    const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}/restore`, {
+      method: 'POST'
+    });
+    return event;
+  },
+
+  getStatistics(userEmail) {
+    return apiRequest<EventStatistics>(`/api/events/statistics?userEmail=${encodeURIComponent(userEmail)}`);
+  }
+};
@@ -0,0 +1,37 @@
+import { apiUserRepository } from './users';
+import { apiEventRepository } from './events';
+import { apiAttendeeImageRepository } from './attendeeImages';
+import { apiEventMemberRepository } from './eventMembers';
+import type { Repositories } from '../../shared/repositories';
+
+export { readAllPages } from '../../shared/repositories';
+
+export type {
+  AttendeeImageRepository,
+  EventInvitation,
+  EventListRequest,
+  EventLookup,
+  EventMemberRepository,
+  EventRepository,
+  EventUpdates,
+  NewEvent,
+  Page,
+  PageRequest,
+  Repositories,
+  UserInput,
+  UserRepository
+} from '../../shared/repositories';
+
+// Components reach the data through this object rather than importing an
+// implementation, so tests can swap in in-memory repositories, e.g. the
+// server's repositories over a MemoryTableBackend.
+export const repositories: Repositories = {
+  users: apiUserRepository,
+  events: apiEventRepository,
+  attendeeImages: apiAttendeeImageRepository,
+  eventMembers: apiEventMemberRepository
+};
+
+export const setRepositories = (overrides: Partial<Repositories>) => {
+  Object.assign(repositories, overrides);
+};
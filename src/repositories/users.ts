@@ -0,0 +1,19 @@
+import { apiRequest, segment } from '../services/api';
+import type { UserRepository } from '../../shared/repositories';
+import type { UserCredentials } from '../../shared/types';
+
+export const apiUserRepository: UserRepository = {
+  async get(userId) {
+    const { user } = await apiRequest<{ user: UserCredentials | null }>(`/api/users/${segment(userId)}`);
+    return user;
+  },
+
+  async findByEmail(email) {
+    const { user } = await apiRequest<{ user: UserCredentials | null }>(`/api/users?email=${encodeURIComponent(email)}`);
+    return user;
+  },
+
+  async save(user) {
+    await apiRequest(`/api/users/${segment(user.userId)}`, { method: 'PUT', body: user });
+  }
+};
@@ -0,0 +1,116 @@
+import type { ApiErrorBody, PresignedUpload } from '../../shared/types';
+
+// Base URL of the ChitralAI API server. In development Vite proxies /api to it.
+export const API_BASE_URL = import.meta.env.VITE_API_URL || '';
+
+// Error thrown for any non-2xx API response
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Dispatched on window when a request finds the user's session has run out
+export const SESSION_EXPIRED_EVENT = 'chitralai:session-expired';
+
+const parseApiError = (status: number, body: string) => {
+  try {
+    const parsed = JSON.parse(body) as ApiErrorBody;
+    return new ApiError(status, parsed.error || `Request failed with status ${status}`, parsed.code);
+  } catch {
+    return new ApiError(status, `Request failed with status ${status}`);
+  }
+};
+
+export const toApiError = (status: number, body: string) => {
+  const error = parseApiError(status, body);
+  if (error.code === 'SESSION_EXPIRED') {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+  return error;
+};
+
+/**
+ * Sends a JSON request to the API and parses the JSON response
+ * @param path Path starting with /api
+ * @param options Method and optional JSON body
+ */
+export const apiRequest = async <T>(
+  path: string,
+  options: { method?: string; body?: unknown } = {}
+): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: options.method || 'GET',
+    credentials: 'include',
+    headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : {},
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw toApiError(response.status, text);
+  }
+  return (text ? JSON.parse(text) : {}) as T;
+};
+
+type ProgressCallback = (percentage: number) => void;
+
+// Send a file with XMLHttpRequest so callers can report upload progress,
+// which fetch does not expose. Resolves with the response body.
+const sendFile = (xhr: XMLHttpRequest, file: Blob, onProgress?: ProgressCallback): Promise<string> =>
+  new Promise((resolve, reject) => {
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded * 100) / event.total));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.responseText);
+      } else {
+        reject(toApiError(xhr.status, xhr.responseText));
+      }
+    };
+    xhr.onerror = () => reject(new ApiError(0, 'Network error while uploading file'));
+    xhr.send(file);
+  });
+
+/**
+ * Uploads a file to the API as the raw request body
+ * @param path Path starting with /api
+ * @param file The file or blob to upload
+ * @param options HTTP method and optional progress callback (0-100)
+ */
+export const apiUpload = async <T>(
+  path: string,
+  file: Blob,
+  options: { method?: 'POST' | 'PUT'; onProgress?: ProgressCallback } = {}
+): Promise<T> => {
+  const xhr = new XMLHttpRequest();
+  xhr.open(options.method || 'POST', `${API_BASE_URL}${path}`);
+  xhr.withCredentials = true;
+  xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+
+  return JSON.parse(await sendFile(xhr, file, options.onProgress)) as T;
+};
+
+/**
+ * PUTs a file straight to S3 using a presigned URL issued by the API
+ * @param upload The presigned upload returned by the API
+ * @param file The file or blob to upload; must match the signed size and type
+ * @param onProgress Optional progress callback (0-100)
+ */
+export const uploadToPresignedUrl = async (
+  upload: PresignedUpload,
+  file: Blob,
+  onProgress?: ProgressCallback
+): Promise<void> => {
+  const xhr = new XMLHttpRequest();
+  xhr.open('PUT', upload.uploadUrl);
+  Object.entries(upload.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+  await sendFile(xhr, file, onProgress);
+};
+
+// Encode a value for use as a single path segment
+export const segment = (value: string) => encodeURIComponent(value);
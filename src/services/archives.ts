@@ -0,0 +1,54 @@
+import { API_BASE_URL, apiRequest, segment, toApiError } from './api';
+import { saveBlob, saveFile } from './downloads';
+import type { ArchiveLink } from '../../shared/types';
+
+export type { ArchiveLink } from '../../shared/types';
+
+// Larger archives are handed to the browser's download manager, which can
+// pause and resume them, instead of being buffered in the page
+const IN_PAGE_DOWNLOAD_LIMIT = 500 * 1024 * 1024;
+
+type ProgressCallback = (percentage: number) => void;
+
+// Organizers only: a ZIP of every photo and video of the event
+export const createEventArchiveLink = (eventId: string) =>
+  apiRequest<ArchiveLink>(`/api/events/${segment(eventId)}/archive-links`, { method: 'POST' });
+
+// A ZIP of the user's matched photos, for one event or all of them
+export const createAttendeeArchiveLink = (userId: string, eventId?: string) =>
+  apiRequest<ArchiveLink>(`/api/attendee-images/${segment(userId)}/archive-links`, {
+    method: 'POST',
+    body: { eventId }
+  });
+
+/**
+ * Downloads an archive created by one of the link functions above
+ * @param link The archive link
+ * @param onProgress Called with the percentage received; not called for
+ * archives handed to the browser's download manager
+ */
+export const downloadArchive = async (link: ArchiveLink, onProgress?: ProgressCallback) => {
+  const url = `${API_BASE_URL}${link.path}`;
+  if (link.size > IN_PAGE_DOWNLOAD_LIMIT) {
+    saveFile(url, link.fileName);
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw toApiError(response.status, await response.text());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress?.(Math.round((received / link.size) * 100));
+  }
+
+  saveBlob(new Blob(chunks, { type: 'application/zip' }), link.fileName);
+};
@@ -0,0 +1,186 @@
+import { getDownloadUrl, getFileNameFromUrl } from './media';
+import { ZipWriter } from './zip';
+
+// Attendees with more matches than this get the server-built archive instead
+export const BROWSER_ZIP_MAX_FILES = 300;
+
+const MAX_ATTEMPTS = 3;
+// Delay before the first retry; doubles with every further attempt
+const RETRY_DELAY_MS = 500;
+
+type ProgressCallback = (percentage: number) => void;
+
+export interface ZipDownloadResult {
+  fileCount: number;
+  // URLs that still failed after every retry and are missing from the archive
+  failedUrls: string[];
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Client errors other than timeouts and throttling won't succeed on retry
+const isRetryable = (status: number) => status >= 500 || status === 408 || status === 429;
+
+class DownloadError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+// Fetch a file, retrying network errors and server failures with backoff
+const fetchFile = async (url: string): Promise<Blob> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(url, { mode: 'cors', headers: { 'Cache-Control': 'no-cache' } });
+      if (!response.ok) {
+        throw new DownloadError(`Failed to download ${getFileNameFromUrl(url)} (${response.status})`, isRetryable(response.status));
+      }
+      return await response.blob();
+    } catch (error) {
+      const retryable = !(error instanceof DownloadError) || error.retryable;
+      if (!retryable || attempt >= MAX_ATTEMPTS) throw error;
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+// Save a URL under the given name through a temporary link
+export const saveFile = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const objectUrl = URL.createObjectURL(blob);
+  saveFile(objectUrl, fileName);
+  // Some browsers start reading the blob only after the click handler returns
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+};
+
+/**
+ * Saves a single photo or video
+ * @param url Presigned URL of the file
+ */
+export const downloadFile = async (url: string) => {
+  try {
+    saveBlob(await fetchFile(url), getFileNameFromUrl(url));
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    // e.g. the viewing link expired: open a fresh download link instead
+    try {
+      window.open(await getDownloadUrl(url), '_blank');
+    } catch {
+      window.open(url, '_blank');
+    }
+  }
+};
+
+interface SaveTarget {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+// Chromium's File System Access API, not yet part of TypeScript's DOM types
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Stream straight to disk where the browser allows it. Elsewhere the parts are
+// collected in a Blob, which browsers can page out to disk.
+const openSaveTarget = async (fileName: string): Promise<SaveTarget> => {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+    });
+    const stream = await handle.createWritable();
+    return {
+      write: chunk => stream.write(chunk),
+      close: () => stream.close(),
+      abort: () => stream.abort()
+    };
+  }
+
+  let parts: Blob[] = [];
+  return {
+    write: async chunk => {
+      parts.push(new Blob([chunk]));
+    },
+    close: async () => saveBlob(new Blob(parts, { type: 'application/zip' }), fileName),
+    abort: async () => {
+      parts = [];
+    }
+  };
+};
+
+// Add ' (2)', ' (3)', ... before the extension of names already used
+const uniqueName = (name: string, used: Set<string>) => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Builds a ZIP of the given files in the browser, one file at a time, without
+ * involving the API server. Files that keep failing are left out and reported.
+ * Resolves with null when the user cancels the save dialog.
+ * @param urls Presigned URLs of the files
+ * @param zipName File name of the archive
+ * @param onProgress Called with the percentage of files processed
+ */
+export const downloadFilesAsZip = async (
+  urls: string[],
+  zipName: string,
+  onProgress?: ProgressCallback
+): Promise<ZipDownloadResult | null> => {
+  let target: SaveTarget;
+  try {
+    target = await openSaveTarget(zipName);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+  const writer = new ZipWriter(chunk => target.write(chunk));
+  const usedNames = new Set<string>();
+  const failedUrls: string[] = [];
+
+  try {
+    for (const [index, url] of urls.entries()) {
+      let data: Uint8Array | null = null;
+      try {
+        data = new Uint8Array(await (await fetchFile(url)).arrayBuffer());
+      } catch (error) {
+        console.error(`Error adding ${url} to the archive:`, error);
+        failedUrls.push(url);
+      }
+      if (data) {
+        await writer.add(uniqueName(getFileNameFromUrl(url), usedNames), data);
+      }
+      onProgress?.(Math.round(((index + 1) / urls.length) * 100));
+    }
+    if (failedUrls.length === urls.length) {
+      throw new Error('None of the files could be downloaded');
+    }
+    await writer.close();
+    await target.close();
+  } catch (error) {
+    await target.abort();
+    throw error;
+  }
+
+  return { fileCount: urls.length - failedUrls.length, failedUrls };
+};
@@ -0,0 +1,35 @@
+import { apiRequest, ApiError, segment } from './api';
+import type { EventData } from '../../shared/types';
+
+// Error codes the API uses when an event's access policy keeps a guest out
+export type EventAccessDenial =
+  | 'EVENT_PASSWORD_REQUIRED'
+  | 'UNAUTHENTICATED'
+  | 'NOT_INVITED'
+  | 'GALLERY_PRIVATE';
+
+const DENIAL_MESSAGES: Record<EventAccessDenial, string> = {
+  EVENT_PASSWORD_REQUIRED: 'This event is password protected. Enter the password from your invitation.',
+  UNAUTHENTICATED: 'This event is invite-only. Please sign in with the email or phone number you were invited with.',
+  NOT_INVITED: "You're not on the guest list for this event. Sign in with the email or phone number the organizer invited, or ask them to add yours.",
+  GALLERY_PRIVATE: "The organizer keeps this event's photos private. Upload a selfie to find the ones you're in."
+};
+
+// Which access rule turned the guest away, or null for any other error
+export const getEventAccessDenial = (error: unknown): EventAccessDenial | null =>
+  error instanceof ApiError && error.code && error.code in DENIAL_MESSAGES ? error.code as EventAccessDenial : null;
+
+export const describeEventAccessDenial = (denial: EventAccessDenial) => DENIAL_MESSAGES[denial];
+
+/**
+ * Sends the password of a password protected event. When it is right the
+ * API lets this browser into the event for 30 days.
+ * @returns The event; throws an ApiError with code WRONG_EVENT_PASSWORD otherwise
+ */
+export const unlockEvent = async (eventId: string, password: string): Promise<EventData> => {
+  const { event } = await apiRequest<{ event: EventData }>(`/api/events/${segment(eventId)}/unlock`, {
+    method: 'POST',
+    body: { password }
+  });
+  return event;
+};
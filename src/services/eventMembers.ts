@@ -0,0 +1,29 @@
+import { apiRequest } from './api';
+import { repositories } from '../repositories';
+import { getEventRole, isEventOwner } from '../../shared/eventRoles';
+import type { EventData, EventMember, EventRole } from '../../shared/types';
+
+export interface SharedEvents {
+  // Invitations and memberships of the user
+  members: EventMember[];
+  // The events they are for, without deleted ones
+  events: EventData[];
+}
+
+/**
+ * Events other organizers invited the user to, for the dashboard. Invitations
+ * still to be accepted are included.
+ */
+export const listSharedEvents = (email: string) =>
+  apiRequest<SharedEvents>(`/api/event-members?email=${encodeURIComponent(email)}`);
+
+/**
+ * The signed-in user's role for an event, to show only what the API allows
+ * @returns The role, or null for guests
+ */
+export const getMyEventRole = async (event: EventData): Promise<EventRole | null> => {
+  const email = localStorage.getItem('userEmail');
+  if (!email) return null;
+  if (isEventOwner(event, email)) return 'owner';
+  return getEventRole(event, email, await repositories.eventMembers.get(event.id, email));
+};
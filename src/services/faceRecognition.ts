@@ -1,33 +1,33 @@
-import { CompareFacesCommand } from '@aws-sdk/client-rekognition';
-import { S3_BUCKET_NAME, rekognitionClient } from '../config/aws';
+import { apiRequest, segment } from './api';
+import type { FaceGroup, SelfieCheck } from '../../shared/types';
+
+export type { FaceGroup, FaceMatch, FaceMatchResult, FaceRecord, SelfieCheck } from '../../shared/types';
 
 export const compareFaces = async (sourceUrl: string, targetUrl: string): Promise<boolean> => {
   try {
-    // Extract S3 keys from URLs
-    const s3BucketUrl = `https://${S3_BUCKET_NAME}.s3.amazonaws.com/`;
-    const sourcePath = sourceUrl.startsWith(s3BucketUrl) ? sourceUrl.substring(s3BucketUrl.length) : '';
-    const targetPath = targetUrl.startsWith(s3BucketUrl) ? targetUrl.substring(s3BucketUrl.length) : '';
-
-    if (!sourcePath || !targetPath) {
-      throw new Error('Invalid S3 URLs provided');
-    }
-
-    const compareCommand = new CompareFacesCommand({
-      SourceImage: {
-        S3Object: { Bucket: S3_BUCKET_NAME, Name: sourcePath },
-      },
-      TargetImage: {
-        S3Object: { Bucket: S3_BUCKET_NAME, Name: targetPath },
-      },
-      SimilarityThreshold: 80,
-      QualityFilter: "HIGH"
+    const { matched } = await apiRequest<{ matched: boolean }>('/api/faces/compare', {
+      method: 'POST',
+      body: { sourceUrl, targetUrl }
     });
-
-    const compareResponse = await rekognitionClient.send(compareCommand);
-
-    return !!(compareResponse.FaceMatches && compareResponse.FaceMatches.length > 0);
+    return matched;
   } catch (error) {
     console.error('Error comparing faces:', error);
     return false;
   }
-}; 
\ No newline at end of file
+};
+
+// Group the faces found in an event's photos by person
+export const getEventFaceGroups = async (eventId: string): Promise<FaceGroup[]> => {
+  const { groups } = await apiRequest<{ groups: FaceGroup[] }>(`/api/events/${segment(eventId)}/faces/groups`);
+  return groups;
+};
+
+// Whether an uploaded selfie is good enough to match with. Matching refuses
+// selfies that fail, so check first and show the guest what to change.
+export const checkSelfie = async (selfieKey: string): Promise<SelfieCheck> => {
+  const { check } = await apiRequest<{ check: SelfieCheck }>('/api/faces/selfie-checks', {
+    method: 'POST',
+    body: { selfieKey }
+  });
+  return check;
+};
@@ -0,0 +1,55 @@
+import { apiRequest, segment } from './api';
+import type { FaceMatchResult, Job, JobProgress, JobType } from '../../shared/types';
+
+export type { Job, JobProgress } from '../../shared/types';
+
+const POLL_INTERVAL_MS = 2000;
+
+export const getJob = async <T extends JobType>(jobId: string): Promise<Job<T>> => {
+  const { job } = await apiRequest<{ job: Job<T> }>(`/api/jobs/${segment(jobId)}`);
+  return job;
+};
+
+/**
+ * Polls a background job until it finishes
+ * @param jobId The job to wait for
+ * @param onProgress Called whenever the job reports progress
+ * @returns The finished job; throws if the job failed
+ */
+export const waitForJob = async <T extends JobType>(
+  jobId: string,
+  onProgress?: (progress: JobProgress) => void
+): Promise<Job<T>> => {
+  for (;;) {
+    const job = await getJob<T>(jobId);
+    if (job.progress) onProgress?.(job.progress);
+    if (job.status === 'succeeded') return job;
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Background job failed');
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+/**
+ * Matches a selfie against every photo of an event in a server-side job.
+ * For signed-in users the server also saves the matches to their attendee
+ * record, so nothing is lost if the tab is closed before the job finishes.
+ * @param eventId The event to search
+ * @param selfie The selfie's S3 key or bucket URL, and for guests the token
+ * from the liveness check it was taken with
+ * @param onProgress Called while the event's photos are being indexed
+ * @returns Matches sorted by similarity, best first
+ */
+export const runSelfieMatch = async (
+  eventId: string,
+  selfie: { selfieKey?: string; selfieUrl?: string; livenessToken?: string },
+  onProgress?: (progress: JobProgress) => void
+): Promise<FaceMatchResult> => {
+  const { job } = await apiRequest<{ job: Job<'match-selfie'> }>(`/api/events/${segment(eventId)}/match-jobs`, {
+    method: 'POST',
+    body: selfie
+  });
+  const finished = await waitForJob<'match-selfie'>(job.id, onProgress);
+  return finished.result || { matches: [], processedCount: 0 };
+};
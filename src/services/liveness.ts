@@ -0,0 +1,26 @@
+import { apiRequest } from './api';
+import type { LivenessChallenge } from '../../shared/types';
+
+// Guests can only match selfies taken through a live camera check: the API
+// server asks for a few random steps (turn your head, blink), checks a frame
+// of each, and vouches for the selfie taken after them.
+
+export const startLivenessChallenge = async (): Promise<LivenessChallenge> => {
+  const { challenge } = await apiRequest<{ challenge: LivenessChallenge }>('/api/liveness/challenges', { method: 'POST' });
+  return challenge;
+};
+
+/**
+ * Sends the frames taken for a challenge to be checked
+ * @param challengeId From startLivenessChallenge
+ * @param frameKeys S3 keys of one uploaded frame per step, in order
+ * @param selfieKey S3 key of the selfie taken after the last step
+ * @returns A token to pass with the selfie when matching it
+ */
+export const verifyLiveness = async (challengeId: string, frameKeys: string[], selfieKey: string): Promise<string> => {
+  const { livenessToken } = await apiRequest<{ livenessToken: string }>('/api/liveness/verifications', {
+    method: 'POST',
+    body: { challengeId, frameKeys, selfieKey }
+  });
+  return livenessToken;
+};
@@ -0,0 +1,43 @@
+import { repositories } from '../repositories';
+import type { NewEvent } from '../repositories';
+
+const LOCAL_EVENTS_KEY = 'local_events';
+
+/**
+ * Moves events saved in localStorage by older versions of the app into the
+ * Events table, where they get a new event code. The local copy is cleared
+ * once every event was stored.
+ * @param userEmail Only this user's local events are migrated
+ */
+export const migrateLocalEvents = async (userEmail: string): Promise<void> => {
+  const localEventsJson = localStorage.getItem(LOCAL_EVENTS_KEY);
+  if (!localEventsJson) return;
+
+  // The ids these events had locally were never known to the server
+  let localEvents: (NewEvent & { id?: string })[];
+  try {
+    localEvents = JSON.parse(localEventsJson);
+  } catch {
+    console.error('Ignoring unreadable local events');
+    return;
+  }
+  if (!Array.isArray(localEvents) || localEvents.length === 0) return;
+
+  const userEvents = localEvents.filter(event => event.userEmail === userEmail);
+  let successCount = 0;
+  for (const event of userEvents) {
+    try {
+      const { id, ...details } = event;
+      const created = await repositories.events.create(details);
+      console.log(`Migrated local event ${id} as ${created.id}`);
+      successCount++;
+    } catch (error) {
+      console.error(`Error migrating local event ${event.id}:`, error);
+    }
+  }
+
+  console.log(`Migrated ${successCount} of ${userEvents.length} local events`);
+  if (successCount === userEvents.length) {
+    localStorage.removeItem(LOCAL_EVENTS_KEY);
+  }
+};
@@ -0,0 +1,98 @@
+import { apiRequest, apiUpload, segment, uploadToPresignedUrl } from './api';
+import type { EventUploadKind, MediaItem, PresignedUpload, UploadResult } from '../../shared/types';
+
+export type { MediaItem, UploadResult } from '../../shared/types';
+
+type ProgressCallback = (percentage: number) => void;
+
+// Ask the API for a presigned PUT (organizers only), then send the file straight to S3
+const uploadEventFile = async (
+  eventId: string,
+  kind: EventUploadKind,
+  file: Blob,
+  fileName: string,
+  onProgress?: ProgressCallback
+): Promise<UploadResult> => {
+  const upload = await apiRequest<PresignedUpload>(`/api/events/${segment(eventId)}/uploads`, {
+    method: 'POST',
+    body: {
+      kind,
+      fileName,
+      contentType: file.type || 'application/octet-stream',
+      size: file.size
+    }
+  });
+  await uploadToPresignedUrl(upload, file, onProgress);
+
+  // Count the photo or video, and index a photo's faces so guests can find it straight away
+  if (kind !== 'cover') {
+    try {
+      await apiRequest(`/api/events/${segment(eventId)}/uploads/complete`, {
+        method: 'POST',
+        body: { key: upload.key }
+      });
+    } catch (error) {
+      // The file is stored; a photo gets indexed on the next face search instead
+      console.error('Error completing upload:', error);
+    }
+  }
+  return { key: upload.key, url: upload.url };
+};
+
+// List the photos uploaded to an event
+export const listEventImages = async (eventId: string): Promise<MediaItem[]> => {
+  const { items } = await apiRequest<{ items: MediaItem[] }>(`/api/events/${segment(eventId)}/images`);
+  return items;
+};
+
+// List the videos uploaded to an event
+export const listEventVideos = async (eventId: string): Promise<MediaItem[]> => {
+  const { items } = await apiRequest<{ items: MediaItem[] }>(`/api/events/${segment(eventId)}/videos`);
+  return items;
+};
+
+export const getEventCoverImage = async (eventId: string): Promise<MediaItem | null> => {
+  const { item } = await apiRequest<{ item: MediaItem | null }>(`/api/events/${segment(eventId)}/cover`);
+  return item;
+};
+
+export const uploadEventImage = (eventId: string, file: Blob, fileName: string, onProgress?: ProgressCallback) =>
+  uploadEventFile(eventId, 'images', file, fileName, onProgress);
+
+export const uploadEventVideo = (eventId: string, file: File, onProgress?: ProgressCallback) =>
+  uploadEventFile(eventId, 'videos', file, file.name, onProgress);
+
+export const uploadEventCover = (eventId: string, file: File) =>
+  uploadEventFile(eventId, 'cover', file, file.name);
+
+// Upload a user's own selfie, not tied to any event
+export const uploadUserSelfie = (userId: string, file: Blob, fileName: string) =>
+  apiUpload<UploadResult>(
+    `/api/users/${segment(userId)}/selfies?fileName=${encodeURIComponent(fileName)}`,
+    file
+  );
+
+export const deleteEventImage = async (eventId: string, key: string): Promise<void> => {
+  await apiRequest(`/api/events/${segment(eventId)}/images?key=${encodeURIComponent(key)}`, {
+    method: 'DELETE'
+  });
+};
+
+// File name of a media URL, ignoring any presigned query string
+export const getFileNameFromUrl = (url: string, fallback = 'image.jpg') => {
+  const name = url.split('?')[0].split('/').pop();
+  if (!name) return fallback;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+// Presigned URL that makes the browser save the file instead of displaying it
+export const getDownloadUrl = async (url: string): Promise<string> => {
+  const { url: downloadUrl } = await apiRequest<{ url: string }>(
+    `/api/media/download-url?url=${encodeURIComponent(url)}&fileName=${encodeURIComponent(getFileNameFromUrl(url))}`
+  );
+  return downloadUrl;
+};
@@ -0,0 +1,93 @@
+import { apiRequest, ApiError } from './api';
+import type { SessionUser, SignInMethod, SignInProof } from '../../shared/types';
+
+// The API server keeps the session in an HttpOnly cookie, which scripts cannot
+// read. The user is also cached in localStorage so the app can render signed
+// in before the session is confirmed; the API never trusts that copy.
+
+/**
+ * The user the API server has a session for
+ * @returns The user, or null when nobody is signed in or the session ran out
+ */
+export const fetchSession = async (): Promise<SessionUser | null> => {
+  try {
+    const { user } = await apiRequest<{ user: SessionUser }>('/api/session');
+    return user;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) return null;
+    throw error;
+  }
+};
+
+/**
+ * Exchanges proof of who the user is for a session: the credential from Sign
+ * in with Google, the token in an emailed link or a texted code. The API
+ * server checks it first.
+ * @returns The signed-in user
+ */
+export const signIn = async (proof: SignInProof): Promise<SessionUser> => {
+  const { user } = await apiRequest<{ user: SessionUser }>('/api/session', {
+    method: 'POST',
+    body: proof
+  });
+  return user;
+};
+
+/**
+ * Emails a sign-in link or texts a sign-in code
+ * @param method 'email' or 'phone'
+ * @param address The email address or phone number (with country code) as typed
+ * @returns The address it went to, as the server normalized it
+ */
+export const sendSignInChallenge = async (method: Exclude<SignInMethod, 'google'>, address: string) => {
+  const { sentTo } = await apiRequest<{ sentTo: string }>('/api/session/challenges', {
+    method: 'POST',
+    body: { method, address }
+  });
+  return sentTo;
+};
+
+export const signOut = async () => {
+  await apiRequest('/api/session', { method: 'DELETE' });
+};
+
+// Guests can find their photos before signing in. The API server keeps their
+// matches under a guest id held in a cookie, and moves them to their account
+// when they sign in on the same browser.
+
+// This browser's guest id, or null when it has not been given one
+export const fetchGuestId = async (): Promise<string | null> => {
+  const { guestId } = await apiRequest<{ guestId: string | null }>('/api/session/guest');
+  return guestId;
+};
+
+// This browser's guest id, giving it one if it has none yet
+export const startGuestSession = async (): Promise<string> => {
+  const { guestId } = await apiRequest<{ guestId: string }>('/api/session/guest', { method: 'POST' });
+  return guestId;
+};
+
+// The id this browser's attendee records are kept under: the signed-in
+// user's email, or else its guest id (null when it has neither)
+export const getAttendeeId = async (): Promise<string | null> =>
+  localStorage.getItem('userEmail') || fetchGuestId();
+
+// The user cached by cacheUser, if any
+export const readCachedUser = (): SessionUser | null => {
+  try {
+    const profile = JSON.parse(localStorage.getItem('userProfile') || 'null') as SessionUser | null;
+    return profile?.email && profile.email === localStorage.getItem('userEmail') ? profile : null;
+  } catch {
+    return null;
+  }
+};
+
+// Keeps the cached user in step with the session; null clears it
+export const cacheUser = (user: SessionUser | null) => {
+  if (user) {
+    localStorage.setItem('userEmail', user.email);
+    localStorage.setItem('userProfile', JSON.stringify(user));
+    return;
+  }
+  ['userEmail', 'userProfile', 'userMobile', 'googleToken'].forEach(key => localStorage.removeItem(key));
+};
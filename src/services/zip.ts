@@ -0,0 +1,139 @@
+// Minimal ZIP writer for building archives in the browser. Entries are stored
+// uncompressed (photos and videos are already compressed) and handed to the
+// sink one at a time, so memory use is bounded by the largest single file.
+// Larger exports go through the server archive, which also writes ZIP64.
+
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+// Limits of the classic (non-ZIP64) format
+const MAX_ZIP32_OFFSET = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+const VERSION = 20;
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields, in local time as ZIP tools expect
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: date.getFullYear() < 1980
+    ? (1 << 5) | 1
+    : ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const encoder = new TextEncoder();
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  constructor(private sink: ZipSink) {}
+
+  /**
+   * Appends a file to the archive
+   * @param name Path inside the archive, using '/' as separator
+   * @param data File contents
+   * @param modifiedAt Modification time shown by ZIP tools
+   */
+  async add(name: string, data: Uint8Array, modifiedAt = new Date()) {
+    const nameBytes = encoder.encode(name);
+    const headerSize = LOCAL_HEADER_SIZE + nameBytes.length;
+    if (this.entries.length >= MAX_ZIP32_ENTRIES || this.offset + headerSize + data.length > MAX_ZIP32_OFFSET) {
+      throw new Error('The archive is too large to build in the browser');
+    }
+
+    const entry: ZipEntry = {
+      name: nameBytes,
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+      ...dosDateTime(modifiedAt)
+    };
+    const header = new Uint8Array(headerSize);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, entry.time, true);
+    view.setUint16(12, entry.date, true);
+    view.setUint32(14, entry.crc, true);
+    view.setUint32(18, entry.size, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(nameBytes, LOCAL_HEADER_SIZE);
+
+    await this.sink(header);
+    await this.sink(data);
+    this.entries.push(entry);
+    this.offset += headerSize + data.length;
+  }
+
+  // Writes the central directory; the archive is complete afterwards
+  async close() {
+    const directorySize = this.entries.reduce((total, entry) => total + CENTRAL_HEADER_SIZE + entry.name.length, 0);
+    const directory = new Uint8Array(directorySize + END_OF_CENTRAL_DIRECTORY_SIZE);
+    const view = new DataView(directory.buffer);
+
+    let position = 0;
+    for (const entry of this.entries) {
+      view.setUint32(position, 0x02014b50, true);
+      view.setUint16(position + 4, VERSION, true);
+      view.setUint16(position + 6, VERSION, true);
+      view.setUint16(position + 8, UTF8_FLAG, true);
+      view.setUint16(position + 10, 0, true);
+      view.setUint16(position + 12, entry.time, true);
+      view.setUint16(position + 14, entry.date, true);
+      view.setUint32(position + 16, entry.crc, true);
+      view.setUint32(position + 20, entry.size, true);
+      view.setUint32(position + 24, entry.size, true);
+      view.setUint16(position + 28, entry.name.length, true);
+      // Extra field, comment, disk number and attributes stay zero
+      view.setUint32(position + 42, entry.offset, true);
+      directory.set(entry.name, position + CENTRAL_HEADER_SIZE);
+      position += CENTRAL_HEADER_SIZE + entry.name.length;
+    }
+
+    view.setUint32(position, 0x06054b50, true);
+    view.setUint16(position + 8, this.entries.length, true);
+    view.setUint16(position + 10, this.entries.length, true);
+    view.setUint32(position + 12, directorySize, true);
+    view.setUint32(position + 16, this.offset, true);
+
+    await this.sink(directory);
+  }
+}
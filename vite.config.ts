@@ -7,6 +7,12 @@ import rollupNodePolyFill from 'rollup-plugin-node-polyfills';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Forward API calls to the local API server (npm run server)
+    proxy: {
+      '/api': process.env.VITE_API_PROXY_TARGET || 'http://localhost:8787'
+    }
+  },
   resolve: {
     dedupe: ['react', 'react-dom'],
     alias: {